@@ -4,6 +4,8 @@ import "./src/env";
 const nextConfig: NextConfig = {
   /* config options here */
   transpilePackages: ["@t3-oss/env-nextjs", "@t3-oss/env-core"],
+  // Loads its WebAssembly module from its own directory, so it must not be bundled.
+  serverExternalPackages: ["re2-wasm"],
 };
 
 export default nextConfig;
@@ -0,0 +1,466 @@
+"use client";
+
+import { notFound, useParams, usePathname, useRouter, useSearchParams } from "next/navigation";
+import React from "react";
+import { useRepositoryFiles } from "../_hooks/useRepositoryFiles";
+import DirectoryView from "../_components/directory-view";
+import ExtensionSummaryView from "../_components/extension-summary-view";
+import RateLimitCountdown from "../_components/rate-limit-countdown";
+import RefPicker from "../_components/ref-picker";
+import MarkdownView from "../_components/markdown-view";
+import SearchView from "../_components/search-view";
+import FileFinder from "../_components/file-finder";
+import PathClassToggles from "../_components/path-class-toggles";
+import CrawlFilterForm from "../_components/crawl-filter-form";
+import TreemapView from "../_components/treemap-view";
+import TreeColumnHeader from "../_components/tree-column-header";
+import { useFileContent } from "../_hooks/useFileContent";
+import { useExplorerSettings } from "../_hooks/useExplorerSettings";
+import { findReadme } from "../_lib/markdown";
+import { countPathClasses, excludePathClasses, parseGitAttributes } from "../_lib/path-classes";
+import { getCrawlFilterQuery, parseCrawlFilters } from "../_lib/crawl-filters";
+import { CrawlFilters, PathClass } from "../_lib/types";
+import { buildFileTree, collectFolderPaths, compactTreePaths, createTreeFilter, filterFileTree } from "../_lib/tree-utils";
+import { formatFileSize } from "../_lib/file-utils";
+import { getBlobPath, getComparePath, getExplorerPath, getGitHubUrl, parseGitHubUrl } from "@/lib/github-url";
+import Link from "next/link";
+import { ArrowLeftIcon, BookOpenIcon, ChartBarDecreasingIcon, FolderIcon, GitCompareArrowsIcon, LayoutDashboardIcon, Loader2Icon, SearchIcon, TextSearchIcon } from "lucide-react";
+
+export default function RepositoryFilesPage() {
+  const params = useParams();
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const owner = params.owner as string;
+  const repo = params.repo as string;
+  const pathSegments = (params.path as string[] | undefined) ?? [];
+  // `/<owner>/<repo>/tree/<ref>/<path>` mirrors GitHub's own folder URLs.
+  const location = parseGitHubUrl(
+    `https://github.com/${owner}/${repo}/${pathSegments.map(segment => encodeURIComponent(segment)).join("/")}`
+  );
+  if (!location || (pathSegments.length > 0 && !location.ref)) {
+    notFound();
+  }
+  // The include, exclude and depth filters of the crawl live in the query, so that filtered views can be shared.
+  const crawlFilters = React.useMemo(() => parseCrawlFilters(searchParams), [searchParams]);
+  const crawlFilterQuery = getCrawlFilterQuery(crawlFilters);
+
+  const {
+    files,
+    submodules,
+    isLoading,
+    error,
+    totalFilesNum,
+    branchName,
+    refKind,
+    commitSha,
+    basePath,
+    expandedFolders,
+    toggleFolderExpansion,
+    expandFolders,
+    showFileTreeView,
+    setShowFileTreeView,
+    totalRepoSize,
+    currentStatus,
+    loadingProgress,
+    totalDirectories,
+    processedDirectories,
+    rateLimitResetAt,
+    excludedEntries,
+    fileCount,
+    repositoryUrl,
+  } = useRepositoryFiles(owner, repo, location.ref, location.path, crawlFilters);
+
+  const fileTree = React.useMemo(() => {
+    const initialTree = buildFileTree(files, submodules);
+    return compactTreePaths(initialTree);
+  }, [files, submodules]);
+
+  // Linguist attributes only come from the root .gitattributes; a crawled folder does not list it, so it is fetched by path.
+  const gitAttributes = React.useMemo(() => files.find(file => file.path === ".gitattributes") ?? null, [files]);
+  const { file: gitAttributesFile } = useFileContent(
+    owner,
+    repo,
+    isLoading ? null : gitAttributes ? { sha: gitAttributes.sha, path: gitAttributes.path } : basePath && commitSha ? { ref: `${commitSha}/.gitattributes` } : null
+  );
+  const attributeRules = React.useMemo(
+    () => gitAttributesFile?.content ? parseGitAttributes(gitAttributesFile.content) : [],
+    [gitAttributesFile]
+  );
+  const [excludedClasses, setExcludedClasses] = React.useState<PathClass[]>([]);
+  const pathClassCounts = React.useMemo(() => countPathClasses(files, attributeRules), [files, attributeRules]);
+  const visibleFiles = React.useMemo(
+    () => excludePathClasses(files, excludedClasses, attributeRules),
+    [files, excludedClasses, attributeRules]
+  );
+  const visibleTree = React.useMemo(
+    () => visibleFiles === files ? fileTree : compactTreePaths(buildFileTree(visibleFiles, submodules)),
+    [visibleFiles, files, fileTree, submodules]
+  );
+  const togglePathClass = (pathClass: PathClass) => {
+    setExcludedClasses(prev => prev.includes(pathClass) ? prev.filter(c => c !== pathClass) : [...prev, pathClass]);
+  };
+  const applyCrawlFilters = (filters: CrawlFilters) => {
+    router.push(`${pathname}${getCrawlFilterQuery(filters)}`);
+  };
+
+  const { sort, columns, toggleSort, toggleColumn } = useExplorerSettings();
+  const [treeFilter, setTreeFilter] = React.useState<string>("");
+  const [isFinderOpen, setIsFinderOpen] = React.useState<boolean>(false);
+  const filteredTree = React.useMemo(
+    () => treeFilter.trim() ? filterFileTree(visibleTree, createTreeFilter(treeFilter)) : visibleTree,
+    [visibleTree, treeFilter]
+  );
+
+  // Filtering opens every folder that still holds a match, so that the matches show without expanding anything.
+  React.useEffect(() => {
+    if (treeFilter.trim()) {
+      expandFolders(collectFolderPaths(filteredTree));
+    }
+  }, [treeFilter, filteredTree, expandFolders]);
+
+  // `t` opens the file finder, as on GitHub, unless it is typed into a field.
+  React.useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (event.key !== "t" || event.ctrlKey || event.metaKey || event.altKey ||
+        target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) {
+        return;
+      }
+      event.preventDefault();
+      setIsFinderOpen(true);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const readme = React.useMemo(() => findReadme(files, basePath), [files, basePath]);
+  const { file: readmeFile, isLoading: isReadmeLoading, error: readmeError } = useFileContent(
+    owner,
+    repo,
+    readme ? { sha: readme.sha, path: readme.path } : null
+  );
+  // The README, treemap and search tabs are kept here; the summary and files tabs come from the crawl hook.
+  // The README opens first when the folder has one, until another tab is picked.
+  const [pageTab, setPageTab] = React.useState<"readme" | "treemap" | "search" | null>("readme");
+  const isReadmeTab = pageTab === "readme" && readme !== null;
+  const isTreemapTab = pageTab === "treemap";
+  const isSearchTab = pageTab === "search";
+  const isCrawlTab = !isReadmeTab && !isTreemapTab && !isSearchTab;
+
+  if (isLoading && fileTree.length === 0 && !error) {
+    return (
+      <div className="min-h-screen w-full bg-slate-900">
+        <main className="flex flex-col items-center justify-center min-h-screen p-6">
+          <div className="text-center">
+            <Loader2Icon className="animate-spin h-10 w-10 text-blue-500 mx-auto mb-4" />
+            <p className="text-xl font-semibold text-white">
+              Fetching repository files for {owner}/{repo}{basePath ? `/${basePath}` : ""}...
+            </p>
+            <p className="text-gray-400 mt-2 max-h-16 overflow-y-auto overflow-x-hidden text-sm break-all">{currentStatus}</p>
+            
+            <div className="mt-4 text-blue-400">
+              <p className="text-md">
+                {fileCount || 0} files found so far
+              </p>
+            </div>
+            <div className="mt-4 w-72 mx-auto">
+              <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+                <div className="h-full bg-blue-500 transition-all" style={{ width: `${loadingProgress}%` }} />
+              </div>
+              {totalDirectories > 0 && (
+                <p className="text-xs text-gray-500 mt-1">{processedDirectories} of {totalDirectories} directories</p>
+              )}
+            </div>
+            {rateLimitResetAt !== null && <RateLimitCountdown resetAt={rateLimitResetAt} />}
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen w-full bg-slate-900">
+        <main className="flex flex-col items-center justify-center min-h-screen p-6">
+          <div className="bg-red-100 dark:bg-red-900 border border-red-400 dark:border-red-700 text-red-700 dark:text-red-200 px-6 py-4 rounded-lg shadow-md max-w-lg text-center">
+            <h2 className="text-2xl font-bold mb-2">Error</h2>
+            <p className="text-lg">{error}</p>
+            <Link href="/" className="mt-4 inline-block bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded transition duration-150">
+              Try another repository
+            </Link>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen w-full bg-slate-900">
+      <main className="container mx-auto p-4 sm:p-6 lg:p-8 text-white">
+        <header className="mb-6">
+          <Link href="/" className="text-blue-500 flex items-center hover:text-blue-700 hover:underline transition duration-150"> 
+          <ArrowLeftIcon className="w-5 h-5 mr-1" />
+          Search Again</Link>
+          <div className="mt-2 flex flex-col sm:flex-row sm:items-center sm:justify-between">
+            <div className="text-white">
+              <a href={repositoryUrl} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline text-3xl font-bold">
+                {owner} / {repo}
+              </a>
+              {basePath && (
+                <div className="flex items-center gap-2 mt-1 text-gray-300">
+                  <FolderIcon className="w-4 h-4" />
+                  <span className="text-lg break-all">{basePath}</span>
+                  <Link href={`${getExplorerPath({ owner, repo, ref: branchName })}${crawlFilterQuery}`} className="text-sm text-blue-400 hover:underline">
+                    Show whole repository
+                  </Link>
+                </div>
+              )}
+              <div className="flex items-center gap-2">
+                <div className="flex items-center mt-2 hover:bg-slate-800 h-8 border border-slate-700 rounded-md w-fit px-6">
+                  {totalFilesNum} files
+                </div>
+                <RefPicker
+                  owner={owner}
+                  repo={repo}
+                  kind={refKind}
+                  name={branchName}
+                  commitSha={commitSha}
+                  onSelect={(ref) => router.push(`${getExplorerPath({ owner, repo, ref, path: basePath || undefined })}${crawlFilterQuery}`)}
+                />
+                {files.length > 0 && (
+                  <button
+                    onClick={() => setIsFinderOpen(true)}
+                    className="flex items-center mt-2 h-8 border border-slate-700 hover:bg-slate-800 rounded-md w-fit px-4 text-sm"
+                    title="Go to file (t)"
+                  >
+                    <TextSearchIcon className="w-4 h-4 mr-2" />
+                    Go to file
+                  </button>
+                )}
+                {branchName && (
+                  <Link
+                    href={getComparePath(owner, repo, { base: branchName, head: branchName })}
+                    className="flex items-center mt-2 h-8 border border-slate-700 hover:bg-slate-800 rounded-md w-fit px-4 text-sm"
+                  >
+                    <GitCompareArrowsIcon className="w-4 h-4 mr-2" />
+                    Compare
+                  </Link>
+                )}
+              </div>
+              <CrawlFilterForm filters={crawlFilters} excludedEntries={excludedEntries} onApply={applyCrawlFilters} />
+            </div>
+          </div>
+        </header>
+
+        {fileTree.length > 0 && (
+          <div className="mb-6 border-b border-gray-700">
+            <nav className="-mb-px flex justify-start" aria-label="Tabs">
+              {readme && (
+                <button
+                  onClick={() => setPageTab("readme")}
+                  className={`
+                    py-3 px-3 w-36 border-b-2 flex items-center font-medium text-sm
+                    ${isReadmeTab
+                      ? 'border-blue-500 text-blue-400'
+                      : 'border-transparent text-gray-500 hover:text-blue-400 hover:border-blue-300'}
+                  `}
+                >
+                  <BookOpenIcon className="w-5 h-5 mr-2" />
+                  README
+                </button>
+              )}
+              <button
+                onClick={() => {
+                  setPageTab(null);
+                  setShowFileTreeView(false);
+                }}
+                className={`
+                  py-3 px-3 w-36 border-b-2 flex items-center font-medium text-sm
+                  ${isCrawlTab && !showFileTreeView
+                    ? 'border-blue-500 text-blue-400'
+                    : 'border-transparent text-gray-500 hover:text-blue-400 hover:border-blue-300'}
+                `}
+              >
+                <ChartBarDecreasingIcon className="w-5 h-5 mr-2" />
+                Summary
+              </button>
+              <button
+                onClick={() => {
+                  setPageTab(null);
+                  setShowFileTreeView(true);
+                }}
+                className={`
+                  py-3 px-3 border-b-2 w-36 flex items-center font-medium text-sm
+                  ${isCrawlTab && showFileTreeView
+                    ? 'border-blue-500 text-blue-400'
+                    : 'border-transparent text-gray-500 hover:text-blue-400 hover:border-blue-300'}
+                `}
+              >
+                <FolderIcon className="w-5 h-5 mr-2" />
+                Files
+              </button>
+              <button
+                onClick={() => setPageTab("treemap")}
+                className={`
+                  py-3 px-3 border-b-2 w-36 flex items-center font-medium text-sm
+                  ${isTreemapTab
+                    ? 'border-blue-500 text-blue-400'
+                    : 'border-transparent text-gray-500 hover:text-blue-400 hover:border-blue-300'}
+                `}
+              >
+                <LayoutDashboardIcon className="w-5 h-5 mr-2" />
+                Treemap
+              </button>
+              <button
+                onClick={() => setPageTab("search")}
+                className={`
+                  py-3 px-3 border-b-2 w-36 flex items-center font-medium text-sm
+                  ${isSearchTab
+                    ? 'border-blue-500 text-blue-400'
+                    : 'border-transparent text-gray-500 hover:text-blue-400 hover:border-blue-300'}
+                `}
+              >
+                <SearchIcon className="w-5 h-5 mr-2" />
+                Search
+              </button>
+            </nav>
+          </div>
+        )}
+
+        {!isLoading && fileTree.length === 0 && (
+          <div className="text-center py-10">
+            <p className="text-xl text-gray-400">No files found in this repository, or the repository is empty.</p>
+            <p className="mt-2 text-gray-400">If you believe this is an error, please double-check the repository URL and try again.</p>
+          </div>
+        )}
+
+        <div className="relative">
+          {isLoading && fileTree.length > 0 && (
+            <div className="bg-gray-800 rounded-lg p-4 shadow-xl flex items-center mb-4 border border-gray-700">
+              <div className="text-blue-400 mr-4">
+                <Loader2Icon className="animate-spin w-8 h-8" />
+              </div>
+              <div className="flex-1">
+                <p className="font-semibold text-white">Loading repository data...</p>
+                <p className="text-sm text-gray-400 max-h-12 overflow-y-auto overflow-x-hidden break-all">{currentStatus}</p>
+                <div className="mt-2 h-1.5 bg-slate-700 rounded-full overflow-hidden">
+                  <div className="h-full bg-blue-500 transition-all" style={{ width: `${loadingProgress}%` }} />
+                </div>
+              </div>
+              <div className="text-blue-400 ml-4">
+                <p className="text-md">{fileCount || 0} files found so far</p>
+              </div>
+            </div>
+          )}
+          {isLoading && fileTree.length > 0 && rateLimitResetAt !== null && (
+            <div className="mb-4">
+              <RateLimitCountdown resetAt={rateLimitResetAt} />
+            </div>
+          )}
+
+          {/* Kept mounted while other tabs are shown, so that switching tabs does not lose the results. */}
+          {fileTree.length > 0 && branchName && (
+            <div className="max-h-[65vh] overflow-auto" hidden={!isSearchTab}>
+              <SearchView
+                owner={owner}
+                repo={repo}
+                gitRef={branchName}
+                searchUrl={getGitHubUrl({ owner, repo, ref: branchName, path: basePath || undefined })}
+              />
+            </div>
+          )}
+
+          {fileTree.length > 0 && (isCrawlTab || isTreemapTab) && (
+            <PathClassToggles counts={pathClassCounts} excludedClasses={excludedClasses} onToggle={togglePathClass} />
+          )}
+
+          {fileTree.length > 0 && !isSearchTab && (
+            <div className="max-h-[65vh] overflow-auto">
+              {isReadmeTab ? (
+                <div className="shadow-lg rounded-lg border border-gray-700 bg-gray-800">
+                  <div className="flex items-center py-3 px-4 bg-gray-700 border-b border-gray-600 text-sm font-semibold text-gray-300">
+                    <BookOpenIcon className="w-4 h-4 mr-2" />
+                    <Link href={getBlobPath(owner, repo, branchName, readme.path)} className="hover:text-blue-400 hover:underline">
+                      {readme.path}
+                    </Link>
+                  </div>
+                  {isReadmeLoading ? (
+                    <div className="flex justify-center py-10">
+                      <Loader2Icon className="animate-spin w-8 h-8 text-blue-400" />
+                    </div>
+                  ) : readmeError || readmeFile?.content == null ? (
+                    <p className="text-center text-gray-400 py-10">{readmeError ?? "This README is too large to display."}</p>
+                  ) : (
+                    <MarkdownView source={readmeFile.content} location={{ owner, repo, ref: branchName, filePath: readme.path }} />
+                  )}
+                </div>
+              ) : isTreemapTab ? (
+                <TreemapView
+                  nodes={visibleTree}
+                  branchName={branchName}
+                  getFileViewerPath={(currentBranch, filePath) => getBlobPath(owner, repo, currentBranch, filePath)}
+                  formatFileSize={formatFileSize}
+                />
+              ) : showFileTreeView ? (
+                <div className="shadow-lg rounded-lg overflow-hidden border border-gray-700 bg-gray-800">
+                  <div className="sticky top-0 z-10 bg-gray-700 border-b border-gray-600">
+                    <div className="flex items-center gap-2 px-4 pt-3">
+                      <input
+                        type="text"
+                        value={treeFilter}
+                        onChange={(event) => setTreeFilter(event.target.value)}
+                        placeholder="Filter files, e.g. config or src/**/*.test.ts"
+                        aria-label="Filter files"
+                        className="flex-grow h-8 px-3 bg-slate-800 border border-slate-600 rounded-md text-sm focus:outline-none focus:border-blue-500"
+                      />
+                      {(["mode", "sha"] as const).map(column => (
+                        <button
+                          key={column}
+                          onClick={() => toggleColumn(column)}
+                          aria-pressed={columns.includes(column)}
+                          title={`${columns.includes(column) ? "Hide" : "Show"} the ${column === "sha" ? "blob SHA" : "mode"} column`}
+                          className={`h-8 px-3 border rounded-md text-xs uppercase ${columns.includes(column)
+                            ? "border-blue-500 bg-blue-500/20 text-blue-300"
+                            : "border-slate-600 text-gray-400 hover:bg-slate-800"}`}
+                        >
+                          {column}
+                        </button>
+                      ))}
+                    </div>
+                    <TreeColumnHeader sort={sort} columns={columns} onSort={toggleSort} />
+                  </div>
+                  {filteredTree.length === 0 && (
+                    <p className="text-center text-gray-400 py-10">No files match the filter.</p>
+                  )}
+                  <div className="overflow-y-auto">
+                    <DirectoryView
+                      nodes={filteredTree}
+                      depth={0}
+                      branchName={branchName}
+                      getFileViewerPath={(currentBranch, filePath) => getBlobPath(owner, repo, currentBranch, filePath)}
+                      formatFileSize={formatFileSize}
+                      expandedFolders={expandedFolders}
+                      toggleFolderExpansion={toggleFolderExpansion}
+                      sort={sort}
+                      columns={columns}
+                    />
+                  </div>
+                </div>
+              ) : (
+                <ExtensionSummaryView files={visibleFiles} totalRepoSize={totalRepoSize} />
+              )}
+            </div>
+          )}
+        </div>
+        {isFinderOpen && (
+          <FileFinder
+            files={files}
+            onSelect={(file) => router.push(getBlobPath(owner, repo, branchName, file.path))}
+            onClose={() => setIsFinderOpen(false)}
+          />
+        )}
+      </main>
+    </div>
+  );
+} 
\ No newline at end of file
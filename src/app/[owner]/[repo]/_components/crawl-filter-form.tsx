@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { FilterIcon } from 'lucide-react';
+import { hasCrawlFilters, splitGlobs } from '../_lib/crawl-filters';
+import { CrawlFilterFormProps } from '../_lib/types';
+
+const CrawlFilterForm: React.FC<CrawlFilterFormProps> = ({ filters, excludedEntries, onApply }) => {
+  const isFiltered = hasCrawlFilters(filters);
+  const [isOpen, setIsOpen] = useState<boolean>(isFiltered);
+  const [include, setInclude] = useState<string>('');
+  const [exclude, setExclude] = useState<string>('');
+  const [maxDepth, setMaxDepth] = useState<string>('');
+
+  // The fields follow the URL, which also changes on back and forward navigation.
+  useEffect(() => {
+    setInclude(filters.include.join(', '));
+    setExclude(filters.exclude.join(', '));
+    setMaxDepth(filters.max_depth?.toString() ?? '');
+  }, [filters]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const depth = maxDepth.trim();
+    onApply({
+      include: splitGlobs(include),
+      exclude: splitGlobs(exclude),
+      ...(/^\d+$/.test(depth) ? { max_depth: Number(depth) } : {}),
+    });
+  };
+
+  const inputClassName = 'h-8 px-3 bg-slate-800 border border-slate-600 rounded-md text-sm focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="mt-3 text-sm">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        className={`flex items-center gap-1 hover:text-blue-400 ${isFiltered ? 'text-blue-300' : 'text-gray-400'}`}
+      >
+        <FilterIcon className="w-4 h-4" />
+        Crawl filters
+        {isFiltered && excludedEntries !== null && (
+          <span className="text-gray-400">· {excludedEntries} {excludedEntries === 1 ? 'entry' : 'entries'} left out</span>
+        )}
+      </button>
+      {isOpen && (
+        <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-2 mt-2">
+          <label className="flex flex-col gap-1 text-xs text-gray-400">
+            Include
+            <input
+              type="text"
+              value={include}
+              onChange={(event) => setInclude(event.target.value)}
+              placeholder="e.g. src/**, *.ts"
+              className={inputClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-gray-400">
+            Exclude
+            <input
+              type="text"
+              value={exclude}
+              onChange={(event) => setExclude(event.target.value)}
+              placeholder="e.g. node_modules/, dist/"
+              className={inputClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-gray-400">
+            Max depth
+            <input
+              type="number"
+              min={0}
+              value={maxDepth}
+              onChange={(event) => setMaxDepth(event.target.value)}
+              placeholder="Any"
+              className={`${inputClassName} w-24`}
+            />
+          </label>
+          <button type="submit" className="h-8 px-4 rounded-md bg-blue-600 hover:bg-blue-500 text-white">
+            Crawl again
+          </button>
+          {isFiltered && (
+            <button
+              type="button"
+              onClick={() => onApply({ include: [], exclude: [] })}
+              className="h-8 px-4 rounded-md border border-slate-600 text-gray-300 hover:bg-slate-800"
+            >
+              Clear
+            </button>
+          )}
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default CrawlFilterForm;
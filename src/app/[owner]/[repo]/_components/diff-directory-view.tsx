@@ -0,0 +1,114 @@
+import React from 'react';
+import { DiffDirectoryViewProps, DiffStatus, DiffTreeNode } from '../_lib/types';
+import { formatSizeDelta } from '../_lib/file-utils';
+
+const STATUS_BADGES: Record<DiffStatus, { label: string; title: string; className: string }> = {
+  added: { label: 'A', title: 'Added', className: 'bg-green-900 text-green-300' },
+  removed: { label: 'D', title: 'Removed', className: 'bg-red-900 text-red-300' },
+  modified: { label: 'M', title: 'Modified', className: 'bg-yellow-900 text-yellow-300' },
+  renamed: { label: 'R', title: 'Renamed', className: 'bg-blue-900 text-blue-300' },
+};
+
+const sizeDeltaClassName = (sizeDelta: number): string => {
+  if (sizeDelta > 0) return 'text-green-400';
+  if (sizeDelta < 0) return 'text-red-400';
+  return 'text-gray-400';
+};
+
+const FolderChanges: React.FC<{ node: DiffTreeNode }> = ({ node }) => (
+  <span className="ml-3 flex gap-2 text-xs flex-shrink-0">
+    {node.changes.added > 0 && <span className="text-green-400">+{node.changes.added}</span>}
+    {node.changes.removed > 0 && <span className="text-red-400">−{node.changes.removed}</span>}
+    {node.changes.modified > 0 && <span className="text-yellow-400">~{node.changes.modified}</span>}
+    {node.changes.renamed > 0 && <span className="text-blue-400">→{node.changes.renamed}</span>}
+  </span>
+);
+
+const DiffDirectoryView: React.FC<DiffDirectoryViewProps> = ({
+  nodes,
+  depth,
+  baseRef,
+  headRef,
+  getGitHubFileUrl,
+  expandedFolders,
+  toggleFolderExpansion
+}) => {
+  const sortedNodes = [...nodes].sort((a, b) => {
+    if (a.type === 'folder' && b.type === 'file') return -1;
+    if (a.type === 'file' && b.type === 'folder') return 1;
+    return (a.displayPath).localeCompare(b.displayPath);
+  });
+
+  return (
+    <>
+      {sortedNodes.map(node => {
+        const isExpanded = node.type === 'folder' ? expandedFolders.has(node.path) : false;
+        const badge = node.diffItem ? STATUS_BADGES[node.diffItem.status] : null;
+        return (
+          <React.Fragment key={node.path}>
+            <button
+              type="button"
+              tabIndex={0}
+              className={`flex items-center py-2 border-b border-gray-700 hover:bg-gray-700 transition-colors duration-150 w-full text-left bg-transparent p-0 ${node.type === 'folder' ? 'cursor-pointer' : ''}`}
+              style={{ paddingLeft: `${depth * 20 + (node.type === 'folder' ? 0 : 24)}px` }}
+              onClick={() => {
+                if (node.type === 'folder') {
+                  toggleFolderExpansion(node.path);
+                } else if (node.diffItem) {
+                  // Removed files only exist in the base.
+                  const ref = node.diffItem.status === 'removed' ? baseRef : headRef;
+                  window.open(getGitHubFileUrl(ref, node.diffItem.path), '_blank');
+                }
+              }}
+            >
+              <div className="flex-grow w-4/5 truncate flex items-center">
+                {node.type === 'folder' && (
+                  <span className="mr-1 w-5 inline-block text-center text-gray-400 flex-shrink-0">
+                    {isExpanded ? '▾' : '▸'}
+                  </span>
+                )}
+                {badge && (
+                  <span
+                    className={`mr-2 w-5 inline-block text-center text-xs font-bold rounded flex-shrink-0 ${badge.className}`}
+                    title={badge.title}
+                  >
+                    {badge.label}
+                  </span>
+                )}
+                <span className={`mr-2 flex-shrink-0 ${node.type === 'folder' ? 'text-yellow-500' : 'text-blue-400'}`}>
+                  {node.type === 'folder' ? '📁' : '📄'}
+                </span>
+                <span
+                  className={`text-sm truncate ${node.diffItem?.status === 'removed' ? 'text-gray-500 line-through' : 'text-gray-200'}`}
+                  title={node.diffItem?.previous_path ? `${node.diffItem.previous_path} → ${node.diffItem.path}` : node.displayPath}
+                >
+                  {node.displayPath}
+                </span>
+                {node.diffItem?.previous_path && (
+                  <span className="ml-2 text-xs text-gray-500 truncate">from {node.diffItem.previous_path}</span>
+                )}
+                {node.type === 'folder' && <FolderChanges node={node} />}
+              </div>
+              <div className={`w-1/5 text-right text-xs pr-4 flex-shrink-0 ${sizeDeltaClassName(node.sizeDelta)}`}>
+                {formatSizeDelta(node.sizeDelta)}
+              </div>
+            </button>
+            {node.type === 'folder' && isExpanded && node.children && node.children.length > 0 && (
+              <DiffDirectoryView
+                nodes={node.children}
+                depth={depth + 1}
+                baseRef={baseRef}
+                headRef={headRef}
+                getGitHubFileUrl={getGitHubFileUrl}
+                expandedFolders={expandedFolders}
+                toggleFolderExpansion={toggleFolderExpansion}
+              />
+            )}
+          </React.Fragment>
+        );
+      })}
+    </>
+  );
+};
+
+export default DiffDirectoryView;
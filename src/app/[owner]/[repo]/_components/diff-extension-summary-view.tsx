@@ -0,0 +1,44 @@
+import React, { useMemo } from 'react';
+import { DiffExtensionSummaryViewProps } from '../_lib/types';
+import { formatSizeDelta } from '../_lib/file-utils';
+import { summarizeDiffByExtension } from '../_lib/diff-utils';
+
+const DiffExtensionSummaryView: React.FC<DiffExtensionSummaryViewProps> = ({ diffs }) => {
+  const summary = useMemo(() => summarizeDiffByExtension(diffs), [diffs]);
+
+  if (summary.length === 0) {
+    return <p className="text-center text-gray-400 py-8">No files changed between these refs.</p>;
+  }
+
+  const maxSizeDelta = Math.max(...summary.map(s => Math.abs(s.sizeDelta)), 0);
+
+  return (
+    <div className="bg-gray-800 shadow-lg rounded-lg p-6">
+      <ul className="space-y-3">
+        {summary.map(item => (
+          <li key={item.extension} className="border-b border-gray-700 pb-3 last:border-b-0">
+            <div className="flex justify-between items-center mb-1">
+              <span className="font-medium text-white w-1/3 truncate" title={item.extension}>
+                .{item.extension}
+              </span>
+              <span className="text-sm text-gray-400 w-1/3 text-center">
+                {item.changedFiles} changed files ({item.fileCountDelta > 0 ? '+' : ''}{item.fileCountDelta} files)
+              </span>
+              <span className={`text-sm w-1/3 text-right ${item.sizeDelta > 0 ? 'text-green-400' : item.sizeDelta < 0 ? 'text-red-400' : 'text-gray-400'}`}>
+                {formatSizeDelta(item.sizeDelta)}
+              </span>
+            </div>
+            <div className="h-3 bg-gray-700 rounded-full w-full overflow-hidden">
+              <div
+                className={`h-3 rounded-full transition-all duration-500 ease-out ${item.sizeDelta < 0 ? 'bg-red-500' : 'bg-green-500'}`}
+                style={{ width: `${maxSizeDelta > 0 ? (Math.abs(item.sizeDelta) / maxSizeDelta) * 100 : 0}%` }}
+              ></div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default DiffExtensionSummaryView;
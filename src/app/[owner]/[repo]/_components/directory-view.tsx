@@ -1,25 +1,133 @@
 import React from 'react';
-import { DirectoryViewProps } from '../_lib/types';
+import { useRouter } from 'next/navigation';
+import { DatabaseIcon, FolderGit2Icon, Link2Icon, TerminalIcon } from 'lucide-react';
+import SubmoduleTree from './submodule-tree';
+import { getFileExtension, getSubmoduleUrl } from '../_lib/file-utils';
+import { DEFAULT_TREE_SORT, getNodeSize, sortTreeNodes, TREE_COLUMN_CLASSES } from '../_lib/tree-utils';
+import { DirectoryViewProps, FileItem, TreeColumn, TreeNode } from '../_lib/types';
+
+const FileKindBadge: React.FC<{ file: FileItem }> = ({ file }) => {
+  const badgeClass = 'ml-2 inline-flex items-center text-xs rounded px-1 flex-shrink-0';
+  return (
+    <>
+      {file.kind === 'symlink' && (
+        <span className={`${badgeClass} bg-cyan-900 text-cyan-300`} title="Symbolic link">
+          <Link2Icon className="w-3 h-3 mr-1" />link
+        </span>
+      )}
+      {file.kind === 'executable' && (
+        <span className={`${badgeClass} bg-green-900 text-green-300`} title="Executable file">
+          <TerminalIcon className="w-3 h-3 mr-1" />exec
+        </span>
+      )}
+      {file.lfs && (
+        <span className={`${badgeClass} bg-orange-900 text-orange-300`} title={`Stored in Git LFS (sha256:${file.lfs.oid})`}>
+          <DatabaseIcon className="w-3 h-3 mr-1" />LFS
+        </span>
+      )}
+    </>
+  );
+};
+
+const SizeBar: React.FC<{ size: number; parentSize: number }> = ({ size, parentSize }) => (
+  <div className="h-1 mt-1 ml-auto w-full max-w-24 bg-gray-700 rounded-full overflow-hidden">
+    <div className="h-full bg-blue-500" style={{ width: `${parentSize > 0 ? (size / parentSize) * 100 : 0}%` }} />
+  </div>
+);
+
+// The extension, optional and file count columns between the name and the size.
+const ColumnCells: React.FC<{ node: TreeNode; columns: TreeColumn[] }> = ({ node, columns }) => {
+  const extension = node.type === 'file' ? getFileExtension(node.path) : '';
+  const mode = node.type === 'folder' ? '040000' : node.type === 'submodule' ? '160000' : node.fileItem?.mode;
+  const sha = node.fileItem?.sha ?? node.submoduleItem?.sha;
+  const cellClass = 'text-xs text-gray-400 font-mono truncate';
+  return (
+    <>
+      <div className={`${TREE_COLUMN_CLASSES.extension} ${cellClass}`}>{extension.startsWith('(') ? '' : `.${extension}`}</div>
+      {columns.includes('mode') && <div className={`${TREE_COLUMN_CLASSES.mode} ${cellClass}`}>{mode}</div>}
+      {columns.includes('sha') && <div className={`${TREE_COLUMN_CLASSES.sha} ${cellClass}`} title={sha}>{sha?.slice(0, 7)}</div>}
+      <div className={`${TREE_COLUMN_CLASSES.files} text-xs text-gray-400`}>{node.type === 'folder' ? node.stats?.fileCount : ''}</div>
+    </>
+  );
+};
+
+const SubmoduleRow: React.FC<{ node: TreeNode; depth: number; isExpanded: boolean; onToggle: () => void; columns: TreeColumn[] }> = ({
+  node,
+  depth,
+  isExpanded,
+  onToggle,
+  columns
+}) => {
+  const submodule = node.submoduleItem!;
+  const url = getSubmoduleUrl(submodule);
+  const title = submodule.url ? `Submodule ${submodule.url} at ${submodule.sha}` : `Submodule at ${submodule.sha}`;
+
+  return (
+    <div
+      className="flex items-center py-2 border-b border-gray-700 hover:bg-gray-700 transition-colors duration-150 w-full"
+      style={{ paddingLeft: `${depth * 20 + (url ? 0 : 24)}px` }}
+    >
+      <button
+        type="button"
+        className={`${TREE_COLUMN_CLASSES.name} truncate flex items-center text-left bg-transparent p-0 ${url ? 'cursor-pointer' : 'cursor-default'}`}
+        onClick={() => url && onToggle()}
+        disabled={!url}
+        aria-expanded={url ? isExpanded : undefined}
+        title={url ? `${isExpanded ? 'Hide' : 'Show'} the files of this submodule` : title}
+      >
+        {url && (
+          <span className="mr-1 w-5 inline-block text-center text-gray-400 flex-shrink-0">
+            {isExpanded ? '▾' : '▸'}
+          </span>
+        )}
+        <FolderGit2Icon className="mr-2 w-4 h-4 flex-shrink-0 text-purple-400" />
+        <span className="text-sm text-gray-200 truncate">{node.displayPath}</span>
+        {submodule.owner && submodule.repo && (
+          <span className="ml-2 text-xs text-gray-500 truncate">{submodule.owner}/{submodule.repo}</span>
+        )}
+      </button>
+      <ColumnCells node={node} columns={columns} />
+      <div className={`${TREE_COLUMN_CLASSES.size} text-xs text-gray-400 font-mono`} title={title}>
+        {url ? (
+          <a href={url} target="_blank" rel="noopener noreferrer" className="text-purple-400 hover:underline">
+            @{submodule.sha.slice(0, 7)}
+          </a>
+        ) : (
+          <>@{submodule.sha.slice(0, 7)}</>
+        )}
+      </div>
+    </div>
+  );
+};
 
 const DirectoryView: React.FC<DirectoryViewProps> = ({ 
   nodes, 
   depth, 
   branchName, 
-  getGitHubFileUrl, 
+  getFileViewerPath, 
   formatFileSize, 
   expandedFolders, 
-  toggleFolderExpansion 
+  toggleFolderExpansion,
+  parentSize,
+  sort = DEFAULT_TREE_SORT,
+  columns = []
 }) => {
-  const sortedNodes = [...nodes].sort((a, b) => {
-    if (a.type === 'folder' && b.type === 'file') return -1;
-    if (a.type === 'file' && b.type === 'folder') return 1;
-    return (a.displayPath).localeCompare(b.displayPath);
-  });
+  const router = useRouter();
+  const totalSize = parentSize ?? nodes.reduce((sum, node) => sum + getNodeSize(node), 0);
+  const sortedNodes = sortTreeNodes(nodes, sort);
 
   return (
     <>
       {sortedNodes.map(node => {
-        const isExpanded = node.type === 'folder' ? expandedFolders.has(node.path) : false;
+        const isExpanded = node.type !== 'file' ? expandedFolders.has(node.path) : false;
+        if (node.type === 'submodule' && node.submoduleItem) {
+          return (
+            <React.Fragment key={node.path}>
+              <SubmoduleRow node={node} depth={depth} isExpanded={isExpanded} onToggle={() => toggleFolderExpansion(node.path)} columns={columns} />
+              {isExpanded && <SubmoduleTree submodule={node.submoduleItem} depth={depth + 1} sort={sort} columns={columns} />}
+            </React.Fragment>
+          );
+        }
         return (
           <React.Fragment key={node.type === 'file' && node.fileItem ? node.fileItem.path : node.path}>
             <button
@@ -31,11 +139,11 @@ const DirectoryView: React.FC<DirectoryViewProps> = ({
                 if (node.type === 'folder') {
                   toggleFolderExpansion(node.path);
                 } else if (node.type === 'file' && node.fileItem) {
-                  window.open(getGitHubFileUrl(branchName, node.fileItem.path), '_blank');
+                  router.push(getFileViewerPath(branchName, node.fileItem.path));
                 }
               }}
             >
-              <div className="flex-grow w-4/5 truncate flex items-center">
+              <div className={`${TREE_COLUMN_CLASSES.name} truncate flex items-center`}>
                 {node.type === 'folder' && (
                   <span className="mr-1 w-5 inline-block text-center text-gray-400 flex-shrink-0">
                     {isExpanded ? '▾' : '▸'}
@@ -47,14 +155,26 @@ const DirectoryView: React.FC<DirectoryViewProps> = ({
                 <span className="text-sm text-gray-200 truncate" title={node.displayPath}>
                   {node.displayPath}
                 </span>
+                {node.type === 'file' && node.fileItem && <FileKindBadge file={node.fileItem} />}
               </div>
+              <ColumnCells node={node} columns={columns} />
               {node.type === 'file' && node.fileItem && (
-                <div className="w-1/5 text-right text-xs text-gray-400 pr-4 flex-shrink-0">
+                <div
+                  className={`${TREE_COLUMN_CLASSES.size} text-xs text-gray-400`}
+                  title={node.fileItem.lfs ? `${formatFileSize(node.fileItem.lfs.pointer_size)} pointer in the repository` : undefined}
+                >
                   {formatFileSize(node.fileItem.size)}
+                  <SizeBar size={node.fileItem.size} parentSize={totalSize} />
                 </div>
               )}
-              {node.type === 'folder' && (
-                <div className="w-1/5 text-right text-xs text-gray-400 pr-4 flex-shrink-0"></div>
+              {node.type === 'folder' && node.stats && (
+                <div
+                  className={`${TREE_COLUMN_CLASSES.size} text-xs text-gray-400`}
+                  title={node.stats.deepestPath ? `Deepest file: ${node.stats.deepestPath}` : undefined}
+                >
+                  {formatFileSize(node.stats.size)}
+                  <SizeBar size={node.stats.size} parentSize={totalSize} />
+                </div>
               )}
             </button>
             {node.type === 'folder' && isExpanded && node.children && node.children.length > 0 && (
@@ -62,10 +182,13 @@ const DirectoryView: React.FC<DirectoryViewProps> = ({
                 nodes={node.children}
                 depth={depth + 1}
                 branchName={branchName}
-                getGitHubFileUrl={getGitHubFileUrl}
+                getFileViewerPath={getFileViewerPath}
                 formatFileSize={formatFileSize}
                 expandedFolders={expandedFolders}
                 toggleFolderExpansion={toggleFolderExpansion}
+                parentSize={getNodeSize(node)}
+                sort={sort}
+                columns={columns}
               />
             )}
           </React.Fragment>
@@ -1,22 +1,16 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { ExtensionSummaryViewProps, ExtensionData } from '../_lib/types';
-import { formatFileSize } from '../_lib/file-utils';
+import { countFileKinds, formatFileSize, getFileExtension } from '../_lib/file-utils';
+import LanguageSummaryView from './language-summary-view';
 
 const ExtensionSummaryView: React.FC<ExtensionSummaryViewProps> = ({ files }) => {
+  const [summaryMode, setSummaryMode] = useState<'languages' | 'extensions'>('languages');
   const summary = useMemo(() => {
     const counts: Record<string, { count: number; size: number }> = {};
     let totalFilesWithExtension = 0;
 
     files.forEach(file => {
-      const nameParts = file.path.split('/');
-      const fileName = nameParts[nameParts.length - 1];
-      const extParts = fileName.split('.');
-      let extension = "(no extension)";
-      if (extParts.length > 1 && extParts[0] !== "" && extParts[extParts.length -1] !== "") {
-        extension = extParts.pop()!.toLowerCase();
-        if (extension.length > 10) extension = "(long extension)";
-      }
-      
+      const extension = getFileExtension(file.path);
       counts[extension] = counts[extension] || { count: 0, size: 0 };
       counts[extension].count++;
       counts[extension].size += file.size;
@@ -33,38 +27,58 @@ const ExtensionSummaryView: React.FC<ExtensionSummaryViewProps> = ({ files }) =>
       }))
       .sort((a, b) => b.count - a.count);
   }, [files]);
+  const kindCounts = useMemo(() => countFileKinds(files), [files]);
 
-  if (summary.length === 0) {
-    return <p className="text-center text-gray-400 py-8">No files with extensions found to summarize.</p>;
-  }
-  
   const maxCount = Math.max(...summary.map(s => s.count), 0);
 
   return (
     <div className="bg-gray-800 shadow-lg rounded-lg p-6">
-      <ul className="space-y-3">
-        {summary.map(item => (
-          <li key={item.extension} className="border-b border-gray-700 pb-3 last:border-b-0">
-            <div className="flex justify-between items-center mb-1">
-              <span className="font-medium text-white w-1/3 truncate" title={item.extension}>
-                .{item.extension}
-              </span>
-              <span className="text-sm text-gray-400 w-1/3 text-center">
-                {item.count} files ({item.percentage.toFixed(1)}% of files)
-              </span>
-              <span className="text-sm text-gray-400 w-1/3 text-right">
-                {formatFileSize(item.size)} 
-              </span>
-            </div>
-            <div className="h-3 bg-gray-700 rounded-full w-full overflow-hidden">
-              <div 
-                className="h-3 bg-blue-500 rounded-full transition-all duration-500 ease-out"
-                style={{ width: `${maxCount > 0 ? (item.count / maxCount) * 100 : 0}%` }}
-              ></div>
-            </div>
-          </li>
+      {(kindCounts.symlink > 0 || kindCounts.executable > 0 || kindCounts.lfs > 0) && (
+        <p className="text-sm text-gray-400 mb-4">
+          {kindCounts.symlink} symlinks, {kindCounts.executable} executables, {kindCounts.lfs} Git LFS objects
+        </p>
+      )}
+      <div className="inline-flex mb-4 rounded-md border border-gray-600 overflow-hidden text-sm">
+        {(['languages', 'extensions'] as const).map(mode => (
+          <button
+            key={mode}
+            onClick={() => setSummaryMode(mode)}
+            aria-pressed={summaryMode === mode}
+            className={`px-3 py-1 capitalize ${summaryMode === mode ? 'bg-slate-600 text-white' : 'text-gray-400 hover:bg-slate-700'}`}
+          >
+            {mode}
+          </button>
         ))}
-      </ul>
+      </div>
+      {summaryMode === 'languages' ? (
+        <LanguageSummaryView files={files} />
+      ) : summary.length === 0 ? (
+        <p className="text-center text-gray-400 py-8">No files with extensions found to summarize.</p>
+      ) : (
+        <ul className="space-y-3">
+          {summary.map(item => (
+            <li key={item.extension} className="border-b border-gray-700 pb-3 last:border-b-0">
+              <div className="flex justify-between items-center mb-1">
+                <span className="font-medium text-white w-1/3 truncate" title={item.extension}>
+                  .{item.extension}
+                </span>
+                <span className="text-sm text-gray-400 w-1/3 text-center">
+                  {item.count} files ({item.percentage.toFixed(1)}% of files)
+                </span>
+                <span className="text-sm text-gray-400 w-1/3 text-right">
+                  {formatFileSize(item.size)} 
+                </span>
+              </div>
+              <div className="h-3 bg-gray-700 rounded-full w-full overflow-hidden">
+                <div 
+                  className="h-3 bg-blue-500 rounded-full transition-all duration-500 ease-out"
+                  style={{ width: `${maxCount > 0 ? (item.count / maxCount) * 100 : 0}%` }}
+                ></div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 };
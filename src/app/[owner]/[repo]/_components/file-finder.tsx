@@ -0,0 +1,116 @@
+import React, { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import { SearchIcon } from 'lucide-react';
+import { rankFilesByPath } from '../_lib/fuzzy-match';
+import { FileFinderProps, RankedFile } from '../_lib/types';
+
+const MAX_RESULTS = 50;
+
+/**
+ * Renders a path with its matched characters emphasized
+ * @param {RankedFile} ranked - The file and the positions of its matched characters
+ * @returns {React.ReactNode[]} - The path, split into matched and unmatched runs
+ */
+const renderMatchedPath = ({ file, indices }: RankedFile): React.ReactNode[] => {
+  const matched = new Set(indices);
+  const parts: React.ReactNode[] = [];
+  let start = 0;
+  for (let i = 1; i <= file.path.length; i++) {
+    if (i === file.path.length || matched.has(i) !== matched.has(start)) {
+      const text = file.path.slice(start, i);
+      parts.push(matched.has(start) ? <strong key={start} className="text-blue-300">{text}</strong> : text);
+      start = i;
+    }
+  }
+  return parts;
+};
+
+const FileFinder: React.FC<FileFinderProps> = ({ files, onSelect, onClose }) => {
+  const [query, setQuery] = useState<string>('');
+  const [selectedIndex, setSelectedIndex] = useState<number>(0);
+  // Ranking tens of thousands of paths can lag behind fast typing; the input stays responsive meanwhile.
+  const deferredQuery = useDeferredValue(query);
+  const results = useMemo(
+    () => deferredQuery.trim() ? rankFilesByPath(files, deferredQuery, MAX_RESULTS) : [],
+    [files, deferredQuery]
+  );
+  const listRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [results]);
+
+  useEffect(() => {
+    listRef.current?.children[selectedIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setSelectedIndex(index => Math.min(index + 1, results.length - 1));
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setSelectedIndex(index => Math.max(index - 1, 0));
+        break;
+      case 'Enter':
+        event.preventDefault();
+        if (results[selectedIndex]) {
+          onSelect(results[selectedIndex].file);
+        }
+        break;
+      case 'Escape':
+        event.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/50 pt-[15vh]" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label="Go to file"
+        className="w-full max-w-2xl mx-4 shadow-xl rounded-lg overflow-hidden border border-gray-700 bg-gray-800"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center px-4 border-b border-gray-600">
+          <SearchIcon className="w-4 h-4 text-gray-400" />
+          <input
+            autoFocus
+            type="text"
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Go to file"
+            aria-label="File name"
+            aria-controls="file-finder-results"
+            aria-activedescendant={results.length > 0 ? `file-finder-result-${selectedIndex}` : undefined}
+            className="flex-grow h-12 px-3 bg-transparent text-sm text-white focus:outline-none"
+          />
+          <kbd className="text-xs text-gray-500 border border-gray-600 rounded px-1">Esc</kbd>
+        </div>
+        <ul id="file-finder-results" ref={listRef} role="listbox" className="max-h-[50vh] overflow-y-auto">
+          {results.map((ranked, index) => (
+            <li
+              key={ranked.file.path}
+              id={`file-finder-result-${index}`}
+              role="option"
+              aria-selected={index === selectedIndex}
+              className={`px-4 py-2 text-sm font-mono truncate cursor-pointer ${index === selectedIndex ? 'bg-slate-600 text-white' : 'text-gray-300'}`}
+              onMouseEnter={() => setSelectedIndex(index)}
+              onClick={() => onSelect(ranked.file)}
+            >
+              {renderMatchedPath(ranked)}
+            </li>
+          ))}
+        </ul>
+        {deferredQuery.trim() && results.length === 0 && (
+          <p className="px-4 py-6 text-center text-sm text-gray-400">No matching files.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FileFinder;
@@ -0,0 +1,115 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { DownloadIcon, ExternalLinkIcon, FileTextIcon } from 'lucide-react';
+import { formatFileSize, getRawFileUrl } from '../_lib/file-utils';
+import { getLanguageSyntax, HIGHLIGHT_TOKEN_CLASSES, highlightCode } from '../_lib/highlight';
+import { isMarkdownFile } from '../_lib/markdown';
+import { FileViewerProps } from '../_lib/types';
+import MarkdownView from './markdown-view';
+
+/**
+ * Reads the line selected by a `#L<number>` URL fragment, as on GitHub
+ * @returns {number | null} - The selected line, or null if the fragment does not name one
+ */
+const readSelectedLine = (): number | null => {
+  const match = /^#L(\d+)$/.exec(window.location.hash);
+  return match ? Number(match[1]) : null;
+};
+
+const FileViewer: React.FC<FileViewerProps> = ({ owner, repo, gitRef, file, githubUrl }) => {
+  const path = file.path ?? file.sha;
+  const canPreview = file.content !== null && isMarkdownFile(path);
+  const [showPreview, setShowPreview] = useState<boolean>(true);
+  const lines = useMemo(
+    () => file.content === null ? [] : highlightCode(file.content, getLanguageSyntax(path)),
+    [file.content, path]
+  );
+  const [selectedLine, setSelectedLine] = useState<number | null>(null);
+
+  useEffect(() => {
+    const selectLine = () => setSelectedLine(readSelectedLine());
+    selectLine();
+    window.addEventListener('hashchange', selectLine);
+    return () => window.removeEventListener('hashchange', selectLine);
+  }, []);
+
+  // A line anchor only exists in the code view, so links to a line of a Markdown file open it there.
+  useEffect(() => {
+    if (selectedLine !== null) {
+      setShowPreview(false);
+    }
+  }, [selectedLine]);
+
+  // Scroll once the lines are rendered, so that shared links land on the line they point at.
+  useEffect(() => {
+    if (selectedLine !== null && lines.length > 0) {
+      document.getElementById(`L${selectedLine}`)?.scrollIntoView({ block: 'center' });
+    }
+  }, [selectedLine, lines.length, showPreview]);
+
+  const linkClass = 'flex items-center h-8 border border-slate-700 hover:bg-slate-800 rounded-md px-3 text-sm';
+  const toggleClass = (active: boolean) => `h-8 px-3 text-sm ${active ? 'bg-slate-600 text-white' : 'hover:bg-slate-800 text-gray-300'}`;
+
+  return (
+    <div className="shadow-lg rounded-lg overflow-hidden border border-gray-700 bg-gray-800">
+      <div className="flex flex-wrap items-center justify-between gap-2 py-2 px-4 bg-gray-700 border-b border-gray-600">
+        <div className="flex items-center text-sm text-gray-300">
+          <FileTextIcon className="w-4 h-4 mr-2" />
+          {file.content !== null && <span className="mr-3">{lines.length} lines</span>}
+          <span>{formatFileSize(file.size)}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          {canPreview && (
+            <div className="flex border border-slate-700 rounded-md overflow-hidden">
+              <button onClick={() => setShowPreview(true)} className={toggleClass(showPreview)}>Preview</button>
+              <button onClick={() => setShowPreview(false)} className={toggleClass(!showPreview)}>Code</button>
+            </div>
+          )}
+          <a href={getRawFileUrl(owner, repo, file.sha, path)} target="_blank" rel="noopener noreferrer" className={linkClass}>
+            Raw
+          </a>
+          <a href={getRawFileUrl(owner, repo, file.sha, path, true)} className={linkClass}>
+            <DownloadIcon className="w-4 h-4 mr-1" />
+            Download
+          </a>
+          <a href={githubUrl} target="_blank" rel="noopener noreferrer" className={linkClass}>
+            <ExternalLinkIcon className="w-4 h-4 mr-1" />
+            GitHub
+          </a>
+        </div>
+      </div>
+
+      {file.content === null ? (
+        <p className="text-center text-gray-400 py-10">
+          {file.binary ? 'This file is binary and cannot be displayed.' : 'This file is too large to display.'}
+          {' '}Use the raw or download link to get it.
+        </p>
+      ) : canPreview && showPreview ? (
+        <MarkdownView source={file.content} location={{ owner, repo, ref: gitRef, filePath: path }} />
+      ) : (
+        <div className="overflow-auto max-h-[75vh]">
+          <table className="w-full border-collapse font-mono text-xs leading-5">
+            <tbody>
+              {lines.map((tokens, index) => {
+                const lineNumber = index + 1;
+                return (
+                  <tr key={lineNumber} id={`L${lineNumber}`} className={lineNumber === selectedLine ? 'bg-yellow-900/40' : ''}>
+                    <td className="select-none text-right align-top pl-4 pr-3 text-gray-500 w-1">
+                      <a href={`#L${lineNumber}`} className="hover:text-blue-400">{lineNumber}</a>
+                    </td>
+                    <td className="whitespace-pre pr-4">
+                      {tokens.map((token, tokenIndex) => (
+                        <span key={tokenIndex} className={HIGHLIGHT_TOKEN_CLASSES[token.type]}>{token.text}</span>
+                      ))}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FileViewer;
@@ -0,0 +1,67 @@
+import React, { useMemo, useState } from 'react';
+import { LanguageCategory, LanguageSummaryViewProps } from '../_lib/types';
+import { summarizeLanguages } from '../_lib/languages';
+import { formatFileSize } from '../_lib/file-utils';
+
+const CATEGORIES: LanguageCategory[] = ['programming', 'markup', 'data', 'prose'];
+
+const LanguageSummaryView: React.FC<LanguageSummaryViewProps> = ({ files }) => {
+  // GitHub's language bar leaves out data and prose, which would otherwise dwarf the code of many repositories.
+  const [categories, setCategories] = useState<LanguageCategory[]>(['programming', 'markup']);
+  const { languages, unknownFiles } = useMemo(() => summarizeLanguages(files, categories), [files, categories]);
+
+  const toggleCategory = (category: LanguageCategory) => {
+    setCategories(prev => prev.includes(category) ? prev.filter(c => c !== category) : [...prev, category]);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {CATEGORIES.map(category => (
+          <button
+            key={category}
+            onClick={() => toggleCategory(category)}
+            aria-pressed={categories.includes(category)}
+            className={`px-3 py-1 rounded-full border text-xs capitalize ${categories.includes(category)
+              ? 'border-blue-500 bg-blue-500/20 text-blue-300'
+              : 'border-gray-600 text-gray-400 hover:border-gray-500'}`}
+          >
+            {category}
+          </button>
+        ))}
+        {unknownFiles > 0 && (
+          <span className="ml-auto text-xs text-gray-500">{unknownFiles} files of unknown languages not counted</span>
+        )}
+      </div>
+
+      {languages.length === 0 ? (
+        <p className="text-center text-gray-400 py-8">No files of the selected kinds of languages found.</p>
+      ) : (
+        <>
+          <div className="flex h-3 rounded-full overflow-hidden bg-gray-700 mb-4">
+            {languages.map(language => (
+              <div
+                key={language.name}
+                title={`${language.name} ${language.percentage.toFixed(1)}%`}
+                style={{ width: `${language.percentage}%`, backgroundColor: language.color }}
+              />
+            ))}
+          </div>
+          <ul className="space-y-2">
+            {languages.map(language => (
+              <li key={language.name} className="flex items-center text-sm border-b border-gray-700 pb-2 last:border-b-0">
+                <span className="w-3 h-3 rounded-full mr-2 shrink-0" style={{ backgroundColor: language.color }} />
+                <span className="font-medium text-white w-1/3 truncate" title={language.name}>{language.name}</span>
+                <span className="text-gray-400 w-1/6">{language.percentage.toFixed(1)}%</span>
+                <span className="text-gray-400 w-1/4 text-center">{language.count} files</span>
+                <span className="text-gray-400 ml-auto text-right">{formatFileSize(language.size)}</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LanguageSummaryView;
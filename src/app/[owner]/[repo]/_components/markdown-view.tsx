@@ -0,0 +1,140 @@
+import React, { useMemo } from 'react';
+import { getLanguageSyntaxByName, HIGHLIGHT_TOKEN_CLASSES, highlightCode } from '../_lib/highlight';
+import { parseMarkdown, resolveMarkdownUrl } from '../_lib/markdown';
+import { MarkdownBlock, MarkdownInline, MarkdownLocation, MarkdownViewProps } from '../_lib/types';
+
+const HEADING_CLASSES = [
+  'text-3xl font-bold border-b border-gray-700 pb-2',
+  'text-2xl font-bold border-b border-gray-700 pb-2',
+  'text-xl font-semibold',
+  'text-lg font-semibold',
+  'text-base font-semibold',
+  'text-sm font-semibold text-gray-400',
+];
+
+const renderInlines = (nodes: MarkdownInline[], location: MarkdownLocation): React.ReactNode[] => nodes.map((node, index) => {
+  switch (node.type) {
+    case 'text':
+      return <React.Fragment key={index}>{node.text}</React.Fragment>;
+    case 'code':
+      return <code key={index} className="bg-gray-700 rounded px-1 py-0.5 font-mono text-sm">{node.text}</code>;
+    case 'emphasis':
+      return <em key={index}>{renderInlines(node.children, location)}</em>;
+    case 'strong':
+      return <strong key={index}>{renderInlines(node.children, location)}</strong>;
+    case 'delete':
+      return <del key={index}>{renderInlines(node.children, location)}</del>;
+    case 'break':
+      return <br key={index} />;
+    case 'image': {
+      const src = resolveMarkdownUrl(node.src, location, 'image');
+      // eslint-disable-next-line @next/next/no-img-element -- repository images come from arbitrary hosts and sizes
+      return src ? <img key={index} src={src} alt={node.alt} className="inline max-w-full" /> : <React.Fragment key={index}>{node.alt}</React.Fragment>;
+    }
+    case 'link': {
+      const href = resolveMarkdownUrl(node.href, location, 'link');
+      if (!href) {
+        return <span key={index}>{renderInlines(node.children, location)}</span>;
+      }
+      const external = /^(?:https?:|mailto:)/.test(href);
+      return (
+        <a
+          key={index}
+          href={href}
+          className="text-blue-400 hover:underline"
+          {...(external ? { target: '_blank', rel: 'noopener noreferrer' } : {})}
+        >
+          {renderInlines(node.children, location)}
+        </a>
+      );
+    }
+  }
+});
+
+const renderBlocks = (blocks: MarkdownBlock[], location: MarkdownLocation, tight = false): React.ReactNode[] => blocks.map((block, index) => {
+  switch (block.type) {
+    case 'heading':
+      return React.createElement(
+        `h${block.level}`,
+        { key: index, id: block.id, className: `group relative mt-6 mb-4 ${HEADING_CLASSES[block.level - 1]}` },
+        <a href={`#${block.id}`} className="absolute -left-5 opacity-0 group-hover:opacity-100 text-gray-500" aria-label="Link to this section">#</a>,
+        renderInlines(block.children, location)
+      );
+    case 'paragraph':
+      // Items of tight lists hold their text directly, without paragraph spacing.
+      return tight ?
+        <React.Fragment key={index}>{renderInlines(block.children, location)}</React.Fragment> :
+        <p key={index} className="my-3 leading-7">{renderInlines(block.children, location)}</p>;
+    case 'code':
+      return (
+        <pre key={index} className="my-4 bg-gray-900 rounded-md p-4 overflow-x-auto font-mono text-sm">
+          {highlightCode(block.text, getLanguageSyntaxByName(block.language)).map((tokens, lineIndex) => (
+            <div key={lineIndex}>
+              {tokens.map((token, tokenIndex) => (
+                <span key={tokenIndex} className={HIGHLIGHT_TOKEN_CLASSES[token.type]}>{token.text}</span>
+              ))}
+              {tokens.length === 0 && '\n'}
+            </div>
+          ))}
+        </pre>
+      );
+    case 'blockquote':
+      return (
+        <blockquote key={index} className="my-4 border-l-4 border-gray-600 pl-4 text-gray-400">
+          {renderBlocks(block.children, location)}
+        </blockquote>
+      );
+    case 'list': {
+      const items = block.items.map((item, itemIndex) => (
+        <li key={itemIndex} className="my-1">
+          {renderBlocks(item, location, item.filter(child => child.type === 'paragraph').length <= 1)}
+        </li>
+      ));
+      return block.ordered ?
+        <ol key={index} start={block.start} className="my-3 pl-8 list-decimal">{items}</ol> :
+        <ul key={index} className="my-3 pl-8 list-disc">{items}</ul>;
+    }
+    case 'table':
+      return (
+        <div key={index} className="my-4 overflow-x-auto">
+          <table className="border-collapse text-sm">
+            <thead>
+              <tr>
+                {block.header.map((cell, cellIndex) => (
+                  <th key={cellIndex} className="border border-gray-600 px-3 py-1.5 font-semibold" style={{ textAlign: block.align[cellIndex] ?? undefined }}>
+                    {renderInlines(cell, location)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, rowIndex) => (
+                <tr key={rowIndex} className="even:bg-gray-900/40">
+                  {row.map((cell, cellIndex) => (
+                    <td key={cellIndex} className="border border-gray-600 px-3 py-1.5" style={{ textAlign: block.align[cellIndex] ?? undefined }}>
+                      {renderInlines(cell, location)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'rule':
+      return <hr key={index} className="my-6 border-gray-700" />;
+  }
+});
+
+// Markdown is turned into React elements rather than HTML, so nothing in the file can inject markup or scripts.
+const MarkdownView: React.FC<MarkdownViewProps> = ({ source, location }) => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  return (
+    <article className="px-8 py-6 text-gray-200 break-words">
+      {renderBlocks(blocks, location)}
+    </article>
+  );
+};
+
+export default MarkdownView;
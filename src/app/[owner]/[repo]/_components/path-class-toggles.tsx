@@ -0,0 +1,27 @@
+import React from 'react';
+import { PATH_CLASSES } from '../_lib/path-classes';
+import { PathClassTogglesProps } from '../_lib/types';
+
+const PathClassToggles: React.FC<PathClassTogglesProps> = ({ counts, excludedClasses, onToggle }) => (
+  <div className="flex flex-wrap items-center gap-2 mb-4 text-xs">
+    <span className="text-gray-400">Include</span>
+    {PATH_CLASSES.map(pathClass => {
+      const isIncluded = !excludedClasses.includes(pathClass);
+      return (
+        <button
+          key={pathClass}
+          onClick={() => onToggle(pathClass)}
+          aria-pressed={isIncluded}
+          title={`${isIncluded ? 'Exclude' : 'Include'} ${pathClass} files in the summary, the file tree and the treemap`}
+          className={`px-3 py-1 rounded-full border capitalize ${isIncluded
+            ? 'border-blue-500 bg-blue-500/20 text-blue-300'
+            : 'border-gray-600 text-gray-500 line-through hover:border-gray-500'}`}
+        >
+          {pathClass} <span className="text-gray-400">{counts[pathClass]}</span>
+        </button>
+      );
+    })}
+  </div>
+);
+
+export default PathClassToggles;
@@ -0,0 +1,38 @@
+import React, { useEffect, useState } from 'react';
+import { TimerIcon } from 'lucide-react';
+import { RateLimitCountdownProps } from '../_lib/types';
+
+/**
+ * Formats a number of seconds as m:ss
+ * @param {number} totalSeconds - The seconds to format
+ * @returns {string} - The formatted duration
+ */
+const formatCountdown = (totalSeconds: number): string => {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const RateLimitCountdown: React.FC<RateLimitCountdownProps> = ({ resetAt }) => {
+  const [now, setNow] = useState<number>(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const secondsLeft = Math.max(0, Math.ceil(resetAt - now / 1000));
+
+  return (
+    <div className="flex items-center gap-3 bg-amber-900/40 border border-amber-700 text-amber-200 rounded-lg px-4 py-3 mt-4">
+      <TimerIcon className="w-5 h-5 flex-shrink-0" />
+      <p className="text-sm">
+        GitHub API rate limit reached. The crawl will resume automatically in{' '}
+        <span className="font-mono font-semibold">{formatCountdown(secondsLeft)}</span>
+        {secondsLeft === 0 && ' (resuming...)'}
+      </p>
+    </div>
+  );
+};
+
+export default RateLimitCountdown;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { GitBranchIcon, GitCommitHorizontalIcon, TagIcon } from 'lucide-react';
+import { RefLabelProps } from '../_lib/types';
+
+const REF_KIND_LABELS = {
+  branch: 'Branch',
+  tag: 'Tag',
+  commit: 'Commit',
+} as const;
+
+const RefLabel: React.FC<RefLabelProps> = ({ kind, name, commitSha }) => {
+  const Icon = kind === 'tag' ? TagIcon : kind === 'commit' ? GitCommitHorizontalIcon : GitBranchIcon;
+  // Commits are named by their SHA, which is too long to show in full.
+  const displayName = kind === 'commit' ? name.slice(0, 7) : name;
+  const title = kind ? `${REF_KIND_LABELS[kind]} ${name}${commitSha && kind !== 'commit' ? ` at ${commitSha.slice(0, 7)}` : ''}` : undefined;
+
+  return (
+    <div className="flex items-center mt-2 h-8 border border-slate-700 hover:bg-slate-800 rounded-md w-fit px-6" title={title}>
+      <Icon className="w-5 h-5 mr-2" />
+      {kind && kind !== 'branch' && <span className="text-xs text-gray-400 mr-2">{REF_KIND_LABELS[kind]}</span>}
+      <div className={`text-sm ${kind === 'commit' ? 'font-mono' : ''}`}>{displayName}</div>
+    </div>
+  );
+};
+
+export default RefLabel;
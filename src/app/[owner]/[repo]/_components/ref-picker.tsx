@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { CheckIcon, Loader2Icon, SearchIcon } from 'lucide-react';
+import RefLabel from './ref-label';
+import { useRepositoryRefs } from '../_hooks/useRepositoryRefs';
+import { RefListType, RefPickerProps } from '../_lib/types';
+
+const RefPicker: React.FC<RefPickerProps> = ({ owner, repo, kind, name, commitSha, onSelect }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [type, setType] = useState<RefListType>(kind === 'tag' ? 'tag' : 'branch');
+  const [query, setQuery] = useState<string>('');
+  const { refs, hasNextPage, isLoading, error, loadMore } = useRepositoryRefs(owner, repo, type, query, isOpen);
+
+  const selectRef = (ref: string) => {
+    setIsOpen(false);
+    setQuery('');
+    if (ref !== name) {
+      onSelect(ref);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+        className="block text-left"
+      >
+        <RefLabel kind={kind} name={name} commitSha={commitSha} />
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-20" onClick={() => setIsOpen(false)} aria-hidden="true" />
+          <div className="absolute left-0 mt-1 w-72 z-30 bg-gray-800 border border-gray-700 rounded-md shadow-xl">
+            <div className="flex border-b border-gray-700">
+              {(['branch', 'tag'] as const).map(listType => (
+                <button
+                  key={listType}
+                  type="button"
+                  onClick={() => setType(listType)}
+                  className={`flex-1 py-2 text-sm font-medium border-b-2 ${type === listType
+                    ? 'border-blue-500 text-blue-400'
+                    : 'border-transparent text-gray-400 hover:text-blue-400'}`}
+                >
+                  {listType === 'branch' ? 'Branches' : 'Tags'}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-2 px-3 py-2 border-b border-gray-700">
+              <SearchIcon className="w-4 h-4 text-gray-400 flex-shrink-0" />
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder={type === 'branch' ? 'Find a branch...' : 'Find a tag...'}
+                className="w-full bg-transparent text-sm text-white placeholder-gray-500 focus:outline-none"
+                autoFocus
+              />
+            </div>
+            <ul role="listbox" className="max-h-72 overflow-y-auto py-1">
+              {refs.map(ref => (
+                <li key={ref} role="option" aria-selected={ref === name}>
+                  <button
+                    type="button"
+                    onClick={() => selectRef(ref)}
+                    className="flex items-center w-full px-3 py-1.5 text-sm text-left text-gray-200 hover:bg-gray-700"
+                  >
+                    <CheckIcon className={`w-4 h-4 mr-2 flex-shrink-0 ${ref === name ? 'text-blue-400' : 'invisible'}`} />
+                    <span className="truncate">{ref}</span>
+                  </button>
+                </li>
+              ))}
+              {!isLoading && !error && refs.length === 0 && (
+                <li className="px-3 py-2 text-sm text-gray-500">Nothing to show</li>
+              )}
+            </ul>
+            {error && <p className="px-3 py-2 text-sm text-red-400 break-words">{error}</p>}
+            {isLoading && (
+              <div className="flex justify-center py-2">
+                <Loader2Icon className="animate-spin w-4 h-4 text-blue-400" />
+              </div>
+            )}
+            {!isLoading && hasNextPage && (
+              <button
+                type="button"
+                onClick={loadMore}
+                className="w-full py-2 text-sm text-blue-400 hover:bg-gray-700 border-t border-gray-700"
+              >
+                Load more
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RefPicker;
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { FileTextIcon, Loader2Icon, SearchIcon } from 'lucide-react';
+import { getBlobPath } from '@/lib/github-url';
+import { useRepositorySearch } from '../_hooks/useRepositorySearch';
+import { SearchMatchItem, SearchViewProps } from '../_lib/types';
+import RateLimitCountdown from './rate-limit-countdown';
+
+const CONTEXT_LINES = 2;
+
+/**
+ * Splits a line into the text between matches and the matches themselves
+ * @param {SearchMatchItem} match - The matching line and its match offsets
+ * @returns {React.ReactNode[]} - The line with every match highlighted
+ */
+const highlightMatches = ({ text, ranges }: SearchMatchItem): React.ReactNode[] => {
+  const parts: React.ReactNode[] = [];
+  let offset = 0;
+  ranges.forEach(([start, end], index) => {
+    // Matches of a regex never overlap, but a clipped line can end one early.
+    if (start < offset) {
+      return;
+    }
+    parts.push(text.slice(offset, start));
+    parts.push(<mark key={index} className="bg-yellow-500/40 text-white rounded-sm">{text.slice(start, end)}</mark>);
+    offset = end;
+  });
+  parts.push(text.slice(offset));
+  return parts;
+};
+
+const SearchView: React.FC<SearchViewProps> = ({ owner, repo, gitRef, searchUrl }) => {
+  const { results, summary, isSearching, error, currentStatus, rateLimitResetAt, search, cancelSearch } = useRepositorySearch(searchUrl);
+  const [query, setQuery] = useState<string>('');
+  const [paths, setPaths] = useState<string>('');
+  const [regex, setRegex] = useState<boolean>(false);
+  const [caseSensitive, setCaseSensitive] = useState<boolean>(false);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!query) {
+      return;
+    }
+    search({
+      query,
+      regex,
+      case_sensitive: caseSensitive,
+      paths: paths.split(',').map(path => path.trim()).filter(Boolean),
+      context: CONTEXT_LINES,
+    });
+  };
+
+  const toggleClass = (active: boolean) =>
+    `h-9 px-3 border border-slate-700 rounded-md font-mono text-sm ${active ? 'bg-blue-600 text-white' : 'text-gray-400 hover:bg-slate-800'}`;
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="Search file contents"
+          aria-label="Search query"
+          className="flex-grow min-w-[16rem] h-9 px-3 bg-slate-800 border border-slate-700 rounded-md text-sm focus:outline-none focus:border-blue-500"
+        />
+        <input
+          type="text"
+          value={paths}
+          onChange={(event) => setPaths(event.target.value)}
+          placeholder="Paths, e.g. src/**, !*.test.ts"
+          aria-label="Path filter"
+          className="w-64 h-9 px-3 bg-slate-800 border border-slate-700 rounded-md text-sm focus:outline-none focus:border-blue-500"
+        />
+        <button type="button" onClick={() => setCaseSensitive(!caseSensitive)} className={toggleClass(caseSensitive)} title="Match case" aria-pressed={caseSensitive}>
+          Aa
+        </button>
+        <button type="button" onClick={() => setRegex(!regex)} className={toggleClass(regex)} title="Use regular expression (RE2 syntax: no lookarounds or backreferences)" aria-pressed={regex}>
+          .*
+        </button>
+        {isSearching ? (
+          <button type="button" onClick={cancelSearch} className="h-9 px-4 border border-slate-700 hover:bg-slate-800 rounded-md text-sm">
+            Cancel
+          </button>
+        ) : (
+          <button type="submit" disabled={!query} className="flex items-center h-9 px-4 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-md text-sm font-semibold">
+            <SearchIcon className="w-4 h-4 mr-2" />
+            Search
+          </button>
+        )}
+      </form>
+
+      {isSearching && (
+        <div className="flex items-center text-sm text-gray-400">
+          <Loader2Icon className="animate-spin w-4 h-4 mr-2 text-blue-400" />
+          <span className="break-all">{currentStatus}</span>
+        </div>
+      )}
+      {isSearching && rateLimitResetAt !== null && <RateLimitCountdown resetAt={rateLimitResetAt} />}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {summary && (
+        <p className="text-sm text-gray-400">
+          {summary.matches} matching lines in {summary.files_matched} of {summary.files_searched} files
+          {summary.files_skipped > 0 && `, ${summary.files_skipped} binary, large or unreadable files skipped`}
+          {summary.truncated && '. Stopped early because of the number of matches; narrow the search to see the rest.'}
+        </p>
+      )}
+      {summary && results.length === 0 && (
+        <p className="text-center text-gray-400 py-10">No files contain a match.</p>
+      )}
+
+      {results.map(result => {
+        const filePath = getBlobPath(owner, repo, gitRef, result.path);
+        return (
+          <div key={result.path} className="shadow-lg rounded-lg overflow-hidden border border-gray-700 bg-gray-800">
+            <div className="flex items-center py-2 px-4 bg-gray-700 border-b border-gray-600 text-sm">
+              <FileTextIcon className="w-4 h-4 mr-2 text-gray-400" />
+              <Link href={filePath} className="text-blue-400 hover:underline break-all">{result.path}</Link>
+              <span className="ml-auto text-xs text-gray-400">{result.matches.length} {result.matches.length === 1 ? 'match' : 'matches'}</span>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full border-collapse font-mono text-xs leading-5">
+                {result.matches.map(match => (
+                  <tbody key={match.line} className="border-b border-gray-700 last:border-b-0">
+                    {match.before.map((text, index) => {
+                      const lineNumber = match.line - match.before.length + index;
+                      return (
+                        <tr key={lineNumber} className="text-gray-500">
+                          <td className="select-none text-right pl-4 pr-3 w-1">{lineNumber}</td>
+                          <td className="whitespace-pre pr-4">{text}</td>
+                        </tr>
+                      );
+                    })}
+                    <tr className="bg-slate-900/50 text-gray-200">
+                      <td className="select-none text-right pl-4 pr-3 w-1">
+                        <Link href={`${filePath}#L${match.line}`} className="text-blue-400 hover:underline">{match.line}</Link>
+                      </td>
+                      <td className="whitespace-pre pr-4">{highlightMatches(match)}</td>
+                    </tr>
+                    {match.after.map((text, index) => {
+                      const lineNumber = match.line + index + 1;
+                      return (
+                        <tr key={lineNumber} className="text-gray-500">
+                          <td className="select-none text-right pl-4 pr-3 w-1">{lineNumber}</td>
+                          <td className="whitespace-pre pr-4">{text}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                ))}
+              </table>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SearchView;
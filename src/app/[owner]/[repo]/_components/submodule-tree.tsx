@@ -0,0 +1,54 @@
+import React from 'react';
+import { Loader2Icon } from 'lucide-react';
+import DirectoryView from './directory-view';
+import { useRepositoryFiles } from '../_hooks/useRepositoryFiles';
+import { buildFileTree, compactTreePaths } from '../_lib/tree-utils';
+import { formatFileSize } from '../_lib/file-utils';
+import { getBlobPath } from '@/lib/github-url';
+import { SubmoduleTreeProps } from '../_lib/types';
+
+// Only mounted once a submodule is expanded, so its repository is not crawled unless asked for.
+const SubmoduleTree: React.FC<SubmoduleTreeProps> = ({ submodule, depth, sort, columns }) => {
+  const owner = submodule.owner ?? '';
+  const repo = submodule.repo ?? '';
+  const {
+    files,
+    submodules,
+    isLoading,
+    error,
+    expandedFolders,
+    toggleFolderExpansion,
+    fileCount,
+  } = useRepositoryFiles(owner, repo, submodule.sha);
+
+  const fileTree = React.useMemo(() => compactTreePaths(buildFileTree(files, submodules)), [files, submodules]);
+  const indent = { paddingLeft: `${depth * 20 + 24}px` };
+
+  if (error) {
+    return <p className="py-2 border-b border-gray-700 text-sm text-red-400 break-words" style={indent}>{error}</p>;
+  }
+
+  return (
+    <>
+      {isLoading && (
+        <p className="flex items-center py-2 border-b border-gray-700 text-sm text-gray-400" style={indent}>
+          <Loader2Icon className="animate-spin w-4 h-4 mr-2 text-blue-400" />
+          Loading {owner}/{repo}... {fileCount || 0} files found so far
+        </p>
+      )}
+      <DirectoryView
+        nodes={fileTree}
+        depth={depth}
+        branchName={submodule.sha}
+        getFileViewerPath={(currentBranch, filePath) => getBlobPath(owner, repo, currentBranch, filePath)}
+        formatFileSize={formatFileSize}
+        expandedFolders={expandedFolders}
+        toggleFolderExpansion={toggleFolderExpansion}
+        sort={sort}
+        columns={columns}
+      />
+    </>
+  );
+};
+
+export default SubmoduleTree;
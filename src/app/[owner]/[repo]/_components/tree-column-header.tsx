@@ -0,0 +1,45 @@
+import React from 'react';
+import { ArrowDownIcon, ArrowUpIcon } from 'lucide-react';
+import { TREE_COLUMN_CLASSES } from '../_lib/tree-utils';
+import { TreeColumnHeaderProps, TreeSortKey } from '../_lib/types';
+
+const SORT_LABELS: Record<TreeSortKey, string> = {
+  name: 'Name',
+  extension: 'Ext',
+  files: 'Files',
+  size: 'Size',
+};
+
+const TreeColumnHeader: React.FC<TreeColumnHeaderProps> = ({ sort, columns, onSort }) => {
+  const labelClass = 'text-xs font-semibold text-gray-300 uppercase tracking-wider';
+
+  const renderSortButton = (key: TreeSortKey) => {
+    const isActive = sort.key === key;
+    const ArrowIcon = sort.direction === 'asc' ? ArrowUpIcon : ArrowDownIcon;
+    return (
+      <div role="columnheader" className={TREE_COLUMN_CLASSES[key]} aria-sort={isActive ? (sort.direction === 'asc' ? 'ascending' : 'descending') : undefined}>
+        <button
+          onClick={() => onSort(key)}
+          className={`${labelClass} inline-flex items-center hover:text-blue-400 ${isActive ? 'text-blue-400' : ''}`}
+          title={`Sort by ${key === 'files' ? 'file count' : key}`}
+        >
+          {SORT_LABELS[key]}
+          {isActive && <ArrowIcon className="w-3 h-3 ml-1" />}
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex items-center py-3 px-4" role="row">
+      {renderSortButton('name')}
+      {renderSortButton('extension')}
+      {columns.includes('mode') && <div role="columnheader" className={`${TREE_COLUMN_CLASSES.mode} ${labelClass}`}>Mode</div>}
+      {columns.includes('sha') && <div role="columnheader" className={`${TREE_COLUMN_CLASSES.sha} ${labelClass}`}>SHA</div>}
+      {renderSortButton('files')}
+      {renderSortButton('size')}
+    </div>
+  );
+};
+
+export default TreeColumnHeader;
@@ -0,0 +1,146 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ChevronRightIcon } from 'lucide-react';
+import { findFolderChain, getTileColor, layoutTreemap, TREEMAP_HEADER_HEIGHT } from '../_lib/treemap';
+import { getNodeSize } from '../_lib/tree-utils';
+import { TreemapColorMode, TreemapTile, TreemapViewProps } from '../_lib/types';
+
+const TREEMAP_HEIGHT = 560;
+const LAYOUT_OPTIONS = { maxDepth: 3, minArea: 24 };
+
+const TreemapView: React.FC<TreemapViewProps> = ({ nodes, branchName, getFileViewerPath, formatFileSize }) => {
+  const router = useRouter();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState<number>(0);
+  const [zoomPath, setZoomPath] = useState<string | null>(null);
+  const [colorMode, setColorMode] = useState<TreemapColorMode>('language');
+  const [hovered, setHovered] = useState<{ tile: TreemapTile; x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(Math.floor(entry.contentRect.width)));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // A folder that disappears from the tree, e.g. behind a class toggle, zooms back out to the top.
+  const zoomChain = useMemo(() => zoomPath ? findFolderChain(nodes, zoomPath) : [], [nodes, zoomPath]);
+  const zoomedFolder = zoomChain[zoomChain.length - 1];
+  const tiles = useMemo(
+    () => width > 0
+      ? layoutTreemap(zoomedFolder ? zoomedFolder.children ?? [] : nodes, { x: 0, y: 0, width, height: TREEMAP_HEIGHT }, LAYOUT_OPTIONS)
+      : [],
+    [nodes, zoomedFolder, width]
+  );
+
+  // Built once per layout, so that moving the pointer only re-renders the tooltip, not thousands of tiles.
+  const tileElements = useMemo(() => tiles.map((tile, index) => {
+    const isFolder = tile.node.type === 'folder';
+    const showLabel = isFolder ? tile.width > 40 : tile.width > 50 && tile.height > 14;
+    return (
+      <div
+        key={tile.node.path}
+        data-index={index}
+        className={`absolute overflow-hidden border border-slate-900 cursor-pointer text-[11px] leading-4 px-1 ${isFolder ? 'text-gray-300 hover:border-blue-400' : 'text-white/90 hover:brightness-125'}`}
+        style={{
+          left: tile.x,
+          top: tile.y,
+          width: tile.width,
+          height: tile.height,
+          backgroundColor: getTileColor(tile.node, colorMode),
+        }}
+      >
+        {showLabel && <div className="truncate pointer-events-none" style={{ height: isFolder ? TREEMAP_HEADER_HEIGHT : undefined }}>{tile.node.displayPath}</div>}
+      </div>
+    );
+  }), [tiles, colorMode]);
+
+  const getTileAt = (target: EventTarget): TreemapTile | undefined => {
+    const index = (target as HTMLElement).closest('[data-index]')?.getAttribute('data-index');
+    return index == null ? undefined : tiles[Number(index)];
+  };
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLDivElement>) => {
+    const tile = getTileAt(event.target);
+    const bounds = event.currentTarget.getBoundingClientRect();
+    setHovered(tile ? { tile, x: event.clientX - bounds.left, y: event.clientY - bounds.top } : null);
+  };
+
+  const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const tile = getTileAt(event.target);
+    if (tile?.node.type === 'folder') {
+      setZoomPath(tile.node.path);
+      setHovered(null);
+    } else if (tile?.node.type === 'file') {
+      router.push(getFileViewerPath(branchName, tile.node.path));
+    }
+  };
+
+  const zoomSize = zoomedFolder ? getNodeSize(zoomedFolder) : nodes.reduce((sum, node) => sum + getNodeSize(node), 0);
+
+  return (
+    <div className="shadow-lg rounded-lg border border-gray-700 bg-gray-800 p-4">
+      <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+        <nav aria-label="Treemap folder" className="flex flex-wrap items-center min-w-0">
+          <button onClick={() => setZoomPath(null)} className="text-blue-400 hover:underline">
+            All files
+          </button>
+          {zoomChain.map(folder => (
+            <React.Fragment key={folder.path}>
+              <ChevronRightIcon className="w-4 h-4 mx-1 text-gray-500" />
+              <button onClick={() => setZoomPath(folder.path)} className="text-blue-400 hover:underline break-all text-left">
+                {folder.displayPath}
+              </button>
+            </React.Fragment>
+          ))}
+          <span className="ml-2 text-gray-400">{formatFileSize(zoomSize)}</span>
+        </nav>
+        <div className="ml-auto inline-flex rounded-md border border-gray-600 overflow-hidden">
+          {(['language', 'extension'] as const).map(mode => (
+            <button
+              key={mode}
+              onClick={() => setColorMode(mode)}
+              aria-pressed={colorMode === mode}
+              className={`px-3 py-1 capitalize ${colorMode === mode ? 'bg-slate-600 text-white' : 'text-gray-400 hover:bg-slate-700'}`}
+            >
+              By {mode}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div
+        ref={containerRef}
+        className="relative w-full overflow-hidden bg-slate-900"
+        style={{ height: TREEMAP_HEIGHT }}
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHovered(null)}
+        onClick={handleClick}
+      >
+        {tileElements}
+        {tiles.length === 0 && width > 0 && (
+          <p className="absolute inset-0 flex items-center justify-center text-gray-400">No files with content to show.</p>
+        )}
+        {hovered && (
+          <div
+            role="tooltip"
+            className="absolute z-10 pointer-events-none max-w-sm rounded bg-black/85 px-2 py-1 text-xs text-white shadow"
+            style={{
+              left: Math.max(0, Math.min(hovered.x + 12, width - 240)),
+              top: hovered.y + 16 > TREEMAP_HEIGHT - 48 ? hovered.y - 48 : hovered.y + 16,
+            }}
+          >
+            <div className="font-mono break-all">{hovered.tile.node.path}</div>
+            <div className="text-gray-300">
+              {formatFileSize(getNodeSize(hovered.tile.node))}
+              {hovered.tile.node.stats && ` in ${hovered.tile.node.stats.fileCount} files`}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TreemapView;
@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useState } from 'react';
+import { DEFAULT_TREE_SORT } from '../_lib/tree-utils';
+import { ExplorerSettings, TreeColumn, TreeSortKey } from '../_lib/types';
+
+const STORAGE_KEY = 'explorer-settings';
+const SORT_KEYS: TreeSortKey[] = ['name', 'extension', 'files', 'size'];
+const COLUMNS: TreeColumn[] = ['mode', 'sha'];
+const DEFAULT_SETTINGS: ExplorerSettings = { sort: DEFAULT_TREE_SORT, columns: [] };
+
+/**
+ * Reads the settings saved in this browser, ignoring anything an older version may have saved differently
+ * @returns {ExplorerSettings} - The saved settings, or the defaults
+ */
+const readSettings = (): ExplorerSettings => {
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? 'null');
+    const sort = SORT_KEYS.includes(saved?.sort?.key) && ['asc', 'desc'].includes(saved?.sort?.direction)
+      ? { key: saved.sort.key, direction: saved.sort.direction }
+      : DEFAULT_TREE_SORT;
+    const columns = Array.isArray(saved?.columns) ? COLUMNS.filter(column => saved.columns.includes(column)) : [];
+    return { sort, columns };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export function useExplorerSettings() {
+  const [settings, setSettings] = useState<ExplorerSettings>(DEFAULT_SETTINGS);
+
+  // Read after mounting, so that the server render and the first client render agree.
+  useEffect(() => {
+    setSettings(readSettings());
+  }, []);
+
+  const updateSettings = useCallback((update: (prev: ExplorerSettings) => ExplorerSettings) => {
+    setSettings(prev => {
+      const next = update(prev);
+      try {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      } catch {
+        // Storage may be full or disabled; the settings then only last for this page.
+      }
+      return next;
+    });
+  }, []);
+
+  // Sorting by the current key flips the direction; sizes and counts start with the largest.
+  const toggleSort = useCallback((key: TreeSortKey) => {
+    updateSettings(prev => ({
+      ...prev,
+      sort: prev.sort.key === key
+        ? { key, direction: prev.sort.direction === 'asc' ? 'desc' : 'asc' }
+        : { key, direction: key === 'files' || key === 'size' ? 'desc' : 'asc' },
+    }));
+  }, [updateSettings]);
+
+  const toggleColumn = useCallback((column: TreeColumn) => {
+    updateSettings(prev => ({
+      ...prev,
+      columns: prev.columns.includes(column) ? prev.columns.filter(c => c !== column) : COLUMNS.filter(c => c === column || prev.columns.includes(c)),
+    }));
+  }, [updateSettings]);
+
+  return {
+    sort: settings.sort,
+    columns: settings.columns,
+    toggleSort,
+    toggleColumn,
+  };
+}
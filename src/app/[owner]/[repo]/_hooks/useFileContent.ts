@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { BlobLookup, BlobResponse } from '../_lib/types';
+
+export function useFileContent(owner: string, repo: string, lookup: BlobLookup | null) {
+  const [file, setFile] = useState<BlobResponse | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(lookup !== null);
+  const [error, setError] = useState<string | null>(null);
+  // Depend on the query rather than the lookup object, which callers rebuild on every render.
+  const query = lookup === null ? null : new URLSearchParams({ owner, repo, ...lookup }).toString();
+
+  useEffect(() => {
+    if (query === null) {
+      setFile(null);
+      setIsLoading(false);
+      setError(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsLoading(true);
+    setError(null);
+    setFile(null);
+
+    (async () => {
+      try {
+        const response = await fetch(`/api/v1/repo/blob?${query}`, { signal: controller.signal });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error ?? `API request failed with status ${response.status}`);
+        }
+        setFile(data as BlobResponse);
+      } catch (e: unknown) {
+        if (controller.signal.aborted) {
+          return;
+        }
+        setError(e instanceof Error ? e.message : 'An unknown error occurred.');
+      }
+      setIsLoading(false);
+    })();
+
+    return () => controller.abort();
+  }, [query]);
+
+  return {
+    file,
+    isLoading,
+    error,
+  };
+}
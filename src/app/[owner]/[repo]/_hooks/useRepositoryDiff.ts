@@ -0,0 +1,189 @@
+import { useEffect, useState, useCallback } from 'react';
+import { BranchItem, CompareSide, DiffCompleteItem, DiffItem, ProgressItem } from '../_lib/types';
+import { processDiffJsonLine } from '../_lib/stream-processing';
+import { STREAM_PROTOCOL_VERSION, STREAM_PROTOCOL_VERSION_HEADER } from '@/lib/stream-protocol';
+
+export function useRepositoryDiff(owner: string, repo: string, base: string, head: string) {
+  const [diffs, setDiffs] = useState<DiffItem[]>([]);
+  const [summary, setSummary] = useState<DiffCompleteItem | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [resolvedRefs, setResolvedRefs] = useState<Partial<Record<CompareSide, BranchItem>>>({});
+  const [crawlingSide, setCrawlingSide] = useState<CompareSide>('base');
+  const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
+  const [showFileTreeView, setShowFileTreeView] = useState<boolean>(false);
+  const [currentStatus, setCurrentStatus] = useState<string>("Initializing...");
+  const [totalDirectories, setTotalDirectories] = useState<number>(0);
+  const [processedDirectories, setProcessedDirectories] = useState<number>(0);
+  const [rateLimitResetAt, setRateLimitResetAt] = useState<number | null>(null);
+
+  const repositoryUrl = `https://github.com/${owner}/${repo}`;
+
+  // Both refs are crawled one after the other, so each crawl fills half of the bar.
+  const sideProgress = totalDirectories > 0 ? processedDirectories / totalDirectories : 0;
+  const loadingProgress = Math.min(Math.round(((crawlingSide === 'head' ? 1 : 0) + sideProgress) * 50), 99);
+
+  const handleApiError = useCallback((message: string) => {
+    setError(`API Error: ${message}`);
+    setIsLoading(false);
+  }, [setError, setIsLoading]);
+
+  const handleDiffComplete = useCallback((diffSummary: DiffCompleteItem) => {
+    setSummary(diffSummary);
+    setCurrentStatus("Complete!");
+    setIsLoading(false);
+  }, [setSummary, setCurrentStatus, setIsLoading]);
+
+  const handleResolvedRef = useCallback((branch: BranchItem) => {
+    const side = branch.side ?? 'head';
+    setResolvedRefs(prev => ({ ...prev, [side]: branch }));
+    setCrawlingSide(side);
+    setTotalDirectories(0);
+    setProcessedDirectories(0);
+  }, [setResolvedRefs, setCrawlingSide, setTotalDirectories, setProcessedDirectories]);
+
+  const handleStatusUpdate = useCallback((message: string) => {
+    setCurrentStatus(message);
+    setRateLimitResetAt(null);
+  }, [setCurrentStatus, setRateLimitResetAt]);
+
+  const handleRateLimited = useCallback((resetAt: number) => {
+    setRateLimitResetAt(resetAt);
+  }, [setRateLimitResetAt]);
+
+  const handleProgress = useCallback((progress: ProgressItem) => {
+    setTotalDirectories(progress.dirs_discovered);
+    setProcessedDirectories(progress.dirs_completed + progress.dirs_failed);
+  }, [setTotalDirectories, setProcessedDirectories]);
+
+  const processLine = useCallback((line: string, onDiff: (diff: DiffItem) => void) => {
+    processDiffJsonLine(
+      line,
+      onDiff,
+      handleApiError,
+      handleDiffComplete,
+      handleResolvedRef,
+      handleStatusUpdate,
+      handleRateLimited,
+      handleProgress
+    );
+  }, [handleApiError, handleDiffComplete, handleResolvedRef, handleStatusUpdate, handleRateLimited, handleProgress]);
+
+  useEffect(() => {
+    // Aborted on unmount or when the compared refs change, which also cancels both crawls on the server.
+    const controller = new AbortController();
+
+    const fetchRepositoryDiff = async () => {
+      setIsLoading(true);
+      setDiffs([]);
+      setSummary(null);
+      setError(null);
+      setResolvedRefs({});
+      setCrawlingSide('base');
+      setExpandedFolders(new Set());
+      setShowFileTreeView(false);
+      setTotalDirectories(0);
+      setProcessedDirectories(0);
+      setRateLimitResetAt(null);
+
+      // Diffs arrive in one burst at the end, so they are collected and committed once per chunk.
+      const receivedDiffs: DiffItem[] = [];
+      const collectDiff = (diff: DiffItem) => {
+        receivedDiffs.push(diff);
+      };
+
+      try {
+        const response = await fetch("/api/v1/repo/compare", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ url: repositoryUrl, base, head }),
+          signal: controller.signal,
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(
+            errorData.error ?
+              `API request failed with status ${response.status}: ${errorData.error}` :
+              `API request failed with status ${response.status}`
+          );
+        }
+
+        // A page loaded before a deploy may not understand the new server's events.
+        const protocolVersion = response.headers.get(STREAM_PROTOCOL_VERSION_HEADER);
+        if (protocolVersion !== String(STREAM_PROTOCOL_VERSION)) {
+          throw new Error(`Unsupported stream protocol version ${protocolVersion ?? "unknown"}. Please reload the page.`);
+        }
+
+        if (!response.body) {
+          throw new Error("Response body is null.");
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+
+        while (true) {
+          const { done, value } = await reader.read();
+          buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+          const lines = buffer.split("\n");
+          buffer = done ? "" : lines.pop() ?? "";
+          const diffCount = receivedDiffs.length;
+          lines.filter(line => line.trim()).forEach(line => processLine(line, collectDiff));
+          if (receivedDiffs.length > diffCount) {
+            setDiffs([...receivedDiffs]);
+          }
+
+          if (done) {
+            setIsLoading(false);
+            break;
+          }
+        }
+      } catch (e: unknown) {
+        if (controller.signal.aborted) {
+          return;
+        }
+        console.error("Failed to fetch stream:", e);
+        setError(e instanceof Error ? e.message : "An unknown error occurred.");
+        setIsLoading(false);
+      }
+    };
+
+    fetchRepositoryDiff();
+
+    return () => controller.abort();
+  }, [repositoryUrl, base, head, processLine]);
+
+  const toggleFolderExpansion = (path: string) => {
+    setExpandedFolders(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(path)) {
+        newSet.delete(path);
+      } else {
+        newSet.add(path);
+      }
+      return newSet;
+    });
+  };
+
+  return {
+    diffs,
+    summary,
+    isLoading,
+    error,
+    baseRef: resolvedRefs.base ?? null,
+    headRef: resolvedRefs.head ?? null,
+    crawlingSide,
+    expandedFolders,
+    toggleFolderExpansion,
+    showFileTreeView,
+    setShowFileTreeView,
+    currentStatus,
+    loadingProgress,
+    rateLimitResetAt,
+    repositoryUrl
+  };
+}
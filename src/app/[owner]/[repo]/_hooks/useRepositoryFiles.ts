@@ -1,63 +1,85 @@
 import { useEffect, useState, useRef, useCallback } from 'react';
-import { FileItem } from '../_lib/types';
+import { BranchItem, CrawlFilters, FileItem, ProgressItem, SubmoduleItem } from '../_lib/types';
 import { isValidFile } from '../_lib/file-utils';
 import { processJsonLine, tryFixAndParseMultipleJsons } from '../_lib/stream-processing';
+import { STREAM_PROTOCOL_VERSION, STREAM_PROTOCOL_VERSION_HEADER } from '@/lib/stream-protocol';
+import { getGitHubUrl } from '@/lib/github-url';
 
-export function useRepositoryFiles(owner: string, repo: string) {
+export function useRepositoryFiles(
+  owner: string,
+  repo: string,
+  ref?: string,
+  path?: string,
+  filters: CrawlFilters = { include: [], exclude: [] }
+) {
   const [files, setFiles] = useState<FileItem[]>([]);
+  const [submodules, setSubmodules] = useState<SubmoduleItem[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [totalFilesNum, setTotalFilesNum] = useState<number | null>(null);
-  const [branchName, setBranchName] = useState<string>("");
+  const [resolvedRef, setResolvedRef] = useState<BranchItem | null>(null);
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
   const [showFileTreeView, setShowFileTreeView] = useState<boolean>(false);
   const [totalRepoSize, setTotalRepoSize] = useState<number>(0);
   const [currentStatus, setCurrentStatus] = useState<string>("Initializing...");
   const [totalDirectories, setTotalDirectories] = useState<number>(0);
   const [processedDirectories, setProcessedDirectories] = useState<number>(0);
+  const [rateLimitResetAt, setRateLimitResetAt] = useState<number | null>(null);
+  const [excludedEntries, setExcludedEntries] = useState<number | null>(null);
   
   const fileCountRef = useRef<number>(0);
   const repositoryUrl = `https://github.com/${owner}/${repo}`;
+  // Only the given folder of the given ref is crawled; the default branch and the whole repository otherwise.
+  const crawlUrl = getGitHubUrl({ owner, repo, ref, path });
+  // Serialized so that the crawl only restarts when the filters themselves change.
+  const requestBody = JSON.stringify({ url: crawlUrl, ...filters });
 
   const loadingProgress = totalDirectories > 0 
     ? Math.min(Math.round((processedDirectories / totalDirectories) * 100), 99) 
     : 0;
 
-  const handleParseError = useCallback((error: unknown) => {
-    if (error instanceof Error) {
-      console.error("Error parsing JSON line:", error.message);
-    } else {
-      console.error("Error parsing JSON line:", error);
-    }
-  }, []);
-
   const addFileToState = useCallback((file: FileItem) => {
     setFiles(prev => [...prev, file]);
-  }, [setFiles]);
+    setRateLimitResetAt(null);
+  }, [setFiles, setRateLimitResetAt]);
+
+  const handleSubmodule = useCallback((submodule: SubmoduleItem) => {
+    setSubmodules(prev => [...prev, submodule]);
+  }, [setSubmodules]);
 
   const handleApiError = useCallback((message: string) => {
     setError(`API Error: ${message}`);
     setIsLoading(false);
   }, [setError, setIsLoading]);
 
-  const handleTotalFiles = useCallback((totalFiles: number) => {
+  const handleTotalFiles = useCallback((totalFiles: number, totalDirectories: number, excludedEntries: number) => {
     setTotalFilesNum(totalFiles);
+    setTotalDirectories(totalDirectories);
+    setExcludedEntries(excludedEntries);
     setCurrentStatus("Complete! Processing data...");
     setIsLoading(false);
     fileCountRef.current = totalFiles;
-  }, [setTotalFilesNum, setCurrentStatus, setIsLoading, fileCountRef]);
+  }, [setTotalFilesNum, setTotalDirectories, setExcludedEntries, setCurrentStatus, setIsLoading, fileCountRef]);
 
-  const handleBranchName = useCallback((name: string) => {
-    setBranchName(name);
-  }, [setBranchName]);
+  const handleResolvedRef = useCallback((branch: BranchItem) => {
+    setResolvedRef(branch);
+  }, [setResolvedRef]);
 
-  const handleStatusUpdate = useCallback((message: string, count?: number) => {
+  const handleStatusUpdate = useCallback((message: string) => {
     setCurrentStatus(message);
-    if (count && count > fileCountRef.current) {
-      fileCountRef.current = count;
-      setTotalFilesNum(count);
-    }
-  }, [setCurrentStatus, fileCountRef, setTotalFilesNum]);
+    setRateLimitResetAt(null);
+  }, [setCurrentStatus, setRateLimitResetAt]);
+
+  const handleRateLimited = useCallback((resetAt: number) => {
+    setRateLimitResetAt(resetAt);
+  }, [setRateLimitResetAt]);
+
+  const handleProgress = useCallback((progress: ProgressItem) => {
+    setTotalDirectories(progress.dirs_discovered);
+    setProcessedDirectories(progress.dirs_completed + progress.dirs_failed);
+    fileCountRef.current = progress.files_emitted;
+    setTotalFilesNum(progress.files_emitted);
+  }, [setTotalDirectories, setProcessedDirectories, fileCountRef, setTotalFilesNum]);
 
   const processFileData = useCallback((line: string, addFileSize: (size: number) => void) => {
     const parsedFile = processJsonLine(
@@ -65,45 +87,28 @@ export function useRepositoryFiles(owner: string, repo: string) {
       addFileToState,
       handleApiError,
       handleTotalFiles,
-      handleBranchName,
-      handleStatusUpdate
+      handleResolvedRef,
+      handleStatusUpdate,
+      handleRateLimited,
+      handleProgress,
+      handleSubmodule
     );
     
+    // The file count comes from the progress events; only the bytes are added up here.
     if(parsedFile && typeof parsedFile !== 'boolean' && parsedFile.size) {
       addFileSize(parsedFile.size);
-      fileCountRef.current += 1;
-      setTotalFilesNum(fileCountRef.current);
     }
   }, [
     addFileToState, 
     handleApiError, 
     handleTotalFiles, 
-    handleBranchName, 
+    handleResolvedRef, 
     handleStatusUpdate, 
-    fileCountRef,
-    setTotalFilesNum
+    handleRateLimited,
+    handleProgress,
+    handleSubmodule
   ]);
 
-  const processLine = useCallback((line: string, addFileSize: (size: number) => void) => {
-    try {
-      const jsonData = JSON.parse(line);
-      
-      if (jsonData.type === "status") {
-        const { newTotalDirs, newProcessedDirs } = handleStatusMessage(
-          jsonData.message ?? "",
-          totalDirectories,
-          processedDirectories
-        );
-        setTotalDirectories(newTotalDirs);
-        setProcessedDirectories(newProcessedDirs);
-      }
-    } catch (error: unknown) {
-      handleParseError(error);
-    }
-    
-    processFileData(line, addFileSize);
-  }, [handleParseError, processFileData, processedDirectories, totalDirectories, setTotalDirectories, setProcessedDirectories]);
-
   const processBuffer = useCallback((
     currentBuffer: string,
     setRemainingBuffer: (remaining: string) => void,
@@ -113,11 +118,11 @@ export function useRepositoryFiles(owner: string, repo: string) {
     for (let i = 0; i < lines.length - 1; i++) {
       const line = lines[i];
       if (line.trim()) {
-        processLine(line, addFileSize);
+        processFileData(line, addFileSize);
       }
     }
     setRemainingBuffer(lines[lines.length - 1]);
-  }, [processLine]);
+  }, [processFileData]);
 
   const processRemainingBuffer = useCallback((buffer: string) => {
     if (!buffer.trim()) return;
@@ -127,8 +132,11 @@ export function useRepositoryFiles(owner: string, repo: string) {
         addFileToState,
         handleApiError,
         handleTotalFiles,
-        handleBranchName,
-        handleStatusUpdate
+        handleResolvedRef,
+        handleStatusUpdate,
+        handleRateLimited,
+        handleProgress,
+        handleSubmodule
       );
     } catch (e: unknown) {
       console.warn(
@@ -146,12 +154,15 @@ export function useRepositoryFiles(owner: string, repo: string) {
           addFileToState,
           handleApiError,
           handleTotalFiles,
-          handleBranchName,
-          handleStatusUpdate
+          handleResolvedRef,
+          handleStatusUpdate,
+          handleRateLimited,
+          handleProgress,
+          handleSubmodule
         );
       });
     }
-  }, [addFileToState, handleApiError, handleTotalFiles, handleBranchName, handleStatusUpdate]);
+  }, [addFileToState, handleApiError, handleTotalFiles, handleResolvedRef, handleStatusUpdate, handleRateLimited, handleProgress, handleSubmodule]);
 
   useEffect(() => {
     if (!owner || !repo) {
@@ -160,17 +171,23 @@ export function useRepositoryFiles(owner: string, repo: string) {
       return;
     }
 
+    // Aborted on unmount or when the crawled location changes, which also cancels the crawl on the server.
+    const controller = new AbortController();
+
     const fetchRepositoryFiles = async () => {
       setIsLoading(true);
       setFiles([]);
+      setSubmodules([]);
       setError(null);
       setTotalFilesNum(null);
-      setBranchName("");
+      setResolvedRef(null);
       setExpandedFolders(new Set());
       setShowFileTreeView(false);
       setTotalRepoSize(0);
       setTotalDirectories(0);
       setProcessedDirectories(0);
+      setRateLimitResetAt(null);
+      setExcludedEntries(null);
 
       let currentTotalSize = 0;
 
@@ -180,7 +197,8 @@ export function useRepositoryFiles(owner: string, repo: string) {
           headers: {
             "Content-Type": "application/json",
           },
-          body: JSON.stringify({ url: repositoryUrl }),
+          body: requestBody,
+          signal: controller.signal,
         });
 
         if (!response.ok) {
@@ -192,6 +210,12 @@ export function useRepositoryFiles(owner: string, repo: string) {
           );
         }
 
+        // A page loaded before a deploy may not understand the new server's events.
+        const protocolVersion = response.headers.get(STREAM_PROTOCOL_VERSION_HEADER);
+        if (protocolVersion !== String(STREAM_PROTOCOL_VERSION)) {
+          throw new Error(`Unsupported stream protocol version ${protocolVersion ?? "unknown"}. Please reload the page.`);
+        }
+
         if (!response.body) {
           throw new Error("Response body is null.");
         }
@@ -217,6 +241,9 @@ export function useRepositoryFiles(owner: string, repo: string) {
           });
         }
       } catch (e: unknown) {
+        if (controller.signal.aborted) {
+          return;
+        }
         console.error("Failed to fetch stream:", e);
         setError(e instanceof Error ? e.message : "An unknown error occurred.");
         setIsLoading(false);
@@ -224,37 +251,9 @@ export function useRepositoryFiles(owner: string, repo: string) {
     };
 
     fetchRepositoryFiles();
-  }, [owner, repo, repositoryUrl, processBuffer, processRemainingBuffer]);
-
-  const handleStatusMessage = (
-    message: string,
-    currentTotalDirs: number,
-    currentProcessedDirs: number
-  ): { newTotalDirs: number; newProcessedDirs: number } => {
-    let newTotalDirs = currentTotalDirs;
-    let newProcessedDirs = currentProcessedDirs;
 
-    const foundDirsMatch = /Found\s+(\d+)\s+directories/i.exec(message);
-    const moreDirsMatch = /Found\s+(\d+)\s+more directories/i.exec(message);
-    const processingDirMatch = /Processing directory\s+(\d+)\/(\d+)/i.exec(message);
-    const completedBatchMatch = /processed\s+(\d+)\s+directories/i.exec(message);
-
-    if (foundDirsMatch?.[1]) {
-      newTotalDirs += parseInt(foundDirsMatch[1], 10);
-    } else if (moreDirsMatch?.[1]) {
-      newTotalDirs += parseInt(moreDirsMatch[1], 10);
-    }
-
-    if (processingDirMatch?.[1] && processingDirMatch?.[2]) {
-      const current = parseInt(processingDirMatch[1], 10);
-      newProcessedDirs = Math.max(newProcessedDirs, current);
-    } else if (completedBatchMatch?.[1]) {
-      newProcessedDirs += parseInt(completedBatchMatch[1], 10);
-    } else if (message.includes("Completed directory")) {
-      newProcessedDirs += 1;
-    }
-    return { newTotalDirs, newProcessedDirs };
-  };
+    return () => controller.abort();
+  }, [owner, repo, requestBody, processBuffer, processRemainingBuffer]);
 
   const toggleFolderExpansion = (path: string) => {
     setExpandedFolders(prev => {
@@ -268,16 +267,30 @@ export function useRepositoryFiles(owner: string, repo: string) {
     });
   };
 
+  const expandFolders = useCallback((paths: string[]) => {
+    setExpandedFolders(prev => {
+      if (paths.every(path => prev.has(path))) {
+        return prev;
+      }
+      return new Set([...prev, ...paths]);
+    });
+  }, [setExpandedFolders]);
+
   const validFiles = files.filter(isValidFile);
 
   return {
     files: validFiles,
+    submodules,
     isLoading,
     error,
     totalFilesNum,
-    branchName,
+    branchName: resolvedRef?.name ?? "",
+    refKind: resolvedRef?.kind ?? null,
+    commitSha: resolvedRef?.commit_sha ?? null,
+    basePath: resolvedRef?.path ?? null,
     expandedFolders,
     toggleFolderExpansion,
+    expandFolders,
     showFileTreeView,
     setShowFileTreeView,
     totalRepoSize, 
@@ -285,6 +298,8 @@ export function useRepositoryFiles(owner: string, repo: string) {
     loadingProgress,
     totalDirectories,
     processedDirectories,
+    rateLimitResetAt,
+    excludedEntries,
     fileCount: fileCountRef.current,
     repositoryUrl
   };
@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { RefListResponse, RefListType } from '../_lib/types';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export function useRepositoryRefs(owner: string, repo: string, type: RefListType, query: string, enabled: boolean) {
+  const [refs, setRefs] = useState<string[]>([]);
+  const [page, setPage] = useState<number>(1);
+  const [hasNextPage, setHasNextPage] = useState<boolean>(false);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only the latest request may update the list; older ones are aborted.
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const fetchPage = useCallback(async (pageToFetch: number) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ owner, repo, type, page: String(pageToFetch) });
+      if (query.trim()) {
+        params.set('q', query.trim());
+      }
+      const response = await fetch(`/api/v1/repo/refs?${params}`, { signal: controller.signal });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error ?? `API request failed with status ${response.status}`);
+      }
+
+      const { refs: names, has_next_page } = data as RefListResponse;
+      setRefs(prev => pageToFetch === 1 ? names : [...prev, ...names]);
+      setPage(pageToFetch);
+      setHasNextPage(has_next_page);
+    } catch (e: unknown) {
+      if (controller.signal.aborted) {
+        return;
+      }
+      setError(e instanceof Error ? e.message : 'An unknown error occurred.');
+    }
+    setIsLoading(false);
+  }, [owner, repo, type, query]);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    const timeout = setTimeout(() => fetchPage(1), query ? SEARCH_DEBOUNCE_MS : 0);
+    return () => {
+      clearTimeout(timeout);
+      controllerRef.current?.abort();
+    };
+  }, [enabled, query, fetchPage]);
+
+  const loadMore = useCallback(() => fetchPage(page + 1), [fetchPage, page]);
+
+  return {
+    refs,
+    hasNextPage,
+    isLoading,
+    error,
+    loadMore,
+  };
+}
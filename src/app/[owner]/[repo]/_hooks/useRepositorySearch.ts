@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { SearchCompleteItem, SearchRequest, SearchResultItem } from '../_lib/types';
+import { processSearchJsonLine } from '../_lib/stream-processing';
+import { STREAM_PROTOCOL_VERSION, STREAM_PROTOCOL_VERSION_HEADER } from '@/lib/stream-protocol';
+
+export function useRepositorySearch(searchUrl: string) {
+  const [results, setResults] = useState<SearchResultItem[]>([]);
+  const [summary, setSummary] = useState<SearchCompleteItem | null>(null);
+  const [isSearching, setIsSearching] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [currentStatus, setCurrentStatus] = useState<string>("");
+  const [rateLimitResetAt, setRateLimitResetAt] = useState<number | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const handleApiError = useCallback((message: string) => {
+    setError(`API Error: ${message}`);
+    setIsSearching(false);
+  }, [setError, setIsSearching]);
+
+  const handleSearchComplete = useCallback((searchSummary: SearchCompleteItem) => {
+    setSummary(searchSummary);
+    setCurrentStatus("Complete!");
+    setIsSearching(false);
+  }, [setSummary, setCurrentStatus, setIsSearching]);
+
+  const handleStatusUpdate = useCallback((message: string) => {
+    setCurrentStatus(message);
+    setRateLimitResetAt(null);
+  }, [setCurrentStatus, setRateLimitResetAt]);
+
+  const handleRateLimited = useCallback((resetAt: number) => {
+    setRateLimitResetAt(resetAt);
+  }, [setRateLimitResetAt]);
+
+  const cancelSearch = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsSearching(false);
+  }, [setIsSearching]);
+
+  // A new search, leaving the page or moving to another ref or folder cancels the running search on the server.
+  useEffect(() => {
+    cancelSearch();
+    setResults([]);
+    setSummary(null);
+    setError(null);
+    setCurrentStatus("");
+    return cancelSearch;
+  }, [searchUrl, cancelSearch]);
+
+  const search = useCallback(async (request: SearchRequest) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setIsSearching(true);
+    setResults([]);
+    setSummary(null);
+    setError(null);
+    setCurrentStatus("Starting search...");
+    setRateLimitResetAt(null);
+
+    const receivedResults: SearchResultItem[] = [];
+    const collectResult = (result: SearchResultItem) => {
+      receivedResults.push(result);
+    };
+
+    try {
+      const response = await fetch("/api/v1/repo/search", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ url: searchUrl, ...request }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(
+          errorData.error ?
+            `API request failed with status ${response.status}: ${errorData.error}` :
+            `API request failed with status ${response.status}`
+        );
+      }
+
+      // A page loaded before a deploy may not understand the new server's events.
+      const protocolVersion = response.headers.get(STREAM_PROTOCOL_VERSION_HEADER);
+      if (protocolVersion !== String(STREAM_PROTOCOL_VERSION)) {
+        throw new Error(`Unsupported stream protocol version ${protocolVersion ?? "unknown"}. Please reload the page.`);
+      }
+
+      if (!response.body) {
+        throw new Error("Response body is null.");
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+        buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+        const lines = buffer.split("\n");
+        buffer = done ? "" : lines.pop() ?? "";
+        const resultCount = receivedResults.length;
+        lines.filter(line => line.trim()).forEach(line => processSearchJsonLine(
+          line,
+          collectResult,
+          handleApiError,
+          handleSearchComplete,
+          () => {},
+          handleStatusUpdate,
+          handleRateLimited
+        ));
+        if (receivedResults.length > resultCount) {
+          // Files finish in any order; keep them sorted so results do not jump around while streaming.
+          setResults([...receivedResults].sort((a, b) => a.path.localeCompare(b.path)));
+        }
+
+        if (done) {
+          setIsSearching(false);
+          break;
+        }
+      }
+    } catch (e: unknown) {
+      if (controller.signal.aborted) {
+        return;
+      }
+      console.error("Failed to fetch stream:", e);
+      setError(e instanceof Error ? e.message : "An unknown error occurred.");
+      setIsSearching(false);
+    }
+  }, [searchUrl, handleApiError, handleSearchComplete, handleStatusUpdate, handleRateLimited]);
+
+  return {
+    results,
+    summary,
+    isSearching,
+    error,
+    currentStatus,
+    rateLimitResetAt,
+    search,
+    cancelSearch,
+  };
+}
@@ -0,0 +1,44 @@
+import { getCrawlFilterQuery, hasCrawlFilters, parseCrawlFilters, splitGlobs } from '../crawl-filters';
+
+describe('splitGlobs', () => {
+  test('should split on commas and whitespace', () => {
+    expect(splitGlobs(' src/**, *.ts\ndocs/ ,,')).toEqual(['src/**', '*.ts', 'docs/']);
+    expect(splitGlobs('')).toEqual([]);
+  });
+});
+
+describe('parseCrawlFilters', () => {
+  test('should read repeated and comma-separated globs and the depth', () => {
+    expect(parseCrawlFilters(new URLSearchParams('include=src/**&exclude=node_modules/,dist/&exclude=*.min.js&max_depth=2'))).toEqual({
+      include: ['src/**'],
+      exclude: ['node_modules/', 'dist/', '*.min.js'],
+      max_depth: 2,
+    });
+  });
+
+  test('should ignore an invalid depth', () => {
+    expect(parseCrawlFilters(new URLSearchParams('max_depth=-1'))).toEqual({ include: [], exclude: [] });
+    expect(parseCrawlFilters(new URLSearchParams('max_depth=deep'))).toEqual({ include: [], exclude: [] });
+  });
+});
+
+describe('getCrawlFilterQuery', () => {
+  test('should round-trip through parseCrawlFilters', () => {
+    const filters = { include: ['src/**'], exclude: ['node_modules/', '*.md'], max_depth: 0 };
+    const query = getCrawlFilterQuery(filters);
+
+    expect(query).toBe('?include=src%2F**&exclude=node_modules%2F&exclude=*.md&max_depth=0');
+    expect(parseCrawlFilters(new URLSearchParams(query))).toEqual(filters);
+  });
+
+  test('should be empty without filters', () => {
+    expect(getCrawlFilterQuery({ include: [], exclude: [] })).toBe('');
+  });
+});
+
+describe('hasCrawlFilters', () => {
+  test('should count a depth of 0 as a filter', () => {
+    expect(hasCrawlFilters({ include: [], exclude: [] })).toBe(false);
+    expect(hasCrawlFilters({ include: [], exclude: [], max_depth: 0 })).toBe(true);
+  });
+});
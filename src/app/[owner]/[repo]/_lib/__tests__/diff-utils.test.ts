@@ -0,0 +1,63 @@
+import { buildDiffTree, summarizeDiffByExtension } from '../diff-utils';
+import { compactTreePaths } from '../tree-utils';
+import { DiffItem } from '../types';
+
+const diff = (status: DiffItem['status'], path: string, size: number, previous_size: number, previous_path?: string): DiffItem => (
+  previous_path
+    ? { type: 'diff', status, path, previous_path, size, previous_size }
+    : { type: 'diff', status, path, size, previous_size }
+);
+
+describe('buildDiffTree', () => {
+  it('should roll size changes and change counts up into every folder', () => {
+    const result = buildDiffTree([
+      diff('added', 'src/lib/new.ts', 100, 0),
+      diff('modified', 'src/index.ts', 50, 80),
+      diff('removed', 'README.md', 0, 10),
+    ]);
+
+    expect(result.map(node => node.path)).toEqual(['README.md', 'src']);
+    const src = result[1];
+    expect(src).toMatchObject({
+      type: 'folder',
+      sizeDelta: 70,
+      changes: { added: 1, removed: 0, modified: 1, renamed: 0 },
+    });
+    expect(src.children?.find(node => node.path === 'src/lib')).toMatchObject({
+      sizeDelta: 100,
+      changes: { added: 1, removed: 0, modified: 0, renamed: 0 },
+    });
+    expect(result[0]).toMatchObject({ type: 'file', sizeDelta: -10, changes: { removed: 1 } });
+  });
+
+  it('should compact folders that only hold one folder', () => {
+    const result = compactTreePaths(buildDiffTree([diff('added', 'a/b/c.ts', 1, 0)]));
+
+    expect(result[0].displayPath).toBe('a/b');
+    expect(result[0].sizeDelta).toBe(1);
+  });
+});
+
+describe('summarizeDiffByExtension', () => {
+  it('should total the net change per extension', () => {
+    const result = summarizeDiffByExtension([
+      diff('added', 'a.ts', 100, 0),
+      diff('modified', 'b.ts', 30, 50),
+      diff('removed', 'c.md', 0, 40),
+    ]);
+
+    expect(result).toEqual([
+      { extension: 'ts', changedFiles: 2, fileCountDelta: 1, sizeDelta: 80 },
+      { extension: 'md', changedFiles: 1, fileCountDelta: -1, sizeDelta: -40 },
+    ]);
+  });
+
+  it('should move renamed files from the old extension to the new one', () => {
+    const result = summarizeDiffByExtension([diff('renamed', 'src/app.ts', 10, 10, 'src/app.js')]);
+
+    expect(result).toEqual(expect.arrayContaining([
+      { extension: 'ts', changedFiles: 1, fileCountDelta: 1, sizeDelta: 10 },
+      { extension: 'js', changedFiles: 1, fileCountDelta: -1, sizeDelta: -10 },
+    ]));
+  });
+});
@@ -1,4 +1,4 @@
-import { formatFileSize, getGitHubFileUrl, isValidFile } from '../file-utils';
+import { countFileKinds, formatFileSize, getGitHubFileUrl, isValidFile } from '../file-utils';
 import { FileItem } from '../types';
 
 describe('formatFileSize', () => {
@@ -30,10 +30,11 @@ describe('isValidFile', () => {
     const validFile: FileItem = {
       path: 'test/file.ts',
       mode: '100644',
-      type: 'blob',
+      type: 'file',
       sha: '123abc',
       size: 1024,
-      url: 'https://api.github.com/repos/owner/repo/contents/test/file.ts'
+      url: 'https://api.github.com/repos/owner/repo/contents/test/file.ts',
+      kind: 'file'
     };
     expect(isValidFile(validFile)).toBe(true);
   });
@@ -52,4 +53,18 @@ describe('isValidFile', () => {
     expect(isValidFile({ size: 100 })).toBe(false);
     expect(isValidFile({ path: 123, size: '100' })).toBe(false);
   });
-}); 
\ No newline at end of file
+}); 
+
+describe('countFileKinds', () => {
+  test('should count symlinks, executables and LFS objects', () => {
+    const file = (path: string, kind: FileItem['kind'], lfs?: FileItem['lfs']): FileItem =>
+      ({ type: 'file', path, mode: '100644', sha: path, size: 1, kind, lfs });
+
+    expect(countFileKinds([
+      file('a.txt', 'file'),
+      file('run.sh', 'executable'),
+      file('link', 'symlink'),
+      file('model.bin', 'file', { oid: 'abc', pointer_size: 130 }),
+    ])).toEqual({ symlink: 1, executable: 1, lfs: 1 });
+  });
+});
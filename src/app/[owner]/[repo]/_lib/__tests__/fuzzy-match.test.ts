@@ -0,0 +1,39 @@
+import { fuzzyMatch, rankFilesByPath } from '../fuzzy-match';
+import { FileItem } from '../types';
+
+describe('fuzzyMatch', () => {
+  test('should match the query as a subsequence ignoring case', () => {
+    expect(fuzzyMatch('TsCfg', 'tsconfig.json')?.indices).toEqual([0, 1, 2, 5, 7]);
+    expect(fuzzyMatch('xyz', 'tsconfig.json')).toBeNull();
+  });
+
+  test('should prefer word starts and runs over scattered characters', () => {
+    const match = fuzzyMatch('build', 'bin/utils/tsconfig.build.json');
+
+    expect(match?.indices).toEqual([19, 20, 21, 22, 23]);
+  });
+
+  test('should ignore whitespace in the query', () => {
+    expect(fuzzyMatch('src index', 'src/index.ts')).not.toBeNull();
+  });
+});
+
+describe('rankFilesByPath', () => {
+  const files = [
+    'tests/sub/jest.config.js',
+    'packages/core/tsconfig.build.json',
+    'tsconfig.json',
+    'docs/tsconfig.build.json.md',
+  ].map(path => ({ path }) as FileItem);
+
+  test('should rank the closest paths first and drop the rest', () => {
+    expect(rankFilesByPath(files, 'tsconfig.build', 10).map(ranked => ranked.file.path)).toEqual([
+      'packages/core/tsconfig.build.json',
+      'docs/tsconfig.build.json.md',
+    ]);
+  });
+
+  test('should limit the number of results', () => {
+    expect(rankFilesByPath(files, 'js', 2)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,66 @@
+import { getLanguageSyntax, getLanguageSyntaxByName, highlightCode } from '../highlight';
+
+describe('getLanguageSyntax', () => {
+  test('should pick the syntax by extension or by file name', () => {
+    expect(getLanguageSyntax('src/index.ts')).toBe(getLanguageSyntax('lib/main.go'));
+    expect(getLanguageSyntax('docker/Dockerfile')).not.toBeNull();
+    expect(getLanguageSyntax('.gitignore')).not.toBeNull();
+    expect(getLanguageSyntax('notes.txt')).toBeNull();
+  });
+});
+
+describe('getLanguageSyntaxByName', () => {
+  test('should accept extensions and common language names', () => {
+    expect(getLanguageSyntaxByName('python')).toBe(getLanguageSyntax('a.py'));
+    expect(getLanguageSyntaxByName('TS')).toBe(getLanguageSyntax('a.ts'));
+    expect(getLanguageSyntaxByName('')).toBeNull();
+  });
+});
+
+describe('highlightCode', () => {
+  test('should split code into typed tokens per line', () => {
+    const lines = highlightCode('const a = "x"; // note\nreturn 42;\n', getLanguageSyntax('a.ts'));
+
+    expect(lines).toEqual([
+      [
+        { type: 'keyword', text: 'const' },
+        { type: 'plain', text: ' a = ' },
+        { type: 'string', text: '"x"' },
+        { type: 'plain', text: '; ' },
+        { type: 'comment', text: '// note' },
+      ],
+      [
+        { type: 'keyword', text: 'return' },
+        { type: 'plain', text: ' ' },
+        { type: 'number', text: '42' },
+        { type: 'plain', text: ';' },
+      ],
+    ]);
+  });
+
+  test('should carry block comments and multi-line strings across lines', () => {
+    expect(highlightCode('/* a\nb */ x', getLanguageSyntax('a.c'))).toEqual([
+      [{ type: 'comment', text: '/* a' }],
+      [{ type: 'comment', text: 'b */' }, { type: 'plain', text: ' x' }],
+    ]);
+    expect(highlightCode('"""doc\nstring"""', getLanguageSyntax('a.py'))).toEqual([
+      [{ type: 'string', text: '"""doc' }],
+      [{ type: 'string', text: 'string"""' }],
+    ]);
+  });
+
+  test('should end unclosed single-line strings at the line break and honor escapes', () => {
+    expect(highlightCode('"a\\"b\nc', getLanguageSyntax('a.js'))).toEqual([
+      [{ type: 'string', text: '"a\\"b' }],
+      [{ type: 'plain', text: 'c' }],
+    ]);
+  });
+
+  test('should keep empty lines and leave unknown languages plain', () => {
+    expect(highlightCode('one\n\ntwo', null)).toEqual([
+      [{ type: 'plain', text: 'one' }],
+      [],
+      [{ type: 'plain', text: 'two' }],
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+import { detectLanguage, guessHeaderLanguage, summarizeLanguages } from '../languages';
+import { FileItem } from '../types';
+
+const file = (path: string, size: number): FileItem => ({ type: 'file', path, mode: '100644', sha: path, size, kind: 'file' });
+
+describe('detectLanguage', () => {
+  test('should detect languages by extension, ignoring case', () => {
+    expect(detectLanguage('src/index.ts')?.name).toBe('TypeScript');
+    expect(detectLanguage('src/App.TSX')?.name).toBe('TypeScript');
+    expect(detectLanguage('lib/main.c')).toEqual({ name: 'C', category: 'programming', color: '#555555' });
+    expect(detectLanguage('docs/guide.md')?.category).toBe('prose');
+  });
+
+  test('should detect well-known file names without an extension', () => {
+    expect(detectLanguage('Dockerfile')?.name).toBe('Dockerfile');
+    expect(detectLanguage('docker/Dockerfile.dev')?.name).toBe('Dockerfile');
+    expect(detectLanguage('Makefile')?.name).toBe('Makefile');
+    expect(detectLanguage('makefile')?.name).toBe('Makefile');
+    expect(detectLanguage('.gitignore')?.name).toBe('Ignore List');
+    expect(detectLanguage('LICENSE')?.name).toBe('Text');
+  });
+
+  test('should prefer well-known file names over their extension', () => {
+    expect(detectLanguage('CMakeLists.txt')?.name).toBe('CMake');
+  });
+
+  test('should detect GitHub Actions workflows by their path', () => {
+    expect(detectLanguage('.github/workflows/ci.yml')?.name).toBe('GitHub Actions');
+    expect(detectLanguage('config/ci.yml')?.name).toBe('YAML');
+    expect(detectLanguage('docs/.github/workflows/ci.yml')?.name).toBe('YAML');
+  });
+
+  test('should count .h headers as the given language', () => {
+    expect(detectLanguage('include/api.h')?.name).toBe('C');
+    expect(detectLanguage('include/api.h', 'C++')?.name).toBe('C++');
+  });
+
+  test('should return null for unknown files', () => {
+    expect(detectLanguage('data/blob.bin')).toBeNull();
+    expect(detectLanguage('CHANGES')).toBeNull();
+  });
+});
+
+describe('guessHeaderLanguage', () => {
+  test('should pick the language with the most bytes of sources', () => {
+    expect(guessHeaderLanguage([file('a.c', 10), file('b.cpp', 30), file('c.h', 100)])).toBe('C++');
+    expect(guessHeaderLanguage([file('a.c', 30), file('b.cc', 10)])).toBe('C');
+    expect(guessHeaderLanguage([file('a.m', 5)])).toBe('Objective-C');
+  });
+
+  test('should default to C', () => {
+    expect(guessHeaderLanguage([file('api.h', 10), file('index.ts', 10)])).toBe('C');
+  });
+});
+
+describe('summarizeLanguages', () => {
+  const files = [
+    file('src/index.ts', 600),
+    file('src/util.ts', 200),
+    file('src/styles.css', 200),
+    file('package.json', 1000),
+    file('README.md', 500),
+    file('assets/logo.bin', 50),
+  ];
+
+  test('should weigh languages by bytes, largest first', () => {
+    const { languages, unknownFiles } = summarizeLanguages(files, ['programming', 'markup']);
+
+    expect(languages.map(({ name, count, size, percentage }) => ({ name, count, size, percentage }))).toEqual([
+      { name: 'TypeScript', count: 2, size: 800, percentage: 80 },
+      { name: 'CSS', count: 1, size: 200, percentage: 20 },
+    ]);
+    expect(unknownFiles).toBe(1);
+  });
+
+  test('should include the selected categories only', () => {
+    const { languages } = summarizeLanguages(files, ['data', 'prose']);
+
+    expect(languages.map(language => language.name)).toEqual(['JSON', 'Markdown']);
+    expect(languages[0].percentage).toBeCloseTo(66.67, 1);
+  });
+
+  test('should tie headers to the C++ sources of a repository', () => {
+    const { languages } = summarizeLanguages([file('src/main.cpp', 100), file('include/main.h', 50)], ['programming']);
+
+    expect(languages).toHaveLength(1);
+    expect(languages[0]).toMatchObject({ name: 'C++', count: 2, size: 150, percentage: 100 });
+  });
+});
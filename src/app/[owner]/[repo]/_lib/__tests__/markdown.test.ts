@@ -0,0 +1,165 @@
+import { findReadme, isMarkdownFile, parseInlines, parseMarkdown, resolveMarkdownUrl, slugify } from '../markdown';
+
+describe('parseInlines', () => {
+  test('should parse emphasis, code, links and images', () => {
+    expect(parseInlines('A **bold** _word_, `code` and [a *link*](docs/a.md "Title") ![logo](img/logo.png)')).toEqual([
+      { type: 'text', text: 'A ' },
+      { type: 'strong', children: [{ type: 'text', text: 'bold' }] },
+      { type: 'text', text: ' ' },
+      { type: 'emphasis', children: [{ type: 'text', text: 'word' }] },
+      { type: 'text', text: ', ' },
+      { type: 'code', text: 'code' },
+      { type: 'text', text: ' and ' },
+      { type: 'link', href: 'docs/a.md', children: [{ type: 'text', text: 'a ' }, { type: 'emphasis', children: [{ type: 'text', text: 'link' }] }] },
+      { type: 'text', text: ' ' },
+      { type: 'image', src: 'img/logo.png', alt: 'logo' },
+    ]);
+  });
+
+  test('should leave underscores inside words and lone asterisks alone', () => {
+    expect(parseInlines('snake_case_name and 2 * 3 * 4')).toEqual([{ type: 'text', text: 'snake_case_name and 2 * 3 * 4' }]);
+  });
+
+  test('should link bare URLs, honor escapes and decode entities', () => {
+    expect(parseInlines('See https://example.com/a. \\*not\\* &copy;')).toEqual([
+      { type: 'text', text: 'See ' },
+      { type: 'link', href: 'https://example.com/a', children: [{ type: 'text', text: 'https://example.com/a' }] },
+      { type: 'text', text: '. *not* ©' },
+    ]);
+  });
+
+  test('should drop inline HTML except line breaks and images', () => {
+    expect(parseInlines('a<br/>b <script>alert(1)</script><img src="x.png" alt="X" onerror="alert(1)">')).toEqual([
+      { type: 'text', text: 'a' },
+      { type: 'break' },
+      { type: 'text', text: 'b alert(1)' },
+      { type: 'image', src: 'x.png', alt: 'X' },
+    ]);
+  });
+
+  test('should match markup in the middle of long text', () => {
+    const padding = 'a < b and c_d '.repeat(20_000);
+
+    expect(parseInlines(`${padding}<https://example.com> \`code\``)).toEqual([
+      { type: 'text', text: padding },
+      { type: 'link', href: 'https://example.com', children: [{ type: 'text', text: 'https://example.com' }] },
+      { type: 'text', text: ' ' },
+      { type: 'code', text: 'code' },
+    ]);
+  });
+});
+
+describe('parseMarkdown', () => {
+  test('should give headings unique anchors', () => {
+    const blocks = parseMarkdown('# Hello, World!\n\nIntro\n===\n\n## Hello, World!');
+
+    expect(blocks.map(block => block.type === 'heading' ? [block.level, block.id] : null)).toEqual([
+      [1, 'user-content-hello-world'],
+      [1, 'user-content-intro'],
+      [2, 'user-content-hello-world-1'],
+    ]);
+  });
+
+  test('should parse fenced code, quotes and rules', () => {
+    expect(parseMarkdown('```ts\nconst a = 1;\n\nfoo();\n```\n> quoted\ntext\n\n---')).toEqual([
+      { type: 'code', language: 'ts', text: 'const a = 1;\n\nfoo();' },
+      { type: 'blockquote', children: [{ type: 'paragraph', children: [{ type: 'text', text: 'quoted\ntext' }] }] },
+      { type: 'rule' },
+    ]);
+  });
+
+  test('should parse nested and ordered lists', () => {
+    expect(parseMarkdown('- one\n  - nested\n- two\n\n3. three\n4. four')).toEqual([
+      {
+        type: 'list',
+        ordered: false,
+        start: 1,
+        items: [
+          [
+            { type: 'paragraph', children: [{ type: 'text', text: 'one' }] },
+            { type: 'list', ordered: false, start: 1, items: [[{ type: 'paragraph', children: [{ type: 'text', text: 'nested' }] }]] },
+          ],
+          [{ type: 'paragraph', children: [{ type: 'text', text: 'two' }] }],
+        ],
+      },
+      {
+        type: 'list',
+        ordered: true,
+        start: 3,
+        items: [
+          [{ type: 'paragraph', children: [{ type: 'text', text: 'three' }] }],
+          [{ type: 'paragraph', children: [{ type: 'text', text: 'four' }] }],
+        ],
+      },
+    ]);
+  });
+
+  test('should parse tables with alignment', () => {
+    expect(parseMarkdown('| Name | Size |\n|:-----|-----:|\n| a \\| b | 1 |')).toEqual([{
+      type: 'table',
+      header: [[{ type: 'text', text: 'Name' }], [{ type: 'text', text: 'Size' }]],
+      align: ['left', 'right'],
+      rows: [[[{ type: 'text', text: 'a | b' }], [{ type: 'text', text: '1' }]]],
+    }]);
+  });
+
+  test('should keep only the text and images of HTML blocks', () => {
+    expect(parseMarkdown('<p align="center">\n  <img src="logo.png" alt="Logo">\n</p>\n\n<!-- hidden -->')).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', text: '\n' }, { type: 'image', src: 'logo.png', alt: 'Logo' }, { type: 'text', text: '\n' }] },
+    ]);
+  });
+});
+
+describe('slugify', () => {
+  test('should build anchors the way GitHub does', () => {
+    expect(slugify('Getting Started: v2.0 (beta)')).toBe('getting-started-v20-beta');
+  });
+});
+
+describe('resolveMarkdownUrl', () => {
+  const location = { owner: 'owner', repo: 'repo', ref: 'release/2.x', filePath: 'docs/guide/README.md' };
+
+  test('should open relative links in the app at the same ref', () => {
+    expect(resolveMarkdownUrl('../setup.md#install', location, 'link')).toBe('/owner/repo/blob/release/2.x/docs/setup.md#user-content-install');
+    expect(resolveMarkdownUrl('../../src/index.ts#L10', location, 'link')).toBe('/owner/repo/blob/release/2.x/src/index.ts#L10');
+    expect(resolveMarkdownUrl('/CONTRIBUTING.md', location, 'link')).toBe('/owner/repo/blob/release/2.x/CONTRIBUTING.md');
+    expect(resolveMarkdownUrl('#usage', location, 'link')).toBe('#user-content-usage');
+    expect(resolveMarkdownUrl('#user-content-usage', location, 'link')).toBe('#user-content-usage');
+  });
+
+  test('should fetch relative images from the same ref', () => {
+    expect(resolveMarkdownUrl('./img/logo%20dark.png', location, 'image')).toBe(
+      '/api/v1/repo/blob?owner=owner&repo=repo&ref=release%2F2.x%2Fdocs%2Fguide%2Fimg%2Flogo+dark.png&format=raw'
+    );
+  });
+
+  test('should keep safe absolute URLs and drop unsafe ones', () => {
+    expect(resolveMarkdownUrl('https://example.com', location, 'link')).toBe('https://example.com');
+    expect(resolveMarkdownUrl('mailto:me@example.com', location, 'link')).toBe('mailto:me@example.com');
+    expect(resolveMarkdownUrl('javascript:alert(1)', location, 'link')).toBeNull();
+    expect(resolveMarkdownUrl('data:image/svg+xml,<svg/>', location, 'image')).toBeNull();
+  });
+});
+
+describe('isMarkdownFile', () => {
+  test('should recognize Markdown extensions', () => {
+    expect(isMarkdownFile('README.md')).toBe(true);
+    expect(isMarkdownFile('docs/guide.MARKDOWN')).toBe(true);
+    expect(isMarkdownFile('README.txt')).toBe(false);
+  });
+});
+
+describe('findReadme', () => {
+  const file = (path: string) => ({ type: 'file' as const, kind: 'file' as const, path, mode: '100644', size: 1, sha: path });
+  const files = [file('docs/README.md'), file('README.rst'), file('readme.markdown'), file('README.md'), file('src/index.ts')];
+
+  test('should prefer the .md README of the folder', () => {
+    expect(findReadme(files, null)?.path).toBe('README.md');
+    expect(findReadme(files, 'docs')?.path).toBe('docs/README.md');
+  });
+
+  test('should ignore folders without a Markdown README', () => {
+    expect(findReadme(files, 'src')).toBeNull();
+    expect(findReadme([file('README.rst')], null)).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+import { classifyPath, countPathClasses, excludePathClasses, parseGitAttributes } from '../path-classes';
+import { FileItem } from '../types';
+
+const file = (path: string): FileItem => ({ type: 'file', path, mode: '100644', sha: path, size: 1, kind: 'file' });
+
+describe('classifyPath', () => {
+  test('should classify vendored paths and minified bundles by default', () => {
+    expect(classifyPath('vendor/github.com/pkg/errors/errors.go')).toEqual(['vendored']);
+    expect(classifyPath('web/node_modules/react/index.js')).toEqual(['vendored']);
+    expect(classifyPath('public/app.min.js')).toEqual(['vendored']);
+    expect(classifyPath('gradlew')).toEqual(['vendored']);
+  });
+
+  test('should classify lockfiles and generated code by default', () => {
+    expect(classifyPath('package-lock.json')).toEqual(['generated']);
+    expect(classifyPath('rust/Cargo.lock')).toEqual(['generated']);
+    expect(classifyPath('api/service.pb.go')).toEqual(['generated']);
+  });
+
+  test('should classify documentation by default', () => {
+    expect(classifyPath('docs/index.md')).toEqual(['documentation']);
+    expect(classifyPath('README.md')).toEqual(['documentation']);
+    expect(classifyPath('packages/core/CHANGELOG.md')).toEqual(['documentation']);
+    expect(classifyPath('src/docs/index.ts')).toEqual([]);
+  });
+
+  test('should leave first-party source unclassified', () => {
+    expect(classifyPath('src/index.ts')).toEqual([]);
+    expect(classifyPath('src/vendors.ts')).toEqual([]);
+  });
+
+  test('should let .gitattributes rules win over the defaults', () => {
+    const rules = parseGitAttributes([
+      'third_party/** linguist-vendored',
+      'vendor/** -linguist-vendored',
+      'api/*.ts linguist-generated=true',
+      'docs/** linguist-documentation=false',
+    ].join('\n'));
+
+    expect(classifyPath('third_party/lib.c', rules)).toEqual(['vendored']);
+    expect(classifyPath('vendor/patched.go', rules)).toEqual([]);
+    expect(classifyPath('api/client.ts', rules)).toEqual(['generated']);
+    expect(classifyPath('docs/index.md', rules)).toEqual([]);
+  });
+
+  test('should apply the last matching rule', () => {
+    const rules = parseGitAttributes('*.js linguist-generated\nsrc/*.js -linguist-generated\n');
+
+    expect(classifyPath('lib/a.js', rules)).toEqual(['generated']);
+    expect(classifyPath('src/a.js', rules)).toEqual([]);
+  });
+});
+
+describe('parseGitAttributes', () => {
+  test('should keep only lines that set or unset a Linguist class', () => {
+    const rules = parseGitAttributes([
+      '# Comment',
+      '',
+      '* text=auto eol=lf',
+      '*.png binary',
+      '[attr]vendored linguist-vendored',
+      'dist/** linguist-vendored linguist-generated',
+      '*.md !linguist-documentation',
+    ].join('\r\n'));
+
+    expect(rules).toHaveLength(1);
+    expect(rules[0].overrides).toEqual({ vendored: true, generated: true });
+    expect(rules[0].pattern.test('dist/bundle.js')).toBe(true);
+  });
+});
+
+describe('countPathClasses and excludePathClasses', () => {
+  const files = [file('src/index.ts'), file('vendor/lib.js'), file('yarn.lock'), file('docs/README.md')];
+
+  test('should count the files of each class', () => {
+    expect(countPathClasses(files)).toEqual({ vendored: 1, generated: 1, documentation: 1 });
+  });
+
+  test('should leave out the files of the excluded classes', () => {
+    expect(excludePathClasses(files, ['vendored', 'documentation']).map(f => f.path)).toEqual(['src/index.ts', 'yarn.lock']);
+    expect(excludePathClasses(files, [])).toBe(files);
+  });
+});
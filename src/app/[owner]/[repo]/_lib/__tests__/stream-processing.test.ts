@@ -1,6 +1,8 @@
 import {
   extractValidJson,
+  processDiffJsonLine,
   processJsonLine,
+  processSearchJsonLine,
   tryFixAndParseMultipleJsons
 } from '../stream-processing';
 
@@ -47,7 +49,10 @@ describe('processJsonLine', () => {
     const fileItem = {
       type: 'file',
       path: 'test.txt',
-      size: 100
+      mode: '100644',
+      sha: 'abc123',
+      size: 100,
+      kind: 'file'
     };
     
     processJsonLine(
@@ -83,7 +88,9 @@ describe('processJsonLine', () => {
   it('should handle complete items', () => {
     const completeItem = {
       type: 'complete',
-      total_files: 10
+      total_files: 10,
+      total_directories: 3,
+      excluded_entries: 4
     };
     
     processJsonLine(
@@ -95,13 +102,52 @@ describe('processJsonLine', () => {
       mockCallbacks.onStatus
     );
 
-    expect(mockCallbacks.onComplete).toHaveBeenCalledWith(10);
+    expect(mockCallbacks.onComplete).toHaveBeenCalledWith(10, 3, 4);
+  });
+
+  it('should reject raw tree entries without the file event type', () => {
+    const treeEntry = {
+      path: 'test.txt',
+      mode: '100644',
+      type: 'blob',
+      sha: 'abc123',
+      size: 100
+    };
+
+    const result = processJsonLine(
+      JSON.stringify(treeEntry),
+      mockCallbacks.onFile,
+      mockCallbacks.onError,
+      mockCallbacks.onComplete,
+      mockCallbacks.onBranch,
+      mockCallbacks.onStatus
+    );
+
+    expect(result).toBe(false);
+    expect(mockCallbacks.onFile).not.toHaveBeenCalled();
+  });
+
+  it('should reject events missing required fields', () => {
+    const result = processJsonLine(
+      '{"type":"complete","total_files":10}',
+      mockCallbacks.onFile,
+      mockCallbacks.onError,
+      mockCallbacks.onComplete,
+      mockCallbacks.onBranch,
+      mockCallbacks.onStatus
+    );
+
+    expect(result).toBe(false);
+    expect(mockCallbacks.onComplete).not.toHaveBeenCalled();
   });
 
   it('should handle branch items', () => {
     const branchItem = {
       type: 'branch',
-      name: 'main'
+      name: 'feature/login',
+      kind: 'branch',
+      commit_sha: 'abc123',
+      path: 'src'
     };
     
     processJsonLine(
@@ -113,7 +159,7 @@ describe('processJsonLine', () => {
       mockCallbacks.onStatus
     );
 
-    expect(mockCallbacks.onBranch).toHaveBeenCalledWith('main');
+    expect(mockCallbacks.onBranch).toHaveBeenCalledWith(branchItem);
   });
 
   it('should handle status items', () => {
@@ -132,7 +178,7 @@ describe('processJsonLine', () => {
       mockCallbacks.onStatus
     );
 
-    expect(mockCallbacks.onStatus).toHaveBeenCalledWith('Processing files', 5);
+    expect(mockCallbacks.onStatus).toHaveBeenCalledWith('Processing files');
   });
 
   it('should handle warning items', () => {
@@ -151,7 +197,193 @@ describe('processJsonLine', () => {
       mockCallbacks.onStatus
     );
 
-    expect(mockCallbacks.onStatus).toHaveBeenCalledWith('Warning: Test warning', 3);
+    expect(mockCallbacks.onStatus).toHaveBeenCalledWith('Warning: Test warning');
+  });
+
+  it('should handle retry items', () => {
+    const retryItem = {
+      type: 'retry',
+      message: 'Request for directory src failed. Retrying in 1s (attempt 1 of 3)',
+      attempt: 1,
+      max_retries: 3,
+      delay_ms: 1000,
+      files_processed: 7
+    };
+    
+    const result = processJsonLine(
+      JSON.stringify(retryItem),
+      mockCallbacks.onFile,
+      mockCallbacks.onError,
+      mockCallbacks.onComplete,
+      mockCallbacks.onBranch,
+      mockCallbacks.onStatus
+    );
+
+    expect(result).toBe(true);
+    expect(mockCallbacks.onFile).not.toHaveBeenCalled();
+    expect(mockCallbacks.onStatus).toHaveBeenCalledWith(
+      'Retrying: Request for directory src failed. Retrying in 1s (attempt 1 of 3)');
+  });
+});
+
+describe('processJsonLine rate limit events', () => {
+  const noop = () => {};
+
+  it('should report rate limit pauses with the reset time', () => {
+    const onStatus = jest.fn();
+    const onRateLimited = jest.fn();
+    const rateLimitedItem = {
+      type: 'rate_limited',
+      message: 'GitHub API rate limit exhausted',
+      reset_at: 1700000000
+    };
+
+    const result = processJsonLine(JSON.stringify(rateLimitedItem), noop, noop, noop, noop, onStatus, onRateLimited);
+
+    expect(result).toBe(true);
+    expect(onStatus).toHaveBeenCalledWith('GitHub API rate limit exhausted');
+    expect(onRateLimited).toHaveBeenCalledWith(1700000000, 'GitHub API rate limit exhausted');
+  });
+
+  it('should accept heartbeats without reporting anything', () => {
+    const onFile = jest.fn();
+    const onStatus = jest.fn();
+
+    const result = processJsonLine('{"type":"heartbeat"}', onFile, noop, noop, noop, onStatus);
+
+    expect(result).toBe(true);
+    expect(onFile).not.toHaveBeenCalled();
+    expect(onStatus).not.toHaveBeenCalled();
+  });
+});
+
+describe('processJsonLine progress events', () => {
+  const noop = () => {};
+
+  it('should pass progress counters through unchanged', () => {
+    const onStatus = jest.fn();
+    const onProgress = jest.fn();
+    const progressItem = {
+      type: 'progress',
+      dirs_discovered: 12,
+      dirs_completed: 9,
+      dirs_failed: 1,
+      files_emitted: 340,
+      bytes_emitted: 123456
+    };
+
+    const result = processJsonLine(JSON.stringify(progressItem), noop, noop, noop, noop, onStatus, undefined, onProgress);
+
+    expect(result).toBe(true);
+    expect(onProgress).toHaveBeenCalledWith(progressItem);
+    expect(onStatus).not.toHaveBeenCalled();
+  });
+
+  it('should not derive counts from status text', () => {
+    const onStatus = jest.fn();
+
+    processJsonLine(
+      '{"type":"status","message":"Completed directory src: Found 3 files (total: 42)"}',
+      noop, noop, noop, noop, onStatus
+    );
+
+    expect(onStatus).toHaveBeenCalledWith('Completed directory src: Found 3 files (total: 42)');
+  });
+});
+
+describe('processJsonLine submodule events', () => {
+  const noop = () => {};
+
+  it('should pass submodules to their own callback', () => {
+    const onFile = jest.fn();
+    const onSubmodule = jest.fn();
+    const submoduleItem = { type: 'submodule', path: 'vendor/lib', sha: 'abc', url: '../lib.git', owner: 'owner', repo: 'lib' };
+
+    const result = processJsonLine(JSON.stringify(submoduleItem), onFile, noop, noop, noop, noop, undefined, undefined, onSubmodule);
+
+    expect(result).toBe(true);
+    expect(onSubmodule).toHaveBeenCalledWith(submoduleItem);
+    expect(onFile).not.toHaveBeenCalled();
+  });
+});
+
+describe('processDiffJsonLine', () => {
+  const noop = () => {};
+
+  it('should pass changed files and the summary through', () => {
+    const onDiff = jest.fn();
+    const onDiffComplete = jest.fn();
+    const diffItem = { type: 'diff', status: 'modified', path: 'src/index.ts', size: 20, previous_size: 12 };
+    const summaryItem = { type: 'diff_complete', added: 0, removed: 0, modified: 1, renamed: 0, unchanged: 4, size_delta: 8 };
+
+    expect(processDiffJsonLine(JSON.stringify(diffItem), onDiff, noop, onDiffComplete, noop, noop)).toEqual(diffItem);
+    expect(processDiffJsonLine(JSON.stringify(summaryItem), onDiff, noop, onDiffComplete, noop, noop)).toBe(true);
+    expect(onDiff).toHaveBeenCalledWith(diffItem);
+    expect(onDiffComplete).toHaveBeenCalledWith(summaryItem);
+  });
+
+  it('should report the side of each resolved ref and the shared events', () => {
+    const onBranch = jest.fn();
+    const onStatus = jest.fn();
+    const branchItem = { type: 'branch', name: 'v1.0', kind: 'tag', commit_sha: 'abc', path: '', side: 'base' };
+
+    processDiffJsonLine(JSON.stringify(branchItem), noop, noop, noop, onBranch, onStatus);
+    processDiffJsonLine('{"type":"warning","message":"Skipped directory docs"}', noop, noop, noop, onBranch, onStatus);
+
+    expect(onBranch).toHaveBeenCalledWith(branchItem);
+    expect(onStatus).toHaveBeenCalledWith('Warning: Skipped directory docs');
+  });
+
+  it('should reject events of the explore stream', () => {
+    const onDiff = jest.fn();
+    const result = processDiffJsonLine(
+      '{"type":"file","path":"a.ts","mode":"100644","sha":"abc","size":1}',
+      onDiff, noop, noop, noop, noop
+    );
+
+    expect(result).toBe(false);
+    expect(onDiff).not.toHaveBeenCalled();
+  });
+
+  it('should be rejected by the explore stream', () => {
+    const result = processJsonLine(
+      '{"type":"diff","status":"added","path":"a.ts","size":1,"previous_size":0}',
+      noop, noop, noop, noop, noop
+    );
+
+    expect(result).toBe(false);
+  });
+});
+
+describe('processSearchJsonLine', () => {
+  const noop = () => {};
+
+  it('should pass the matches of each file and the summary through', () => {
+    const onResult = jest.fn();
+    const onSearchComplete = jest.fn();
+    const resultItem = {
+      type: 'search_result',
+      path: 'src/index.ts',
+      sha: 'abc',
+      matches: [{ line: 3, text: 'const key = 1;', ranges: [[6, 9]], before: [], after: [] }],
+    };
+    const summaryItem = { type: 'search_complete', files_searched: 2, files_matched: 1, matches: 1, files_skipped: 0, truncated: false };
+
+    expect(processSearchJsonLine(JSON.stringify(resultItem), onResult, noop, onSearchComplete, noop, noop)).toEqual(resultItem);
+    expect(processSearchJsonLine(JSON.stringify(summaryItem), onResult, noop, onSearchComplete, noop, noop)).toBe(true);
+    expect(onResult).toHaveBeenCalledWith(resultItem);
+    expect(onSearchComplete).toHaveBeenCalledWith(summaryItem);
+  });
+
+  it('should ignore the files of the crawl behind the search', () => {
+    const onResult = jest.fn();
+    const result = processSearchJsonLine(
+      '{"type":"file","path":"a.ts","mode":"100644","sha":"abc","size":1,"kind":"file"}',
+      onResult, noop, noop, noop, noop
+    );
+
+    expect(result).toBe(false);
+    expect(onResult).not.toHaveBeenCalled();
   });
 });
 
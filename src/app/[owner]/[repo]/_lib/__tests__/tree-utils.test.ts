@@ -1,5 +1,5 @@
-import { buildFileTree, compactTreePaths } from '../tree-utils';
-import { FileItem, TreeNode } from '../types';
+import { buildFileTree, collectFolderPaths, compactTreePaths, createTreeFilter, filterFileTree, sortTreeNodes } from '../tree-utils';
+import { FileItem, SubmoduleItem, TreeNode } from '../types';
 
 describe('buildFileTree', () => {
   it('should create a tree structure from flat file list', () => {
@@ -48,6 +48,35 @@ describe('buildFileTree', () => {
     expect(folder.children).toHaveLength(2); // two files
     expect(folder.children?.map(child => child.name)).toEqual(['file1.txt', 'file2.txt']);
   });
+
+  it('should place submodules in the tree next to files', () => {
+    const files: FileItem[] = [{ path: 'vendor/README.md' } as FileItem];
+    const submodules: SubmoduleItem[] = [{ type: 'submodule', path: 'vendor/lib', sha: 'abc' }];
+
+    const result = buildFileTree(files, submodules);
+
+    expect(result[0].children?.map(node => [node.type, node.path])).toEqual([
+      ['submodule', 'vendor/lib'],
+      ['file', 'vendor/README.md'],
+    ]);
+    expect(result[0].children?.[0].submoduleItem).toBe(submodules[0]);
+  });
+
+  it('should roll up the size, file count and deepest path of every folder', () => {
+    const files: FileItem[] = [
+      { path: 'src/index.ts', size: 100 } as FileItem,
+      { path: 'src/lib/deep/util.ts', size: 50 } as FileItem,
+      { path: 'src/lib/api.ts', size: 25 } as FileItem,
+      { path: 'README.md', size: 10 } as FileItem,
+    ];
+    const submodules: SubmoduleItem[] = [{ type: 'submodule', path: 'src/vendor', sha: 'abc' }];
+
+    const src = buildFileTree(files, submodules).find(node => node.name === 'src');
+    const lib = src?.children?.find(node => node.name === 'lib');
+
+    expect(src?.stats).toEqual({ size: 175, fileCount: 3, deepestPath: 'src/lib/deep/util.ts' });
+    expect(lib?.stats).toEqual({ size: 75, fileCount: 2, deepestPath: 'src/lib/deep/util.ts' });
+  });
 });
 
 describe('compactTreePaths', () => {
@@ -118,4 +147,83 @@ describe('compactTreePaths', () => {
     const result = compactTreePaths([]);
     expect(result).toEqual([]);
   });
-}); 
\ No newline at end of file
+
+  it('should keep the folder stats when merging single child folders', () => {
+    const files: FileItem[] = [
+      { path: 'packages/core/src/a.ts', size: 30 } as FileItem,
+      { path: 'packages/core/src/b.ts', size: 12 } as FileItem,
+    ];
+
+    const [packages] = compactTreePaths(buildFileTree(files));
+
+    expect(packages.displayPath).toBe('packages/core/src');
+    expect(packages.children?.map(child => child.name)).toEqual(['a.ts', 'b.ts']);
+    expect(packages.stats).toEqual({ size: 42, fileCount: 2, deepestPath: 'packages/core/src/a.ts' });
+  });
+});
+
+describe('filterFileTree', () => {
+  const files: FileItem[] = [
+    { path: 'README.md' } as FileItem,
+    { path: 'packages/app/tsconfig.build.json' } as FileItem,
+    { path: 'packages/app/src/index.ts' } as FileItem,
+    { path: 'packages/lib/tsconfig.json' } as FileItem,
+  ];
+
+  it('should keep only matching files and the folders leading to them', () => {
+    const tree = compactTreePaths(buildFileTree(files));
+
+    const result = filterFileTree(tree, createTreeFilter('TSCONFIG'));
+
+    expect(collectFolderPaths(result)).toEqual(['packages', 'packages/app', 'packages/lib']);
+    expect(result[0].children?.[0].children?.map(node => node.path)).toEqual(['packages/app/tsconfig.build.json']);
+    expect(tree[0].children?.[0].children).toHaveLength(2);
+  });
+
+  it('should match filters with glob characters as globs', () => {
+    const result = filterFileTree(buildFileTree(files), createTreeFilter('src/**'));
+
+    expect(result).toEqual([]);
+    expect(filterFileTree(buildFileTree(files), createTreeFilter('*.md')).map(node => node.path)).toEqual(['README.md']);
+  });
+
+  it('should roll up only the kept files of a folder', () => {
+    const sizedFiles = files.map((file, index) => ({ ...file, size: (index + 1) * 10 }));
+
+    const [packages] = filterFileTree(buildFileTree(sizedFiles), createTreeFilter('tsconfig'));
+
+    expect(packages.stats).toEqual({ size: 60, fileCount: 2, deepestPath: 'packages/app/tsconfig.build.json' });
+  });
+});
+
+describe('sortTreeNodes', () => {
+  const tree = buildFileTree([
+    { path: 'b.ts', size: 40 } as FileItem,
+    { path: 'a.md', size: 5 } as FileItem,
+    { path: 'lib/x.ts', size: 10 } as FileItem,
+    { path: 'src/y.ts', size: 30 } as FileItem,
+    { path: 'src/z.ts', size: 30 } as FileItem,
+    { path: 'Makefile', size: 1 } as FileItem,
+  ]);
+  const names = (nodes: TreeNode[]) => nodes.map(node => node.name);
+
+  it('should sort by name with folders first', () => {
+    expect(names(sortTreeNodes(tree, { key: 'name', direction: 'asc' }))).toEqual(['lib', 'src', 'a.md', 'b.ts', 'Makefile']);
+    expect(names(sortTreeNodes(tree, { key: 'name', direction: 'desc' }))).toEqual(['src', 'lib', 'Makefile', 'b.ts', 'a.md']);
+  });
+
+  it('should sort by extension with folders first and ties by name', () => {
+    expect(names(sortTreeNodes(tree, { key: 'extension', direction: 'asc' }))).toEqual(['lib', 'src', 'Makefile', 'a.md', 'b.ts']);
+  });
+
+  it('should sort by size and file count mixing folders and files', () => {
+    expect(names(sortTreeNodes(tree, { key: 'size', direction: 'desc' }))).toEqual(['src', 'b.ts', 'lib', 'a.md', 'Makefile']);
+    expect(names(sortTreeNodes(tree, { key: 'files', direction: 'desc' }))).toEqual(['src', 'a.md', 'b.ts', 'lib', 'Makefile']);
+  });
+
+  it('should not reorder the given nodes', () => {
+    const before = names(tree);
+    sortTreeNodes(tree, { key: 'size', direction: 'asc' });
+    expect(names(tree)).toEqual(before);
+  });
+});
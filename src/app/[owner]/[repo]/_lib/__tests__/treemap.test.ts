@@ -0,0 +1,90 @@
+import { findFolderChain, getTileColor, layoutTreemap, squarify, TREEMAP_HEADER_HEIGHT } from '../treemap';
+import { buildFileTree, compactTreePaths } from '../tree-utils';
+import { FileItem, TreemapRect } from '../types';
+
+const file = (path: string, size: number): FileItem => ({ type: 'file', path, mode: '100644', sha: path, size, kind: 'file' });
+const area = ({ width, height }: TreemapRect) => width * height;
+
+describe('squarify', () => {
+  test('should fill the rectangle with tiles proportional to the sizes', () => {
+    const rect = { x: 10, y: 20, width: 600, height: 400 };
+    const tiles = squarify([6, 6, 4, 3, 2, 2, 1], rect);
+
+    expect(tiles).toHaveLength(7);
+    expect(tiles.reduce((sum, tile) => sum + area(tile), 0)).toBeCloseTo(area(rect));
+    expect(area(tiles[0]) / area(tiles[6])).toBeCloseTo(6);
+    for (const tile of tiles) {
+      expect(tile.x).toBeGreaterThanOrEqual(rect.x - 1e-9);
+      expect(tile.y).toBeGreaterThanOrEqual(rect.y - 1e-9);
+      expect(tile.x + tile.width).toBeLessThanOrEqual(rect.x + rect.width + 1e-9);
+      expect(tile.y + tile.height).toBeLessThanOrEqual(rect.y + rect.height + 1e-9);
+    }
+  });
+
+  test('should keep tiles close to squares', () => {
+    const tiles = squarify([1, 1, 1, 1], { x: 0, y: 0, width: 100, height: 100 });
+
+    expect(tiles.map(({ width, height }) => [width, height])).toEqual([[50, 50], [50, 50], [50, 50], [50, 50]]);
+  });
+
+  test('should return no tiles for an empty rectangle or no sizes', () => {
+    expect(squarify([], { x: 0, y: 0, width: 100, height: 100 })).toEqual([]);
+    expect(squarify([1], { x: 0, y: 0, width: 0, height: 100 })).toEqual([]);
+  });
+});
+
+describe('layoutTreemap', () => {
+  const tree = compactTreePaths(buildFileTree([
+    file('src/index.ts', 500),
+    file('src/util.ts', 300),
+    file('README.md', 200),
+    file('empty.txt', 0),
+  ]));
+  const rect = { x: 0, y: 0, width: 400, height: 300 };
+
+  test('should lay out folders before the tiles inside them, leaving out empty files', () => {
+    const tiles = layoutTreemap(tree, rect, { maxDepth: 3, minArea: 1 });
+
+    expect(tiles.map(tile => [tile.node.path, tile.depth])).toEqual([
+      ['src', 0],
+      ['src/index.ts', 1],
+      ['src/util.ts', 1],
+      ['README.md', 0],
+    ]);
+    expect(area(tiles[0]) / area(tiles[3])).toBeCloseTo(4);
+    expect(tiles[1].y).toBeGreaterThanOrEqual(tiles[0].y + TREEMAP_HEADER_HEIGHT);
+  });
+
+  test('should not open folders below the maximum depth', () => {
+    const tiles = layoutTreemap(tree, rect, { maxDepth: 0, minArea: 1 });
+
+    expect(tiles.map(tile => tile.node.path)).toEqual(['src', 'README.md']);
+  });
+
+  test('should leave out tiles smaller than the minimum area', () => {
+    const files = [file('big.bin', 1_000_000), ...Array.from({ length: 20_000 }, (_, i) => file(`small/${i}.txt`, 1))];
+    const tiles = layoutTreemap(buildFileTree(files), rect, { maxDepth: 3, minArea: 24 });
+
+    expect(tiles.length).toBeLessThan(100);
+    expect(tiles[0].node.path).toBe('big.bin');
+  });
+});
+
+describe('findFolderChain', () => {
+  test('should return the folders leading to a folder', () => {
+    const tree = buildFileTree([file('a/b/c/d.ts', 1), file('a/e.ts', 1)]);
+
+    expect(findFolderChain(tree, 'a/b/c').map(node => node.path)).toEqual(['a', 'a/b', 'a/b/c']);
+    expect(findFolderChain(tree, 'a/missing')).toEqual([]);
+  });
+});
+
+describe('getTileColor', () => {
+  test('should color files by language or by a stable color per extension', () => {
+    const [tsFile, otherTsFile] = buildFileTree([file('a.ts', 1), file('b.ts', 1)]);
+
+    expect(getTileColor(tsFile, 'language')).toBe('#3178c6');
+    expect(getTileColor(tsFile, 'extension')).toBe(getTileColor(otherTsFile, 'extension'));
+    expect(getTileColor(tsFile, 'extension')).toMatch(/^hsl\(/);
+  });
+});
@@ -0,0 +1,52 @@
+import { CrawlFilters } from './types';
+
+/**
+ * Splits the globs typed into a filter field
+ * @param {string} text - Globs separated by commas or whitespace
+ * @returns {string[]} - The globs
+ */
+export function splitGlobs(text: string): string[] {
+  return text.split(/[\s,]+/).filter(Boolean);
+}
+
+/**
+ * Reads the crawl filters from the query of an explorer URL
+ * @param {URLSearchParams} params - The query, e.g. `?exclude=node_modules/&exclude=dist/&max_depth=2`
+ * @returns {CrawlFilters} - The filters; a missing or invalid depth sets no depth limit
+ */
+export function parseCrawlFilters(params: URLSearchParams): CrawlFilters {
+  const depth = params.get('max_depth');
+  const filters: CrawlFilters = {
+    include: params.getAll('include').flatMap(splitGlobs),
+    exclude: params.getAll('exclude').flatMap(splitGlobs),
+  };
+  if (depth !== null && /^\d+$/.test(depth)) {
+    filters.max_depth = Number(depth);
+  }
+  return filters;
+}
+
+/**
+ * Writes crawl filters as the query of an explorer URL
+ * @param {CrawlFilters} filters - The filters
+ * @returns {string} - The query, starting with `?`, or an empty string without filters
+ */
+export function getCrawlFilterQuery(filters: CrawlFilters): string {
+  const params = new URLSearchParams();
+  filters.include.forEach(glob => params.append('include', glob));
+  filters.exclude.forEach(glob => params.append('exclude', glob));
+  if (filters.max_depth !== undefined) {
+    params.set('max_depth', String(filters.max_depth));
+  }
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+/**
+ * Checks whether a crawl is filtered at all
+ * @param {CrawlFilters} filters - The filters
+ * @returns {boolean} - Whether any glob or a depth limit is set
+ */
+export function hasCrawlFilters(filters: CrawlFilters): boolean {
+  return filters.include.length > 0 || filters.exclude.length > 0 || filters.max_depth !== undefined;
+}
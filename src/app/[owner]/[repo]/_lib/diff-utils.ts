@@ -0,0 +1,101 @@
+import { getFileExtension } from './file-utils';
+import { DiffItem, DiffStatus, DiffTreeNode, ExtensionDiffData } from './types';
+
+/**
+ * Creates an empty count of changes per status
+ * @returns {Record<DiffStatus, number>} - The counts, all zero
+ */
+const emptyChanges = (): Record<DiffStatus, number> => ({ added: 0, removed: 0, modified: 0, renamed: 0 });
+
+/**
+ * Builds the tree of changed files, rolling the size change and the change counts up into every folder
+ * @param {DiffItem[]} diffs - The changed files
+ * @returns {DiffTreeNode[]} - The diff tree
+ */
+export const buildDiffTree = (diffs: DiffItem[]): DiffTreeNode[] => {
+  const tree: DiffTreeNode[] = [];
+  const dirNodeCache: Record<string, DiffTreeNode> = {};
+
+  const sortedDiffs = [...diffs].sort((a, b) => a.path.localeCompare(b.path));
+
+  sortedDiffs.forEach(diffItem => {
+    const pathParts = diffItem.path.split('/');
+    const sizeDelta = diffItem.size - diffItem.previous_size;
+    let currentLevelChildren = tree;
+    let currentPath = "";
+
+    for (let i = 0; i < pathParts.length; i++) {
+      const part = pathParts[i];
+      currentPath = i === 0 ? part : `${currentPath}/${part}`;
+
+      if (i === pathParts.length - 1) {
+        currentLevelChildren.push({
+          name: part,
+          path: diffItem.path,
+          type: 'file',
+          diffItem,
+          displayPath: part,
+          sizeDelta,
+          changes: { ...emptyChanges(), [diffItem.status]: 1 },
+        });
+      } else {
+        let dirNode = dirNodeCache[currentPath];
+        if (!dirNode) {
+          dirNode = {
+            name: part,
+            path: currentPath,
+            type: 'folder',
+            children: [],
+            displayPath: part,
+            sizeDelta: 0,
+            changes: emptyChanges(),
+          };
+          currentLevelChildren.push(dirNode);
+          dirNodeCache[currentPath] = dirNode;
+        }
+        dirNode.sizeDelta += sizeDelta;
+        dirNode.changes[diffItem.status]++;
+        dirNode.children ??= [];
+        currentLevelChildren = dirNode.children;
+      }
+    }
+  });
+  return tree;
+};
+
+/**
+ * Summarizes the net change per extension. A rename that changed the extension moves the file
+ * from the old extension to the new one.
+ * @param {DiffItem[]} diffs - The changed files
+ * @returns {ExtensionDiffData[]} - The changes per extension, largest size change first
+ */
+export const summarizeDiffByExtension = (diffs: DiffItem[]): ExtensionDiffData[] => {
+  const summary: Record<string, ExtensionDiffData> = {};
+  const entryFor = (extension: string): ExtensionDiffData => {
+    summary[extension] ??= { extension, changedFiles: 0, fileCountDelta: 0, sizeDelta: 0 };
+    return summary[extension];
+  };
+
+  diffs.forEach(diff => {
+    const extension = getFileExtension(diff.path);
+    const previousExtension = getFileExtension(diff.previous_path ?? diff.path);
+    const touchedExtensions = new Set<string>();
+
+    if (diff.status !== 'removed') {
+      const entry = entryFor(extension);
+      entry.fileCountDelta++;
+      entry.sizeDelta += diff.size;
+      touchedExtensions.add(extension);
+    }
+    if (diff.status !== 'added') {
+      const entry = entryFor(previousExtension);
+      entry.fileCountDelta--;
+      entry.sizeDelta -= diff.previous_size;
+      touchedExtensions.add(previousExtension);
+    }
+    touchedExtensions.forEach(touched => entryFor(touched).changedFiles++);
+  });
+
+  return Object.values(summary)
+    .sort((a, b) => Math.abs(b.sizeDelta) - Math.abs(a.sizeDelta) || b.changedFiles - a.changedFiles);
+};
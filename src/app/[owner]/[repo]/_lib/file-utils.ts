@@ -1,4 +1,4 @@
-import { FileItem } from './types';
+import { FileItem, FileKindCounts, SubmoduleItem } from './types';
 
 /**
  * Formats the file size to a human readable format
@@ -12,6 +12,47 @@ export function formatFileSize(bytes: number): string {
   else return (bytes / (1024 * 1024)).toFixed(1) + " MB";
 }
 
+/**
+ * Formats a size change to a human readable format, with an explicit sign
+ * @param {number} bytes - The size change in bytes
+ * @returns {string} - The formatted size change
+ */
+export function formatSizeDelta(bytes: number): string {
+  if (bytes === 0) return "0 B";
+  return `${bytes > 0 ? "+" : "-"}${formatFileSize(Math.abs(bytes))}`;
+}
+
+/**
+ * Gets the extension a file is summarized under
+ * @param {string} path - The file path
+ * @returns {string} - The lowercased extension, or a placeholder for files without a usable one
+ */
+export function getFileExtension(path: string): string {
+  const nameParts = path.split('/');
+  const fileName = nameParts[nameParts.length - 1];
+  const extParts = fileName.split('.');
+  let extension = "(no extension)";
+  if (extParts.length > 1 && extParts[0] !== "" && extParts[extParts.length -1] !== "") {
+    extension = extParts.pop()!.toLowerCase();
+    if (extension.length > 10) extension = "(long extension)";
+  }
+  return extension;
+}
+
+/**
+ * Counts the symlinks, executables and Git LFS objects among the files
+ * @param {FileItem[]} files - The files to count
+ * @returns {FileKindCounts} - The number of files of each special kind
+ */
+export function countFileKinds(files: FileItem[]): FileKindCounts {
+  const counts: FileKindCounts = { symlink: 0, executable: 0, lfs: 0 };
+  for (const file of files) {
+    if (file.kind !== 'file') counts[file.kind]++;
+    if (file.lfs) counts.lfs++;
+  }
+  return counts;
+}
+
 /**
  * Gets the file url for a given file path
  * @param {string} owner - The owner of the repository
@@ -25,6 +66,30 @@ export function getGitHubFileUrl(owner: string, repo: string, currentBranch: str
   return `${repositoryUrl}/blob/${currentBranch || 'main'}/${filePath}`;
 }
 
+/**
+ * Gets the API url serving the bytes of a blob
+ * @param {string} owner - The owner of the repository
+ * @param {string} repo - The repository name
+ * @param {string} sha - The blob SHA
+ * @param {string} path - The file path, used to name downloads
+ * @param {boolean} download - Whether the browser should save the file rather than display it
+ * @returns {string} - The raw file url
+ */
+export function getRawFileUrl(owner: string, repo: string, sha: string, path: string, download = false): string {
+  const params = new URLSearchParams({ owner, repo, sha, path, format: download ? 'download' : 'raw' });
+  return `/api/v1/repo/blob?${params}`;
+}
+
+/**
+ * Gets the url of the commit a submodule is pinned to
+ * @param {SubmoduleItem} submodule - The submodule
+ * @returns {string | null} - The tree url of the pinned commit, or null if the submodule is not hosted on GitHub
+ */
+export function getSubmoduleUrl(submodule: SubmoduleItem): string | null {
+  if (!submodule.owner || !submodule.repo) return null;
+  return `https://github.com/${submodule.owner}/${submodule.repo}/tree/${submodule.sha}`;
+}
+
 /**
  * Checks if a file is valid and has correct properties
  * @param {unknown} file - The file to check
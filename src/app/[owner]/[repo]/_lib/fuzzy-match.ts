@@ -0,0 +1,130 @@
+import { FileItem, FuzzyMatch, RankedFile } from './types';
+
+const MATCH_SCORE = 16;
+const BOUNDARY_BONUS = 8;
+const CONSECUTIVE_BONUS = 6;
+const FILE_NAME_BONUS = 4;
+const GAP_PENALTY = 1;
+
+/**
+ * Decides whether a path position starts a word: a segment, an extension, a dash-, underscore- or camelCase-separated part
+ * @param {string} path - The path
+ * @param {number} index - The position
+ * @returns {boolean} - Whether the position is at a word boundary
+ */
+const isWordStart = (path: string, index: number): boolean => {
+  if (index === 0) {
+    return true;
+  }
+  const previous = path[index - 1];
+  const current = path[index];
+  return '/.-_ '.includes(previous) || (previous === previous.toLowerCase() && current !== current.toLowerCase());
+};
+
+/**
+ * Scores how well a query matches a path, as a subsequence of its characters ignoring case.
+ * Matches at word starts, in the file name and in runs score higher, while skipped characters and unmatched
+ * characters of the file name cost a little, so `tsbj` ranks `tsconfig.build.json` above `tests/sub/jest.config.js`.
+ * @param {string} query - The characters to look for, in order
+ * @param {string} path - The path to match against
+ * @returns {FuzzyMatch | null} - The best score and the matched positions, or null if the query is not a subsequence of the path
+ */
+export const fuzzyMatch = (query: string, path: string): FuzzyMatch | null => {
+  const needle = query.replace(/\s+/g, '').toLowerCase();
+  const haystack = path.toLowerCase();
+  if (!needle) {
+    return { score: 0, indices: [] };
+  }
+
+  // Cheap rejection before the quadratic part, which most paths of a large repository never reach.
+  let position = -1;
+  for (const char of needle) {
+    position = haystack.indexOf(char, position + 1);
+    if (position < 0) {
+      return null;
+    }
+  }
+
+  const fileNameStart = path.lastIndexOf('/') + 1;
+  const rows = needle.length;
+  const columns = haystack.length;
+  // scores[i][j] is the best score of matching needle[0..i] with needle[i] at haystack[j].
+  const scores: number[][] = [];
+  const previousColumns: number[][] = [];
+
+  for (let i = 0; i < rows; i++) {
+    const row = new Array<number>(columns).fill(-Infinity);
+    const from = new Array<number>(columns).fill(-1);
+    // The best of scores[i - 1][k] + k over k < j - 1, so that the linear gap penalty can be applied in constant time.
+    let bestGapped = -Infinity;
+    let bestGappedColumn = -1;
+
+    for (let j = 0; j < columns; j++) {
+      if (i > 0 && j >= 2 && scores[i - 1][j - 2] + (j - 2) * GAP_PENALTY > bestGapped) {
+        bestGapped = scores[i - 1][j - 2] + (j - 2) * GAP_PENALTY;
+        bestGappedColumn = j - 2;
+      }
+      if (haystack[j] !== needle[i]) {
+        continue;
+      }
+
+      const bonus = MATCH_SCORE + (isWordStart(path, j) ? BOUNDARY_BONUS : 0) + (j >= fileNameStart ? FILE_NAME_BONUS : 0);
+      if (i === 0) {
+        row[j] = bonus;
+        continue;
+      }
+
+      const consecutive = j >= 1 ? scores[i - 1][j - 1] + CONSECUTIVE_BONUS : -Infinity;
+      const gapped = bestGapped - (j - 1) * GAP_PENALTY;
+      if (consecutive === -Infinity && gapped === -Infinity) {
+        continue;
+      }
+      if (consecutive >= gapped) {
+        row[j] = consecutive + bonus;
+        from[j] = j - 1;
+      } else {
+        row[j] = gapped + bonus;
+        from[j] = bestGappedColumn;
+      }
+    }
+    scores.push(row);
+    previousColumns.push(from);
+  }
+
+  let bestColumn = -1;
+  for (let j = 0; j < columns; j++) {
+    if (scores[rows - 1][j] > (bestColumn < 0 ? -Infinity : scores[rows - 1][bestColumn])) {
+      bestColumn = j;
+    }
+  }
+  if (bestColumn < 0) {
+    return null;
+  }
+
+  const indices: number[] = [];
+  for (let i = rows - 1, j = bestColumn; i >= 0; j = previousColumns[i][j], i--) {
+    indices.unshift(j);
+  }
+  // A file name the query covers completely beats a longer one that merely contains it.
+  const unmatchedFileNameLength = path.length - fileNameStart - indices.filter(index => index >= fileNameStart).length;
+  return { score: scores[rows - 1][bestColumn] - unmatchedFileNameLength * GAP_PENALTY / 2, indices };
+};
+
+/**
+ * Ranks files by how well their paths match a query
+ * @param {FileItem[]} files - The files to rank
+ * @param {string} query - The characters to look for
+ * @param {number} limit - The maximum number of files to return
+ * @returns {RankedFile[]} - The matching files, best first; shorter paths win ties
+ */
+export const rankFilesByPath = (files: FileItem[], query: string, limit: number): RankedFile[] => {
+  const ranked: RankedFile[] = [];
+  for (const file of files) {
+    const match = fuzzyMatch(query, file.path);
+    if (match) {
+      ranked.push({ file, ...match });
+    }
+  }
+  ranked.sort((a, b) => b.score - a.score || a.file.path.length - b.file.path.length || a.file.path.localeCompare(b.file.path));
+  return ranked.slice(0, limit);
+};
@@ -0,0 +1,206 @@
+import { getFileExtension } from './file-utils';
+import { HighlightToken, HighlightTokenType, LanguageSyntax } from './types';
+
+export const HIGHLIGHT_TOKEN_CLASSES: Record<HighlightTokenType, string> = {
+  plain: 'text-gray-200',
+  comment: 'text-gray-500 italic',
+  string: 'text-green-400',
+  keyword: 'text-purple-400',
+  number: 'text-orange-300',
+};
+
+const C_LIKE_KEYWORDS = [
+  'abstract', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'defer',
+  'delete', 'do', 'else', 'enum', 'export', 'extends', 'false', 'final', 'finally', 'fn', 'for', 'from', 'func',
+  'function', 'go', 'if', 'impl', 'implements', 'import', 'in', 'instanceof', 'interface', 'let', 'match', 'mod',
+  'mut', 'namespace', 'new', 'nil', 'null', 'package', 'private', 'protected', 'pub', 'public', 'readonly', 'return',
+  'self', 'static', 'struct', 'super', 'switch', 'this', 'throw', 'throws', 'trait', 'true', 'try', 'type', 'typeof',
+  'undefined', 'use', 'var', 'void', 'while', 'yield',
+];
+
+const PYTHON_KEYWORDS = [
+  'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del',
+  'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal',
+  'not', 'or', 'pass', 'raise', 'return', 'self', 'try', 'while', 'with', 'yield',
+];
+
+const SCRIPT_KEYWORDS = [
+  'begin', 'case', 'def', 'do', 'done', 'elif', 'else', 'end', 'esac', 'export', 'false', 'fi', 'for', 'function',
+  'if', 'in', 'local', 'module', 'nil', 'require', 'return', 'then', 'true', 'unless', 'until', 'while', 'yes', 'no',
+];
+
+const SQL_KEYWORDS = [
+  'and', 'as', 'by', 'create', 'delete', 'drop', 'from', 'group', 'having', 'in', 'index', 'insert', 'into', 'is',
+  'join', 'left', 'limit', 'not', 'null', 'on', 'or', 'order', 'primary', 'key', 'select', 'set', 'table', 'update',
+  'values', 'where',
+].flatMap(keyword => [keyword, keyword.toUpperCase()]);
+
+const C_LIKE: LanguageSyntax = {
+  keywords: new Set(C_LIKE_KEYWORDS),
+  lineComments: ['//'],
+  blockComment: ['/*', '*/'],
+  quotes: ['"', "'", '`'],
+};
+
+const PYTHON: LanguageSyntax = {
+  keywords: new Set(PYTHON_KEYWORDS),
+  lineComments: ['#'],
+  quotes: ['"""', "'''", '"', "'"],
+};
+
+const SCRIPT: LanguageSyntax = {
+  keywords: new Set(SCRIPT_KEYWORDS),
+  lineComments: ['#'],
+  quotes: ['"', "'"],
+};
+
+const SYNTAX_BY_EXTENSION: Record<string, LanguageSyntax> = {
+  ...Object.fromEntries([
+    'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'mts', 'cts', 'java', 'kt', 'kts', 'scala', 'groovy', 'c', 'h', 'cc',
+    'cpp', 'hpp', 'cs', 'go', 'rs', 'swift', 'dart', 'php', 'zig',
+  ].map(extension => [extension, C_LIKE])),
+  ...Object.fromEntries(['py', 'pyi'].map(extension => [extension, PYTHON])),
+  ...Object.fromEntries([
+    'sh', 'bash', 'zsh', 'fish', 'rb', 'pl', 'r', 'yml', 'yaml', 'toml', 'ini', 'cfg', 'conf', 'properties', 'mk',
+    'dockerfile',
+  ].map(extension => [extension, SCRIPT])),
+  css: { keywords: new Set(['important']), lineComments: [], blockComment: ['/*', '*/'], quotes: ['"', "'"] },
+  scss: { keywords: new Set(['important']), lineComments: ['//'], blockComment: ['/*', '*/'], quotes: ['"', "'"] },
+  sql: { keywords: new Set(SQL_KEYWORDS), lineComments: ['--'], blockComment: ['/*', '*/'], quotes: ["'", '"'] },
+  json: { keywords: new Set(['true', 'false', 'null']), lineComments: [], quotes: ['"'] },
+  html: { keywords: new Set(), lineComments: [], blockComment: ['<!--', '-->'], quotes: ['"', "'"] },
+  xml: { keywords: new Set(), lineComments: [], blockComment: ['<!--', '-->'], quotes: ['"', "'"] },
+  svg: { keywords: new Set(), lineComments: [], blockComment: ['<!--', '-->'], quotes: ['"', "'"] },
+};
+
+const SYNTAX_BY_FILE_NAME: Record<string, LanguageSyntax> = {
+  Dockerfile: SCRIPT,
+  Makefile: SCRIPT,
+  Gemfile: SCRIPT,
+  Rakefile: SCRIPT,
+  '.gitignore': SCRIPT,
+  '.gitattributes': SCRIPT,
+  '.env': SCRIPT,
+};
+
+// Names Markdown code fences commonly use for languages whose extension differs.
+const LANGUAGE_ALIASES: Record<string, string> = {
+  javascript: 'js', typescript: 'ts', python: 'py', shell: 'sh', console: 'sh', ruby: 'rb', rust: 'rs',
+  golang: 'go', csharp: 'cs', kotlin: 'kt', 'c++': 'cpp', docker: 'dockerfile',
+};
+
+const WORD_PATTERN = /[A-Za-z_$][\w$]*/y;
+const NUMBER_PATTERN = /\d[\w.]*/y;
+
+/**
+ * Picks the syntax to highlight a file with
+ * @param {string} path - The file path
+ * @returns {LanguageSyntax | null} - The syntax of the file's language, or null if it is not known
+ */
+export function getLanguageSyntax(path: string): LanguageSyntax | null {
+  const fileName = path.split('/').pop() ?? '';
+  return SYNTAX_BY_FILE_NAME[fileName] ?? SYNTAX_BY_EXTENSION[getFileExtension(path)] ?? null;
+}
+
+/**
+ * Picks the syntax to highlight a Markdown code block with
+ * @param {string} language - The language named after the opening fence, e.g. `ts` or `python`
+ * @returns {LanguageSyntax | null} - The syntax of the language, or null if it is not known
+ */
+export function getLanguageSyntaxByName(language: string): LanguageSyntax | null {
+  const name = language.toLowerCase();
+  return SYNTAX_BY_EXTENSION[LANGUAGE_ALIASES[name] ?? name] ?? null;
+}
+
+/**
+ * Finds the end of a string literal, honoring backslash escapes
+ * Only backtick and triple-quoted strings may span several lines
+ * @param {string} content - The code
+ * @param {number} start - The index of the opening quote
+ * @param {string} quote - The quote the string is delimited with
+ * @returns {number} - The index just past the closing quote, or the end of the line if the string is not closed
+ */
+function findStringEnd(content: string, start: number, quote: string): number {
+  const multiline = quote === '`' || quote.length === 3;
+  let index = start + quote.length;
+  while (index < content.length) {
+    if (content[index] === '\\') {
+      index += 2;
+    } else if (content.startsWith(quote, index)) {
+      return index + quote.length;
+    } else if (content[index] === '\n' && !multiline) {
+      return index;
+    } else {
+      index++;
+    }
+  }
+  return content.length;
+}
+
+/**
+ * Splits code into highlighted tokens, line by line
+ * @param {string} content - The code
+ * @param {LanguageSyntax | null} syntax - The syntax of the code's language, or null to leave it plain
+ * @returns {HighlightToken[][]} - The tokens of every line; a trailing newline does not start another line
+ */
+export function highlightCode(content: string, syntax: LanguageSyntax | null): HighlightToken[][] {
+  const tokens: HighlightToken[] = [];
+  const push = (type: HighlightTokenType, text: string) => {
+    const lastToken = tokens[tokens.length - 1];
+    if (lastToken?.type === type) {
+      lastToken.text += text;
+    } else if (text) {
+      tokens.push({ type, text });
+    }
+  };
+
+  let index = 0;
+  while (syntax && index < content.length) {
+    let end: number;
+    let type: HighlightTokenType = 'plain';
+    const quote = syntax.quotes.find(candidate => content.startsWith(candidate, index));
+    WORD_PATTERN.lastIndex = index;
+    NUMBER_PATTERN.lastIndex = index;
+    const word = WORD_PATTERN.exec(content)?.[0];
+    const number = NUMBER_PATTERN.exec(content)?.[0];
+
+    if (syntax.lineComments.some(marker => content.startsWith(marker, index))) {
+      const lineEnd = content.indexOf('\n', index);
+      end = lineEnd < 0 ? content.length : lineEnd;
+      type = 'comment';
+    } else if (syntax.blockComment && content.startsWith(syntax.blockComment[0], index)) {
+      const [open, close] = syntax.blockComment;
+      const closeIndex = content.indexOf(close, index + open.length);
+      end = closeIndex < 0 ? content.length : closeIndex + close.length;
+      type = 'comment';
+    } else if (quote) {
+      end = findStringEnd(content, index, quote);
+      type = 'string';
+    } else if (word) {
+      end = index + word.length;
+      type = syntax.keywords.has(word) ? 'keyword' : 'plain';
+    } else if (number) {
+      end = index + number.length;
+      type = 'number';
+    } else {
+      end = index + 1;
+    }
+    push(type, content.slice(index, end));
+    index = end;
+  }
+  if (!syntax) {
+    push('plain', content);
+  }
+
+  const lines: HighlightToken[][] = [[]];
+  for (const token of tokens) {
+    token.text.split('\n').forEach((text, i) => {
+      if (i > 0) lines.push([]);
+      if (text) lines[lines.length - 1].push({ type: token.type, text });
+    });
+  }
+  if (content.endsWith('\n')) {
+    lines.pop();
+  }
+  return lines;
+}
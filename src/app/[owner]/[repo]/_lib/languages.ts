@@ -0,0 +1,173 @@
+import { compileGlob, GlobMatcher } from '@/lib/path-glob';
+import { getFileExtension } from './file-utils';
+import { FileItem, Language, LanguageBreakdown, LanguageCategory, LanguageData } from './types';
+
+interface LanguageDefinition {
+  category: LanguageCategory;
+  color: string;
+  extensions?: string[];
+  // Matched ignoring case, before extensions.
+  fileNames?: string[];
+  // Globs matched against the whole path, before file names and extensions.
+  paths?: string[];
+}
+
+// `.h` is shared by C, C++ and Objective-C; the sources next to the headers decide.
+const HEADER_LANGUAGES = ['C', 'C++', 'Objective-C'];
+
+const LANGUAGES: Record<string, LanguageDefinition> = {
+  'JavaScript': { category: 'programming', color: '#f1e05a', extensions: ['js', 'mjs', 'cjs', 'jsx'] },
+  'TypeScript': { category: 'programming', color: '#3178c6', extensions: ['ts', 'mts', 'cts', 'tsx'] },
+  'Python': { category: 'programming', color: '#3572a5', extensions: ['py', 'pyi', 'pyw'], fileNames: ['SConstruct', 'SConscript'] },
+  'Java': { category: 'programming', color: '#b07219', extensions: ['java'] },
+  'Kotlin': { category: 'programming', color: '#a97bff', extensions: ['kt', 'kts'] },
+  'Scala': { category: 'programming', color: '#c22d40', extensions: ['scala', 'sc'] },
+  'Groovy': { category: 'programming', color: '#4298b8', extensions: ['groovy', 'gradle'], fileNames: ['Jenkinsfile'] },
+  'C': { category: 'programming', color: '#555555', extensions: ['c'] },
+  'C++': { category: 'programming', color: '#f34b7d', extensions: ['cpp', 'cc', 'cxx', 'c++', 'hpp', 'hh', 'hxx', 'inl'] },
+  'Objective-C': { category: 'programming', color: '#438eff', extensions: ['m'] },
+  'Objective-C++': { category: 'programming', color: '#6866fb', extensions: ['mm'] },
+  'C#': { category: 'programming', color: '#178600', extensions: ['cs', 'csx'] },
+  'Go': { category: 'programming', color: '#00add8', extensions: ['go'] },
+  'Rust': { category: 'programming', color: '#dea584', extensions: ['rs'] },
+  'Swift': { category: 'programming', color: '#f05138', extensions: ['swift'] },
+  'Dart': { category: 'programming', color: '#00b4ab', extensions: ['dart'] },
+  'PHP': { category: 'programming', color: '#4f5d95', extensions: ['php'] },
+  'Ruby': { category: 'programming', color: '#701516', extensions: ['rb', 'rake', 'gemspec'], fileNames: ['Gemfile', 'Rakefile', 'Podfile', 'Fastfile'] },
+  'Perl': { category: 'programming', color: '#0298c3', extensions: ['pl', 'pm'] },
+  'R': { category: 'programming', color: '#198ce7', extensions: ['r'] },
+  'Lua': { category: 'programming', color: '#000080', extensions: ['lua'] },
+  'Shell': { category: 'programming', color: '#89e051', extensions: ['sh', 'bash', 'zsh', 'ksh', 'fish'], fileNames: ['.bashrc', '.bash_profile', '.zshrc', '.profile'] },
+  'PowerShell': { category: 'programming', color: '#012456', extensions: ['ps1', 'psm1'] },
+  'Batchfile': { category: 'programming', color: '#c1f12e', extensions: ['bat', 'cmd'] },
+  'Zig': { category: 'programming', color: '#ec915c', extensions: ['zig'] },
+  'Haskell': { category: 'programming', color: '#5e5086', extensions: ['hs'] },
+  'Elixir': { category: 'programming', color: '#6e4a7e', extensions: ['ex', 'exs'] },
+  'Erlang': { category: 'programming', color: '#b83998', extensions: ['erl', 'hrl'] },
+  'Clojure': { category: 'programming', color: '#db5855', extensions: ['clj', 'cljs', 'cljc', 'edn'] },
+  'OCaml': { category: 'programming', color: '#ef7a08', extensions: ['ml', 'mli'] },
+  'Julia': { category: 'programming', color: '#a270ba', extensions: ['jl'] },
+  'Assembly': { category: 'programming', color: '#6e4c13', extensions: ['asm', 's'] },
+  'Solidity': { category: 'programming', color: '#aa6746', extensions: ['sol'] },
+  'Nix': { category: 'programming', color: '#7e7eff', extensions: ['nix'] },
+  'HCL': { category: 'programming', color: '#844fba', extensions: ['tf', 'tfvars', 'hcl'] },
+  'Makefile': { category: 'programming', color: '#427819', extensions: ['mk', 'mak'], fileNames: ['Makefile', 'GNUmakefile'] },
+  'Dockerfile': { category: 'programming', color: '#384d54', extensions: ['dockerfile'], fileNames: ['Dockerfile', 'Containerfile'], paths: ['Dockerfile.*'] },
+  'CMake': { category: 'programming', color: '#da3434', extensions: ['cmake'], fileNames: ['CMakeLists.txt'] },
+  'HTML': { category: 'markup', color: '#e34c26', extensions: ['html', 'htm', 'xhtml'] },
+  'CSS': { category: 'markup', color: '#663399', extensions: ['css'] },
+  'SCSS': { category: 'markup', color: '#c6538c', extensions: ['scss'] },
+  'Sass': { category: 'markup', color: '#a53b70', extensions: ['sass'] },
+  'Less': { category: 'markup', color: '#1d365d', extensions: ['less'] },
+  'Vue': { category: 'markup', color: '#41b883', extensions: ['vue'] },
+  'Svelte': { category: 'markup', color: '#ff3e00', extensions: ['svelte'] },
+  'MDX': { category: 'markup', color: '#fcb32c', extensions: ['mdx'] },
+  'TeX': { category: 'markup', color: '#3d6117', extensions: ['tex', 'sty', 'cls'] },
+  'GitHub Actions': { category: 'data', color: '#2088ff', paths: ['.github/workflows/*.{yml,yaml}', 'action.{yml,yaml}'] },
+  'JSON': { category: 'data', color: '#292929', extensions: ['json', 'jsonc', 'json5', 'webmanifest'], fileNames: ['.babelrc', '.eslintrc', '.prettierrc'] },
+  'YAML': { category: 'data', color: '#cb171e', extensions: ['yml', 'yaml'], fileNames: ['.clang-format', 'yarn.lock'] },
+  'TOML': { category: 'data', color: '#9c4221', extensions: ['toml'], fileNames: ['Cargo.lock', 'Pipfile', 'poetry.lock'] },
+  'XML': { category: 'data', color: '#0060ac', extensions: ['xml', 'xsd', 'xsl', 'plist', 'csproj', 'props', 'targets'] },
+  'SVG': { category: 'data', color: '#ff9900', extensions: ['svg'] },
+  'CSV': { category: 'data', color: '#237346', extensions: ['csv', 'tsv'] },
+  'INI': { category: 'data', color: '#d1dbe0', extensions: ['ini', 'cfg', 'properties'], fileNames: ['.editorconfig', '.npmrc', '.gitconfig'] },
+  'SQL': { category: 'data', color: '#e38c00', extensions: ['sql'] },
+  'GraphQL': { category: 'data', color: '#e10098', extensions: ['graphql', 'gql'] },
+  'Protocol Buffer': { category: 'data', color: '#5a9fd4', extensions: ['proto'] },
+  'Ignore List': { category: 'data', color: '#000000', fileNames: ['.gitignore', '.dockerignore', '.npmignore', '.eslintignore', '.prettierignore'] },
+  'Git Attributes': { category: 'data', color: '#f44d27', fileNames: ['.gitattributes'] },
+  'Markdown': { category: 'prose', color: '#083fa1', extensions: ['md', 'markdown'] },
+  'reStructuredText': { category: 'prose', color: '#141414', extensions: ['rst'] },
+  'AsciiDoc': { category: 'prose', color: '#73a0c5', extensions: ['adoc', 'asciidoc'] },
+  'Text': {
+    category: 'prose',
+    color: '#6e7781',
+    extensions: ['txt'],
+    fileNames: ['LICENSE', 'LICENCE', 'COPYING', 'NOTICE', 'AUTHORS', 'CONTRIBUTORS', 'CODEOWNERS'],
+  },
+};
+
+const LANGUAGE_BY_NAME = new Map<string, Language>(
+  Object.entries(LANGUAGES).map(([name, { category, color }]) => [name, { name, category, color }])
+);
+
+const LANGUAGE_BY_EXTENSION = new Map<string, Language>(
+  Object.entries(LANGUAGES).flatMap(([name, { extensions = [] }]) =>
+    extensions.map(extension => [extension, LANGUAGE_BY_NAME.get(name)!] as const))
+);
+
+const LANGUAGE_BY_FILE_NAME = new Map<string, Language>(
+  Object.entries(LANGUAGES).flatMap(([name, { fileNames = [] }]) =>
+    fileNames.map(fileName => [fileName.toLowerCase(), LANGUAGE_BY_NAME.get(name)!] as const))
+);
+
+const LANGUAGE_BY_PATH: [GlobMatcher, Language][] = Object.entries(LANGUAGES).flatMap(([name, { paths = [] }]) =>
+  paths.map(glob => [compileGlob(glob), LANGUAGE_BY_NAME.get(name)!] as [GlobMatcher, Language]));
+
+/**
+ * Detects the language of a file from its path
+ * Well-known paths such as GitHub Actions workflows come first, then well-known file names such as
+ * `Dockerfile` or `Makefile`, and last the extension
+ * @param {string} path - The file path
+ * @param {string} headerLanguage - The language `.h` headers are counted as, see `guessHeaderLanguage`
+ * @returns {Language | null} - The language, or null if it is not known
+ */
+export function detectLanguage(path: string, headerLanguage = 'C'): Language | null {
+  const byPath = LANGUAGE_BY_PATH.find(([pattern]) => pattern.test(path));
+  if (byPath) return byPath[1];
+
+  const fileName = (path.split('/').pop() ?? '').toLowerCase();
+  const extension = getFileExtension(path);
+  return LANGUAGE_BY_FILE_NAME.get(fileName)
+    ?? (extension === 'h' ? LANGUAGE_BY_NAME.get(headerLanguage) : LANGUAGE_BY_EXTENSION.get(extension))
+    ?? null;
+}
+
+/**
+ * Decides which language the `.h` headers of a repository are written in
+ * @param {FileItem[]} files - The files of the repository
+ * @returns {string} - C, C++ or Objective-C, whichever has the most bytes of sources; C if there are none
+ */
+export function guessHeaderLanguage(files: FileItem[]): string {
+  const sizes = new Map<string, number>();
+  for (const file of files) {
+    const language = detectLanguage(file.path);
+    if (language && HEADER_LANGUAGES.includes(language.name) && getFileExtension(file.path) !== 'h') {
+      sizes.set(language.name, (sizes.get(language.name) ?? 0) + file.size);
+    }
+  }
+  return HEADER_LANGUAGES.reduce((best, name) => (sizes.get(name) ?? 0) > (sizes.get(best) ?? 0) ? name : best);
+}
+
+/**
+ * Groups files by language and weighs the languages by their bytes, like GitHub's language bar
+ * @param {FileItem[]} files - The files to summarize
+ * @param {LanguageCategory[]} categories - The categories of languages to include; GitHub shows programming and markup languages
+ * @returns {LanguageBreakdown} - The languages, largest first, and the number of files of unknown languages
+ */
+export function summarizeLanguages(files: FileItem[], categories: LanguageCategory[]): LanguageBreakdown {
+  const headerLanguage = guessHeaderLanguage(files);
+  const totals = new Map<string, LanguageData>();
+  let unknownFiles = 0;
+  let totalSize = 0;
+
+  for (const file of files) {
+    const language = detectLanguage(file.path, headerLanguage);
+    if (!language) {
+      unknownFiles++;
+      continue;
+    }
+    if (!categories.includes(language.category)) continue;
+
+    const data = totals.get(language.name) ?? { ...language, count: 0, size: 0, percentage: 0 };
+    data.count++;
+    data.size += file.size;
+    totals.set(language.name, data);
+    totalSize += file.size;
+  }
+
+  const languages = [...totals.values()]
+    .map(data => ({ ...data, percentage: totalSize > 0 ? (data.size / totalSize) * 100 : 0 }))
+    .sort((a, b) => b.size - a.size || a.name.localeCompare(b.name));
+  return { languages, unknownFiles };
+}
@@ -0,0 +1,503 @@
+import { getBlobPath } from '@/lib/github-url';
+import { FileItem, MarkdownAlignment, MarkdownBlock, MarkdownInline, MarkdownLocation } from './types';
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/;
+const HEADING_PATTERN = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_PATTERN = /^ {0,3}(=+|-+)[ \t]*$/;
+const RULE_PATTERN = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE_PATTERN = /^ {0,3}> ?/;
+const LIST_ITEM_PATTERN = /^( {0,3})([-*+]|\d{1,9}[.)])([ \t]+|$)/;
+const TABLE_DELIMITER_PATTERN = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const HTML_BLOCK_PATTERN = /^ {0,3}<(?:[a-zA-Z][\w-]*|\/[a-zA-Z][\w-]*|!--)/;
+const ESCAPABLE_PATTERN = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+// The inline patterns are sticky and matched at a position with `matchAt`, so the text is never sliced to match them.
+const HTML_TAG_PATTERN = /<(\/?)([a-zA-Z][\w-]*)((?:\s+[^\s=>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*\/?>/y;
+const HTML_COMMENT_PATTERN = /<!--[\s\S]*?-->/y;
+const AUTOLINK_PATTERN = /<((?:https?:\/\/|mailto:)[^\s<>]+)>/y;
+const BARE_URL_PATTERN = /https?:\/\/[^\s<]*[^\s<.,:;"')\]]/y;
+const BACKTICKS_PATTERN = /`+/y;
+const LINK_DESTINATION_PATTERN = /\(\s*(?:<([^>\n]*)>|((?:[^\s()\\]|\\.|\((?:[^\s()\\]|\\.)*\))*))(?:\s+(?:"[^"]*"|'[^']*'|\([^)]*\)))?\s*\)/y;
+// Heading ids are prefixed like GitHub's, so that a heading such as `# Search` cannot clash with the app's own ids.
+export const HEADING_ID_PREFIX = 'user-content-';
+// Only these schemes may reach an href or src; everything else, e.g. `javascript:`, is dropped.
+const SAFE_URL_PATTERN = /^(?:https?:|mailto:)/i;
+const URL_SCHEME_PATTERN = /^[a-zA-Z][a-zA-Z\d+.-]*:/;
+const ENTITY_PATTERN = /&(?:#(\d{1,7})|#[xX]([\da-fA-F]{1,6})|(amp|lt|gt|quot|apos|nbsp|copy|reg|trade|hellip|mdash|ndash));/g;
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0', copy: '©', reg: '®', trade: '™', hellip: '…', mdash: '—', ndash: '–',
+};
+
+/**
+ * Matches a sticky pattern at a position of a text
+ * @param {RegExp} pattern - The pattern, with the `y` flag
+ * @param {string} text - The text
+ * @param {number} index - The position the match must start at
+ * @returns {RegExpExecArray | null} - The match, or null if the pattern does not match there
+ */
+function matchAt(pattern: RegExp, text: string, index: number): RegExpExecArray | null {
+  pattern.lastIndex = index;
+  return pattern.exec(text);
+}
+
+/**
+ * Decodes the HTML character references Markdown allows in text
+ * @param {string} text - The text
+ * @returns {string} - The text with numeric and common named references replaced by their characters
+ */
+function decodeEntities(text: string): string {
+  return text.replace(ENTITY_PATTERN, (reference, decimal?: string, hex?: string, name?: string) => {
+    if (name) return NAMED_ENTITIES[name];
+    const codePoint = decimal ? Number(decimal) : parseInt(hex!, 16);
+    return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : reference;
+  });
+}
+
+/**
+ * Reads an attribute from the attribute list of an HTML tag
+ * @param {string} attributes - The attributes of the tag
+ * @param {string} name - The attribute name
+ * @returns {string | null} - The attribute value, or null if the tag does not have it
+ */
+function getHtmlAttribute(attributes: string, name: string): string | null {
+  const match = new RegExp(`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i').exec(attributes);
+  return match ? (match[1] ?? match[2] ?? match[3]) : null;
+}
+
+/**
+ * Finds the bracket closing the one at a position, skipping nested pairs and escaped brackets
+ * @param {string} text - The text
+ * @param {number} start - The index of the opening bracket
+ * @returns {number} - The index of the closing bracket, or -1 if there is none
+ */
+function findClosingBracket(text: string, start: number): number {
+  let depth = 0;
+  for (let index = start; index < text.length; index++) {
+    if (text[index] === '\\') {
+      index++;
+    } else if (text[index] === '[') {
+      depth++;
+    } else if (text[index] === ']' && --depth === 0) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Reads the `(url "title")` destination following a link or image label
+ * @param {string} text - The text
+ * @param {number} start - The index of the opening parenthesis
+ * @returns {{ url: string; end: number } | null} - The url and the index past the closing parenthesis, or null
+ */
+function readLinkDestination(text: string, start: number): { url: string; end: number } | null {
+  const match = matchAt(LINK_DESTINATION_PATTERN, text, start);
+  return match ? { url: (match[1] ?? match[2]).replace(/\\(.)/g, '$1'), end: start + match[0].length } : null;
+}
+
+/**
+ * Parses the inline content of a block: emphasis, code, links, images and line breaks
+ * Inline HTML is not rendered: `<br>` and `<img>` are kept as a break and an image, other tags are dropped.
+ * @param {string} text - The inline Markdown
+ * @returns {MarkdownInline[]} - The inline nodes
+ */
+export function parseInlines(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: decodeEntities(buffer) });
+    buffer = '';
+  };
+  const push = (node: MarkdownInline) => {
+    flush();
+    nodes.push(node);
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+
+    if (char === '\\' && text[index + 1] === '\n') {
+      push({ type: 'break' });
+      index += 2;
+      continue;
+    }
+    if (char === '\\' && ESCAPABLE_PATTERN.test(text[index + 1] ?? '')) {
+      buffer += text[index + 1];
+      index += 2;
+      continue;
+    }
+    if (char === '\n') {
+      if (buffer.endsWith('  ')) {
+        buffer = buffer.trimEnd();
+        push({ type: 'break' });
+      } else {
+        buffer = buffer.trimEnd() + '\n';
+      }
+      index++;
+      continue;
+    }
+    if (char === '`') {
+      const fence = matchAt(BACKTICKS_PATTERN, text, index)![0];
+      const close = text.indexOf(fence, index + fence.length);
+      if (close >= 0) {
+        const code = text.slice(index + fence.length, close).replace(/\n/g, ' ');
+        push({ type: 'code', text: /^ .* $/.test(code) && code.trim() ? code.slice(1, -1) : code });
+        index = close + fence.length;
+        continue;
+      }
+      buffer += fence;
+      index += fence.length;
+      continue;
+    }
+    if (char === '!' && text[index + 1] === '[' || char === '[') {
+      const isImage = char === '!';
+      const labelStart = isImage ? index + 1 : index;
+      const labelEnd = findClosingBracket(text, labelStart);
+      const destination = labelEnd >= 0 && text[labelEnd + 1] === '(' ? readLinkDestination(text, labelEnd + 1) : null;
+      if (destination) {
+        const label = text.slice(labelStart + 1, labelEnd);
+        push(isImage ?
+          { type: 'image', src: destination.url, alt: label.replace(/[\\*_`[\]]/g, '') } :
+          { type: 'link', href: destination.url, children: parseInlines(label) });
+        index = destination.end;
+        continue;
+      }
+    }
+    if (char === '<') {
+      const autolink = matchAt(AUTOLINK_PATTERN, text, index);
+      if (autolink) {
+        push({ type: 'link', href: autolink[1], children: [{ type: 'text', text: autolink[1].replace(/^mailto:/, '') }] });
+        index += autolink[0].length;
+        continue;
+      }
+      const comment = matchAt(HTML_COMMENT_PATTERN, text, index);
+      const tag = matchAt(HTML_TAG_PATTERN, text, index);
+      if (comment || tag) {
+        if (tag && !tag[1] && tag[2].toLowerCase() === 'br') {
+          push({ type: 'break' });
+        } else if (tag && !tag[1] && tag[2].toLowerCase() === 'img') {
+          const src = getHtmlAttribute(tag[3], 'src');
+          if (src) push({ type: 'image', src, alt: getHtmlAttribute(tag[3], 'alt') ?? '' });
+        }
+        index += (comment ?? tag)![0].length;
+        continue;
+      }
+    }
+    if (char === 'h' && text.startsWith('http', index) && !/\w$/.test(text.slice(Math.max(index - 1, 0), index))) {
+      const url = matchAt(BARE_URL_PATTERN, text, index);
+      if (url) {
+        push({ type: 'link', href: url[0], children: [{ type: 'text', text: url[0] }] });
+        index += url[0].length;
+        continue;
+      }
+    }
+    if (char === '*' || char === '_' || char === '~') {
+      const delimiter = char === '~' ? (text.startsWith('~~', index) ? '~~' : null) : (text.startsWith(char.repeat(2), index) ? char.repeat(2) : char);
+      // Underscores inside words, as in snake_case, do not emphasize.
+      // The text before is tested rather than the buffer, which would be scanned or flattened whole on every underscore.
+      const intraword = char === '_' && /[\p{L}\p{N}]$/u.test(text.slice(Math.max(index - 2, 0), index));
+      if (delimiter && !intraword && /\S/.test(text[index + delimiter.length] ?? '')) {
+        let close = text.indexOf(delimiter, index + delimiter.length);
+        while (close >= 0 && (/\s/.test(text[close - 1]) || (delimiter.length === 1 && text[close + 1] === char))) {
+          close = text.indexOf(delimiter, close + (text[close + 1] === char ? 2 : 1));
+        }
+        if (close > index + delimiter.length && !(char === '_' && /[\p{L}\p{N}]/u.test(text[close + delimiter.length] ?? ''))) {
+          const children = parseInlines(text.slice(index + delimiter.length, close));
+          push({ type: char === '~' ? 'delete' : delimiter.length === 2 ? 'strong' : 'emphasis', children });
+          index = close + delimiter.length;
+          continue;
+        }
+      }
+    }
+    buffer += char;
+    index++;
+  }
+  flush();
+  return nodes;
+}
+
+/**
+ * Joins the text of inline nodes, e.g. to name a heading anchor
+ * @param {MarkdownInline[]} nodes - The inline nodes
+ * @returns {string} - Their plain text
+ */
+export function getInlineText(nodes: MarkdownInline[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+      case 'code':
+        return node.text;
+      case 'image':
+        return node.alt;
+      case 'break':
+        return ' ';
+      default:
+        return getInlineText(node.children);
+    }
+  }).join('');
+}
+
+/**
+ * Turns heading text into an anchor name the way GitHub does
+ * @param {string} text - The heading text
+ * @returns {string} - The lowercased text with punctuation dropped and spaces turned into dashes
+ */
+export function slugify(text: string): string {
+  return text.trim().toLowerCase().replace(/[^\p{L}\p{N}\s_-]/gu, '').replace(/\s/g, '-');
+}
+
+/**
+ * Splits a table row into its cells, honoring escaped pipes
+ * @param {string} line - The table row
+ * @returns {string[]} - The cell contents
+ */
+function splitTableRow(line: string): string[] {
+  const cells = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '').split(/(?<!\\)\|/);
+  return cells.map(cell => cell.trim().replace(/\\\|/g, '|'));
+}
+
+/**
+ * Decides whether a line ends the paragraph before it by starting another block
+ * @param {string} line - The line
+ * @returns {boolean} - Whether the line starts a heading, fence, quote, rule, list item or HTML block
+ */
+function startsBlock(line: string): boolean {
+  const listItem = LIST_ITEM_PATTERN.exec(line);
+  return FENCE_PATTERN.test(line) || HEADING_PATTERN.test(line) || QUOTE_PATTERN.test(line) || RULE_PATTERN.test(line) ||
+    HTML_BLOCK_PATTERN.test(line) || Boolean(listItem && listItem[3] && (!/^\d/.test(listItem[2]) || /^1[.)]/.test(listItem[2])));
+}
+
+/**
+ * Parses lines of Markdown into blocks
+ * @param {string[]} lines - The lines
+ * @param {Map<string, number>} slugs - How often each heading anchor was used so far, to keep anchors unique
+ * @returns {MarkdownBlock[]} - The blocks
+ */
+function parseBlocks(lines: string[], slugs: Map<string, number>): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const heading = (level: number, text: string): MarkdownBlock => {
+    const children = parseInlines(text);
+    const slug = slugify(getInlineText(children));
+    const count = slugs.get(slug) ?? 0;
+    slugs.set(slug, count + 1);
+    return { type: 'heading', level, id: `${HEADING_ID_PREFIX}${count > 0 ? `${slug}-${count}` : slug}`, children };
+  };
+
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    const fence = FENCE_PATTERN.exec(line);
+    if (fence) {
+      const indent = line.length - line.trimStart().length;
+      const closing = new RegExp(`^ {0,3}${fence[1][0] === '`' ? '`' : '~'}{${fence[1].length},}[ \\t]*$`);
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !closing.test(lines[index])) {
+        code.push(lines[index].replace(new RegExp(`^ {0,${indent}}`), ''));
+        index++;
+      }
+      blocks.push({ type: 'code', language: fence[2].toLowerCase(), text: code.join('\n') });
+      index++;
+      continue;
+    }
+
+    const atxHeading = HEADING_PATTERN.exec(line);
+    if (atxHeading) {
+      blocks.push(heading(atxHeading[1].length, atxHeading[2] ?? ''));
+      index++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push({ type: 'rule' });
+      index++;
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length && lines[index].trim() && (QUOTE_PATTERN.test(lines[index]) || !startsBlock(lines[index]))) {
+        quoted.push(lines[index].replace(QUOTE_PATTERN, ''));
+        index++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted, slugs) });
+      continue;
+    }
+
+    const listItem = LIST_ITEM_PATTERN.exec(line);
+    if (listItem && listItem[3] !== undefined) {
+      const ordered = /^\d/.test(listItem[2]);
+      const marker = listItem[2].slice(-1);
+      const items: MarkdownBlock[][] = [];
+      while (index < lines.length) {
+        const item = LIST_ITEM_PATTERN.exec(lines[index]);
+        if (!item || /^\d/.test(item[2]) !== ordered || item[2].slice(-1) !== marker) {
+          break;
+        }
+        const contentIndent = item[0].length || item[1].length + item[2].length + 1;
+        const itemLines = [lines[index].slice(item[0].length)];
+        index++;
+        while (index < lines.length) {
+          const next = lines[index];
+          const indent = next.length - next.trimStart().length;
+          if (next.trim() && indent >= Math.min(contentIndent, 4)) {
+            itemLines.push(next.slice(Math.min(indent, contentIndent)));
+          } else if (!next.trim() && index + 1 < lines.length && lines[index + 1].trim() &&
+            lines[index + 1].length - lines[index + 1].trimStart().length >= Math.min(contentIndent, 4)) {
+            itemLines.push('');
+          } else if (next.trim() && itemLines[itemLines.length - 1].trim() && !startsBlock(next) && !LIST_ITEM_PATTERN.test(next)) {
+            // A lazy continuation line of the item's paragraph.
+            itemLines.push(next.trim());
+          } else {
+            break;
+          }
+          index++;
+        }
+        items.push(parseBlocks(itemLines, slugs));
+        if (index < lines.length && !lines[index].trim()) {
+          index++;
+        }
+      }
+      blocks.push({ type: 'list', ordered, start: ordered ? Number(listItem[2].slice(0, -1)) : 1, items });
+      continue;
+    }
+
+    if (line.includes('|') && index + 1 < lines.length && TABLE_DELIMITER_PATTERN.test(lines[index + 1]) && lines[index + 1].includes('-')) {
+      const header = splitTableRow(line);
+      const align = splitTableRow(lines[index + 1]).map((cell): MarkdownAlignment => {
+        if (cell.startsWith(':') && cell.endsWith(':')) return 'center';
+        if (cell.endsWith(':')) return 'right';
+        return cell.startsWith(':') ? 'left' : null;
+      });
+      const rows: MarkdownInline[][][] = [];
+      index += 2;
+      while (index < lines.length && lines[index].trim() && lines[index].includes('|')) {
+        const cells = splitTableRow(lines[index]);
+        rows.push(header.map((_, column) => parseInlines(cells[column] ?? '')));
+        index++;
+      }
+      blocks.push({ type: 'table', header: header.map(cell => parseInlines(cell)), align, rows });
+      continue;
+    }
+
+    if (HTML_BLOCK_PATTERN.test(line)) {
+      const html: string[] = [];
+      while (index < lines.length && lines[index].trim()) {
+        html.push(lines[index].trim());
+        index++;
+      }
+      // Raw HTML is never rendered; only its text, links, images and line breaks are kept.
+      const children = parseInlines(html.join('\n').replace(/<!--[\s\S]*?-->/g, ''));
+      if (getInlineText(children).trim() || children.some(child => child.type === 'image')) {
+        blocks.push({ type: 'paragraph', children });
+      }
+      continue;
+    }
+
+    const paragraph: string[] = [line.trim()];
+    index++;
+    while (index < lines.length && lines[index].trim() && !startsBlock(lines[index]) && !SETEXT_PATTERN.test(lines[index])) {
+      paragraph.push(lines[index].trim());
+      index++;
+    }
+    const setext = index < lines.length ? SETEXT_PATTERN.exec(lines[index]) : null;
+    if (setext) {
+      blocks.push(heading(setext[1][0] === '=' ? 1 : 2, paragraph.join('\n')));
+      index++;
+    } else {
+      blocks.push({ type: 'paragraph', children: parseInlines(paragraph.join('\n')) });
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Parses a Markdown document, following the CommonMark and GitHub Flavored Markdown rules READMEs rely on
+ * @param {string} source - The Markdown source
+ * @returns {MarkdownBlock[]} - The blocks of the document
+ */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  return parseBlocks(source.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n'), new Map());
+}
+
+/**
+ * Points a fragment written against GitHub's heading anchors at the prefixed heading id
+ * @param {string} fragment - The fragment, without its `#`
+ * @returns {string} - The heading id
+ */
+function toHeadingId(fragment: string): string {
+  return fragment.startsWith(HEADING_ID_PREFIX) ? fragment : `${HEADING_ID_PREFIX}${fragment}`;
+}
+
+/**
+ * Resolves a link or image url of a Markdown file the way GitHub does
+ * Relative links open the linked file in the app and relative images are fetched from the same ref;
+ * urls with unsafe schemes, such as `javascript:`, are dropped.
+ * @param {string} url - The url as written in the Markdown
+ * @param {MarkdownLocation} location - The repository, ref and path of the Markdown file
+ * @param {'link' | 'image'} kind - Whether the url is the target of a link or the source of an image
+ * @returns {string | null} - The url to use, or null if it must not be used
+ */
+export function resolveMarkdownUrl(url: string, location: MarkdownLocation, kind: 'link' | 'image'): string | null {
+  const trimmed = url.trim();
+  if (!trimmed) return null;
+  if (trimmed.startsWith('#')) return kind === 'link' ? `#${toHeadingId(trimmed.slice(1))}` : null;
+  if (trimmed.startsWith('//')) return `https:${trimmed}`;
+  if (URL_SCHEME_PATTERN.test(trimmed)) return SAFE_URL_PATTERN.test(trimmed) ? trimmed : null;
+
+  const [pathAndQuery, fragment] = trimmed.split('#', 2);
+  const relativePath = pathAndQuery.split('?')[0];
+  const segments = trimmed.startsWith('/') ? [] : location.filePath.split('/').slice(0, -1);
+  for (const segment of relativePath.split('/')) {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment && segment !== '.') {
+      try {
+        segments.push(decodeURIComponent(segment));
+      } catch {
+        segments.push(segment);
+      }
+    }
+  }
+  const path = segments.join('/');
+  const { owner, repo, ref } = location;
+  if (kind === 'image') {
+    const params = new URLSearchParams({ owner, repo, ref: `${ref}/${path}`, format: 'raw' });
+    return `/api/v1/repo/blob?${params}`;
+  }
+  if (!path) return `/${owner}/${repo}`;
+  // Only Markdown files have heading anchors; other files keep their fragment, e.g. a `#L10` line anchor.
+  const target = fragment && isMarkdownFile(path) ? toHeadingId(fragment) : fragment;
+  return `${getBlobPath(owner, repo, ref, path)}${target ? `#${target}` : ''}`;
+}
+
+/**
+ * Decides whether a file should be rendered as Markdown
+ * @param {string} path - The file path
+ * @returns {boolean} - Whether the file has a Markdown extension
+ */
+export function isMarkdownFile(path: string): boolean {
+  return /\.(?:md|markdown|mdown|mkdn|mdx)$/i.test(path);
+}
+
+/**
+ * Finds the README of a folder among the streamed files, as GitHub shows it below the file list
+ * @param {FileItem[]} files - The files streamed so far
+ * @param {string | null} folder - The folder path, or null for the repository root
+ * @returns {FileItem | null} - The Markdown README of the folder, or null if it has none
+ */
+export function findReadme(files: FileItem[], folder: string | null): FileItem | null {
+  const prefix = folder ? `${folder}/` : '';
+  const candidates = files.filter(file => {
+    const name = file.path.slice(prefix.length);
+    return file.path.startsWith(prefix) && !name.includes('/') && /^readme\./i.test(name) && isMarkdownFile(name);
+  });
+  // Prefer the plain `.md` spelling when a folder has several, then fall back to name order to stay stable.
+  candidates.sort((a, b) => Number(!/\.md$/i.test(a.path)) - Number(!/\.md$/i.test(b.path)) || a.path.localeCompare(b.path));
+  return candidates[0] ?? null;
+}
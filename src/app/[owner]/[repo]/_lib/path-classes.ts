@@ -0,0 +1,115 @@
+import { compileGlob } from '@/lib/path-glob';
+import { FileItem, LinguistAttributeRule, PathClass } from './types';
+
+export const PATH_CLASSES: PathClass[] = ['vendored', 'generated', 'documentation'];
+
+// The attribute `.gitattributes` uses to set or unset each class, as GitHub Linguist reads them.
+const ATTRIBUTE_CLASSES: Record<string, PathClass> = {
+  'linguist-vendored': 'vendored',
+  'linguist-generated': 'generated',
+  'linguist-documentation': 'documentation',
+};
+
+// A subset of Linguist's default rules, matched against paths relative to the repository root.
+const DEFAULT_RULES: Record<PathClass, RegExp[]> = {
+  vendored: [
+    /(^|\/)(vendor|vendors|third[-_]?party|node_modules|bower_components|Pods|Carthage)\//,
+    /(^|\/)(dist|external|extern)\//,
+    /(\.|-)min\.(js|css)$/,
+    /(^|\/)jquery([^/]*)\.js$/,
+    /(^|\/)\.yarn\/(releases|plugins|sdks)\//,
+    /(^|\/)gradlew(\.bat)?$/,
+    /(^|\/)gradle\/wrapper\//,
+  ],
+  generated: [
+    /(^|\/)(package-lock\.json|npm-shrinkwrap\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lockb?)$/,
+    /(^|\/)(Cargo\.lock|Gemfile\.lock|composer\.lock|poetry\.lock|Pipfile\.lock|go\.sum|flake\.lock)$/,
+    /\.(js|css)\.map$/,
+    /(\.pb\.go|_pb2\.py|\.pb\.(cc|h))$/,
+    /(^|\/)__generated__\//,
+    /\.(generated|designer)\.\w+$/,
+  ],
+  documentation: [
+    /^docs?\//i,
+    /(^|\/)documentation\//i,
+    /(^|\/)javadoc\//i,
+    /^man\//,
+    /^examples?\//i,
+    /(^|\/)(CHANGE(S|LOG)?|CONTRIBUTING|COPYING|INSTALL|LICEN[CS]E|README|CITATIONS?)(\.[^/]*)?$/i,
+  ],
+};
+
+/**
+ * Reads the Linguist attributes of a `.gitattributes` file
+ * Patterns follow `compileGlob`, so a pattern matching a directory also covers the files below it,
+ * which is how `vendor/** linguist-vendored` is usually meant
+ * @param {string} content - The content of the file
+ * @returns {LinguistAttributeRule[]} - The lines that set or unset a class, in file order
+ */
+export function parseGitAttributes(content: string): LinguistAttributeRule[] {
+  const rules: LinguistAttributeRule[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    const [pattern, ...attributes] = line.trim().split(/\s+/);
+    if (!pattern || pattern.startsWith('#') || pattern.startsWith('[attr]')) continue;
+
+    const overrides: LinguistAttributeRule['overrides'] = {};
+    for (const attribute of attributes) {
+      // `attr` and `attr=true` set an attribute, `-attr` and `attr=false` unset it; `!attr` restores the default.
+      const [, prefix, name, value] = attribute.match(/^([-!]?)([^=]+)(?:=(.*))?$/) ?? [];
+      const pathClass = ATTRIBUTE_CLASSES[name];
+      if (!pathClass || prefix === '!') continue;
+      overrides[pathClass] = prefix !== '-' && value !== 'false';
+    }
+    if (Object.keys(overrides).length > 0) {
+      rules.push({ pattern: compileGlob(pattern), overrides });
+    }
+  }
+  return rules;
+}
+
+/**
+ * Classifies a path as vendored, generated or documentation
+ * The last matching `.gitattributes` line wins over earlier ones and over the default rules
+ * @param {string} path - The file path, relative to the repository root
+ * @param {LinguistAttributeRule[]} rules - The rules of the repository's `.gitattributes`
+ * @returns {PathClass[]} - The classes of the path; empty for first-party source
+ */
+export function classifyPath(path: string, rules: LinguistAttributeRule[] = []): PathClass[] {
+  return PATH_CLASSES.filter(pathClass => {
+    for (let i = rules.length - 1; i >= 0; i--) {
+      const override = rules[i].overrides[pathClass];
+      if (override !== undefined && rules[i].pattern.test(path)) {
+        return override;
+      }
+    }
+    return DEFAULT_RULES[pathClass].some(pattern => pattern.test(path));
+  });
+}
+
+/**
+ * Counts the files of each class; a file may count towards several
+ * @param {FileItem[]} files - The files to count
+ * @param {LinguistAttributeRule[]} rules - The rules of the repository's `.gitattributes`
+ * @returns {Record<PathClass, number>} - The number of files of each class
+ */
+export function countPathClasses(files: FileItem[], rules: LinguistAttributeRule[] = []): Record<PathClass, number> {
+  const counts: Record<PathClass, number> = { vendored: 0, generated: 0, documentation: 0 };
+  for (const file of files) {
+    for (const pathClass of classifyPath(file.path, rules)) {
+      counts[pathClass]++;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Leaves out the files of the excluded classes
+ * @param {FileItem[]} files - The files to filter
+ * @param {PathClass[]} excludedClasses - The classes to leave out
+ * @param {LinguistAttributeRule[]} rules - The rules of the repository's `.gitattributes`
+ * @returns {FileItem[]} - The files of none of the excluded classes; the same array if no class is excluded
+ */
+export function excludePathClasses(files: FileItem[], excludedClasses: PathClass[], rules: LinguistAttributeRule[] = []): FileItem[] {
+  if (excludedClasses.length === 0) return files;
+  return files.filter(file => !classifyPath(file.path, rules).some(pathClass => excludedClasses.includes(pathClass)));
+}
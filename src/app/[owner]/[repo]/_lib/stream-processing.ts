@@ -1,5 +1,5 @@
-import { isValidFile } from './file-utils';
-import { StreamItem, FileItem, CompleteItem, ErrorItem, StatusItem, WarningItem, BranchItem } from './types';
+import { parseStreamEvent } from '@/lib/stream-protocol';
+import { BranchItem, DiffCompleteItem, DiffItem, FileItem, StatusItem, ProgressItem, SearchCompleteItem, SearchResultItem, StreamItem, SubmoduleItem } from './types';
 
 /**
  * Handles the string character
@@ -74,22 +74,6 @@ export const extractValidJson = (str: string): string | null => {
   return null;
 };
 
-/**
- * Handles the status message to get the number of files processed
- * @param {string} message - The status message
- * @returns {number} - The number of files processed
- */
-const handleStatusMessage = (message: string): number => {
-  const totalMatch = /total:\s*(\d+)/i.exec(message);
-  const filesLoadedMatch = /(\d+)\s+files\s+(?:loaded|found)/i.exec(message);
-  const processedMatch = /processed\s+(\d+)\s+files/i.exec(message);
-  
-  if (totalMatch?.[1]) return parseInt(totalMatch[1], 10);
-  if (filesLoadedMatch?.[1]) return parseInt(filesLoadedMatch[1], 10);
-  if (processedMatch?.[1]) return parseInt(processedMatch[1], 10);
-  return 0;
-};
-
 /**
  * Processes the status item
  * @param {StatusItem} item - The status item
@@ -98,79 +82,236 @@ const handleStatusMessage = (message: string): number => {
  */
 const processStatusItem = (
   item: StatusItem,
-  onStatus: (message: string, fileCount?: number) => void
+  onStatus: (message: string) => void
 ): boolean => {
-  const { message, files_processed } = item;
+  const { message } = item;
   
   if (!message) return false;
   
-  if (files_processed !== undefined && typeof files_processed === 'number' && files_processed > 0) {
-    onStatus(message, files_processed);
-    return true;
+  // File counts come from progress events only, so `files_processed` is not passed on.
+  onStatus(message);
+  return true;
+};
+
+/**
+ * Processes the events shared by the explore, compare and search streams
+ * @param {StreamItem} json - The validated event
+ * @param {function} onError - The callback function to handle the error
+ * @param {function} onBranch - The callback function to handle the resolved ref
+ * @param {function} onStatus - The callback function to handle the status
+ * @param {function} onRateLimited - The callback function to handle a rate limit pause
+ * @param {function} onProgress - The callback function to handle the crawl progress counters
+ * @returns {boolean} - Whether a valid event was handled
+ */
+const processSharedItem = (
+  json: Exclude<StreamItem, { type: 'file' | 'submodule' | 'complete' | 'diff' | 'diff_complete' | 'search_result' | 'search_complete' }>,
+  onError: (message: string) => void,
+  onBranch: (branch: BranchItem) => void,
+  onStatus: (message: string) => void,
+  onRateLimited?: (resetAt: number, message: string) => void,
+  onProgress?: (progress: ProgressItem) => void
+): boolean => {
+  switch (json.type) {
+    case "error":
+      onError(json.message);
+      return false;
+    
+    case "branch":
+      onBranch(json);
+      return true;
+    
+    case "status":
+      return processStatusItem(json, onStatus);
+    
+    case "warning":
+      onStatus(`Warning: ${json.message}`);
+      return true;
+    
+    case "retry":
+      onStatus(`Retrying: ${json.message}`);
+      return true;
+    
+    case "rate_limited": {
+      const { message, reset_at } = json;
+      onStatus(message);
+      onRateLimited?.(reset_at, message);
+      return true;
+    }
+    
+    case "progress":
+      onProgress?.(json);
+      return true;
+    
+    case "heartbeat":
+      return true;
+  }
+};
+
+/**
+ * Logs a line that could not be parsed or does not match the stream protocol
+ * @param {unknown} e - The parse or validation error
+ * @param {string} line - The offending line
+ */
+const logInvalidLine = (e: unknown, line: string): void => {
+  if (e instanceof Error) {
+    console.error("Error parsing JSON line:", e.message, "Input:", line);
+  } else {
+    console.error("Error parsing JSON line:", e, "Input:", line);
   }
-  
-  const count = handleStatusMessage(message);
-  onStatus(message, count > 0 ? count : undefined);
-  return count > 0;
 };
 
 /**
- * Processes the JSON line
+ * Processes the JSON line, validating it against the stream protocol schema
  * @param {string} line - The JSON line to process
  * @param {function} onFile - The callback function to handle the file
  * @param {function} onError - The callback function to handle the error
  * @param {function} onComplete - The callback function to handle the complete
- * @param {function} onBranch - The callback function to handle the branch
+ * @param {function} onBranch - The callback function to handle the resolved ref
  * @param {function} onStatus - The callback function to handle the status
- * @returns {FileItem | boolean} - The file item or boolean
+ * @param {function} onRateLimited - The callback function to handle a rate limit pause
+ * @param {function} onProgress - The callback function to handle the crawl progress counters
+ * @param {function} onSubmodule - The callback function to handle a submodule
+ * @returns {FileItem | boolean} - The file item, or whether a valid non-file event was handled
  */
 export const processJsonLine = (
   line: string, 
   onFile: (file: FileItem) => void,
   onError: (message: string) => void,
-  onComplete: (totalFiles: number) => void,
-  onBranch: (branchName: string) => void,
-  onStatus: (message: string, fileCount?: number) => void
+  onComplete: (totalFiles: number, totalDirectories: number, excludedEntries: number) => void,
+  onBranch: (branch: BranchItem) => void,
+  onStatus: (message: string) => void,
+  onRateLimited?: (resetAt: number, message: string) => void,
+  onProgress?: (progress: ProgressItem) => void,
+  onSubmodule?: (submodule: SubmoduleItem) => void
 ): FileItem | boolean => {
   try {
-    const json = JSON.parse(line) as StreamItem;
+    const json = parseStreamEvent(line);
     
     switch (json.type) {
-      case "error":
-        onError((json as ErrorItem).message);
-        return false;
+      case "file":
+        onFile(json);
+        return json;
       
-      case "complete":
-        onComplete((json as CompleteItem).total_files);
+      case "submodule":
+        onSubmodule?.(json);
         return true;
       
-      case "branch":
-        onBranch((json as BranchItem).name);
+      case "complete":
+        onComplete(json.total_files, json.total_directories, json.excluded_entries);
         return true;
       
-      case "status":
-        return processStatusItem(json as StatusItem, onStatus);
-      
-      case "warning": {
-        const { message, files_processed } = json as WarningItem;
-        onStatus(`Warning: ${message}`, 
-          typeof files_processed === 'number' && files_processed > 0 ? files_processed : undefined);
-        return true;
-      }
+      // Only sent when comparing two refs or searching file contents.
+      case "diff":
+      case "diff_complete":
+      case "search_result":
+      case "search_complete":
+        return false;
       
       default:
-        if (isValidFile(json)) {
-          onFile(json);
-          return json;
-        }
+        return processSharedItem(json, onError, onBranch, onStatus, onRateLimited, onProgress);
+    }
+  } catch (e: unknown) {
+    logInvalidLine(e, line);
+    return false;
+  }
+};
+
+/**
+ * Processes a JSON line of the compare stream, validating it against the stream protocol schema
+ * @param {string} line - The JSON line to process
+ * @param {function} onDiff - The callback function to handle a changed file
+ * @param {function} onError - The callback function to handle the error
+ * @param {function} onDiffComplete - The callback function to handle the totals of the comparison
+ * @param {function} onBranch - The callback function to handle a resolved side of the comparison
+ * @param {function} onStatus - The callback function to handle the status
+ * @param {function} onRateLimited - The callback function to handle a rate limit pause
+ * @param {function} onProgress - The callback function to handle the crawl progress counters
+ * @returns {DiffItem | boolean} - The changed file, or whether a valid non-diff event was handled
+ */
+export const processDiffJsonLine = (
+  line: string,
+  onDiff: (diff: DiffItem) => void,
+  onError: (message: string) => void,
+  onDiffComplete: (summary: DiffCompleteItem) => void,
+  onBranch: (branch: BranchItem) => void,
+  onStatus: (message: string) => void,
+  onRateLimited?: (resetAt: number, message: string) => void,
+  onProgress?: (progress: ProgressItem) => void
+): DiffItem | boolean => {
+  try {
+    const json = parseStreamEvent(line);
+
+    switch (json.type) {
+      case "diff":
+        onDiff(json);
+        return json;
+
+      case "diff_complete":
+        onDiffComplete(json);
+        return true;
+
+      // Only sent when exploring a single ref or searching file contents.
+      case "file":
+      case "submodule":
+      case "complete":
+      case "search_result":
+      case "search_complete":
         return false;
+
+      default:
+        return processSharedItem(json, onError, onBranch, onStatus, onRateLimited, onProgress);
     }
   } catch (e: unknown) {
-    if (e instanceof Error) {
-      console.error("Error parsing JSON line:", e.message, "Input:", line);
-    } else {
-      console.error("Error parsing JSON line:", e, "Input:", line);
+    logInvalidLine(e, line);
+    return false;
+  }
+};
+
+/**
+ * Processes a JSON line of the search stream, validating it against the stream protocol schema
+ * @param {string} line - The JSON line to process
+ * @param {function} onResult - The callback function to handle the matches of a file
+ * @param {function} onError - The callback function to handle the error
+ * @param {function} onSearchComplete - The callback function to handle the totals of the search
+ * @param {function} onBranch - The callback function to handle the resolved ref
+ * @param {function} onStatus - The callback function to handle the status
+ * @param {function} onRateLimited - The callback function to handle a rate limit pause
+ * @returns {SearchResultItem | boolean} - The matches of a file, or whether a valid non-result event was handled
+ */
+export const processSearchJsonLine = (
+  line: string,
+  onResult: (result: SearchResultItem) => void,
+  onError: (message: string) => void,
+  onSearchComplete: (summary: SearchCompleteItem) => void,
+  onBranch: (branch: BranchItem) => void,
+  onStatus: (message: string) => void,
+  onRateLimited?: (resetAt: number, message: string) => void
+): SearchResultItem | boolean => {
+  try {
+    const json = parseStreamEvent(line);
+
+    switch (json.type) {
+      case "search_result":
+        onResult(json);
+        return json;
+
+      case "search_complete":
+        onSearchComplete(json);
+        return true;
+
+      // Only sent when exploring a single ref or comparing two refs.
+      case "file":
+      case "submodule":
+      case "complete":
+      case "diff":
+      case "diff_complete":
+        return false;
+
+      default:
+        return processSharedItem(json, onError, onBranch, onStatus, onRateLimited);
     }
+  } catch (e: unknown) {
+    logInvalidLine(e, line);
     return false;
   }
 };
@@ -1,18 +1,78 @@
-import { FileItem, TreeNode } from './types';
+import { createPathFilter } from '@/lib/path-glob';
+import { getFileExtension } from './file-utils';
+import { FileItem, FolderStats, SubmoduleItem, TreeColumn, TreeNode, TreeSort, TreeSortKey } from './types';
+
+// Shared by the column headers and the rows of the file tree, so that they line up.
+export const TREE_COLUMN_CLASSES: Record<TreeSortKey | TreeColumn, string> = {
+  name: 'flex-grow min-w-0',
+  extension: 'w-20 flex-shrink-0',
+  mode: 'w-20 flex-shrink-0',
+  sha: 'w-20 flex-shrink-0',
+  files: 'w-20 flex-shrink-0 text-right',
+  size: 'w-1/5 flex-shrink-0 text-right pr-4',
+};
+
+export const DEFAULT_TREE_SORT: TreeSort = { key: 'name', direction: 'asc' };
+
+/**
+ * Gets the bytes a node stands for
+ * @param {TreeNode} node - The node
+ * @returns {number} - The size of a file, the total size of a folder, and 0 for a submodule
+ */
+export const getNodeSize = (node: TreeNode): number => {
+  if (node.type === 'file') return node.fileItem?.size ?? 0;
+  return node.stats?.size ?? 0;
+};
+
+/**
+ * Rolls up the sizes, file counts and deepest paths of the children of a folder
+ * @param {TreeNode[]} children - The children, whose own folders already carry their stats
+ * @returns {FolderStats} - The stats of the folder
+ */
+const summarizeFolder = (children: TreeNode[]): FolderStats => {
+  const stats: FolderStats = { size: 0, fileCount: 0, deepestPath: '' };
+  const getDepth = (path: string) => path ? path.split('/').length : 0;
+  for (const child of children) {
+    const childStats: FolderStats | undefined = child.type === 'file'
+      ? { size: getNodeSize(child), fileCount: 1, deepestPath: child.path }
+      : child.stats;
+    if (!childStats) continue;
+    stats.size += childStats.size;
+    stats.fileCount += childStats.fileCount;
+    if (getDepth(childStats.deepestPath) > getDepth(stats.deepestPath)) {
+      stats.deepestPath = childStats.deepestPath;
+    }
+  }
+  return stats;
+};
 
 /**
- * Builds the file tree from files
+ * Sets the stats of every folder of a tree, children before their parents
+ * @param {TreeNode[]} nodes - The nodes to walk
+ */
+const rollUpFolders = (nodes: TreeNode[]): void => {
+  for (const node of nodes) {
+    if (node.type === 'folder') {
+      rollUpFolders(node.children ?? []);
+      node.stats = summarizeFolder(node.children ?? []);
+    }
+  }
+};
+
+/**
+ * Builds the file tree from files, with the total size, file count and deepest path of every folder
  * @param {FileItem[]} files - The files to build the tree from
+ * @param {SubmoduleItem[]} submodules - The submodules, placed in the tree like files
  * @returns {TreeNode[]} - The file tree
  */
-export const buildFileTree = (files: FileItem[]): TreeNode[] => {
+export const buildFileTree = (files: FileItem[], submodules: SubmoduleItem[] = []): TreeNode[] => {
   const tree: TreeNode[] = [];
   const dirNodeCache: Record<string, TreeNode> = {};
 
-  const sortedFiles = [...files].sort((a, b) => a.path.localeCompare(b.path));
+  const sortedItems = [...files, ...submodules].sort((a, b) => a.path.localeCompare(b.path));
 
-  sortedFiles.forEach(fileItem => {
-    const pathParts = fileItem.path.split('/');
+  sortedItems.forEach(item => {
+    const pathParts = item.path.split('/');
     let currentLevelChildren = tree;
     let currentPath = "";
 
@@ -22,11 +82,17 @@ export const buildFileTree = (files: FileItem[]): TreeNode[] => {
       const isFileNode = i === pathParts.length - 1;
 
       if (isFileNode) {
-        const fileNode: TreeNode = {
+        const fileNode: TreeNode = item.type === 'submodule' ? {
+          name: part,
+          path: item.path,
+          type: 'submodule',
+          submoduleItem: item,
+          displayPath: part,
+        } : {
           name: part,
-          path: fileItem.path,
+          path: item.path,
           type: 'file',
-          fileItem: fileItem,
+          fileItem: item,
           displayPath: part,
         };
         currentLevelChildren.push(fileNode);
@@ -51,26 +117,115 @@ export const buildFileTree = (files: FileItem[]): TreeNode[] => {
       }
     }
   });
+  rollUpFolders(tree);
   return tree;
 };
 
+interface CompactableNode<T> {
+  type: string;
+  displayPath: string;
+  children?: T[];
+}
+
 /**
  * Compacts the tree paths. If a folder has only one child folder, it will be merged into the parent folder, recursively.
- * @param {TreeNode[]} nodes - The nodes to compact
- * @returns {TreeNode[]} - The compacted nodes
+ * Folder stats stay correct: a folder holding a single folder has the same total, count and deepest path as that folder.
+ * @param {T[]} nodes - The nodes to compact, of the file tree or the diff tree
+ * @returns {T[]} - The compacted nodes
  */
-export const compactTreePaths = (nodes: TreeNode[]): TreeNode[] => {
+export const compactTreePaths = <T extends CompactableNode<T>>(nodes: T[]): T[] => {
   return nodes.map(node => {
     if (node.type === 'folder' && node.children) {
       const compactedChildren = compactTreePaths(node.children);
       node.children = compactedChildren;
 
       while (node.type ==='folder' && node.children && node.children.length === 1 && node.children[0].type === 'folder') {
-        const singleChildFolder: TreeNode = node.children[0];
+        const singleChildFolder: T = node.children[0];
         node.displayPath = `${node.displayPath}/${singleChildFolder.displayPath}`;
         node.children = singleChildFolder.children ?? []; 
       }
     }
     return node;
   });
-}; 
\ No newline at end of file
+};
+
+/**
+ * Gets the number of files a node stands for
+ * @param {TreeNode} node - The node
+ * @returns {number} - 1 for a file, the files below a folder, and 0 for a submodule
+ */
+export const getNodeFileCount = (node: TreeNode): number => {
+  if (node.type === 'file') return 1;
+  return node.stats?.fileCount ?? 0;
+};
+
+/**
+ * Sorts the nodes of one tree level. Sorting by name or extension keeps folders first, while sorting by size or
+ * file count mixes folders and files, so that the heaviest entries come first whatever they are. Ties go by name
+ * @param {TreeNode[]} nodes - The nodes to sort
+ * @param {TreeSort} sort - The sort key and direction
+ * @returns {TreeNode[]} - The sorted copy of the nodes
+ */
+export const sortTreeNodes = (nodes: TreeNode[], { key, direction }: TreeSort): TreeNode[] => {
+  const sign = direction === 'asc' ? 1 : -1;
+  const foldersFirst = key === 'name' || key === 'extension';
+  const byName = (a: TreeNode, b: TreeNode) => a.displayPath.localeCompare(b.displayPath);
+  const getExtension = (node: TreeNode) => node.type === 'file' ? getFileExtension(node.path) : '';
+
+  const compare = (a: TreeNode, b: TreeNode): number => {
+    switch (key) {
+      case 'extension': return getExtension(a).localeCompare(getExtension(b));
+      case 'files': return getNodeFileCount(a) - getNodeFileCount(b);
+      case 'size': return getNodeSize(a) - getNodeSize(b);
+      default: return byName(a, b);
+    }
+  };
+
+  return [...nodes].sort((a, b) => {
+    if (foldersFirst && (a.type === 'folder') !== (b.type === 'folder')) {
+      return a.type === 'folder' ? -1 : 1;
+    }
+    return sign * compare(a, b) || byName(a, b);
+  });
+};
+
+/**
+ * Builds the path test of a tree filter. Filters with glob characters are matched as globs, anything else as
+ * a case-insensitive part of the path
+ * @param {string} filter - The filter text, e.g. `config` or `src/**\/*.test.ts`
+ * @returns {(path: string) => boolean} - Whether a path matches the filter
+ */
+export const createTreeFilter = (filter: string): ((path: string) => boolean) => {
+  const trimmed = filter.trim();
+  if (/[*?{]/.test(trimmed)) {
+    return createPathFilter([trimmed]);
+  }
+  const needle = trimmed.toLowerCase();
+  return (path: string) => path.toLowerCase().includes(needle);
+};
+
+/**
+ * Prunes a tree down to the files and submodules whose paths match, keeping the folders that lead to them.
+ * The nodes are copied, so the pruned tree can be shown without touching the full one; folder stats count the kept files only
+ * @param {TreeNode[]} nodes - The nodes to prune
+ * @param {function} matches - Decides whether a file or submodule path is kept
+ * @returns {TreeNode[]} - The pruned nodes
+ */
+export const filterFileTree = (nodes: TreeNode[], matches: (path: string) => boolean): TreeNode[] => {
+  return nodes.flatMap(node => {
+    if (node.type !== 'folder') {
+      return matches(node.path) ? [node] : [];
+    }
+    const children = filterFileTree(node.children ?? [], matches);
+    return children.length > 0 ? [{ ...node, children, stats: summarizeFolder(children) }] : [];
+  });
+};
+
+/**
+ * Collects the paths of every folder in a tree, e.g. to expand all of them
+ * @param {TreeNode[]} nodes - The nodes to walk
+ * @returns {string[]} - The folder paths, parents before their children
+ */
+export const collectFolderPaths = (nodes: TreeNode[]): string[] => {
+  return nodes.flatMap(node => node.type === 'folder' ? [node.path, ...collectFolderPaths(node.children ?? [])] : []);
+};
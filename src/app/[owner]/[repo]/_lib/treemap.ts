@@ -0,0 +1,159 @@
+import { getFileExtension } from './file-utils';
+import { detectLanguage } from './languages';
+import { getNodeSize } from './tree-utils';
+import { TreeNode, TreemapColorMode, TreemapLayoutOptions, TreemapRect, TreemapTile } from './types';
+
+// The band at the top of a folder tile that holds its name.
+export const TREEMAP_HEADER_HEIGHT = 16;
+const TREEMAP_PADDING = 2;
+const UNKNOWN_COLOR = '#4b5563';
+const FOLDER_COLOR = '#1f2937';
+
+/**
+ * Measures how far the tiles of a row are from squares, when the row is laid along a side
+ * @param {number} rowArea - The total area of the row
+ * @param {number} largest - The area of the largest tile of the row
+ * @param {number} smallest - The area of the smallest tile of the row
+ * @param {number} side - The length of the side the row is laid along
+ * @returns {number} - The worst aspect ratio of the row's tiles, 1 for squares
+ */
+const worstAspectRatio = (rowArea: number, largest: number, smallest: number, side: number): number => {
+  const sideSquared = side * side;
+  const areaSquared = rowArea * rowArea;
+  return Math.max((sideSquared * largest) / areaSquared, areaSquared / (sideSquared * smallest));
+};
+
+/**
+ * Splits a rectangle into tiles of the given proportions that are as close to squares as possible,
+ * with the squarified algorithm of Bruls, Huizing and van Wijk
+ * @param {number[]} sizes - The positive sizes of the tiles, largest first
+ * @param {TreemapRect} rect - The rectangle to split
+ * @returns {TreemapRect[]} - The tiles, in the order of the sizes
+ */
+export const squarify = (sizes: number[], rect: TreemapRect): TreemapRect[] => {
+  const total = sizes.reduce((sum, size) => sum + size, 0);
+  if (total <= 0 || rect.width <= 0 || rect.height <= 0) return [];
+
+  const scale = (rect.width * rect.height) / total;
+  const areas = sizes.map(size => size * scale);
+  const tiles: TreemapRect[] = [];
+  let { x, y, width, height } = rect;
+  let start = 0;
+
+  while (start < areas.length) {
+    const side = Math.min(width, height);
+    let end = start + 1;
+    let rowArea = areas[start];
+    // A row grows while adding the next tile makes its worst tile squarer.
+    while (end < areas.length &&
+      worstAspectRatio(rowArea + areas[end], areas[start], areas[end], side) <=
+      worstAspectRatio(rowArea, areas[start], areas[end - 1], side)) {
+      rowArea += areas[end];
+      end++;
+    }
+
+    // The row fills the shorter side, and the rest of the rectangle is split the same way.
+    if (width >= height) {
+      const rowWidth = rowArea / height;
+      let offset = y;
+      for (let i = start; i < end; i++) {
+        const tileHeight = areas[i] / rowWidth;
+        tiles.push({ x, y: offset, width: rowWidth, height: tileHeight });
+        offset += tileHeight;
+      }
+      x += rowWidth;
+      width -= rowWidth;
+    } else {
+      const rowHeight = rowArea / width;
+      let offset = x;
+      for (let i = start; i < end; i++) {
+        const tileWidth = areas[i] / rowHeight;
+        tiles.push({ x: offset, y, width: tileWidth, height: rowHeight });
+        offset += tileWidth;
+      }
+      y += rowHeight;
+      height -= rowHeight;
+    }
+    start = end;
+  }
+  return tiles;
+};
+
+/**
+ * Lays out a tree as nested tiles whose areas are proportional to their sizes
+ * Only the tiles large enough to see are laid out, so that huge repositories stay responsive
+ * @param {TreeNode[]} nodes - The nodes to lay out, e.g. the children of the zoomed folder
+ * @param {TreemapRect} rect - The rectangle to fill
+ * @param {TreemapLayoutOptions} options - How deep to open folders and how small tiles may get
+ * @returns {TreemapTile[]} - The tiles, every folder before the tiles inside it
+ */
+export const layoutTreemap = (nodes: TreeNode[], rect: TreemapRect, { maxDepth, minArea }: TreemapLayoutOptions): TreemapTile[] => {
+  const tiles: TreemapTile[] = [];
+
+  const layOut = (children: TreeNode[], area: TreemapRect, depth: number) => {
+    const sized = children
+      .map(node => ({ node, size: getNodeSize(node) }))
+      .filter(({ size }) => size > 0)
+      .sort((a, b) => b.size - a.size);
+    const rects = squarify(sized.map(({ size }) => size), area);
+
+    for (let i = 0; i < sized.length; i++) {
+      const tile = rects[i];
+      // Tiles come largest first, so every later one is too small as well.
+      if (tile.width * tile.height < minArea) break;
+
+      const { node } = sized[i];
+      tiles.push({ ...tile, node, depth });
+      if (node.type === 'folder' && depth < maxDepth) {
+        const inner = {
+          x: tile.x + TREEMAP_PADDING,
+          y: tile.y + TREEMAP_HEADER_HEIGHT,
+          width: tile.width - 2 * TREEMAP_PADDING,
+          height: tile.height - TREEMAP_HEADER_HEIGHT - TREEMAP_PADDING,
+        };
+        if (inner.width > 0 && inner.height > 0) {
+          layOut(node.children ?? [], inner, depth + 1);
+        }
+      }
+    }
+  };
+
+  layOut(nodes, rect, 0);
+  return tiles;
+};
+
+/**
+ * Finds a folder and the folders leading to it
+ * @param {TreeNode[]} nodes - The nodes to search
+ * @param {string} path - The path of the folder
+ * @returns {TreeNode[]} - The folders from the top level down to the one found; empty if there is none
+ */
+export const findFolderChain = (nodes: TreeNode[], path: string): TreeNode[] => {
+  for (const node of nodes) {
+    if (node.type !== 'folder') continue;
+    if (node.path === path) return [node];
+    const chain = findFolderChain(node.children ?? [], path);
+    if (chain.length > 0) return [node, ...chain];
+  }
+  return [];
+};
+
+/**
+ * Picks the color of a tile
+ * @param {TreeNode} node - The node of the tile
+ * @param {TreemapColorMode} mode - Whether files are colored by language or by extension
+ * @returns {string} - A CSS color; extensions get a stable hue of their own
+ */
+export const getTileColor = (node: TreeNode, mode: TreemapColorMode): string => {
+  if (node.type !== 'file') return FOLDER_COLOR;
+  if (mode === 'language') {
+    return detectLanguage(node.path)?.color ?? UNKNOWN_COLOR;
+  }
+  const extension = getFileExtension(node.path);
+  if (extension.startsWith('(')) return UNKNOWN_COLOR;
+  let hash = 0;
+  for (const char of extension) {
+    hash = (hash * 31 + char.charCodeAt(0)) % 360;
+  }
+  return `hsl(${hash}, 55%, 45%)`;
+};
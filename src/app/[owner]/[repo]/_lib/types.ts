@@ -1,49 +1,87 @@
-// Interface definitions for stream items
-export interface FileItem {
-  path: string;
-  mode: string;
-  type: string;
-  sha: string;
-  size: number;
-  url: string;
-}
+import type {
+  BranchEvent,
+  CompleteEvent,
+  DiffCompleteEvent,
+  DiffEvent,
+  ErrorEvent,
+  FileEvent,
+  HeartbeatEvent,
+  ProgressEvent,
+  RateLimitedEvent,
+  RetryEvent,
+  SearchCompleteEvent,
+  SearchMatch,
+  SearchResultEvent,
+  StatusEvent,
+  StreamEvent,
+  SubmoduleEvent,
+  WarningEvent,
+} from '@/lib/stream-protocol';
+import type { GlobMatcher } from '@/lib/path-glob';
 
-export interface ErrorItem {
-  type: "error";
-  message: string;
-}
+// Stream items are defined by the shared stream protocol schema, so the client cannot drift from the route.
+export type FileItem = FileEvent;
+export type SubmoduleItem = SubmoduleEvent;
+export type ErrorItem = ErrorEvent;
+export type CompleteItem = CompleteEvent;
+export type StatusItem = StatusEvent;
+export type WarningItem = WarningEvent;
+export type RetryItem = RetryEvent;
+export type RateLimitedItem = RateLimitedEvent;
+export type ProgressItem = ProgressEvent;
+export type HeartbeatItem = HeartbeatEvent;
+export type BranchItem = BranchEvent;
+export type StreamItem = StreamEvent;
+export type DiffItem = DiffEvent;
+export type DiffCompleteItem = DiffCompleteEvent;
+export type SearchMatchItem = SearchMatch;
+export type SearchResultItem = SearchResultEvent;
+export type SearchCompleteItem = SearchCompleteEvent;
 
-export interface CompleteItem {
-  type: "complete";
-  total_files: number;
-}
+export type DiffStatus = DiffItem['status'];
+export type CompareSide = NonNullable<BranchItem['side']>;
+export type FileKind = FileItem['kind'];
 
-export interface StatusItem {
-  type: "status";
-  message: string;
-  files_processed?: number;
+export interface FolderStats {
+  // The bytes of every file below the folder, at any depth.
+  size: number;
+  fileCount: number;
+  // The path of the file nested most deeply below the folder; empty if it holds no files.
+  deepestPath: string;
 }
 
-export interface WarningItem {
-  type: "warning";
-  message: string;
-  files_processed?: number;
+export interface TreeNode {
+  name: string;
+  path: string;
+  type: "file" | "folder" | "submodule";
+  children?: TreeNode[];
+  fileItem?: FileItem;
+  submoduleItem?: SubmoduleItem;
+  displayPath: string;
+  // Only set on folders.
+  stats?: FolderStats;
 }
 
-export interface BranchItem {
-  type: "branch";
-  name: string;
+export interface FuzzyMatch {
+  score: number;
+  // The positions of the matched characters in the path.
+  indices: number[];
 }
 
-export type StreamItem = FileItem | ErrorItem | CompleteItem | StatusItem | WarningItem | BranchItem;
+export interface RankedFile extends FuzzyMatch {
+  file: FileItem;
+}
 
-export interface TreeNode {
+export interface DiffTreeNode {
   name: string;
   path: string;
   type: "file" | "folder";
-  children?: TreeNode[];
-  fileItem?: FileItem;
+  children?: DiffTreeNode[];
+  diffItem?: DiffItem;
   displayPath: string;
+  // Rolled up over every changed file below a folder.
+  sizeDelta: number;
+  changes: Record<DiffStatus, number>;
 }
 
 export interface ExtensionData {
@@ -53,17 +91,270 @@ export interface ExtensionData {
   size: number;
 }
 
+export type LanguageCategory = 'programming' | 'markup' | 'data' | 'prose';
+
+export interface Language {
+  name: string;
+  category: LanguageCategory;
+  // A CSS color, the one GitHub uses for the language where it has one.
+  color: string;
+}
+
+export interface LanguageData extends Language {
+  count: number;
+  size: number;
+  // The share of the bytes of every summarized language.
+  percentage: number;
+}
+
+export interface LanguageBreakdown {
+  languages: LanguageData[];
+  // Files whose language is not known, which the breakdown leaves out.
+  unknownFiles: number;
+}
+
+export type HighlightTokenType = 'plain' | 'comment' | 'string' | 'keyword' | 'number';
+
+export interface HighlightToken {
+  type: HighlightTokenType;
+  text: string;
+}
+
+export interface LanguageSyntax {
+  keywords: Set<string>;
+  lineComments: string[];
+  blockComment?: [string, string];
+  // Longer delimiters first, so that `"""` is not read as an empty string.
+  quotes: string[];
+}
+
+export type MarkdownInline =
+  | { type: 'text' | 'code'; text: string }
+  | { type: 'emphasis' | 'strong' | 'delete'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'image'; src: string; alt: string }
+  | { type: 'break' };
+
+export type MarkdownAlignment = 'left' | 'center' | 'right' | null;
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; id: string; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code'; language: string; text: string }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: 'table'; header: MarkdownInline[][]; align: MarkdownAlignment[]; rows: MarkdownInline[][][] }
+  | { type: 'rule' };
+
+// Where a Markdown file lives, so that its relative links and images can be resolved.
+export interface MarkdownLocation {
+  owner: string;
+  repo: string;
+  ref: string;
+  filePath: string;
+}
+
+export interface MarkdownViewProps {
+  source: string;
+  location: MarkdownLocation;
+}
+
+export type FileKindCounts = Record<Exclude<FileKind, 'file'> | 'lfs', number>;
+
 export interface DirectoryViewProps {
   nodes: TreeNode[];
   depth: number;
   branchName: string;
-  getGitHubFileUrl: (currentBranch: string, filePath: string) => string;
+  getFileViewerPath: (currentBranch: string, filePath: string) => string;
   formatFileSize: (bytes: number) => string;
   expandedFolders: Set<string>;
   toggleFolderExpansion: (path: string) => void;
+  // The size the rows' size bars are relative to; the total of the nodes if not given.
+  parentSize?: number;
+  // Applied at every level; by name, folders first, if not given.
+  sort?: TreeSort;
+  columns?: TreeColumn[];
+}
+
+export type TreeSortKey = 'name' | 'extension' | 'files' | 'size';
+
+export interface TreeSort {
+  key: TreeSortKey;
+  direction: 'asc' | 'desc';
+}
+
+// The optional columns of the file tree; name, extension, file count and size are always shown.
+export type TreeColumn = 'mode' | 'sha';
+
+export interface ExplorerSettings {
+  sort: TreeSort;
+  columns: TreeColumn[];
+}
+
+export interface TreeColumnHeaderProps {
+  sort: TreeSort;
+  columns: TreeColumn[];
+  onSort: (key: TreeSortKey) => void;
+}
+
+export interface TreemapRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TreemapTile extends TreemapRect {
+  node: TreeNode;
+  // 0 for the children of the zoomed folder.
+  depth: number;
+}
+
+export interface TreemapLayoutOptions {
+  // The deepest level whose folders are still opened up into their children.
+  maxDepth: number;
+  // Tiles smaller than this many square pixels are left out; their folder shows their area.
+  minArea: number;
+}
+
+export type TreemapColorMode = 'language' | 'extension';
+
+export interface TreemapViewProps {
+  nodes: TreeNode[];
+  branchName: string;
+  getFileViewerPath: (currentBranch: string, filePath: string) => string;
+  formatFileSize: (bytes: number) => string;
+}
+
+export interface FileFinderProps {
+  files: FileItem[];
+  onSelect: (file: FileItem) => void;
+  onClose: () => void;
+}
+
+export interface SubmoduleTreeProps {
+  submodule: SubmoduleItem;
+  depth: number;
+  sort?: TreeSort;
+  columns?: TreeColumn[];
 }
 
 export interface ExtensionSummaryViewProps {
   files: FileItem[];
   totalRepoSize: number;
-} 
\ No newline at end of file
+}
+
+export interface LanguageSummaryViewProps {
+  files: FileItem[];
+}
+
+export type PathClass = 'vendored' | 'generated' | 'documentation';
+
+export interface LinguistAttributeRule {
+  pattern: GlobMatcher;
+  // The classes a matching `.gitattributes` line sets (true) or unsets (false).
+  overrides: Partial<Record<PathClass, boolean>>;
+}
+
+export interface PathClassTogglesProps {
+  counts: Record<PathClass, number>;
+  excludedClasses: PathClass[];
+  onToggle: (pathClass: PathClass) => void;
+}
+
+// The filters of a crawl, as the streaming route reads them; the page keeps them in its URL query.
+export interface CrawlFilters {
+  include: string[];
+  exclude: string[];
+  max_depth?: number;
+}
+
+export interface CrawlFilterFormProps {
+  filters: CrawlFilters;
+  // How many entries the filters left out of the finished crawl; null while it runs.
+  excludedEntries: number | null;
+  onApply: (filters: CrawlFilters) => void;
+}
+
+export interface ExtensionDiffData {
+  extension: string;
+  changedFiles: number;
+  fileCountDelta: number;
+  sizeDelta: number;
+}
+
+export interface DiffDirectoryViewProps {
+  nodes: DiffTreeNode[];
+  depth: number;
+  baseRef: string;
+  headRef: string;
+  getGitHubFileUrl: (currentBranch: string, filePath: string) => string;
+  expandedFolders: Set<string>;
+  toggleFolderExpansion: (path: string) => void;
+}
+
+export interface DiffExtensionSummaryViewProps {
+  diffs: DiffItem[];
+}
+
+// The body of a search request, apart from the URL of the searched repository folder.
+export interface SearchRequest {
+  query: string;
+  regex: boolean;
+  case_sensitive: boolean;
+  paths: string[];
+  context: number;
+}
+
+export interface SearchViewProps {
+  owner: string;
+  repo: string;
+  gitRef: string;
+  // The github.com URL of the searched ref and folder.
+  searchUrl: string;
+}
+
+export interface RateLimitCountdownProps {
+  resetAt: number; // Unix epoch in seconds
+}
+
+export interface RefLabelProps {
+  kind: BranchItem['kind'] | null;
+  name: string;
+  commitSha: string | null;
+}
+
+export type RefListType = 'branch' | 'tag';
+
+export interface RefListResponse {
+  refs: string[];
+  page: number;
+  has_next_page: boolean;
+}
+
+export interface BlobResponse {
+  sha: string;
+  path: string | null;
+  size: number;
+  binary: boolean;
+  too_large: boolean;
+  // Null for binary files and files too large to display.
+  content: string | null;
+}
+
+// A file is fetched either by `<ref>/<path>`, as in blob URLs, or by the blob SHA of a streamed file.
+export type BlobLookup = { ref: string } | { sha: string; path: string };
+
+export interface FileViewerProps {
+  owner: string;
+  repo: string;
+  gitRef: string;
+  file: BlobResponse;
+  githubUrl: string;
+}
+
+export interface RefPickerProps extends RefLabelProps {
+  owner: string;
+  repo: string;
+  onSelect: (ref: string) => void;
+}
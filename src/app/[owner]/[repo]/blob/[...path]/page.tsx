@@ -0,0 +1,72 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import React from "react";
+import { useFileContent } from "../../_hooks/useFileContent";
+import FileViewer from "../../_components/file-viewer";
+import { getExplorerPath } from "@/lib/github-url";
+import Link from "next/link";
+import { ArrowLeftIcon, Loader2Icon } from "lucide-react";
+
+export default function RepositoryFilePage() {
+  const params = useParams();
+  const owner = params.owner as string;
+  const repo = params.repo as string;
+  // `/<owner>/<repo>/blob/<ref>/<path>` mirrors GitHub's own file URLs; the API splits the ref from the path.
+  const refAndPath = ((params.path as string[] | undefined) ?? []).join("/");
+
+  const { file, isLoading, error } = useFileContent(owner, repo, { ref: refAndPath });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen w-full bg-slate-900">
+        <main className="flex flex-col items-center justify-center min-h-screen p-6">
+          <Loader2Icon className="animate-spin h-10 w-10 text-blue-500 mx-auto mb-4" />
+          <p className="text-xl font-semibold text-white break-all">Loading {owner}/{repo}/{refAndPath}...</p>
+        </main>
+      </div>
+    );
+  }
+
+  if (error || !file) {
+    return (
+      <div className="min-h-screen w-full bg-slate-900">
+        <main className="flex flex-col items-center justify-center min-h-screen p-6">
+          <div className="bg-red-100 dark:bg-red-900 border border-red-400 dark:border-red-700 text-red-700 dark:text-red-200 px-6 py-4 rounded-lg shadow-md max-w-lg text-center">
+            <h2 className="text-2xl font-bold mb-2">Error</h2>
+            <p className="text-lg">{error}</p>
+            <Link href={getExplorerPath({ owner, repo })} className="mt-4 inline-block bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded transition duration-150">
+              Back to {owner}/{repo}
+            </Link>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  const filePath = file.path ?? "";
+  const ref = refAndPath.slice(0, Math.max(refAndPath.length - filePath.length - 1, 0));
+  const folder = filePath.split("/").slice(0, -1).join("/");
+  const githubUrl = `https://github.com/${owner}/${repo}/blob/${refAndPath.split("/").map(segment => encodeURIComponent(segment)).join("/")}`;
+
+  return (
+    <div className="min-h-screen w-full bg-slate-900">
+      <main className="container mx-auto p-4 sm:p-6 lg:p-8 text-white">
+        <header className="mb-6">
+          <Link
+            href={getExplorerPath({ owner, repo, ref, path: folder || undefined })}
+            className="text-blue-500 flex items-center hover:text-blue-700 hover:underline transition duration-150"
+          >
+            <ArrowLeftIcon className="w-5 h-5 mr-1" />
+            Back to {folder || `${owner}/${repo}`}
+          </Link>
+          <h1 className="mt-2 text-2xl font-bold break-all">
+            <span className="text-gray-400">{owner} / {repo} / </span>{filePath}
+          </h1>
+          <p className="text-sm text-gray-400 mt-1">at {ref}</p>
+        </header>
+        <FileViewer owner={owner} repo={repo} gitRef={ref} file={file} githubUrl={githubUrl} />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+"use client";
+
+import { notFound, useParams, useRouter } from "next/navigation";
+import React from "react";
+import { useRepositoryDiff } from "../../_hooks/useRepositoryDiff";
+import DiffDirectoryView from "../../_components/diff-directory-view";
+import DiffExtensionSummaryView from "../../_components/diff-extension-summary-view";
+import RateLimitCountdown from "../../_components/rate-limit-countdown";
+import RefPicker from "../../_components/ref-picker";
+import { buildDiffTree } from "../../_lib/diff-utils";
+import { compactTreePaths } from "../../_lib/tree-utils";
+import { formatSizeDelta, getGitHubFileUrl } from "../../_lib/file-utils";
+import { getComparePath, getExplorerPath, parseCompareRange } from "@/lib/github-url";
+import Link from "next/link";
+import { ArrowLeftIcon, ArrowRightIcon, ChartBarDecreasingIcon, FolderIcon, Loader2Icon } from "lucide-react";
+
+export default function RepositoryComparePage() {
+  const params = useParams();
+  const router = useRouter();
+  const owner = params.owner as string;
+  const repo = params.repo as string;
+  // `/<owner>/<repo>/compare/<base>...<head>` mirrors GitHub's own compare URLs.
+  const range = parseCompareRange((params.range as string[] | undefined) ?? []);
+  if (!range) {
+    notFound();
+  }
+  const { base, head } = range;
+
+  const {
+    diffs,
+    summary,
+    isLoading,
+    error,
+    baseRef,
+    headRef,
+    crawlingSide,
+    expandedFolders,
+    toggleFolderExpansion,
+    showFileTreeView,
+    setShowFileTreeView,
+    currentStatus,
+    loadingProgress,
+    rateLimitResetAt,
+    repositoryUrl,
+  } = useRepositoryDiff(owner, repo, base, head);
+
+  const diffTree = React.useMemo(() => {
+    const initialTree = buildDiffTree(diffs);
+    return compactTreePaths(initialTree);
+  }, [diffs]);
+
+  if (isLoading && !error) {
+    return (
+      <div className="min-h-screen w-full bg-slate-900">
+        <main className="flex flex-col items-center justify-center min-h-screen p-6">
+          <div className="text-center">
+            <Loader2Icon className="animate-spin h-10 w-10 text-blue-500 mx-auto mb-4" />
+            <p className="text-xl font-semibold text-white">
+              Comparing {base} with {head} in {owner}/{repo}...
+            </p>
+            <p className="text-gray-400 mt-2 max-h-16 overflow-y-auto overflow-x-hidden text-sm break-all">{currentStatus}</p>
+
+            <div className="mt-4 text-blue-400">
+              <p className="text-md">
+                Crawling {crawlingSide === 'base' ? base : head}
+              </p>
+            </div>
+            <div className="mt-4 w-72 mx-auto">
+              <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+                <div className="h-full bg-blue-500 transition-all" style={{ width: `${loadingProgress}%` }} />
+              </div>
+            </div>
+            {rateLimitResetAt !== null && <RateLimitCountdown resetAt={rateLimitResetAt} />}
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen w-full bg-slate-900">
+        <main className="flex flex-col items-center justify-center min-h-screen p-6">
+          <div className="bg-red-100 dark:bg-red-900 border border-red-400 dark:border-red-700 text-red-700 dark:text-red-200 px-6 py-4 rounded-lg shadow-md max-w-lg text-center">
+            <h2 className="text-2xl font-bold mb-2">Error</h2>
+            <p className="text-lg">{error}</p>
+            <Link href={getExplorerPath({ owner, repo })} className="mt-4 inline-block bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded transition duration-150">
+              Back to repository
+            </Link>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen w-full bg-slate-900">
+      <main className="container mx-auto p-4 sm:p-6 lg:p-8 text-white">
+        <header className="mb-6">
+          <Link href={getExplorerPath({ owner, repo, ref: head })} className="text-blue-500 flex items-center hover:text-blue-700 hover:underline transition duration-150">
+          <ArrowLeftIcon className="w-5 h-5 mr-1" />
+          Back to files</Link>
+          <div className="mt-2 text-white">
+            <a href={repositoryUrl} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline text-3xl font-bold">
+              {owner} / {repo}
+            </a>
+            <div className="flex flex-wrap items-center gap-2">
+              <RefPicker
+                owner={owner}
+                repo={repo}
+                kind={baseRef?.kind ?? null}
+                name={baseRef?.name ?? base}
+                commitSha={baseRef?.commit_sha ?? null}
+                onSelect={(ref) => router.push(getComparePath(owner, repo, { base: ref, head }))}
+              />
+              <ArrowRightIcon className="w-5 h-5 mt-2 text-gray-400" />
+              <RefPicker
+                owner={owner}
+                repo={repo}
+                kind={headRef?.kind ?? null}
+                name={headRef?.name ?? head}
+                commitSha={headRef?.commit_sha ?? null}
+                onSelect={(ref) => router.push(getComparePath(owner, repo, { base, head: ref }))}
+              />
+            </div>
+            {summary && (
+              <div className="flex flex-wrap items-center gap-4 mt-3 text-sm">
+                <span className="text-green-400">{summary.added} added</span>
+                <span className="text-red-400">{summary.removed} removed</span>
+                <span className="text-yellow-400">{summary.modified} modified</span>
+                <span className="text-blue-400">{summary.renamed} renamed</span>
+                <span className="text-gray-400">{summary.unchanged} unchanged</span>
+                <span className="text-gray-300">{formatSizeDelta(summary.size_delta)}</span>
+              </div>
+            )}
+          </div>
+        </header>
+
+        {diffs.length > 0 && (
+          <div className="mb-6 border-b border-gray-700">
+            <nav className="-mb-px flex justify-start" aria-label="Tabs">
+              <button
+                onClick={() => setShowFileTreeView(false)}
+                className={`
+                  py-3 px-3 w-36 border-b-2 flex items-center font-medium text-sm
+                  ${!showFileTreeView
+                    ? 'border-blue-500 text-blue-400'
+                    : 'border-transparent text-gray-500 hover:text-blue-400 hover:border-blue-300'}
+                `}
+              >
+                <ChartBarDecreasingIcon className="w-5 h-5 mr-2" />
+                Summary
+              </button>
+              <button
+                onClick={() => setShowFileTreeView(true)}
+                className={`
+                  py-3 px-3 border-b-2 w-36 flex items-center font-medium text-sm
+                  ${showFileTreeView
+                    ? 'border-blue-500 text-blue-400'
+                    : 'border-transparent text-gray-500 hover:text-blue-400 hover:border-blue-300'}
+                `}
+              >
+                <FolderIcon className="w-5 h-5 mr-2" />
+                Files
+              </button>
+            </nav>
+          </div>
+        )}
+
+        {diffs.length === 0 && (
+          <div className="text-center py-10">
+            <p className="text-xl text-gray-400">
+              {summary ? `${base} and ${head} have the same files.` : "The comparison ended before it was complete. Please try again."}
+            </p>
+          </div>
+        )}
+
+        {diffs.length > 0 && (
+          <div className="max-h-[65vh] overflow-auto">
+            {showFileTreeView ? (
+              <div className="shadow-lg rounded-lg overflow-hidden border border-gray-700 bg-gray-800">
+                <div className="flex items-center py-3 px-4 bg-gray-700 border-b border-gray-600 sticky top-0 z-10">
+                  <div className="flex-grow w-4/5 text-xs font-semibold text-gray-300 uppercase tracking-wider">Name</div>
+                  <div className="w-1/5 text-right text-xs font-semibold text-gray-300 uppercase tracking-wider pr-4">Size change</div>
+                </div>
+                <div className="overflow-y-auto">
+                  <DiffDirectoryView
+                    nodes={diffTree}
+                    depth={0}
+                    baseRef={baseRef?.name ?? base}
+                    headRef={headRef?.name ?? head}
+                    getGitHubFileUrl={(ref, filePath) => getGitHubFileUrl(owner, repo, ref, filePath)}
+                    expandedFolders={expandedFolders}
+                    toggleFolderExpansion={toggleFolderExpansion}
+                  />
+                </div>
+              </div>
+            ) : (
+              <DiffExtensionSummaryView diffs={diffs} />
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,28 +1,30 @@
 "use server";
 
 import { GitHubClient } from "../lib/github";
+import { getSharedCacheOptions } from "../lib/github-cache";
+import { describeGitHubError, GitHubApiError, GitHubRateLimitError } from "../lib/github-errors";
+import { parseGitHubUrl } from "../lib/github-url";
 
 interface ServerActionResponse {
   owner?: string;
   repo?: string;
+  ref?: string;
+  path?: string;
   error?: string;
   rateLimitResetTime?: string;
 }
 
-const githubRepoRegex = /^https?:\/\/github\.com\/([a-zA-Z0-9\-_]+)\/([a-zA-Z0-9_\-.]+?)(?:\.git)?$/;
-
 export async function checkRateLimitAndProceed(url: string): Promise<ServerActionResponse> {
-  const match = githubRepoRegex.exec(url);
+  const location = parseGitHubUrl(url);
 
-  if (!match?.[1] || !match?.[2]) {
+  if (!location) {
     return { error: "Invalid GitHub repository URL format." };
   }
 
-  const owner = match[1];
-  const repo = match[2];
+  const { owner, repo } = location;
 
   try {
-    const client = new GitHubClient();
+    const client = new GitHubClient(getSharedCacheOptions());
     const rateLimitData = await client.getRateLimit();
 
     if (rateLimitData.resources.core.remaining <= 0) {
@@ -41,20 +43,25 @@ export async function checkRateLimitAndProceed(url: string): Promise<ServerActio
       };
     }
 
-    return { owner, repo };
+    return location;
 
   } catch (err) {
     console.error("Error checking rate limit:", err);
+    if (err instanceof GitHubRateLimitError) {
+      return {
+        error: "GitHub API rate limit exceeded.",
+        ...(err.resetAt === null ? {} : {
+          rateLimitResetTime: `Please wait until ${new Date(err.resetAt * 1000).toLocaleTimeString()} to try again.`,
+        }),
+      };
+    }
+    if (err instanceof GitHubApiError) {
+      return { error: describeGitHubError(err, `Repository ${owner}/${repo} does not exist or is not accessible.`).message };
+    }
     if (err instanceof Error) {
       if (err.message.includes("GITHUB_ACCESS_TOKEN environment variable is not set")) {
         return { error: "Server configuration error: GITHUB_ACCESS_TOKEN is missing." };
       }
-      if (err.message.startsWith("Failed to fetch rate limit:")) {
-        return { error: `GitHub API error: ${err.message}` };
-      }
-      if (err.message.startsWith("Failed to check repo existence:")) {
-        return { error: `GitHub API error: ${err.message}` };
-      }
       return { error: `An unexpected error occurred: ${err.message}` };
     }
     return { error: "An unexpected error occurred while checking the rate limit." };
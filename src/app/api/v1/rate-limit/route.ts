@@ -1,5 +1,7 @@
 import { env } from "@/env";
 import { GitHubClient } from "@/lib/github";
+import { getSharedCacheOptions } from "@/lib/github-cache";
+import { describeGitHubError } from "@/lib/github-errors";
 import { NextResponse } from "next/server";
 
 export async function GET() {
@@ -11,14 +13,14 @@ export async function GET() {
     }
 
     try {
-        const githubClient = new GitHubClient();
+        const githubClient = new GitHubClient(getSharedCacheOptions());
         const rateLimitData = await githubClient.getRateLimit();
         return NextResponse.json(rateLimitData);
     } catch (e: unknown) {
-        const errorMessage = e instanceof Error ? e.message : "An unknown error occurred";
+        const { status, statusText, message } = describeGitHubError(e);
         return NextResponse.json(
-            { error: `Failed to fetch rate limit: ${errorMessage}` },
-            { status: 500 }
+            { error: `Failed to fetch rate limit: ${message}` },
+            { status, statusText }
         );
     }
 } 
\ No newline at end of file
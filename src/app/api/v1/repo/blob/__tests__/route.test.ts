@@ -0,0 +1,121 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { GET } from '../route';
+import { GitHubNotFoundError } from '@/lib/github-errors';
+
+jest.mock('@/env', () => ({
+  env: { GITHUB_ACCESS_TOKEN: 'token' },
+}));
+
+jest.mock('@/lib/github-cache', () => ({
+  getSharedCacheOptions: () => ({}),
+}));
+
+const mockClient = {
+  resolveRef: jest.fn(),
+  getBlobEntry: jest.fn(),
+  getBlob: jest.fn(),
+};
+
+jest.mock('@/lib/github', () => ({
+  GitHubClient: jest.fn(() => mockClient),
+}));
+
+const BLOB_SHA = 'b'.repeat(40);
+
+const fetchBlob = (query: string) => GET(new NextRequest(`http://localhost/api/v1/repo/blob?${query}`));
+
+describe('GET /api/v1/repo/blob', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient.resolveRef.mockResolvedValue({ kind: 'branch', name: 'release/2.x', commitSha: 'commit-sha', path: 'src/index.ts' });
+    mockClient.getBlobEntry.mockResolvedValue({ path: 'index.ts', mode: '100644', type: 'blob', sha: BLOB_SHA, size: 6 });
+  });
+
+  it('should look up a file by ref and path and return its text', async () => {
+    mockClient.getBlob.mockResolvedValue({ sha: BLOB_SHA, size: 6, binary: false, content: Buffer.from('hello\n') });
+
+    const response = await fetchBlob(`owner=owner&repo=repo&ref=${encodeURIComponent('release/2.x/src/index.ts')}`);
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      sha: BLOB_SHA,
+      path: 'src/index.ts',
+      size: 6,
+      binary: false,
+      too_large: false,
+      content: 'hello\n',
+    });
+    expect(mockClient.getBlobEntry).toHaveBeenCalledWith('owner', 'repo', 'commit-sha', 'src/index.ts', expect.anything());
+    expect(mockClient.getBlob).toHaveBeenCalledWith('owner', 'repo', BLOB_SHA, expect.objectContaining({ maxSize: 1_000_000, size: 6 }));
+    expect(response.headers.get('cache-control')).toBe('no-cache');
+  });
+
+  it('should not send the content of binary or oversized files as text', async () => {
+    mockClient.getBlob.mockResolvedValue({ sha: BLOB_SHA, size: 4, binary: true, content: Buffer.from([0, 1, 2, 3]) });
+
+    const response = await fetchBlob(`owner=owner&repo=repo&sha=${BLOB_SHA}`);
+
+    await expect(response.json()).resolves.toMatchObject({ binary: true, too_large: false, content: null });
+    expect(mockClient.resolveRef).not.toHaveBeenCalled();
+    expect(mockClient.getBlob).toHaveBeenCalledWith('owner', 'repo', BLOB_SHA, expect.objectContaining({ maxSize: 1_000_000 }));
+    expect(response.headers.get('cache-control')).toContain('immutable');
+  });
+
+  it('should download the raw bytes under the file name', async () => {
+    mockClient.getBlob.mockResolvedValue({ sha: BLOB_SHA, size: 4, binary: true, content: Buffer.from([0, 1, 2, 3]) });
+
+    const response = await fetchBlob(`owner=owner&repo=repo&sha=${BLOB_SHA}&path=assets/logo.png&format=download`);
+
+    expect(response.headers.get('content-type')).toBe('application/octet-stream');
+    expect(response.headers.get('content-disposition')).toBe("attachment; filename*=UTF-8''logo.png");
+    expect(Buffer.from(await response.arrayBuffer())).toEqual(Buffer.from([0, 1, 2, 3]));
+  });
+
+  it('should serve raw images with their type in a sandbox', async () => {
+    mockClient.resolveRef.mockResolvedValue({ kind: 'branch', name: 'main', commitSha: 'commit-sha', path: 'docs/logo.SVG' });
+    mockClient.getBlob.mockResolvedValue({ sha: BLOB_SHA, size: 11, binary: false, content: Buffer.from('<svg></svg>') });
+
+    const response = await fetchBlob(`owner=owner&repo=repo&ref=${encodeURIComponent('main/docs/logo.SVG')}&format=raw`);
+
+    expect(response.headers.get('content-type')).toBe('image/svg+xml');
+    expect(response.headers.get('content-security-policy')).toBe('sandbox');
+    expect(response.headers.get('content-disposition')).toBeNull();
+  });
+
+  it('should refuse to serve raw files over the size limit', async () => {
+    mockClient.getBlob.mockResolvedValue({ sha: BLOB_SHA, size: 50_000_000, binary: false, content: null });
+
+    const response = await fetchBlob(`owner=owner&repo=repo&sha=${BLOB_SHA}&format=raw`);
+
+    expect(response.status).toBe(413);
+  });
+
+  it('should require exactly one of ref and sha', async () => {
+    const response = await fetchBlob(`owner=owner&repo=repo&ref=main/a.ts&sha=${BLOB_SHA}`);
+
+    expect(response.status).toBe(400);
+    expect(mockClient.getBlob).not.toHaveBeenCalled();
+  });
+
+  it('should reject owners and repositories that would leave the repository API path', async () => {
+    const response = await fetchBlob(`owner=..&repo=${encodeURIComponent('user/repos?x=')}&sha=${BLOB_SHA}`);
+
+    expect(response.status).toBe(400);
+    expect((await fetchBlob(`owner=owner&repo=..&sha=${BLOB_SHA}`)).status).toBe(400);
+    expect(mockClient.getBlob).not.toHaveBeenCalled();
+  });
+
+  it('should map a missing file to 404', async () => {
+    mockClient.getBlobEntry.mockRejectedValue(new GitHubNotFoundError('File not found: src/index.ts', 404, 'url'));
+
+    const response = await fetchBlob('owner=owner&repo=repo&ref=main/src/index.ts');
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toEqual({
+      error: "No file matching 'main/src/index.ts' found in repository owner/repo.",
+    });
+  });
+});
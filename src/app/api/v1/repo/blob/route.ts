@@ -0,0 +1,136 @@
+import { env } from "@/env";
+import { GitHubClient } from "@/lib/github";
+import { getSharedCacheOptions } from "@/lib/github-cache";
+import { describeGitHubError } from "@/lib/github-errors";
+import { GITHUB_OWNER_PATTERN, GITHUB_REPO_PATTERN } from "@/lib/github-url";
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+// Larger files are not worth highlighting in the browser; they can still be fetched raw.
+const MAX_DISPLAY_SIZE = 1_000_000;
+// The Git Data API serves blobs up to 100 MB, but each one is decoded in memory.
+// Files looked up by path are checked against these limits before they are downloaded; a blob SHA alone
+// carries no size, so such blobs are only checked once downloaded, and are then not cached.
+const MAX_RAW_SIZE = 25_000_000;
+
+// Raw images are served with their own type so that Markdown files can embed them from the repository.
+const IMAGE_CONTENT_TYPES: Record<string, string> = {
+    png: "image/png",
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    gif: "image/gif",
+    webp: "image/webp",
+    avif: "image/avif",
+    ico: "image/x-icon",
+    svg: "image/svg+xml",
+};
+
+const querySchema = z.object({
+    // Both end up in GitHub API paths requested with the server's token, so only real names are let through.
+    owner: z.string().regex(GITHUB_OWNER_PATTERN),
+    repo: z.string().regex(GITHUB_REPO_PATTERN),
+    // Either the branch, tag or commit followed by the file path, as in `/blob/<ref>/<path>` URLs...
+    ref: z.string().trim().optional(),
+    // ...or the blob SHA itself, with the path only used to name downloads.
+    sha: z.string().regex(/^[0-9a-f]{40}(?:[0-9a-f]{24})?$/i).optional(),
+    path: z.string().optional(),
+    format: z.enum(["json", "raw", "download"]).default("json"),
+}).refine(query => Boolean(query.ref) !== Boolean(query.sha), {
+    message: "Exactly one of 'ref' and 'sha' must be provided",
+});
+
+/**
+ * Serves the content of a file, looked up by ref and path or by blob SHA.
+ * The `json` format returns the text of the file for the viewer; `raw` and `download` return its bytes.
+ * Responses for a blob SHA never change, so browsers may cache them forever.
+ * @param req {NextRequest} - The request, with `owner`, `repo`, `ref` or `sha`, `path` and `format` query parameters.
+ * @returns {Promise<Response>} The file as JSON or as raw bytes.
+ */
+export async function GET(req: NextRequest): Promise<Response> {
+    if (!env.GITHUB_ACCESS_TOKEN) {
+        return NextResponse.json(
+            { error: "Server configuration error" },
+            { status: 500 }
+        );
+    }
+
+    const parsedQuery = querySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+    if (!parsedQuery.success) {
+        return NextResponse.json(
+            { error: `Invalid query parameters - ${parsedQuery.error.message}` },
+            { status: 400, statusText: "BAD_REQUEST" }
+        );
+    }
+
+    const { owner, repo, ref, format } = parsedQuery.data;
+    let { sha, path } = parsedQuery.data;
+    const maxSize = format === "json" ? MAX_DISPLAY_SIZE : MAX_RAW_SIZE;
+
+    try {
+        const githubClient = new GitHubClient(getSharedCacheOptions());
+        const options = { signal: req.signal };
+        let size: number | undefined;
+        if (ref) {
+            const resolvedRef = await githubClient.resolveRef(owner, repo, ref, options);
+            if (!resolvedRef.path) {
+                return NextResponse.json(
+                    { error: `'${ref}' does not name a file.` },
+                    { status: 400, statusText: "BAD_REQUEST" }
+                );
+            }
+            path = resolvedRef.path;
+            ({ sha, size } = await githubClient.getBlobEntry(owner, repo, resolvedRef.commitSha, path, options));
+        }
+        if (!sha) {
+            // Cannot happen past the query schema, which requires a ref or a SHA.
+            return NextResponse.json(
+                { error: "Exactly one of 'ref' and 'sha' must be provided" },
+                { status: 400, statusText: "BAD_REQUEST" }
+            );
+        }
+
+        const blob = await githubClient.getBlob(owner, repo, sha, { ...options, maxSize, size });
+        const cacheControl = ref ? "no-cache" : "public, max-age=31536000, immutable";
+
+        if (format === "json") {
+            return NextResponse.json({
+                sha: blob.sha,
+                path: path ?? null,
+                size: blob.size,
+                binary: blob.binary,
+                too_large: blob.content === null,
+                content: blob.content && !blob.binary ? blob.content.toString("utf8") : null,
+            }, { headers: { "Cache-Control": cacheControl } });
+        }
+
+        if (!blob.content) {
+            return NextResponse.json(
+                { error: `The file is ${blob.size} bytes, more than the ${MAX_RAW_SIZE} bytes this server serves.` },
+                { status: 413, statusText: "PAYLOAD_TOO_LARGE" }
+            );
+        }
+        const fileName = path?.split("/").pop() || blob.sha;
+        const imageType = format === "raw" ? IMAGE_CONTENT_TYPES[fileName.split(".").pop()!.toLowerCase()] : undefined;
+        return new Response(new Uint8Array(blob.content), {
+            headers: {
+                "Content-Type": imageType ?? (blob.binary ? "application/octet-stream" : "text/plain; charset=utf-8"),
+                "Content-Length": String(blob.content.length),
+                "X-Content-Type-Options": "nosniff",
+                // Repository content is untrusted: an SVG opened directly must not run scripts on this origin.
+                "Content-Security-Policy": "sandbox",
+                "Cache-Control": cacheControl,
+                ...(format === "download" ?
+                    { "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}` } :
+                    {}),
+            },
+        });
+    } catch (e: unknown) {
+        const { status, statusText, message } = describeGitHubError(e, ref ?
+            `No file matching '${ref}' found in repository ${owner}/${repo}.` :
+            `File not found in repository ${owner}/${repo}.`);
+        return NextResponse.json(
+            { error: status === 404 ? message : `Failed to fetch file: ${message}` },
+            { status, statusText }
+        );
+    }
+}
@@ -0,0 +1,136 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+import { GitHubNotFoundError } from '@/lib/github-errors';
+import { STREAM_PROTOCOL_VERSION, STREAM_PROTOCOL_VERSION_HEADER, StreamEventSchema } from '@/lib/stream-protocol';
+
+jest.mock('@/env', () => ({
+  env: { GITHUB_CRAWL_CONCURRENCY: 2 },
+}));
+
+jest.mock('@/lib/github-cache', () => ({
+  getSharedCacheOptions: () => ({}),
+}));
+
+const mockClient = {
+  resolveRef: jest.fn(),
+  getTreeFiles: jest.fn(),
+  getSubtreeSha: jest.fn(),
+};
+
+jest.mock('@/lib/github', () => ({
+  GitHubClient: jest.fn(() => mockClient),
+}));
+
+const blob = (path: string, sha: string, size: number) => ({ path, mode: '100644', type: 'blob', sha, size });
+
+const compare = (body: Record<string, string>) => POST(new NextRequest('http://localhost/api/v1/repo/compare', {
+  method: 'POST',
+  body: JSON.stringify(body),
+}));
+
+const readEvents = async (response: Response) => {
+  const text = await response.text();
+  return text.split('\n').filter(line => line.trim()).map(line => StreamEventSchema.parse(JSON.parse(line)));
+};
+
+describe('POST /api/v1/repo/compare', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockClient.resolveRef.mockImplementation(async (_owner: string, _repo: string, ref: string) => (
+      { kind: ref.startsWith('v') ? 'tag' : 'branch', name: ref, commitSha: `${ref}-sha`, path: '' }
+    ));
+    mockClient.getTreeFiles.mockImplementation(async (_owner: string, _repo: string, sha: string) => ({
+      sha,
+      truncated: false,
+      tree: sha === 'v1.0-sha'
+        ? [blob('README.md', 'a', 10), blob('lib/util.ts', 'b', 20), blob('old.ts', 'c', 30)]
+        : [blob('README.md', 'a2', 14), blob('src/util.ts', 'b', 20), blob('new.ts', 'd', 5)],
+    }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should stream the changes between two refs', async () => {
+    const response = await compare({ url: 'https://github.com/owner/repo', base: 'v1.0', head: 'main' });
+    const events = await readEvents(response);
+
+    expect(response.headers.get(STREAM_PROTOCOL_VERSION_HEADER)).toBe(String(STREAM_PROTOCOL_VERSION));
+    expect(events.filter(event => event.type === 'branch').map(event => [event.side, event.name, event.kind])).toEqual([
+      ['base', 'v1.0', 'tag'],
+      ['head', 'main', 'branch'],
+    ]);
+    expect(events.some(event => event.type === 'file' || event.type === 'complete')).toBe(false);
+    expect(events.filter(event => event.type === 'diff')).toEqual([
+      { type: 'diff', status: 'added', path: 'new.ts', size: 5, previous_size: 0 },
+      { type: 'diff', status: 'removed', path: 'old.ts', size: 0, previous_size: 30 },
+      { type: 'diff', status: 'modified', path: 'README.md', size: 14, previous_size: 10 },
+      { type: 'diff', status: 'renamed', path: 'src/util.ts', previous_path: 'lib/util.ts', size: 20, previous_size: 20 },
+    ]);
+    expect(events[events.length - 1]).toEqual({
+      type: 'diff_complete',
+      added: 1,
+      removed: 1,
+      modified: 1,
+      renamed: 1,
+      unchanged: 0,
+      size_delta: -21,
+    });
+  });
+
+  it('should stop with an error instead of a diff when a directory of the head cannot be listed', async () => {
+    mockClient.getTreeFiles.mockImplementation(async (_owner: string, _repo: string, sha: string) => {
+      if (sha === 'v1.0-sha') {
+        return { sha, truncated: false, tree: [blob('README.md', 'a', 10), blob('src/index.ts', 'b', 20)] };
+      }
+      if (sha === 'main-sha') {
+        return { sha: 'root-sha', truncated: true, tree: [blob('README.md', 'a', 10)] };
+      }
+      if (sha === 'root-sha') {
+        return { sha, truncated: false, tree: [blob('README.md', 'a', 10), { path: 'src', mode: '040000', type: 'tree', sha: 'src-sha' }] };
+      }
+      throw new Error('Server Error');
+    });
+
+    const events = await readEvents(await compare({ url: 'https://github.com/owner/repo', base: 'v1.0', head: 'main' }));
+
+    expect(events.some(event => event.type === 'diff' || event.type === 'diff_complete')).toBe(false);
+    expect(events[events.length - 1]).toEqual({
+      type: 'error',
+      message: "Could not list 1 directory of 'main', so the comparison would be incomplete.",
+    });
+  });
+
+  it('should stop with an error when a ref cannot be resolved', async () => {
+    mockClient.resolveRef.mockRejectedValueOnce(new GitHubNotFoundError('No match', 404, 'url'));
+
+    const events = await readEvents(await compare({ url: 'https://github.com/owner/repo', base: 'nope', head: 'main' }));
+
+    expect(events).toEqual([{ type: 'error', message: "No branch, tag or commit matching 'nope' found in repository owner/repo." }]);
+    expect(mockClient.getTreeFiles).not.toHaveBeenCalled();
+  });
+
+  it('should not treat the rest of a ref as a folder', async () => {
+    mockClient.resolveRef.mockResolvedValueOnce({ kind: 'branch', name: 'feature', commitSha: 'sha', path: 'x' });
+
+    const events = await readEvents(await compare({ url: 'https://github.com/owner/repo', base: 'feature/x', head: 'main' }));
+
+    expect(events[events.length - 1]).toEqual({
+      type: 'error',
+      message: "No branch, tag or commit matching 'feature/x' found in repository owner/repo.",
+    });
+    expect(events.some(event => event.type === 'diff_complete')).toBe(false);
+  });
+
+  it('should reject URLs that are not repository URLs', async () => {
+    const response = await compare({ url: 'https://github.com/owner/repo/tree/main', base: 'v1.0', head: 'main' });
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,65 @@
+import { env } from "@/env";
+import { GitHubClient } from "@/lib/github";
+import { getSharedCacheOptions } from "@/lib/github-cache";
+import { parseGitHubUrl } from "@/lib/github-url";
+import { streamEventsResponse } from "@/lib/stream-response";
+import { compareRepositoryTrees } from "@/lib/tree-diff";
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const schema = z.object({
+	url: z.string().url(),
+	base: z.string().trim().min(1),
+	head: z.string().trim().min(1),
+});
+
+/**
+ * Streams the files that were added, removed, modified or renamed between two refs of a repository.
+ * @param req {NextRequest} - The request, with the repository `url` and the `base` and `head` refs in its JSON body.
+ * @returns {Response} An NDJSON stream of the stream protocol, ending with `diff_complete` or `error`.
+ */
+export async function POST(req: NextRequest) {
+	let body;
+	try {
+		body = await req.json();
+	} catch (e: unknown) {
+		const errorMessage = e instanceof Error ? e.message : String(e);
+		console.error("Error parsing request body:", errorMessage);
+		return NextResponse.json(
+			{ error: "Invalid JSON in request body" },
+			{ status: 400, statusText: "BAD_REQUEST" },
+		);
+	}
+
+	const parsedBody = schema.safeParse(body);
+
+	if (!parsedBody.success) {
+		return NextResponse.json(
+			{ error: `Invalid request body - ${parsedBody.error.message}` },
+			{ status: 400, statusText: "BAD_REQUEST" },
+		);
+	}
+
+	const { url, base, head } = parsedBody.data;
+	const location = parseGitHubUrl(url);
+
+	if (!location || location.ref) {
+		return NextResponse.json(
+			{ error: "Invalid GitHub URL: Expected https://github.com/<owner>/<repo>." },
+			{ status: 400, statusText: "BAD_REQUEST" },
+		);
+	}
+
+	const { owner, repo } = location;
+	const githubClient = new GitHubClient(getSharedCacheOptions());
+
+	// Aborted when the client disconnects or cancels the stream, which stops both crawls and every pending GitHub request.
+	const compareController = new AbortController();
+	req.signal.addEventListener("abort", () => compareController.abort(req.signal.reason), { once: true });
+
+	const events = compareRepositoryTrees(githubClient, owner, repo, base, head, {
+		concurrency: env.GITHUB_CRAWL_CONCURRENCY,
+		signal: compareController.signal,
+	});
+	return streamEventsResponse(events, compareController);
+}
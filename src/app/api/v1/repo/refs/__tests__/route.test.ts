@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { GET } from '../route';
+import { GitHubNotFoundError } from '@/lib/github-errors';
+
+jest.mock('@/env', () => ({
+  env: { GITHUB_ACCESS_TOKEN: 'token' },
+}));
+
+jest.mock('@/lib/github-cache', () => ({
+  getSharedCacheOptions: () => ({}),
+}));
+
+const mockClient = {
+  listBranches: jest.fn(),
+  listTags: jest.fn(),
+};
+
+jest.mock('@/lib/github', () => ({
+  GitHubClient: jest.fn(() => mockClient),
+}));
+
+const list = (query: string) => GET(new NextRequest(`http://localhost/api/v1/repo/refs?${query}`));
+
+describe('GET /api/v1/repo/refs', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list one page of branches by default', async () => {
+    mockClient.listBranches.mockResolvedValue({ names: ['main', 'dev'], hasNextPage: true });
+
+    const response = await list('owner=owner&repo=repo&page=2&per_page=2');
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ refs: ['main', 'dev'], page: 2, has_next_page: true });
+    expect(mockClient.listBranches).toHaveBeenCalledWith('owner', 'repo', expect.objectContaining({ page: 2, perPage: 2, query: undefined }));
+  });
+
+  it('should search tags by name prefix', async () => {
+    mockClient.listTags.mockResolvedValue({ names: ['v1.0'], hasNextPage: false });
+
+    const response = await list('owner=owner&repo=repo&type=tag&q=v1');
+
+    await expect(response.json()).resolves.toEqual({ refs: ['v1.0'], page: 1, has_next_page: false });
+    expect(mockClient.listTags).toHaveBeenCalledWith('owner', 'repo', expect.objectContaining({ query: 'v1' }));
+  });
+
+  it('should reject invalid query parameters', async () => {
+    const response = await list('owner=owner&repo=repo&per_page=500');
+
+    expect(response.status).toBe(400);
+    expect(mockClient.listBranches).not.toHaveBeenCalled();
+  });
+
+  it('should reject owners and repositories that would leave the repository API path', async () => {
+    const response = await list(`owner=..&repo=${encodeURIComponent('user/repos?visibility=private&x=')}`);
+
+    expect(response.status).toBe(400);
+    expect((await list('owner=owner&repo=..')).status).toBe(400);
+    expect(mockClient.listBranches).not.toHaveBeenCalled();
+  });
+
+  it('should map a missing repository to 404', async () => {
+    mockClient.listBranches.mockRejectedValue(new GitHubNotFoundError('Failed to fetch branches: 404 Not Found', 404, 'url'));
+
+    const response = await list('owner=owner&repo=missing');
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toEqual({ error: 'Repository owner/missing not found.' });
+  });
+});
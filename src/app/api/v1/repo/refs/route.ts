@@ -0,0 +1,57 @@
+import { env } from "@/env";
+import { GitHubClient } from "@/lib/github";
+import { getSharedCacheOptions } from "@/lib/github-cache";
+import { describeGitHubError } from "@/lib/github-errors";
+import { GITHUB_OWNER_PATTERN, GITHUB_REPO_PATTERN } from "@/lib/github-url";
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const querySchema = z.object({
+    // Both end up in GitHub API paths requested with the server's token, so only real names are let through.
+    owner: z.string().regex(GITHUB_OWNER_PATTERN),
+    repo: z.string().regex(GITHUB_REPO_PATTERN),
+    type: z.enum(["branch", "tag"]).default("branch"),
+    page: z.coerce.number().int().min(1).default(1),
+    per_page: z.coerce.number().int().min(1).max(100).default(30),
+    // Matches name prefixes only; GitHub's REST API has no substring search for refs.
+    q: z.string().trim().optional(),
+});
+
+/**
+ * Lists one page of a repository's branches or tags, optionally filtered by name prefix.
+ * @param req {NextRequest} - The request, with `owner`, `repo`, `type`, `page`, `per_page` and `q` query parameters.
+ * @returns {NextResponse} The ref names, the page number and whether more pages follow.
+ */
+export async function GET(req: NextRequest) {
+    if (!env.GITHUB_ACCESS_TOKEN) {
+        return NextResponse.json(
+            { error: "Server configuration error" },
+            { status: 500 }
+        );
+    }
+
+    const parsedQuery = querySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+    if (!parsedQuery.success) {
+        return NextResponse.json(
+            { error: `Invalid query parameters - ${parsedQuery.error.message}` },
+            { status: 400, statusText: "BAD_REQUEST" }
+        );
+    }
+
+    const { owner, repo, type, page, per_page, q } = parsedQuery.data;
+    const options = { page, perPage: per_page, query: q || undefined, signal: req.signal };
+
+    try {
+        const githubClient = new GitHubClient(getSharedCacheOptions());
+        const { names, hasNextPage } = type === "branch" ?
+            await githubClient.listBranches(owner, repo, options) :
+            await githubClient.listTags(owner, repo, options);
+        return NextResponse.json({ refs: names, page, has_next_page: hasNextPage });
+    } catch (e: unknown) {
+        const { status, statusText, message } = describeGitHubError(e, `Repository ${owner}/${repo} not found.`);
+        return NextResponse.json(
+            { error: status === 404 ? message : `Failed to fetch ${type === "branch" ? "branches" : "tags"}: ${message}` },
+            { status, statusText }
+        );
+    }
+}
@@ -0,0 +1,133 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+import { StreamEventSchema } from '@/lib/stream-protocol';
+
+jest.mock('@/env', () => ({
+  env: { GITHUB_CRAWL_CONCURRENCY: 2 },
+}));
+
+const mockIndex = new Map<string, unknown>();
+
+jest.mock('@/lib/github-cache', () => ({
+  getSharedCacheOptions: () => ({}),
+  getSharedSearchIndex: () => ({
+    get: async (key: string) => mockIndex.get(key),
+    set: async (key: string, value: unknown) => {
+      mockIndex.set(key, value);
+    },
+  }),
+}));
+
+const mockClient = {
+  resolveRef: jest.fn(),
+  getTreeFiles: jest.fn(),
+  getBlob: jest.fn(),
+  getRepoInfo: jest.fn(),
+};
+
+jest.mock('@/lib/github', () => ({
+  GitHubClient: jest.fn(() => mockClient),
+}));
+
+const CONTENTS: Record<string, string> = {
+  'readme-sha': '# Demo\nSet API_KEY before running.\n',
+  'index-sha': 'import x from "y";\n\nconst key = process.env.API_KEY;\nexport default key;\n',
+  'logo-sha': '\0PNG',
+};
+
+const search = (body: Record<string, unknown>) => POST(new NextRequest('http://localhost/api/v1/repo/search', {
+  method: 'POST',
+  body: JSON.stringify({ url: 'https://github.com/owner/repo/tree/main', ...body }),
+}));
+
+const readEvents = async (response: Response) => {
+  const text = await response.text();
+  return text.split('\n').filter(line => line.trim()).map(line => StreamEventSchema.parse(JSON.parse(line)));
+};
+
+describe('POST /api/v1/repo/search', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockIndex.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockClient.resolveRef.mockResolvedValue({ kind: 'branch', name: 'main', commitSha: 'commit-sha', path: '' });
+    mockClient.getTreeFiles.mockResolvedValue({
+      sha: 'commit-sha',
+      truncated: false,
+      tree: [
+        { path: 'README.md', mode: '100644', type: 'blob', sha: 'readme-sha', size: 300 },
+        { path: 'src/index.ts', mode: '100644', type: 'blob', sha: 'index-sha', size: 300 },
+        { path: 'logo.png', mode: '100644', type: 'blob', sha: 'logo-sha', size: 300 },
+      ],
+    });
+    mockClient.getBlob.mockImplementation(async (_owner: string, _repo: string, sha: string) => ({
+      sha,
+      size: CONTENTS[sha].length,
+      binary: sha === 'logo-sha',
+      content: Buffer.from(CONTENTS[sha]),
+    }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should stream the matching lines of every text file with their context', async () => {
+    const events = await readEvents(await search({ query: 'api_key', context: 1 }));
+
+    const results = events.filter(event => event.type === 'search_result');
+    expect(results.sort((a, b) => a.path.localeCompare(b.path))).toEqual([
+      {
+        type: 'search_result',
+        path: 'README.md',
+        sha: 'readme-sha',
+        matches: [{ line: 2, text: 'Set API_KEY before running.', ranges: [[4, 11]], before: ['# Demo'], after: [] }],
+      },
+      {
+        type: 'search_result',
+        path: 'src/index.ts',
+        sha: 'index-sha',
+        matches: [{ line: 3, text: 'const key = process.env.API_KEY;', ranges: [[24, 31]], before: [''], after: ['export default key;'] }],
+      },
+    ]);
+    expect(events[events.length - 1]).toEqual({
+      type: 'search_complete',
+      files_searched: 2,
+      files_matched: 2,
+      matches: 2,
+      files_skipped: 1,
+      truncated: false,
+    });
+  });
+
+  it('should only search the files matching the path filter and reuse indexed blobs', async () => {
+    await readEvents(await search({ query: 'key', paths: ['src/**'] }));
+    expect(mockClient.getBlob).toHaveBeenCalledTimes(1);
+
+    const events = await readEvents(await search({ query: 'export', regex: true, case_sensitive: true, paths: ['*.ts'] }));
+
+    expect(mockClient.getBlob).toHaveBeenCalledTimes(1);
+    expect(events.filter(event => event.type === 'search_result').map(event => event.path)).toEqual(['src/index.ts']);
+  });
+
+  it('should reject invalid regular expressions', async () => {
+    const response = await search({ query: '(unclosed', regex: true });
+
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toEqual({
+      error: expect.stringContaining('Invalid regular expression'),
+    });
+    expect(mockClient.resolveRef).not.toHaveBeenCalled();
+  });
+
+  it('should reject path globs with too many **', async () => {
+    const response = await search({ query: 'key', paths: ['**/'.repeat(12) + '*.ts'] });
+
+    expect(response.status).toBe(400);
+    expect(mockClient.resolveRef).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,98 @@
+import { env } from "@/env";
+import { compileSearchPattern, ContentSearch, searchRepositoryContent } from "@/lib/content-search";
+import { GitHubClient } from "@/lib/github";
+import { getSharedCacheOptions, getSharedSearchIndex } from "@/lib/github-cache";
+import { parseGitHubUrl } from "@/lib/github-url";
+import { createPathFilter, globSchema } from "@/lib/path-glob";
+import { githubErrorResponse, streamEventsResponse } from "@/lib/stream-response";
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const MAX_CONTEXT_LINES = 5;
+
+const schema = z.object({
+	url: z.string().url(),
+	query: z.string().min(1).max(1_000),
+	regex: z.boolean().default(false),
+	case_sensitive: z.boolean().default(false),
+	// Globs that searched paths must match; globs starting with `!` exclude paths instead.
+	paths: z.array(globSchema).max(50).default([]),
+	context: z.number().int().min(0).max(MAX_CONTEXT_LINES).default(2),
+});
+
+/**
+ * Searches the content of the files of a repository, optionally at a ref and below a directory.
+ * @param req {NextRequest} - The request, with the repository `url`, the `query` and the search options in its JSON body.
+ * @returns {Response} An NDJSON stream of the stream protocol, ending with `search_complete` or `error`.
+ */
+export async function POST(req: NextRequest) {
+	let body;
+	try {
+		body = await req.json();
+	} catch (e: unknown) {
+		const errorMessage = e instanceof Error ? e.message : String(e);
+		console.error("Error parsing request body:", errorMessage);
+		return NextResponse.json(
+			{ error: "Invalid JSON in request body" },
+			{ status: 400, statusText: "BAD_REQUEST" },
+		);
+	}
+
+	const parsedBody = schema.safeParse(body);
+
+	if (!parsedBody.success) {
+		return NextResponse.json(
+			{ error: `Invalid request body - ${parsedBody.error.message}` },
+			{ status: 400, statusText: "BAD_REQUEST" },
+		);
+	}
+
+	const { url, query, regex, case_sensitive: caseSensitive, paths, context } = parsedBody.data;
+	const location = parseGitHubUrl(url);
+
+	if (!location) {
+		return NextResponse.json(
+			{ error: "Invalid GitHub URL: Expected https://github.com/<owner>/<repo> or https://github.com/<owner>/<repo>/tree/<branch>/<path>." },
+			{ status: 400, statusText: "BAD_REQUEST" },
+		);
+	}
+
+	let pattern: ContentSearch["pattern"];
+	try {
+		pattern = compileSearchPattern(query, { regex, caseSensitive });
+	} catch (e: unknown) {
+		return NextResponse.json(
+			{ error: `Invalid regular expression - ${e instanceof Error ? e.message : String(e)}` },
+			{ status: 400, statusText: "BAD_REQUEST" },
+		);
+	}
+
+	const { owner, repo } = location;
+	const githubClient = new GitHubClient(getSharedCacheOptions());
+	// The split between ref and path is only a guess, since refs may contain slashes; the crawl resolves it.
+	let refAndPath = [location.ref, location.path].filter(Boolean).join("/");
+
+	if (!refAndPath) {
+		try {
+			const repoData = await githubClient.getRepoInfo(owner, repo, { signal: req.signal });
+			refAndPath = repoData.default_branch;
+		} catch (e: unknown) {
+			return githubErrorResponse(e, "Failed to fetch repository info for default branch", `Repository ${owner}/${repo} not found.`);
+		}
+	}
+
+	// Aborted when the client disconnects or cancels the stream, which stops the crawl, the search and every pending GitHub request.
+	const searchController = new AbortController();
+	req.signal.addEventListener("abort", () => searchController.abort(req.signal.reason), { once: true });
+
+	const events = searchRepositoryContent(
+		githubClient,
+		getSharedSearchIndex(),
+		owner,
+		repo,
+		refAndPath,
+		{ pattern, pathFilter: createPathFilter(paths), contextLines: context },
+		{ concurrency: env.GITHUB_CRAWL_CONCURRENCY, signal: searchController.signal },
+	);
+	return streamEventsResponse(events, searchController);
+}
@@ -0,0 +1,353 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+import { processJsonLine } from '@/app/[owner]/[repo]/_lib/stream-processing';
+import { GitHubNotFoundError } from '@/lib/github-errors';
+import { STREAM_PROTOCOL_VERSION, STREAM_PROTOCOL_VERSION_HEADER, StreamEventSchema } from '@/lib/stream-protocol';
+
+jest.mock('@/env', () => ({
+  env: { GITHUB_CRAWL_CONCURRENCY: 2 },
+}));
+
+jest.mock('@/lib/github-cache', () => ({
+  getSharedCacheOptions: () => ({}),
+}));
+
+const mockClient = {
+  getRepoInfo: jest.fn(),
+  resolveRef: jest.fn(),
+  getTreeFiles: jest.fn(),
+  getSubtreeSha: jest.fn(),
+  getBlobContent: jest.fn(),
+};
+
+jest.mock('@/lib/github', () => ({
+  GitHubClient: jest.fn(() => mockClient),
+}));
+
+const treeEntry = (path: string, type: 'blob' | 'tree', sha: string, size?: number) => ({
+  path,
+  mode: type === 'tree' ? '040000' : '100644',
+  type,
+  sha,
+  size,
+  url: `https://api.github.com/repos/owner/repo/git/${type}s/${sha}`,
+});
+
+const readLines = async (response: Response): Promise<string[]> => {
+  const text = await response.text();
+  return text.split('\n').filter(line => line.trim());
+};
+
+const crawl = (url: string, filters: Record<string, unknown> = {}) => POST(new NextRequest('http://localhost/api/v1/repo/streaming', {
+  method: 'POST',
+  body: JSON.stringify({ url, ...filters }),
+}));
+
+describe('POST /api/v1/repo/streaming', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockClient.getRepoInfo.mockResolvedValue({ default_branch: 'main' });
+    mockClient.resolveRef.mockImplementation(async (_owner: string, _repo: string, refAndPath: string) => {
+      const [name, ...path] = refAndPath.split('/');
+      return { kind: 'branch', name, commitSha: 'commit-sha', path: path.join('/') };
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should only emit events that match the stream protocol schema', async () => {
+    mockClient.getTreeFiles.mockResolvedValue({
+      sha: 'root-sha',
+      truncated: false,
+      tree: [
+        treeEntry('README.md', 'blob', 'a', 10),
+        treeEntry('src', 'tree', 'b'),
+        treeEntry('src/index.ts', 'blob', 'c', 20),
+      ],
+    });
+
+    const response = await crawl('https://github.com/owner/repo');
+    const events = (await readLines(response)).map(line => StreamEventSchema.parse(JSON.parse(line)));
+
+    expect(response.headers.get(STREAM_PROTOCOL_VERSION_HEADER)).toBe(String(STREAM_PROTOCOL_VERSION));
+    expect(events.filter(event => event.type === 'file').map(event => event.path)).toEqual(['README.md', 'src/index.ts']);
+    expect(events[events.length - 1]).toEqual({ type: 'complete', total_files: 2, total_directories: 1, excluded_entries: 0 });
+  });
+
+  it('should only emit events the client accepts, including during a truncated crawl', async () => {
+    mockClient.getTreeFiles.mockImplementation(async (_owner: string, _repo: string, sha: string) => {
+      if (sha === 'commit-sha') {
+        return {
+          sha: 'root-sha',
+          truncated: true,
+          tree: [treeEntry('docs', 'tree', 'docs-sha'), treeEntry('docs/a.md', 'blob', 'a', 5)],
+        };
+      }
+      if (sha === 'root-sha') {
+        return { sha, truncated: false, tree: [treeEntry('docs', 'tree', 'docs-sha'), treeEntry('lib', 'tree', 'lib-sha')] };
+      }
+      if (sha === 'lib-sha') {
+        return { sha, truncated: false, tree: [treeEntry('b.ts', 'blob', 'b', 7)] };
+      }
+      throw new Error(`Unexpected tree ${sha}`);
+    });
+
+    const response = await crawl('https://github.com/owner/repo');
+    const onFile = jest.fn();
+    const onError = jest.fn();
+    const onComplete = jest.fn();
+    const noop = () => {};
+    const results = (await readLines(response)).map(line =>
+      processJsonLine(line, onFile, onError, onComplete, noop, noop, noop, noop));
+
+    expect(results.every(result => result !== false)).toBe(true);
+    expect(onError).not.toHaveBeenCalled();
+    expect(onFile.mock.calls.map(([file]) => file.path)).toEqual(['docs/a.md', 'lib/b.ts']);
+    expect(onComplete).toHaveBeenCalledWith(2, 2, 0);
+  });
+
+  it('should walk every listed directory again when a truncated listing is not depth-first', async () => {
+    mockClient.getTreeFiles.mockImplementation(async (_owner: string, _repo: string, sha: string) => {
+      if (sha === 'commit-sha') {
+        return {
+          sha: 'root-sha',
+          truncated: true,
+          tree: [treeEntry('lib', 'tree', 'lib-sha'), treeEntry('docs', 'tree', 'docs-sha'), treeEntry('lib/x.ts', 'blob', 'x', 3)],
+        };
+      }
+      if (sha === 'root-sha') {
+        return { sha, truncated: false, tree: [treeEntry('docs', 'tree', 'docs-sha'), treeEntry('lib', 'tree', 'lib-sha')] };
+      }
+      if (sha === 'lib-sha') {
+        return { sha, truncated: false, tree: [treeEntry('x.ts', 'blob', 'x', 3), treeEntry('y.ts', 'blob', 'y', 4)] };
+      }
+      if (sha === 'docs-sha') {
+        return { sha, truncated: false, tree: [treeEntry('a.md', 'blob', 'a', 5)] };
+      }
+      throw new Error(`Unexpected tree ${sha}`);
+    });
+
+    const response = await crawl('https://github.com/owner/repo');
+    const events = (await readLines(response)).map(line => StreamEventSchema.parse(JSON.parse(line)));
+
+    expect(events.filter(event => event.type === 'file').map(event => event.path).sort()).toEqual(['docs/a.md', 'lib/x.ts', 'lib/y.ts']);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'warning', message: expect.stringContaining('not listed depth-first') }));
+  });
+
+  it('should crawl only the subdirectory of a /tree/ URL, keeping paths relative to the repository root', async () => {
+    mockClient.getSubtreeSha.mockResolvedValue('foo-sha');
+    mockClient.getTreeFiles.mockResolvedValue({
+      sha: 'foo-sha',
+      truncated: false,
+      tree: [treeEntry('src', 'tree', 'src-sha'), treeEntry('src/index.ts', 'blob', 'a', 10)],
+    });
+
+    const response = await crawl('https://github.com/owner/repo/tree/dev/packages/foo');
+    const events = (await readLines(response)).map(line => StreamEventSchema.parse(JSON.parse(line)));
+
+    expect(mockClient.getRepoInfo).not.toHaveBeenCalled();
+    expect(mockClient.resolveRef).toHaveBeenCalledWith('owner', 'repo', 'dev/packages/foo', expect.anything());
+    expect(mockClient.getSubtreeSha).toHaveBeenCalledWith('owner', 'repo', 'commit-sha', 'packages/foo', expect.anything());
+    expect(mockClient.getTreeFiles).toHaveBeenCalledWith('owner', 'repo', 'foo-sha', expect.objectContaining({ recursive: true }));
+    expect(events.filter(event => event.type === 'file').map(event => event.path)).toEqual(['packages/foo/src/index.ts']);
+    expect(events.find(event => event.type === 'branch')).toEqual({
+      type: 'branch',
+      name: 'dev',
+      kind: 'branch',
+      commit_sha: 'commit-sha',
+      path: 'packages/foo',
+    });
+  });
+
+  it('should emit submodules with the repository declared in .gitmodules', async () => {
+    const submodule = { path: 'vendor/lib', mode: '160000', type: 'commit', sha: 'pinned-sha' };
+    mockClient.getTreeFiles.mockImplementation(async (_owner: string, _repo: string, _sha: string, options: { recursive?: boolean }) => (
+      options.recursive
+        ? { sha: 'root-sha', truncated: false, tree: [treeEntry('.gitmodules', 'blob', 'gitmodules-sha', 60), treeEntry('vendor', 'tree', 'v'), submodule] }
+        : { sha: 'root-sha', truncated: false, tree: [treeEntry('.gitmodules', 'blob', 'gitmodules-sha', 60)] }
+    ));
+    mockClient.getBlobContent.mockResolvedValue('[submodule "lib"]\n\tpath = vendor/lib\n\turl = ../lib.git\n');
+
+    const events = (await readLines(await crawl('https://github.com/owner/repo'))).map(line => StreamEventSchema.parse(JSON.parse(line)));
+
+    expect(events.filter(event => event.type === 'submodule')).toEqual([{
+      type: 'submodule',
+      path: 'vendor/lib',
+      sha: 'pinned-sha',
+      url: '../lib.git',
+      owner: 'owner',
+      repo: 'lib',
+    }]);
+    expect(mockClient.getBlobContent).toHaveBeenCalledWith('owner', 'repo', 'gitmodules-sha', expect.anything());
+    expect(events[events.length - 1]).toEqual({ type: 'complete', total_files: 1, total_directories: 1, excluded_entries: 0 });
+  });
+
+  it('should still list submodules when .gitmodules cannot be read', async () => {
+    mockClient.getTreeFiles.mockResolvedValue({
+      sha: 'root-sha',
+      truncated: false,
+      tree: [treeEntry('.gitmodules', 'blob', 'gitmodules-sha', 60), { path: 'lib', mode: '160000', type: 'commit', sha: 'pinned-sha' }],
+    });
+    mockClient.getBlobContent.mockRejectedValue(new Error('boom'));
+
+    const events = (await readLines(await crawl('https://github.com/owner/repo'))).map(line => StreamEventSchema.parse(JSON.parse(line)));
+
+    expect(events.some(event => event.type === 'warning')).toBe(true);
+    expect(events.filter(event => event.type === 'submodule')).toEqual([{ type: 'submodule', path: 'lib', sha: 'pinned-sha' }]);
+  });
+
+  it('should classify files by mode and report the real size of Git LFS pointers', async () => {
+    const oid = 'a'.repeat(64);
+    const pointer = `version https://git-lfs.github.com/spec/v1\noid sha256:${oid}\nsize 5000000\n`;
+    mockClient.getTreeFiles.mockResolvedValue({
+      sha: 'root-sha',
+      truncated: false,
+      tree: [
+        { ...treeEntry('build.sh', 'blob', 'a', 30), mode: '100755' },
+        { ...treeEntry('latest', 'blob', 'b', 140), mode: '120000' },
+        treeEntry('model.bin', 'blob', 'c', pointer.length),
+        treeEntry('notes.txt', 'blob', 'd', pointer.length),
+      ],
+    });
+    mockClient.getBlobContent.mockImplementation(async (_owner: string, _repo: string, sha: string) => (
+      sha === 'c' ? pointer : 'x'.repeat(pointer.length)
+    ));
+
+    const events = (await readLines(await crawl('https://github.com/owner/repo'))).map(line => StreamEventSchema.parse(JSON.parse(line)));
+    const files = events.filter(event => event.type === 'file');
+
+    expect(mockClient.getBlobContent).toHaveBeenCalledTimes(2);
+    expect(files.map(({ path, kind, size, lfs }) => ({ path, kind, size, lfs }))).toEqual([
+      { path: 'build.sh', kind: 'executable', size: 30, lfs: undefined },
+      { path: 'latest', kind: 'symlink', size: 140, lfs: undefined },
+      { path: 'model.bin', kind: 'file', size: 5000000, lfs: { oid, pointer_size: pointer.length } },
+      { path: 'notes.txt', kind: 'file', size: pointer.length, lfs: undefined },
+    ]);
+    expect(events[events.length - 1]).toEqual({ type: 'complete', total_files: 4, total_directories: 0, excluded_entries: 0 });
+  });
+
+  it('should leave out excluded, unincluded and too deep entries and count them', async () => {
+    mockClient.getTreeFiles.mockResolvedValue({
+      sha: 'root-sha',
+      truncated: false,
+      tree: [
+        treeEntry('README.md', 'blob', 'a', 10),
+        treeEntry('node_modules', 'tree', 'b'),
+        treeEntry('node_modules/left-pad', 'tree', 'c'),
+        treeEntry('node_modules/left-pad/index.js', 'blob', 'd', 20),
+        treeEntry('src', 'tree', 'e'),
+        treeEntry('src/index.ts', 'blob', 'f', 30),
+        treeEntry('src/index.js', 'blob', 'g', 30),
+        treeEntry('src/lib', 'tree', 'h'),
+        treeEntry('src/lib/util.ts', 'blob', 'i', 40),
+      ],
+    });
+
+    const response = await crawl('https://github.com/owner/repo', { include: ['*.ts', '*.md'], exclude: ['node_modules/'], max_depth: 1 });
+    const events = (await readLines(response)).map(line => StreamEventSchema.parse(JSON.parse(line)));
+
+    expect(events.filter(event => event.type === 'file').map(event => event.path)).toEqual(['README.md', 'src/index.ts']);
+    // node_modules, src/index.js and src/lib; nothing below node_modules is counted.
+    expect(events[events.length - 1]).toEqual({ type: 'complete', total_files: 2, total_directories: 1, excluded_entries: 3 });
+  });
+
+  it('should not fetch excluded directories of a truncated listing', async () => {
+    mockClient.getTreeFiles.mockImplementation(async (_owner: string, _repo: string, sha: string) => {
+      if (sha === 'commit-sha') {
+        return { sha: 'root-sha', truncated: true, tree: [treeEntry('dist', 'tree', 'dist-sha')] };
+      }
+      if (sha === 'root-sha') {
+        return { sha, truncated: false, tree: [treeEntry('dist', 'tree', 'dist-sha'), treeEntry('vendor', 'tree', 'vendor-sha'), treeEntry('lib', 'tree', 'lib-sha')] };
+      }
+      if (sha === 'lib-sha') {
+        return { sha, truncated: false, tree: [treeEntry('b.ts', 'blob', 'b', 7)] };
+      }
+      throw new Error(`Unexpected tree ${sha}`);
+    });
+
+    const response = await crawl('https://github.com/owner/repo', { exclude: ['dist', 'vendor'] });
+    const events = (await readLines(response)).map(line => StreamEventSchema.parse(JSON.parse(line)));
+
+    expect(mockClient.getTreeFiles.mock.calls.map(([, , sha]) => sha)).toEqual(['commit-sha', 'root-sha', 'lib-sha']);
+    expect(events.filter(event => event.type === 'file').map(event => event.path)).toEqual(['lib/b.ts']);
+    expect(events[events.length - 1]).toEqual({ type: 'complete', total_files: 1, total_directories: 1, excluded_entries: 2 });
+  });
+
+  it('should match globs that make a backtracking matcher blow up without stalling the crawl', async () => {
+    const deepPath = `${'a/'.repeat(500)}${'a'.repeat(500)}`;
+    mockClient.getTreeFiles.mockResolvedValue({
+      sha: 'root-sha',
+      truncated: false,
+      tree: [treeEntry(deepPath, 'blob', 'a', 10), treeEntry('b.ts', 'blob', 'b', 20)],
+    });
+    const glob = `${'**/a'.repeat(8)}${'*a'.repeat(20)}b`;
+    const startedAt = Date.now();
+
+    const response = await crawl('https://github.com/owner/repo', { include: [glob, '*.ts'], exclude: [glob] });
+    const events = (await readLines(response)).map(line => StreamEventSchema.parse(JSON.parse(line)));
+
+    expect(events.filter(event => event.type === 'file').map(event => event.path)).toEqual(['b.ts']);
+    expect(Date.now() - startedAt).toBeLessThan(2_000);
+  });
+
+  it('should reject globs that are too long or hold too many **', async () => {
+    expect((await crawl('https://github.com/owner/repo', { exclude: ['**/'.repeat(12)] })).status).toBe(400);
+    expect((await crawl('https://github.com/owner/repo', { include: ['a'.repeat(1_000)] })).status).toBe(400);
+  });
+
+  it('should reject a negative maximum depth', async () => {
+    const response = await crawl('https://github.com/owner/repo', { max_depth: -1 });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should crawl the default branch when the URL names no ref', async () => {
+    mockClient.getRepoInfo.mockResolvedValue({ default_branch: 'release/2.x' });
+    mockClient.resolveRef.mockResolvedValue({ kind: 'branch', name: 'release/2.x', commitSha: 'commit-sha', path: '' });
+    mockClient.getTreeFiles.mockResolvedValue({ sha: 'root-sha', truncated: false, tree: [] });
+
+    const response = await crawl('https://github.com/owner/repo');
+    await readLines(response);
+
+    expect(mockClient.resolveRef).toHaveBeenCalledWith('owner', 'repo', 'release/2.x', expect.anything());
+    expect(mockClient.getSubtreeSha).not.toHaveBeenCalled();
+  });
+
+  it('should report refs that match no branch, tag or commit as a stream error', async () => {
+    mockClient.resolveRef.mockRejectedValue(new GitHubNotFoundError('No match', 404, 'url'));
+
+    const response = await crawl('https://github.com/owner/repo/tree/nope/src');
+    const events = (await readLines(response)).map(line => StreamEventSchema.parse(JSON.parse(line)));
+
+    expect(events).toEqual([{
+      type: 'error',
+      message: "No branch, tag or commit matching 'nope/src' found in repository owner/repo.",
+    }]);
+  });
+
+  it('should report a missing subdirectory as a stream error', async () => {
+    mockClient.getSubtreeSha.mockRejectedValue(new GitHubNotFoundError('Directory not found: packages', 404, 'url'));
+
+    const response = await crawl('https://github.com/owner/repo/tree/main/packages/missing');
+    const events = (await readLines(response)).map(line => StreamEventSchema.parse(JSON.parse(line)));
+
+    expect(events[events.length - 1]).toEqual({
+      type: 'error',
+      message: "Directory 'packages/missing' not found in branch 'main' of repository owner/repo.",
+    });
+    expect(mockClient.getTreeFiles).not.toHaveBeenCalled();
+  });
+
+  it('should reject URLs that are not repository or directory URLs', async () => {
+    const response = await crawl('https://github.com/owner/repo/blob/main/README.md');
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -3,6 +3,7 @@
 import { useState, useTransition } from "react";
 import { useRouter } from "next/navigation";
 import { checkRateLimitAndProceed } from "./actions";
+import { getExplorerPath, parseGitHubUrl } from "../lib/github-url";
 
 /**
  * HomePage component for entering a GitHub repository URL.
@@ -28,10 +29,8 @@ export default function HomePage() {
       setError("Please enter a GitHub repository URL.");
       return;
     }
-    const githubRepoRegex = /^https?:\/\/github\.com\/([a-zA-Z0-9\-_]+)\/([a-zA-Z0-9_\-.]+?)(?:\.git)?$/;
-    const clientMatch = githubRepoRegex.exec(url);
-    if (!clientMatch) {
-      setError("Invalid GitHub repository URL format. Example: https://github.com/owner/repo");
+    if (!parseGitHubUrl(url)) {
+      setError("Invalid GitHub repository URL format. Example: https://github.com/owner/repo or https://github.com/owner/repo/tree/main/src");
       return;
     }
 
@@ -44,7 +43,7 @@ export default function HomePage() {
           setRateLimitResetMessage(result.rateLimitResetTime);
         }
       } else if (result.owner && result.repo) {
-        router.push(`/${result.owner}/${result.repo}`);
+        router.push(getExplorerPath({ owner: result.owner, repo: result.repo, ref: result.ref, path: result.path }));
       } else {
         setError("An unexpected error occurred. Owner or repo missing.");
       }
@@ -93,7 +92,7 @@ export default function HomePage() {
         </button>
       </div>
       <footer className="mt-8 text-center text-sm text-gray-500 dark:text-gray-400">
-        <p>Enter a GitHub repository URL to browse its contents.</p>
+        <p>Enter a GitHub repository URL, or the URL of one of its folders, to browse its contents.</p>
       </footer>
     </main>
   );
@@ -4,8 +4,18 @@ import { z } from "zod";
 export const env = createEnv({
   server: {
     GITHUB_ACCESS_TOKEN: z.string(),
+    GITHUB_BLOB_CACHE_MAX_BYTES: z.coerce.number().int().min(0).default(64_000_000),
+    GITHUB_CRAWL_CONCURRENCY: z.coerce.number().int().min(1).max(32).default(8),
+    GITHUB_TREE_CACHE_DIR: z.string().optional(),
+    GITHUB_TREE_CACHE_MAX_ITEMS: z.coerce.number().int().min(0).default(200_000),
+    SEARCH_INDEX_MAX_BYTES: z.coerce.number().int().min(0).default(128_000_000),
   },
   runtimeEnv: {
     GITHUB_ACCESS_TOKEN: process.env.GITHUB_ACCESS_TOKEN,
+    GITHUB_BLOB_CACHE_MAX_BYTES: process.env.GITHUB_BLOB_CACHE_MAX_BYTES,
+    GITHUB_CRAWL_CONCURRENCY: process.env.GITHUB_CRAWL_CONCURRENCY,
+    GITHUB_TREE_CACHE_DIR: process.env.GITHUB_TREE_CACHE_DIR,
+    GITHUB_TREE_CACHE_MAX_ITEMS: process.env.GITHUB_TREE_CACHE_MAX_ITEMS,
+    SEARCH_INDEX_MAX_BYTES: process.env.SEARCH_INDEX_MAX_BYTES,
   }
 });
\ No newline at end of file
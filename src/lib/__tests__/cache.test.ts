@@ -0,0 +1,120 @@
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { CacheStore, DiskCache, LruCache, TieredCache } from '../cache';
+
+// Mock console.error to keep test output clean
+console.error = jest.fn();
+
+describe('LruCache', () => {
+    it('should return stored values', () => {
+        const cache = new LruCache<string>({ maxWeight: 2 });
+        cache.set('a', 'A');
+
+        expect(cache.get('a')).toBe('A');
+        expect(cache.get('b')).toBeUndefined();
+    });
+
+    it('should evict the least recently used entry when full', () => {
+        const cache = new LruCache<string>({ maxWeight: 2 });
+        cache.set('a', 'A');
+        cache.set('b', 'B');
+        cache.get('a');
+        cache.set('c', 'C');
+
+        expect(cache.get('a')).toBe('A');
+        expect(cache.get('b')).toBeUndefined();
+        expect(cache.get('c')).toBe('C');
+    });
+
+    it('should bound the total weight of its values', () => {
+        const cache = new LruCache<number[]>({ maxWeight: 5, weigh: value => value.length });
+        cache.set('a', [1, 2, 3]);
+        cache.set('b', [1, 2, 3]);
+
+        expect(cache.size).toBe(1);
+        expect(cache.get('b')).toEqual([1, 2, 3]);
+    });
+
+    it('should not store values heavier than the whole cache', () => {
+        const cache = new LruCache<number[]>({ maxWeight: 2, weigh: value => value.length });
+        cache.set('a', [1, 2, 3]);
+
+        expect(cache.size).toBe(0);
+    });
+
+    it('should replace the value of an existing key', () => {
+        const cache = new LruCache<string>({ maxWeight: 2 });
+        cache.set('a', 'A');
+        cache.set('a', 'A2');
+
+        expect(cache.size).toBe(1);
+        expect(cache.get('a')).toBe('A2');
+    });
+});
+
+describe('DiskCache', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(path.join(os.tmpdir(), 'tree-cache-'));
+    });
+
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should persist values across instances', async () => {
+        await new DiskCache<{ sha: string }>(directory).set('abc123', { sha: 'abc123' });
+
+        expect(await new DiskCache<{ sha: string }>(directory).get('abc123')).toEqual({ sha: 'abc123' });
+    });
+
+    it('should treat missing entries as misses', async () => {
+        expect(await new DiskCache(directory).get('missing')).toBeUndefined();
+    });
+
+    it('should keep file names safe', async () => {
+        await new DiskCache<number>(directory).set('../escape/me', 1);
+
+        expect(await readdir(directory)).toEqual(['___escape_me.json']);
+    });
+});
+
+describe('TieredCache', () => {
+    const makeStore = (): CacheStore<string> & { values: Map<string, string> } => {
+        const values = new Map<string, string>();
+        return {
+            values,
+            get: jest.fn(async (key: string) => values.get(key)),
+            set: jest.fn(async (key: string, value: string) => { values.set(key, value); }),
+        };
+    };
+
+    it('should write through to the fallback store', async () => {
+        const fallback = makeStore();
+        const cache = new TieredCache(new LruCache<string>({ maxWeight: 10 }), fallback);
+
+        await cache.set('a', 'A');
+
+        expect(fallback.values.get('a')).toBe('A');
+        expect(await cache.get('a')).toBe('A');
+        expect(fallback.get).not.toHaveBeenCalled();
+    });
+
+    it('should promote fallback hits into memory', async () => {
+        const fallback = makeStore();
+        fallback.values.set('a', 'A');
+        const memory = new LruCache<string>({ maxWeight: 10 });
+        const cache = new TieredCache(memory, fallback);
+
+        expect(await cache.get('a')).toBe('A');
+        expect(memory.get('a')).toBe('A');
+    });
+
+    it('should work without a fallback store', async () => {
+        const cache = new TieredCache(new LruCache<string>({ maxWeight: 10 }));
+
+        expect(await cache.get('a')).toBeUndefined();
+    });
+});
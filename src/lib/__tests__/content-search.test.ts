@@ -0,0 +1,51 @@
+import { compileSearchPattern, searchLines, splitLines } from '../content-search';
+
+describe('compileSearchPattern', () => {
+    it('should escape plain text queries and ignore case by default', () => {
+        const pattern = compileSearchPattern('a.b(', { regex: false, caseSensitive: false });
+
+        expect(pattern.match('x A.B( y')).toEqual(['A.B(']);
+        expect(pattern.match('axb(')).toBeNull();
+    });
+
+    it('should reject invalid regular expressions and syntax that needs backtracking', () => {
+        expect(() => compileSearchPattern('(', { regex: true, caseSensitive: true })).toThrow(SyntaxError);
+        expect(() => compileSearchPattern('(a)\\1', { regex: true, caseSensitive: true })).toThrow(SyntaxError);
+        expect(() => compileSearchPattern('(?<=a)b', { regex: true, caseSensitive: true })).toThrow(SyntaxError);
+    });
+});
+
+describe('splitLines', () => {
+    it('should split on every line terminator without adding a line for the final one', () => {
+        expect(splitLines('a\r\nb\nc\n')).toEqual(['a', 'b', 'c']);
+        expect(splitLines('')).toEqual(['']);
+    });
+});
+
+describe('searchLines', () => {
+    const lines = ['one', 'const apiKey = 1;', 'two', 'three', 'apiKey(apiKey)'];
+
+    it('should return matching lines with their offsets and context', () => {
+        expect(searchLines(lines, compileSearchPattern('apikey', { regex: false, caseSensitive: false }), 1, 10)).toEqual([
+            { line: 2, text: 'const apiKey = 1;', ranges: [[6, 12]], before: ['one'], after: ['two'] },
+            { line: 5, text: 'apiKey(apiKey)', ranges: [[0, 6], [7, 13]], before: ['three'], after: [] },
+        ]);
+    });
+
+    it('should stop after the maximum number of matching lines', () => {
+        expect(searchLines(lines, compileSearchPattern('apiKey', { regex: false, caseSensitive: true }), 0, 1).map(match => match.line)).toEqual([2]);
+    });
+
+    it('should ignore empty matches', () => {
+        expect(searchLines(lines, compileSearchPattern('^|x*', { regex: true, caseSensitive: true }), 0, 10)).toEqual([]);
+    });
+
+    it('should match patterns that would backtrack catastrophically in linear time', () => {
+        const pattern = compileSearchPattern('(a+)+$', { regex: true, caseSensitive: true });
+        const line = 'a'.repeat(100_000) + 'b';
+
+        const start = Date.now();
+        expect(searchLines([line], pattern, 0, 10)).toEqual([]);
+        expect(Date.now() - start).toBeLessThan(1000);
+    });
+});
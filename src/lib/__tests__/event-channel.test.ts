@@ -0,0 +1,51 @@
+import { EventChannel } from '../event-channel';
+
+const collect = async <T, R>(generator: AsyncGenerator<T, R, unknown>): Promise<{ events: T[]; result: R }> => {
+    const events: T[] = [];
+    let next = await generator.next();
+    while (!next.done) {
+        events.push(next.value);
+        next = await generator.next();
+    }
+    return { events, result: next.value };
+};
+
+describe('EventChannel', () => {
+    it('should drain queued events in order', () => {
+        const channel = new EventChannel<number>();
+        channel.push(1);
+        channel.push(2);
+
+        expect(channel.drain()).toEqual([1, 2]);
+        expect(channel.drain()).toEqual([]);
+    });
+
+    it('should yield events pushed while a promise is pending, then return its value', async () => {
+        const channel = new EventChannel<string>();
+        const promise = new Promise<number>(resolve => {
+            setTimeout(() => channel.push('retrying'), 1);
+            setTimeout(() => resolve(42), 5);
+        });
+
+        const { events, result } = await collect(channel.until(promise));
+
+        expect(events).toEqual(['retrying']);
+        expect(result).toBe(42);
+    });
+
+    it('should flush pending events before rethrowing a rejection', async () => {
+        const channel = new EventChannel<string>();
+        const promise = new Promise<number>((_, reject) => {
+            channel.push('retrying');
+            setTimeout(() => reject(new Error('gave up')), 1);
+        });
+
+        const events: string[] = [];
+        await expect((async () => {
+            for await (const event of channel.until(promise)) {
+                events.push(event);
+            }
+        })()).rejects.toThrow('gave up');
+        expect(events).toEqual(['retrying']);
+    });
+});
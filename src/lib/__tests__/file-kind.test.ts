@@ -0,0 +1,52 @@
+import { getFileKind, isBinaryContent, isLfsPointerCandidate, parseLfsPointer } from '../file-kind';
+
+const OID = '4d7a214614ab2935c943f9e0ff69d22eadbb8f32b1258daaa5e2ca24d17e2393';
+const POINTER = `version https://git-lfs.github.com/spec/v1\noid sha256:${OID}\nsize 12345\n`;
+
+describe('getFileKind', () => {
+    it('should classify entries by their git file mode', () => {
+        expect(getFileKind('100644')).toBe('file');
+        expect(getFileKind('100755')).toBe('executable');
+        expect(getFileKind('120000')).toBe('symlink');
+    });
+});
+
+describe('isLfsPointerCandidate', () => {
+    it('should only consider non-symlink blobs the size of a pointer', () => {
+        expect(isLfsPointerCandidate('file', POINTER.length)).toBe(true);
+        expect(isLfsPointerCandidate('executable', POINTER.length)).toBe(true);
+        expect(isLfsPointerCandidate('symlink', POINTER.length)).toBe(false);
+        expect(isLfsPointerCandidate('file', 20)).toBe(false);
+        expect(isLfsPointerCandidate('file', 4096)).toBe(false);
+    });
+});
+
+describe('parseLfsPointer', () => {
+    it('should read the object id and the real size', () => {
+        expect(parseLfsPointer(POINTER)).toEqual({ oid: OID, size: 12345 });
+    });
+
+    it('should accept pointers with extensions', () => {
+        const pointer = `version https://git-lfs.github.com/spec/v1\next-0-foo sha256:${OID}\noid sha256:${OID}\nsize 7\n`;
+
+        expect(parseLfsPointer(pointer)).toEqual({ oid: OID, size: 7 });
+    });
+
+    it('should reject other content', () => {
+        expect(parseLfsPointer('just a small text file\n')).toBeNull();
+        expect(parseLfsPointer(`version https://git-lfs.github.com/spec/v1\noid sha256:${OID}\n`)).toBeNull();
+        expect(parseLfsPointer(`${POINTER}extra line\n`)).toBeNull();
+    });
+});
+
+describe('isBinaryContent', () => {
+    it('should accept UTF-8 text', () => {
+        expect(isBinaryContent(Buffer.from('héllo wörld\n'))).toBe(false);
+        expect(isBinaryContent(Buffer.alloc(0))).toBe(false);
+    });
+
+    it('should flag NUL bytes and invalid UTF-8', () => {
+        expect(isBinaryContent(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x1a]))).toBe(true);
+        expect(isBinaryContent(Buffer.from([0x68, 0xff, 0xfe, 0x69]))).toBe(true);
+    });
+});
@@ -0,0 +1,94 @@
+import {
+    createGitHubApiError,
+    describeGitHubError,
+    GitHubApiError,
+    GitHubForbiddenError,
+    GitHubNotFoundError,
+    GitHubRateLimitError,
+    GitHubSecondaryRateLimitError,
+    GitHubServerError,
+    GitHubUnauthorizedError,
+} from '../github-errors';
+
+const url = 'https://api.github.com/repos/owner/repo';
+
+const makeResponse = (status: number, statusText: string, headers: Record<string, string> = {}) =>
+    ({ status, statusText, headers: new Headers(headers) }) as Response;
+
+describe('createGitHubApiError', () => {
+    it.each([
+        [401, 'Unauthorized', GitHubUnauthorizedError],
+        [403, 'Forbidden', GitHubForbiddenError],
+        [404, 'Not Found', GitHubNotFoundError],
+        [502, 'Bad Gateway', GitHubServerError],
+    ])('should map status %d to the matching error type', (status, statusText, ErrorType) => {
+        const error = createGitHubApiError(makeResponse(status, statusText), '', url, 'Failed to fetch repo');
+
+        expect(error).toBeInstanceOf(ErrorType);
+        expect(error).toMatchObject({ status, url, message: `Failed to fetch repo: ${status} ${statusText}` });
+    });
+
+    it('should fall back to the base type for other statuses', () => {
+        const error = createGitHubApiError(makeResponse(422, 'Unprocessable Entity'), '', url, 'Failed');
+
+        expect(error.constructor).toBe(GitHubApiError);
+    });
+
+    it('should append the message from a JSON body', () => {
+        const error = createGitHubApiError(makeResponse(404, 'Not Found'), '{"message":"Branch not found"}', url, 'Failed to fetch branch');
+
+        expect(error.message).toBe('Failed to fetch branch: 404 Not Found - Branch not found');
+    });
+
+    it('should detect an exhausted primary rate limit and carry the reset time', () => {
+        const response = makeResponse(403, 'Forbidden', { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': '1700000000' });
+        const error = createGitHubApiError(response, '', url, 'Failed');
+
+        expect(error).toBeInstanceOf(GitHubRateLimitError);
+        expect(error).not.toBeInstanceOf(GitHubSecondaryRateLimitError);
+        expect((error as GitHubRateLimitError).resetAt).toBe(1700000000);
+    });
+
+    it('should detect a secondary rate limit from the Retry-After header', () => {
+        const error = createGitHubApiError(makeResponse(429, 'Too Many Requests', { 'Retry-After': '30' }), '', url, 'Failed');
+
+        expect(error).toBeInstanceOf(GitHubSecondaryRateLimitError);
+        expect((error as GitHubSecondaryRateLimitError).retryAfterSeconds).toBe(30);
+    });
+
+    it('should detect a secondary rate limit from the body', () => {
+        const body = '{"message":"You have exceeded a secondary rate limit."}';
+        const error = createGitHubApiError(makeResponse(403, 'Forbidden'), body, url, 'Failed');
+
+        expect(error).toBeInstanceOf(GitHubSecondaryRateLimitError);
+        expect((error as GitHubSecondaryRateLimitError).retryAfterSeconds).toBeNull();
+    });
+});
+
+describe('describeGitHubError', () => {
+    it('should use the given message for not found errors', () => {
+        const error = new GitHubNotFoundError('Failed', 404, url);
+
+        expect(describeGitHubError(error, 'Repository owner/repo not found.')).toEqual({
+            status: 404,
+            statusText: 'NOT_FOUND',
+            message: 'Repository owner/repo not found.',
+        });
+    });
+
+    it('should map rate limit errors to 429 with the reset time', () => {
+        const error = new GitHubRateLimitError('Failed', 403, url, 1700000000);
+
+        expect(describeGitHubError(error)).toMatchObject({ status: 429, resetAt: 1700000000 });
+    });
+
+    it.each([
+        [new GitHubUnauthorizedError('Failed', 401, url), 502],
+        [new GitHubForbiddenError('Failed', 403, url), 403],
+        [new GitHubServerError('Failed', 503, url), 502],
+        [new GitHubApiError('Failed', 422, url), 502],
+        [new Error('boom'), 500],
+    ])('should map %p to status %d', (error, status) => {
+        expect(describeGitHubError(error).status).toBe(status);
+    });
+});
@@ -0,0 +1,74 @@
+import { getBlobPath, getComparePath, getExplorerPath, getGitHubUrl, parseCompareRange, parseGitHubUrl } from '../github-url';
+
+describe('parseGitHubUrl', () => {
+    it('should parse plain repository URLs', () => {
+        expect(parseGitHubUrl('https://github.com/owner/repo')).toEqual({ owner: 'owner', repo: 'repo' });
+        expect(parseGitHubUrl('https://github.com/owner/repo.git')).toEqual({ owner: 'owner', repo: 'repo' });
+        expect(parseGitHubUrl('https://github.com/owner/my.repo/')).toEqual({ owner: 'owner', repo: 'my.repo' });
+    });
+
+    it('should parse the ref and directory of /tree/ URLs', () => {
+        expect(parseGitHubUrl('https://github.com/owner/repo/tree/main')).toEqual({ owner: 'owner', repo: 'repo', ref: 'main' });
+        expect(parseGitHubUrl('https://github.com/owner/repo/tree/main/packages/foo/')).toEqual({
+            owner: 'owner',
+            repo: 'repo',
+            ref: 'main',
+            path: 'packages/foo',
+        });
+    });
+
+    it('should decode percent-encoded segments and ignore query strings', () => {
+        expect(parseGitHubUrl('https://github.com/owner/repo/tree/main/my%20docs?tab=readme')).toEqual({
+            owner: 'owner',
+            repo: 'repo',
+            ref: 'main',
+            path: 'my docs',
+        });
+    });
+
+    it('should reject URLs that do not point at a repository or directory', () => {
+        expect(parseGitHubUrl('https://gitlab.com/owner/repo')).toBeNull();
+        expect(parseGitHubUrl('https://github.com/owner')).toBeNull();
+        expect(parseGitHubUrl('https://github.com/owner/repo/blob/main/README.md')).toBeNull();
+        expect(parseGitHubUrl('https://github.com/owner/repo/tree/%E0%A4%A')).toBeNull();
+        expect(parseGitHubUrl('https://github.com/owner/..')).toBeNull();
+    });
+});
+
+describe('getGitHubUrl and getExplorerPath', () => {
+    it('should build URLs that parse back to the same location', () => {
+        const location = { owner: 'owner', repo: 'repo', ref: 'main', path: 'my docs/guides' };
+
+        expect(getGitHubUrl(location)).toBe('https://github.com/owner/repo/tree/main/my%20docs/guides');
+        expect(getExplorerPath(location)).toBe('/owner/repo/tree/main/my%20docs/guides');
+        expect(parseGitHubUrl(getGitHubUrl(location))).toEqual(location);
+    });
+
+    it('should omit the tree suffix for the default branch', () => {
+        expect(getExplorerPath({ owner: 'owner', repo: 'repo' })).toBe('/owner/repo');
+    });
+});
+
+describe('getBlobPath', () => {
+    it('should encode each segment of the ref and the file path', () => {
+        expect(getBlobPath('owner', 'repo', 'release/2.x', 'my docs/a#b.md')).toBe('/owner/repo/blob/release/2.x/my%20docs/a%23b.md');
+    });
+});
+
+describe('parseCompareRange and getComparePath', () => {
+    it('should split a range into refs that may contain slashes', () => {
+        expect(parseCompareRange(['v1.0...release', '2.x'])).toEqual({ base: 'v1.0', head: 'release/2.x' });
+        expect(parseCompareRange(['feature', 'a...main'])).toEqual({ base: 'feature/a', head: 'main' });
+    });
+
+    it('should reject ranges without both refs', () => {
+        expect(parseCompareRange(['main'])).toBeNull();
+        expect(parseCompareRange(['...main'])).toBeNull();
+        expect(parseCompareRange(['main...'])).toBeNull();
+    });
+
+    it('should build compare paths with encoded ref segments', () => {
+        expect(getComparePath('owner', 'repo', { base: 'v1.0', head: 'release/2.x' })).toBe('/owner/repo/compare/v1.0...release/2.x');
+        expect(getComparePath('owner', 'repo', { base: 'main', head: 'a#b' })).toBe('/owner/repo/compare/main...a%23b');
+    });
+});
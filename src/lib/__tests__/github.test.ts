@@ -1,4 +1,6 @@
+import { LruCache, TieredCache } from '../cache';
 import { GitHubClient } from '../github';
+import { GitHubForbiddenError, GitHubNotFoundError, GitHubRateLimitError, GitHubSecondaryRateLimitError, GitHubServerError } from '../github-errors';
 
 // Mock the global fetch function
 const mockFetch = jest.fn();
@@ -72,7 +74,13 @@ describe('GitHubClient', () => {
                 text: async () => 'Not Found',
             });
 
-            await expect(client.getRepoInfo('owner', 'repo')).rejects.toThrow('Failed to fetch repo: Not Found');
+            const error = await client.getRepoInfo('owner', 'repo').catch((e: unknown) => e);
+            expect(error).toBeInstanceOf(GitHubNotFoundError);
+            expect(error).toMatchObject({
+                message: 'Failed to fetch repo: 404 Not Found',
+                status: 404,
+                url: 'https://api.github.com/repos/owner/repo',
+            });
         });
     });
 
@@ -106,6 +114,21 @@ describe('GitHubClient', () => {
             await expect(client.getBranch('', 'repo', 'main')).rejects.toThrow('Owner and repo must be provided');
             await expect(client.getBranch('owner', '', 'main')).rejects.toThrow('Owner and repo must be provided');
         });
+
+        it('should encode every path segment and refuse dot segments', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                json: async () => mockResponse,
+            });
+
+            await client.getBranch('owner', 'repo', 'feature/x?y');
+            expect(mockFetch).toHaveBeenCalledWith(
+                'https://api.github.com/repos/owner/repo/branches/feature%2Fx%3Fy',
+                expect.anything()
+            );
+            await expect(client.getBranch('..', 'user', 'repos')).rejects.toThrow("'..' is not a valid path segment.");
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
     });
 
     describe('getTreeFiles', () => {
@@ -141,12 +164,462 @@ describe('GitHubClient', () => {
             );
         });
 
+        it('should request the recursive listing when asked to', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({ ...mockResponse, truncated: true }),
+            });
+
+            const result = await client.getTreeFiles('owner', 'repo', 'main', { recursive: true });
+            expect(result.truncated).toBe(true);
+            expect(mockFetch).toHaveBeenCalledWith(
+                'https://api.github.com/repos/owner/repo/git/trees/main?recursive=1',
+                expect.objectContaining({
+                    headers: { Authorization: `Bearer ${mockToken}` },
+                })
+            );
+        });
+
+        it('should throw a secondary rate limit error when GitHub asks to slow down', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: false,
+                status: 403,
+                statusText: 'Forbidden',
+                headers: new Headers({ 'Retry-After': '30' }),
+                text: async () => 'You have exceeded a secondary rate limit.',
+            });
+
+            const error = await client.getTreeFiles('owner', 'repo', 'main', { maxRetries: 0 }).catch((e: unknown) => e);
+            expect(error).toBeInstanceOf(GitHubSecondaryRateLimitError);
+            expect((error as GitHubSecondaryRateLimitError).retryAfterSeconds).toBe(30);
+        });
+
+        it('should throw a forbidden error for other 403 responses', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: false,
+                status: 403,
+                statusText: 'Forbidden',
+                headers: new Headers(),
+                text: async () => 'Resource not accessible by integration',
+            });
+
+            const error = await client.getTreeFiles('owner', 'repo', 'main').catch((e: unknown) => e);
+            expect(error).toBeInstanceOf(GitHubForbiddenError);
+            expect((error as Error).message).toBe('Failed to fetch tree files: 403 Forbidden');
+        });
+
         it('should throw error if owner or repo is not provided', async () => {
             await expect(client.getTreeFiles('', 'repo', 'main')).rejects.toThrow('Owner and repo must be provided');
             await expect(client.getTreeFiles('owner', '', 'main')).rejects.toThrow('Owner and repo must be provided');
         });
     });
 
+    describe('resolveRef', () => {
+        const sha = (char: string) => char.repeat(40);
+        const jsonResponse = (body: unknown) => ({ ok: true, status: 200, headers: new Headers(), json: async () => body });
+        const refsByUrl: Record<string, unknown> = {
+            'https://api.github.com/repos/owner/repo/git/matching-refs/heads/feature': [
+                { ref: 'refs/heads/feature', object: { sha: sha('1'), type: 'commit' } },
+                { ref: 'refs/heads/feature/login', object: { sha: sha('2'), type: 'commit' } },
+            ],
+            'https://api.github.com/repos/owner/repo/git/matching-refs/tags/feature': [],
+            'https://api.github.com/repos/owner/repo/git/matching-refs/heads/v1.0': [],
+            'https://api.github.com/repos/owner/repo/git/matching-refs/tags/v1.0': [
+                { ref: 'refs/tags/v1.0', object: { sha: sha('3'), type: 'tag' } },
+            ],
+            [`https://api.github.com/repos/owner/repo/git/tags/${sha('3')}`]: { object: { sha: sha('4'), type: 'commit' } },
+            [`https://api.github.com/repos/owner/repo/git/commits/${sha('5')}`]: { sha: sha('5'), tree: { sha: sha('6') } },
+            'https://api.github.com/repos/owner/repo/git/matching-refs/heads/missing': [],
+            'https://api.github.com/repos/owner/repo/git/matching-refs/tags/missing': [],
+        };
+
+        beforeEach(() => {
+            mockFetch.mockImplementation(async (url: string) => {
+                if (!(url in refsByUrl)) {
+                    throw new Error(`Unexpected request to ${url}`);
+                }
+                return jsonResponse(refsByUrl[url]);
+            });
+        });
+
+        it('should match the longest branch name, even if it contains slashes', async () => {
+            await expect(client.resolveRef('owner', 'repo', 'feature/login/src/app')).resolves.toEqual({
+                kind: 'branch',
+                name: 'feature/login',
+                commitSha: sha('2'),
+                path: 'src/app',
+            });
+            await expect(client.resolveRef('owner', 'repo', 'feature/docs')).resolves.toEqual({
+                kind: 'branch',
+                name: 'feature',
+                commitSha: sha('1'),
+                path: 'docs',
+            });
+        });
+
+        it('should peel annotated tags down to their commit', async () => {
+            await expect(client.resolveRef('owner', 'repo', 'v1.0')).resolves.toEqual({
+                kind: 'tag',
+                name: 'v1.0',
+                commitSha: sha('4'),
+                path: '',
+            });
+        });
+
+        it('should accept full commit SHAs', async () => {
+            await expect(client.resolveRef('owner', 'repo', `${sha('5')}/lib`)).resolves.toEqual({
+                kind: 'commit',
+                name: sha('5'),
+                commitSha: sha('5'),
+                path: 'lib',
+            });
+        });
+
+        it('should throw a not found error when nothing matches', async () => {
+            const error = await client.resolveRef('owner', 'repo', 'missing/branch').catch((e: unknown) => e);
+            expect(error).toBeInstanceOf(GitHubNotFoundError);
+            expect((error as Error).message).toBe("No branch, tag or commit matches 'missing/branch'");
+        });
+    });
+
+    describe('listBranches and listTags', () => {
+        it('should fetch one page of branches and read the next page from the Link header', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                status: 200,
+                headers: new Headers({ link: '<https://api.github.com/repositories/1/branches?page=3>; rel="next"' }),
+                json: async () => [{ name: 'main', commit: { sha: 'a' } }, { name: 'dev', commit: { sha: 'b' } }],
+            });
+
+            const result = await client.listBranches('owner', 'repo', { page: 2, perPage: 2 });
+            expect(result).toEqual({ names: ['main', 'dev'], hasNextPage: true });
+            expect(mockFetch).toHaveBeenCalledWith(
+                'https://api.github.com/repos/owner/repo/branches?per_page=2&page=2',
+                expect.anything()
+            );
+        });
+
+        it('should report the last page when there is no next link', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                status: 200,
+                headers: new Headers(),
+                json: async () => [{ name: 'v1.0', commit: { sha: 'a' } }],
+            });
+
+            await expect(client.listTags('owner', 'repo')).resolves.toEqual({ names: ['v1.0'], hasNextPage: false });
+            expect(mockFetch).toHaveBeenCalledWith('https://api.github.com/repos/owner/repo/tags?per_page=30&page=1', expect.anything());
+        });
+
+        it('should search by name prefix and paginate the matches locally', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                status: 200,
+                headers: new Headers(),
+                json: async () => ['feature/a', 'feature/b', 'feature/c'].map(name => ({
+                    ref: `refs/heads/${name}`,
+                    object: { sha: 'a', type: 'commit' },
+                })),
+            });
+
+            const result = await client.listBranches('owner', 'repo', { query: 'feature/', page: 2, perPage: 2 });
+            expect(result).toEqual({ names: ['feature/c'], hasNextPage: false });
+            expect(mockFetch).toHaveBeenCalledWith(
+                'https://api.github.com/repos/owner/repo/git/matching-refs/heads/feature/',
+                expect.anything()
+            );
+        });
+    });
+
+    describe('getSubtreeSha', () => {
+        const treeResponse = (sha: string, entries: { path: string; type: 'blob' | 'tree'; sha: string; size?: number }[]) => ({
+            ok: true,
+            json: async () => ({
+                sha,
+                url: `https://api.github.com/repos/owner/repo/git/trees/${sha}`,
+                tree: entries.map(entry => ({ ...entry, mode: entry.type === 'tree' ? '040000' : '100644', url: 'u' })),
+                truncated: false,
+            }),
+        });
+
+        it('should walk down one tree per path segment', async () => {
+            mockFetch
+                .mockResolvedValueOnce(treeResponse('root', [{ path: 'packages', type: 'tree', sha: 'packages-sha' }]))
+                .mockResolvedValueOnce(treeResponse('packages-sha', [{ path: 'foo', type: 'tree', sha: 'foo-sha' }]));
+
+            const sha = await client.getSubtreeSha('owner', 'repo', 'root', 'packages/foo/');
+            expect(sha).toBe('foo-sha');
+            expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+                'https://api.github.com/repos/owner/repo/git/trees/root',
+                'https://api.github.com/repos/owner/repo/git/trees/packages-sha',
+            ]);
+        });
+
+        it('should return the root SHA for an empty path', async () => {
+            await expect(client.getSubtreeSha('owner', 'repo', 'root', '')).resolves.toBe('root');
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+
+        it('should throw a not found error when a segment is missing or is a file', async () => {
+            mockFetch.mockResolvedValueOnce(treeResponse('root', [{ path: 'README.md', type: 'blob', sha: 'readme-sha' }]));
+
+            const error = await client.getSubtreeSha('owner', 'repo', 'root', 'README.md/x').catch((e: unknown) => e);
+            expect(error).toBeInstanceOf(GitHubNotFoundError);
+            expect((error as Error).message).toBe('Directory not found: README.md');
+        });
+
+        it('should find the blob entry of a file in a nested directory', async () => {
+            mockFetch
+                .mockResolvedValueOnce(treeResponse('root', [{ path: 'src', type: 'tree', sha: 'src-sha' }]))
+                .mockResolvedValueOnce(treeResponse('src-sha', [{ path: 'index.ts', type: 'blob', sha: 'index-sha', size: 42 }]));
+
+            await expect(client.getBlobEntry('owner', 'repo', 'root', 'src/index.ts')).resolves.toMatchObject({ sha: 'index-sha', size: 42 });
+        });
+
+        it('should throw a not found error when the path is a directory', async () => {
+            mockFetch.mockResolvedValueOnce(treeResponse('root', [{ path: 'src', type: 'tree', sha: 'src-sha' }]));
+
+            const error = await client.getBlobEntry('owner', 'repo', 'root', 'src').catch((e: unknown) => e);
+            expect(error).toBeInstanceOf(GitHubNotFoundError);
+            expect((error as Error).message).toBe('File not found: src');
+        });
+    });
+
+    describe('getTreeFiles with submodules', () => {
+        it('should accept submodule entries, which have no URL', async () => {
+            const response = {
+                sha: 'root',
+                url: 'https://api.github.com/repos/owner/repo/git/trees/root',
+                tree: [{ path: 'vendor/lib', mode: '160000', type: 'commit', sha: 'pinned-sha' }],
+                truncated: false,
+            };
+            mockFetch.mockResolvedValueOnce({ ok: true, json: async () => response });
+
+            await expect(client.getTreeFiles('owner', 'repo', 'main')).resolves.toEqual(response);
+        });
+    });
+
+    describe('getBlobContent', () => {
+        it('should decode base64 blobs as UTF-8 text', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                headers: new Headers(),
+                json: async () => ({ sha: 'blob-sha', size: 6, encoding: 'base64', content: Buffer.from('héllo\n').toString('base64') }),
+            });
+
+            await expect(client.getBlobContent('owner', 'repo', 'blob-sha')).resolves.toBe('héllo\n');
+            expect(mockFetch).toHaveBeenCalledWith(
+                'https://api.github.com/repos/owner/repo/git/blobs/blob-sha',
+                expect.anything()
+            );
+        });
+    });
+
+    describe('getBlob', () => {
+        const blobResponse = (content: Buffer) => ({
+            ok: true,
+            headers: new Headers(),
+            json: async () => ({ sha: 'blob-sha', size: content.length, encoding: 'base64', content: content.toString('base64') }),
+        });
+
+        it('should decode the content and detect binary blobs', async () => {
+            mockFetch.mockResolvedValueOnce(blobResponse(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00])));
+
+            const blob = await client.getBlob('owner', 'repo', 'blob-sha');
+            expect(blob).toMatchObject({ sha: 'blob-sha', size: 5, binary: true });
+            expect(blob.content).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00]));
+        });
+
+        it('should leave out the content of blobs over the size limit', async () => {
+            mockFetch.mockResolvedValueOnce(blobResponse(Buffer.from('0123456789')));
+
+            await expect(client.getBlob('owner', 'repo', 'blob-sha', { maxSize: 4 })).resolves.toEqual({
+                sha: 'blob-sha',
+                size: 10,
+                binary: false,
+                content: null,
+            });
+        });
+
+        it('should not fetch a blob whose known size is over the limit', async () => {
+            await expect(client.getBlob('owner', 'repo', 'blob-sha', { maxSize: 4, size: 10 })).resolves.toEqual({
+                sha: 'blob-sha',
+                size: 10,
+                binary: false,
+                content: null,
+            });
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+
+        it('should not cache blobs over the size limit', async () => {
+            client = new GitHubClient({ blobCache: new TieredCache(new LruCache({ maxWeight: 100 })) });
+            mockFetch.mockResolvedValue(blobResponse(Buffer.from('0123456789')));
+
+            await client.getBlob('owner', 'repo', 'blob-sha', { maxSize: 4 });
+            const blob = await client.getBlob('owner', 'repo', 'blob-sha');
+
+            expect(blob.content?.toString('utf8')).toBe('0123456789');
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+
+        it('should serve blobs from the blob cache', async () => {
+            client = new GitHubClient({ blobCache: new TieredCache(new LruCache({ maxWeight: 100 })) });
+            mockFetch.mockResolvedValue(blobResponse(Buffer.from('hello')));
+
+            await client.getBlob('owner', 'repo', 'blob-sha');
+            const blob = await client.getBlob('owner', 'repo', 'BLOB-SHA');
+
+            expect(blob.content?.toString('utf8')).toBe('hello');
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('retries', () => {
+        const serverError = {
+            ok: false,
+            status: 502,
+            statusText: 'Bad Gateway',
+            headers: new Headers(),
+            text: async () => '',
+        };
+
+        beforeEach(() => {
+            client = new GitHubClient({ retry: { baseDelayMs: 1 } });
+        });
+
+        it('should retry server errors and report each retry', async () => {
+            mockFetch
+                .mockResolvedValueOnce(serverError)
+                .mockResolvedValueOnce({ ok: true, json: async () => ({ default_branch: 'main' }) });
+            const onRetry = jest.fn();
+
+            const result = await client.getRepoInfo('owner', 'repo', { onRetry });
+
+            expect(result).toEqual({ default_branch: 'main' });
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+            expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({
+                attempt: 1,
+                maxRetries: 3,
+                url: 'https://api.github.com/repos/owner/repo',
+                reason: 'Failed to fetch repo: 502 Bad Gateway',
+            }));
+        });
+
+        it('should retry network failures', async () => {
+            mockFetch
+                .mockRejectedValueOnce(new TypeError('fetch failed'))
+                .mockResolvedValueOnce({ ok: true, json: async () => ({ default_branch: 'main' }) });
+
+            await expect(client.getRepoInfo('owner', 'repo')).resolves.toEqual({ default_branch: 'main' });
+        });
+
+        it('should give up once the retry budget of the call is spent', async () => {
+            mockFetch.mockResolvedValue(serverError);
+
+            const error = await client.getRepoInfo('owner', 'repo', { maxRetries: 2 }).catch((e: unknown) => e);
+
+            expect(error).toBeInstanceOf(GitHubServerError);
+            expect(mockFetch).toHaveBeenCalledTimes(3);
+        });
+
+        it('should pass the abort signal to fetch', async () => {
+            mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ default_branch: 'main' }) });
+            const controller = new AbortController();
+
+            await client.getRepoInfo('owner', 'repo', { signal: controller.signal });
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                'https://api.github.com/repos/owner/repo',
+                expect.objectContaining({ signal: controller.signal }),
+            );
+        });
+
+        it('should stop waiting for a retry when aborted', async () => {
+            client = new GitHubClient({ retry: { baseDelayMs: 60_000 } });
+            mockFetch.mockResolvedValue(serverError);
+            const controller = new AbortController();
+
+            const result = client.getRepoInfo('owner', 'repo', {
+                signal: controller.signal,
+                onRetry: () => controller.abort(new Error('client went away')),
+            });
+
+            await expect(result).rejects.toThrow('client went away');
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not retry client errors', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: false,
+                status: 404,
+                statusText: 'Not Found',
+                headers: new Headers(),
+                text: async () => '',
+            });
+
+            await expect(client.getRepoInfo('owner', 'repo')).rejects.toBeInstanceOf(GitHubNotFoundError);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('caching', () => {
+        const treeSha = 'a'.repeat(40);
+        const treeResponse = {
+            sha: treeSha,
+            url: `https://api.github.com/repos/owner/repo/git/trees/${treeSha}`,
+            tree: [],
+            truncated: false,
+        };
+
+        it('should serve trees requested by SHA from the tree cache', async () => {
+            client = new GitHubClient({ treeCache: new TieredCache(new LruCache({ maxWeight: 10 })) });
+            mockFetch.mockResolvedValueOnce({ ok: true, json: async () => treeResponse });
+
+            await client.getTreeFiles('owner', 'repo', treeSha);
+            const cached = await client.getTreeFiles('owner', 'repo', treeSha);
+
+            expect(cached).toEqual(treeResponse);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('should cache recursive and single-level listings separately', async () => {
+            client = new GitHubClient({ treeCache: new TieredCache(new LruCache({ maxWeight: 10 })) });
+            mockFetch.mockResolvedValue({ ok: true, json: async () => treeResponse });
+
+            await client.getTreeFiles('owner', 'repo', treeSha);
+            await client.getTreeFiles('owner', 'repo', treeSha, { recursive: true });
+
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+
+        it('should never cache trees requested by branch name', async () => {
+            client = new GitHubClient({ treeCache: new TieredCache(new LruCache({ maxWeight: 10 })) });
+            mockFetch.mockResolvedValue({ ok: true, json: async () => treeResponse });
+
+            await client.getTreeFiles('owner', 'repo', 'main');
+            await client.getTreeFiles('owner', 'repo', 'main');
+
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+
+        it('should revalidate with If-None-Match and reuse the body on 304', async () => {
+            client = new GitHubClient({ etagCache: new LruCache({ maxWeight: 10 }) });
+            const branch = { name: 'main', commit: { sha: treeSha, url: 'url' }, protected: false };
+            mockFetch
+                .mockResolvedValueOnce({ ok: true, status: 200, headers: new Headers({ ETag: '"v1"' }), json: async () => branch })
+                .mockResolvedValueOnce({ ok: false, status: 304, headers: new Headers() });
+
+            await client.getBranch('owner', 'repo', 'main');
+            const result = await client.getBranch('owner', 'repo', 'main');
+
+            expect(result).toEqual(branch);
+            expect(mockFetch).toHaveBeenLastCalledWith(
+                'https://api.github.com/repos/owner/repo/branches/main',
+                { headers: { Authorization: `Bearer ${mockToken}`, 'If-None-Match': '"v1"' } },
+            );
+        });
+    });
+
     describe('checkRepoExists', () => {
         it('should return true if repository exists', async () => {
             mockFetch.mockResolvedValueOnce({
@@ -206,12 +679,16 @@ describe('GitHubClient', () => {
                 ok: false,
                 status: 403,
                 statusText: 'Forbidden',
-                json: async () => ({ message: errorMessage }),
+                headers: new Headers({ 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': '1623456789' }),
+                text: async () => JSON.stringify({ message: errorMessage }),
             });
 
-            await expect(client.getRateLimit()).rejects.toThrow(
-                `Failed to fetch rate limit: 403 Forbidden - ${errorMessage}`
-            );
+            const error = await client.getRateLimit().catch((e: unknown) => e);
+            expect(error).toBeInstanceOf(GitHubRateLimitError);
+            expect(error).toMatchObject({
+                message: `Failed to fetch rate limit: 403 Forbidden - ${errorMessage}`,
+                resetAt: 1623456789,
+            });
         });
     });
 }); 
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { parseGitmodules, resolveSubmoduleRepository } from '../gitmodules';
+
+describe('parseGitmodules', () => {
+    it('should map every submodule path to its URL', () => {
+        const content = [
+            '[submodule "lib"]',
+            '\tpath = vendor/lib',
+            '\turl = https://github.com/other/lib.git',
+            '# A comment',
+            '[submodule "docs"]',
+            '  url = "git@github.com:owner/docs.git"',
+            '  path = "docs/"',
+            '  branch = main',
+            '[submodule "broken"]',
+            '\tpath = broken',
+        ].join('\n');
+
+        expect(parseGitmodules(content)).toEqual(new Map([
+            ['vendor/lib', 'https://github.com/other/lib.git'],
+            ['docs', 'git@github.com:owner/docs.git'],
+        ]));
+    });
+
+    it('should return an empty map for an empty file', () => {
+        expect(parseGitmodules('').size).toBe(0);
+    });
+});
+
+describe('resolveSubmoduleRepository', () => {
+    it('should accept the usual spellings of a GitHub remote', () => {
+        const expected = { owner: 'other', repo: 'lib' };
+
+        expect(resolveSubmoduleRepository('https://github.com/other/lib.git', 'owner', 'repo')).toEqual(expected);
+        expect(resolveSubmoduleRepository('https://github.com/other/lib', 'owner', 'repo')).toEqual(expected);
+        expect(resolveSubmoduleRepository('git@github.com:other/lib.git', 'owner', 'repo')).toEqual(expected);
+        expect(resolveSubmoduleRepository('ssh://git@github.com/other/lib.git', 'owner', 'repo')).toEqual(expected);
+        expect(resolveSubmoduleRepository('git://github.com/other/lib', 'owner', 'repo')).toEqual(expected);
+    });
+
+    it('should resolve relative URLs against the declaring repository', () => {
+        expect(resolveSubmoduleRepository('../lib.git', 'owner', 'repo')).toEqual({ owner: 'owner', repo: 'lib' });
+        expect(resolveSubmoduleRepository('../../other/lib', 'owner', 'repo')).toEqual({ owner: 'other', repo: 'lib' });
+        expect(resolveSubmoduleRepository('../../../lib', 'owner', 'repo')).toBeNull();
+    });
+
+    it('should reject submodules hosted elsewhere', () => {
+        expect(resolveSubmoduleRepository('https://gitlab.com/other/lib.git', 'owner', 'repo')).toBeNull();
+    });
+});
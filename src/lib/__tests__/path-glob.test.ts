@@ -0,0 +1,71 @@
+import { compileGlob, createPathFilter, globSchema, MAX_GLOB_LENGTH } from '../path-glob';
+
+describe('compileGlob', () => {
+    it('should match names without a slash at any depth', () => {
+        const pattern = compileGlob('*.md');
+
+        expect(pattern.test('README.md')).toBe(true);
+        expect(pattern.test('docs/guide/intro.md')).toBe(true);
+        expect(pattern.test('README.mdx')).toBe(false);
+    });
+
+    it('should anchor patterns with a slash at the root', () => {
+        const pattern = compileGlob('src/*.ts');
+
+        expect(pattern.test('src/index.ts')).toBe(true);
+        expect(pattern.test('src/lib/index.ts')).toBe(false);
+        expect(pattern.test('app/src/index.ts')).toBe(false);
+    });
+
+    it('should match across directories with ** and alternatives with braces', () => {
+        const pattern = compileGlob('src/**/*.{ts,tsx}');
+
+        expect(pattern.test('src/index.ts')).toBe(true);
+        expect(pattern.test('src/app/page.tsx')).toBe(true);
+        expect(pattern.test('src/app/page.js')).toBe(false);
+    });
+
+    it('should match everything below a matching directory', () => {
+        expect(compileGlob('node_modules').test('a/node_modules/react/index.js')).toBe(true);
+        expect(compileGlob('docs/').test('docs/intro.md')).toBe(true);
+        expect(compileGlob('docs/').test('docs')).toBe(false);
+    });
+
+    it('should treat repeated **/ as one', () => {
+        const pattern = compileGlob('src/**/**/index.ts');
+
+        expect(pattern.test('src/index.ts')).toBe(true);
+        expect(pattern.test('src/a/b/index.ts')).toBe(true);
+    });
+
+    it('should match globs that make a backtracking matcher blow up in linear time', () => {
+        const glob = `${'**/a'.repeat(20)}${'*a'.repeat(20)}b`;
+        const path = 'a/'.repeat(2_000) + 'a'.repeat(2_000);
+        const startedAt = Date.now();
+
+        expect(compileGlob(glob).test(path)).toBe(false);
+        expect(Date.now() - startedAt).toBeLessThan(1_000);
+    });
+});
+
+describe('createPathFilter', () => {
+    it('should accept every path without globs', () => {
+        expect(createPathFilter(['', ' '])('any/file.ts')).toBe(true);
+    });
+
+    it('should require an include and reject excludes', () => {
+        const filter = createPathFilter(['src/**', '!*.test.ts']);
+
+        expect(filter('src/lib/util.ts')).toBe(true);
+        expect(filter('src/lib/util.test.ts')).toBe(false);
+        expect(filter('docs/util.ts')).toBe(false);
+    });
+});
+
+describe('globSchema', () => {
+    it('should limit the length of a glob and its number of **', () => {
+        expect(globSchema.safeParse('src/**/test/**/*.ts').success).toBe(true);
+        expect(globSchema.safeParse('**/'.repeat(9)).success).toBe(false);
+        expect(globSchema.safeParse('a'.repeat(MAX_GLOB_LENGTH + 1)).success).toBe(false);
+    });
+});
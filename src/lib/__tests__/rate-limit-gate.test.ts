@@ -0,0 +1,88 @@
+import { GitHubNotFoundError, GitHubRateLimitError, GitHubSecondaryRateLimitError } from '../github-errors';
+import { RateLimitGate } from '../rate-limit-gate';
+
+const url = 'https://api.github.com/repos/owner/repo';
+
+describe('RateLimitGate', () => {
+    const makeCallbacks = () => ({
+        onPause: jest.fn(),
+        onHeartbeat: jest.fn(),
+        onResume: jest.fn(),
+    });
+
+    it('should pass results and ordinary errors through', async () => {
+        const gate = new RateLimitGate(makeCallbacks());
+
+        await expect(gate.run(async () => 'ok')).resolves.toBe('ok');
+        await expect(gate.run(async () => {
+            throw new GitHubNotFoundError('Failed', 404, url);
+        })).rejects.toBeInstanceOf(GitHubNotFoundError);
+    });
+
+    it('should not hold calls on secondary rate limits or unknown reset times', async () => {
+        const gate = new RateLimitGate(makeCallbacks());
+
+        await expect(gate.run(async () => {
+            throw new GitHubSecondaryRateLimitError('Failed', 403, url, 10);
+        })).rejects.toBeInstanceOf(GitHubSecondaryRateLimitError);
+        await expect(gate.run(async () => {
+            throw new GitHubRateLimitError('Failed', 403, url, null);
+        })).rejects.toBeInstanceOf(GitHubRateLimitError);
+    });
+
+    it('should pause until the reset, send heartbeats, and retry the call', async () => {
+        const callbacks = makeCallbacks();
+        const gate = new RateLimitGate(callbacks, { heartbeatIntervalMs: 5, resetGraceMs: 30 });
+        const resetAt = Math.floor(Date.now() / 1000);
+        const call = jest.fn()
+            .mockRejectedValueOnce(new GitHubRateLimitError('Failed', 403, url, resetAt))
+            .mockResolvedValueOnce('ok');
+
+        const result = gate.run(call);
+        await Promise.resolve();
+        expect(gate.isPaused).toBe(true);
+
+        await expect(result).resolves.toBe('ok');
+        expect(callbacks.onPause).toHaveBeenCalledWith(resetAt);
+        expect(callbacks.onHeartbeat).toHaveBeenCalled();
+        expect(callbacks.onResume).toHaveBeenCalledTimes(1);
+        expect(call).toHaveBeenCalledTimes(2);
+        expect(gate.isPaused).toBe(false);
+    });
+
+    it('should hold other calls while paused and pause only once', async () => {
+        const callbacks = makeCallbacks();
+        const gate = new RateLimitGate(callbacks, { resetGraceMs: 10 });
+        const resetAt = Math.floor(Date.now() / 1000);
+        const first = jest.fn()
+            .mockRejectedValueOnce(new GitHubRateLimitError('Failed', 403, url, resetAt))
+            .mockResolvedValueOnce('first');
+        const second = jest.fn().mockResolvedValue('second');
+
+        const firstResult = gate.run(first);
+        await Promise.resolve();
+        await Promise.resolve();
+        const secondResult = gate.run(second);
+        expect(second).not.toHaveBeenCalled();
+
+        await expect(Promise.all([firstResult, secondResult])).resolves.toEqual(['first', 'second']);
+        expect(callbacks.onPause).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop heartbeats and reject held calls when aborted', async () => {
+        const callbacks = makeCallbacks();
+        const controller = new AbortController();
+        const gate = new RateLimitGate(callbacks, { heartbeatIntervalMs: 5, signal: controller.signal });
+        const resetAt = Math.floor(Date.now() / 1000) + 3600;
+
+        const result = gate.run(jest.fn().mockRejectedValue(new GitHubRateLimitError('Failed', 403, url, resetAt)));
+        await new Promise(resolve => setTimeout(resolve, 12));
+        controller.abort(new Error('client went away'));
+
+        await expect(result).rejects.toThrow('client went away');
+        const heartbeats = callbacks.onHeartbeat.mock.calls.length;
+        await new Promise(resolve => setTimeout(resolve, 12));
+        expect(callbacks.onHeartbeat).toHaveBeenCalledTimes(heartbeats);
+        expect(callbacks.onResume).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,73 @@
+import { GitHubNotFoundError, GitHubRateLimitError, GitHubSecondaryRateLimitError, GitHubServerError } from '../github-errors';
+import { DEFAULT_RETRY_POLICY, getRetryDelay, sleep } from '../retry';
+
+const url = 'https://api.github.com/repos/owner/repo';
+
+describe('getRetryDelay', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should back off exponentially with full jitter on server errors', () => {
+        jest.spyOn(Math, 'random').mockReturnValue(0.5);
+        const error = new GitHubServerError('Failed', 502, url);
+
+        expect(getRetryDelay(error, 1, DEFAULT_RETRY_POLICY)).toBe(250);
+        expect(getRetryDelay(error, 2, DEFAULT_RETRY_POLICY)).toBe(500);
+        expect(getRetryDelay(error, 3, DEFAULT_RETRY_POLICY)).toBe(1000);
+    });
+
+    it('should retry network failures', () => {
+        expect(getRetryDelay(new TypeError('fetch failed'), 1, DEFAULT_RETRY_POLICY)).not.toBeNull();
+    });
+
+    it('should stop once the retry budget is spent', () => {
+        const error = new GitHubServerError('Failed', 502, url);
+
+        expect(getRetryDelay(error, DEFAULT_RETRY_POLICY.maxRetries + 1, DEFAULT_RETRY_POLICY)).toBeNull();
+    });
+
+    it('should honor Retry-After on secondary rate limits', () => {
+        const error = new GitHubSecondaryRateLimitError('Failed', 403, url, 12);
+
+        expect(getRetryDelay(error, 1, DEFAULT_RETRY_POLICY)).toBe(12_000);
+    });
+
+    it('should wait a minute on secondary rate limits without Retry-After', () => {
+        const error = new GitHubSecondaryRateLimitError('Failed', 403, url, null);
+
+        expect(getRetryDelay(error, 1, DEFAULT_RETRY_POLICY)).toBe(60_000);
+        expect(getRetryDelay(error, 2, DEFAULT_RETRY_POLICY)).toBeNull();
+    });
+
+    it('should wait for X-RateLimit-Reset when it is close enough', () => {
+        jest.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+
+        expect(getRetryDelay(new GitHubRateLimitError('Failed', 403, url, 1_700_000_030), 1, DEFAULT_RETRY_POLICY)).toBe(30_000);
+        expect(getRetryDelay(new GitHubRateLimitError('Failed', 403, url, 1_700_003_600), 1, DEFAULT_RETRY_POLICY)).toBeNull();
+        expect(getRetryDelay(new GitHubRateLimitError('Failed', 403, url, null), 1, DEFAULT_RETRY_POLICY)).toBeNull();
+    });
+
+    it('should not retry other errors', () => {
+        expect(getRetryDelay(new GitHubNotFoundError('Failed', 404, url), 1, DEFAULT_RETRY_POLICY)).toBeNull();
+        expect(getRetryDelay(new Error('boom'), 1, DEFAULT_RETRY_POLICY)).toBeNull();
+    });
+});
+
+describe('sleep', () => {
+    it('should resolve after the delay', async () => {
+        await expect(sleep(1)).resolves.toBeUndefined();
+    });
+
+    it('should reject with the abort reason when aborted', async () => {
+        const controller = new AbortController();
+        const waiting = sleep(10_000, controller.signal);
+        controller.abort(new Error('cancelled'));
+
+        await expect(waiting).rejects.toThrow('cancelled');
+    });
+
+    it('should reject immediately if already aborted', async () => {
+        await expect(sleep(10_000, AbortSignal.abort(new Error('cancelled')))).rejects.toThrow('cancelled');
+    });
+});
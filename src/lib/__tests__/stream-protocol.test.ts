@@ -0,0 +1,41 @@
+import { parseStreamEvent, serializeStreamEvent, StreamEvent } from '../stream-protocol';
+
+describe('serializeStreamEvent', () => {
+    it('should encode an event as a single NDJSON line', () => {
+        const line = serializeStreamEvent({ type: 'error', message: 'Not found' });
+
+        expect(line).toBe('{"type":"error","message":"Not found"}\n');
+    });
+
+    it('should throw when an event does not match the protocol', () => {
+        const event = { type: 'complete', total_files: 3 } as unknown as StreamEvent;
+
+        expect(() => serializeStreamEvent(event)).toThrow();
+    });
+});
+
+describe('parseStreamEvent', () => {
+    it('should round-trip every serialized event', () => {
+        const events: StreamEvent[] = [
+            { type: 'file', path: 'src/index.ts', mode: '100644', sha: 'abc', size: 12, url: 'https://api.github.com/x', kind: 'file' },
+            { type: 'status', message: 'Working', files_processed: 1 },
+            { type: 'progress', dirs_discovered: 2, dirs_completed: 1, dirs_failed: 0, files_emitted: 1, bytes_emitted: 12 },
+            { type: 'complete', total_files: 1, total_directories: 1, excluded_entries: 2 },
+            { type: 'branch', name: 'v1.0', kind: 'tag', commit_sha: 'def', path: '', side: 'base' },
+            { type: 'diff', status: 'renamed', path: 'src/new.ts', previous_path: 'src/old.ts', size: 12, previous_size: 12 },
+            { type: 'diff_complete', added: 0, removed: 0, modified: 0, renamed: 1, unchanged: 3, size_delta: 0 },
+        ];
+
+        for (const event of events) {
+            expect(parseStreamEvent(serializeStreamEvent(event).trim())).toEqual(event);
+        }
+    });
+
+    it('should reject unknown event types', () => {
+        expect(() => parseStreamEvent('{"type":"unknown"}')).toThrow();
+    });
+
+    it('should reject file events with an empty path', () => {
+        expect(() => parseStreamEvent('{"type":"file","path":"","mode":"100644","sha":"abc","size":1}')).toThrow();
+    });
+});
@@ -0,0 +1,65 @@
+import { diffTrees, summarizeTreeDiff } from '../tree-diff';
+import { FileEvent } from '../stream-protocol';
+
+const file = (path: string, sha: string, size: number): FileEvent => ({ type: 'file', path, mode: '100644', sha, size, kind: 'file' });
+
+describe('diffTrees', () => {
+    it('should report added, removed and modified files and count unchanged ones', () => {
+        const diff = diffTrees(
+            [file('README.md', 'a', 10), file('src/old.ts', 'b', 20), file('src/index.ts', 'c', 30)],
+            [file('README.md', 'a', 10), file('src/index.ts', 'c2', 45), file('src/new.ts', 'd', 5)],
+        );
+
+        expect(diff.unchanged).toBe(1);
+        expect(diff.entries).toEqual([
+            { type: 'diff', status: 'modified', path: 'src/index.ts', size: 45, previous_size: 30 },
+            { type: 'diff', status: 'added', path: 'src/new.ts', size: 5, previous_size: 0 },
+            { type: 'diff', status: 'removed', path: 'src/old.ts', size: 0, previous_size: 20 },
+        ]);
+    });
+
+    it('should report a file that moved without changing as renamed', () => {
+        const diff = diffTrees([file('lib/util.ts', 'a', 10)], [file('src/util.ts', 'a', 10)]);
+
+        expect(diff.entries).toEqual([
+            { type: 'diff', status: 'renamed', path: 'src/util.ts', previous_path: 'lib/util.ts', size: 10, previous_size: 10 },
+        ]);
+    });
+
+    it('should pair moved copies of the same content by file name', () => {
+        const diff = diffTrees(
+            [file('a/.gitkeep', 'empty', 0), file('a/index.ts', 'empty', 0)],
+            [file('b/index.ts', 'empty', 0), file('b/.gitkeep', 'empty', 0)],
+        );
+
+        expect(diff.entries.map(entry => [entry.previous_path, entry.path])).toEqual([
+            ['a/.gitkeep', 'b/.gitkeep'],
+            ['a/index.ts', 'b/index.ts'],
+        ]);
+    });
+
+    it('should report a file that moved and changed as removed and added', () => {
+        const diff = diffTrees([file('old.ts', 'a', 10)], [file('new.ts', 'b', 12)]);
+
+        expect(diff.entries.map(entry => entry.status)).toEqual(['added', 'removed']);
+    });
+});
+
+describe('summarizeTreeDiff', () => {
+    it('should count every change and total the size delta', () => {
+        const summary = summarizeTreeDiff(diffTrees(
+            [file('a.ts', 'a', 10), file('b.ts', 'b', 20), file('c.ts', 'c', 5)],
+            [file('a.ts', 'a2', 15), file('d.ts', 'c', 5), file('e.ts', 'e', 7)],
+        ));
+
+        expect(summary).toEqual({
+            type: 'diff_complete',
+            added: 1,
+            removed: 1,
+            modified: 1,
+            renamed: 1,
+            unchanged: 0,
+            size_delta: -8,
+        });
+    });
+});
@@ -0,0 +1,138 @@
+import { WorkerPool, WorkerPoolEvent } from '../worker-pool';
+
+const collect = async <T, R>(pool: WorkerPool<T, R>): Promise<WorkerPoolEvent<T, R>[]> => {
+    const events: WorkerPoolEvent<T, R>[] = [];
+    for await (const event of pool.run()) {
+        events.push(event);
+    }
+    return events;
+};
+
+describe('WorkerPool', () => {
+    it('should throw error if concurrency is not a positive integer', () => {
+        expect(() => new WorkerPool(async () => null, { concurrency: 0 })).toThrow('positive integer');
+        expect(() => new WorkerPool(async () => null, { concurrency: 1.5 })).toThrow('positive integer');
+    });
+
+    it('should never run more tasks than the concurrency limit', async () => {
+        let running = 0;
+        let maxRunning = 0;
+        const pool = new WorkerPool(async (task: number) => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            running--;
+            return task * 2;
+        }, { concurrency: 3 });
+        pool.push(1, 2, 3, 4, 5, 6, 7);
+
+        const events = await collect(pool);
+
+        expect(maxRunning).toBe(3);
+        expect(events).toHaveLength(7);
+        expect(events.every(event => event.type === 'fulfilled')).toBe(true);
+    });
+
+    it('should yield results in completion order', async () => {
+        const pool = new WorkerPool(async (delay: number) => {
+            await new Promise(resolve => setTimeout(resolve, delay));
+            return delay;
+        }, { concurrency: 2 });
+        pool.push(30, 5);
+
+        const events = await collect(pool);
+
+        expect(events.map(event => event.task)).toEqual([5, 30]);
+    });
+
+    it('should run tasks pushed while results are consumed', async () => {
+        const pool = new WorkerPool(async (depth: number) => depth, { concurrency: 2 });
+        pool.push(0);
+
+        const seen: number[] = [];
+        for await (const event of pool.run()) {
+            seen.push(event.task);
+            if (event.task < 2) {
+                pool.push(event.task + 1, event.task + 1);
+            }
+        }
+
+        expect(seen.sort()).toEqual([0, 1, 1, 2, 2, 2, 2]);
+    });
+
+    it('should report failed tasks without stopping the pool', async () => {
+        const pool = new WorkerPool(async (task: number) => {
+            if (task === 2) throw new Error('boom');
+            return task;
+        }, { concurrency: 2 });
+        pool.push(1, 2, 3);
+
+        const events = await collect(pool);
+
+        const rejected = events.filter(event => event.type === 'rejected');
+        expect(rejected).toHaveLength(1);
+        expect(rejected[0]).toMatchObject({ task: 2, error: new Error('boom') });
+        expect(events.filter(event => event.type === 'fulfilled')).toHaveLength(2);
+    });
+
+    it('should halve its concurrency and retry throttled tasks', async () => {
+        let attempts = 0;
+        const pool = new WorkerPool(async (task: string) => {
+            attempts++;
+            if (attempts === 1) throw new Error('slow down');
+            return task;
+        }, {
+            concurrency: 4,
+            getBackoffDelay: (error) => error instanceof Error && error.message === 'slow down' ? 5 : null,
+        });
+        pool.push('a');
+
+        const events = await collect(pool);
+
+        expect(events).toEqual([
+            { type: 'throttled', task: 'a', error: new Error('slow down'), delayMs: 5, concurrency: 2 },
+            { type: 'fulfilled', task: 'a', value: 'a' },
+        ]);
+    });
+
+    it('should give up on a task once its throttle retries are spent', async () => {
+        const pool = new WorkerPool(async () => {
+            throw new Error('slow down');
+        }, { concurrency: 1, getBackoffDelay: () => 1, maxThrottleRetries: 2 });
+        pool.push('a');
+
+        const events = await collect(pool);
+
+        expect(events.map(event => event.type)).toEqual(['throttled', 'throttled', 'rejected']);
+    });
+
+    it('should grow its concurrency back after a round of successes', async () => {
+        let attempts = 0;
+        const pool = new WorkerPool(async (task: number) => {
+            attempts++;
+            if (attempts === 1) throw new Error('slow down');
+            return task;
+        }, { concurrency: 2, getBackoffDelay: () => 1 });
+        pool.push(1, 2, 3);
+
+        await collect(pool);
+
+        expect(pool.currentConcurrency).toBe(2);
+    });
+
+    it('should stop dispatching once aborted', async () => {
+        const controller = new AbortController();
+        const worker = jest.fn(async (task: number) => task);
+        const pool = new WorkerPool(worker, { concurrency: 1, signal: controller.signal });
+        pool.push(1, 2, 3);
+
+        const seen: number[] = [];
+        for await (const event of pool.run()) {
+            seen.push(event.task);
+            controller.abort();
+        }
+
+        expect(seen).toEqual([1]);
+        expect(worker).toHaveBeenCalledTimes(1);
+    });
+});
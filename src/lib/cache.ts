@@ -0,0 +1,162 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+
+/**
+ * An asynchronous key-value store, implemented by every cache layer.
+ */
+export interface CacheStore<V> {
+    get(key: string): Promise<V | undefined>;
+    set(key: string, value: V): Promise<void>;
+}
+
+export interface LruCacheOptions<V> {
+    /** The total weight the cache may hold before evicting its least recently used entries. */
+    maxWeight: number;
+    /** Computes the weight of a value; every value weighs 1 by default. */
+    weigh?: (value: V) => number;
+}
+
+/**
+ * An in-memory least-recently-used cache bounded by the total weight of its values.
+ */
+export class LruCache<V> {
+    private readonly entries = new Map<string, { value: V; weight: number }>();
+    private totalWeight = 0;
+
+    /**
+     * Creates an instance of LruCache.
+     * @param {LruCacheOptions<V>} options - The weight limit and weighing function.
+     */
+    constructor(private readonly options: LruCacheOptions<V>) {}
+
+    /**
+     * The number of cached entries.
+     */
+    get size(): number {
+        return this.entries.size;
+    }
+
+    /**
+     * Returns a cached value and marks it as the most recently used.
+     * @param {string} key - The cache key.
+     * @returns {V | undefined} The cached value, if any.
+     */
+    get(key: string): V | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return entry.value;
+    }
+
+    /**
+     * Stores a value, evicting the least recently used entries if the cache grows too heavy.
+     * Values heavier than the whole cache are not stored.
+     * @param {string} key - The cache key.
+     * @param {V} value - The value to store.
+     */
+    set(key: string, value: V): void {
+        const weight = this.options.weigh?.(value) ?? 1;
+        this.delete(key);
+        if (weight > this.options.maxWeight) {
+            return;
+        }
+
+        this.entries.set(key, { value, weight });
+        this.totalWeight += weight;
+        for (const oldestKey of this.entries.keys()) {
+            if (this.totalWeight <= this.options.maxWeight) {
+                break;
+            }
+            this.delete(oldestKey);
+        }
+    }
+
+    /**
+     * Removes a value from the cache.
+     * @param {string} key - The cache key.
+     */
+    delete(key: string): void {
+        const entry = this.entries.get(key);
+        if (entry) {
+            this.totalWeight -= entry.weight;
+            this.entries.delete(key);
+        }
+    }
+}
+
+/**
+ * A cache that stores each value as a JSON file in a directory, so it survives server restarts.
+ * Read and write failures are logged and treated as cache misses.
+ */
+export class DiskCache<V> implements CacheStore<V> {
+    /**
+     * Creates an instance of DiskCache.
+     * @param {string} directory - The directory holding the cache files; it is created on first write.
+     */
+    constructor(private readonly directory: string) {}
+
+    async get(key: string): Promise<V | undefined> {
+        try {
+            return JSON.parse(await readFile(this.fileFor(key), "utf8")) as V;
+        } catch (e: unknown) {
+            if ((e as NodeJS.ErrnoException).code !== "ENOENT") {
+                console.error("Failed to read cache entry:", key, e);
+            }
+            return undefined;
+        }
+    }
+
+    async set(key: string, value: V): Promise<void> {
+        const file = this.fileFor(key);
+        const tempFile = `${file}.${process.pid}.${Date.now()}.tmp`;
+        try {
+            await mkdir(this.directory, { recursive: true });
+            await writeFile(tempFile, JSON.stringify(value), "utf8");
+            await rename(tempFile, file);
+        } catch (e: unknown) {
+            console.error("Failed to write cache entry:", key, e);
+        }
+    }
+
+    /**
+     * Maps a cache key to a file name that is safe on every file system.
+     * @param {string} key - The cache key.
+     * @returns {string} The path of the cache file.
+     */
+    private fileFor(key: string): string {
+        return path.join(this.directory, `${key.replace(/[^a-zA-Z0-9_-]/g, "_")}.json`);
+    }
+}
+
+/**
+ * A cache that checks a fast in-memory LRU first and falls back to an optional slower store,
+ * promoting values found there into memory.
+ */
+export class TieredCache<V> implements CacheStore<V> {
+    /**
+     * Creates an instance of TieredCache.
+     * @param {LruCache<V>} memory - The in-memory layer.
+     * @param {CacheStore<V>} fallback - The optional persistent layer.
+     */
+    constructor(private readonly memory: LruCache<V>, private readonly fallback?: CacheStore<V>) {}
+
+    async get(key: string): Promise<V | undefined> {
+        const value = this.memory.get(key);
+        if (value !== undefined || !this.fallback) {
+            return value;
+        }
+        const storedValue = await this.fallback.get(key);
+        if (storedValue !== undefined) {
+            this.memory.set(key, storedValue);
+        }
+        return storedValue;
+    }
+
+    async set(key: string, value: V): Promise<void> {
+        this.memory.set(key, value);
+        await this.fallback?.set(key, value);
+    }
+}
@@ -0,0 +1,276 @@
+import { RE2 } from "re2-wasm";
+import { CacheStore } from "./cache";
+import { EventChannel } from "./event-channel";
+import { GitHubClient } from "./github";
+import { describeGitHubError, GitHubSecondaryRateLimitError } from "./github-errors";
+import { escapeRegExp } from "./path-glob";
+import { RateLimitGate } from "./rate-limit-gate";
+import { RetryInfo } from "./retry";
+import { FileEvent, SearchMatch, StreamEvent } from "./stream-protocol";
+import { crawlRepositoryTree, CrawlOptions } from "./tree-crawler";
+import { WorkerPool } from "./worker-pool";
+
+// Larger files are mostly generated or data; skipping them keeps the index small.
+export const MAX_SEARCH_FILE_SIZE = 1_000_000;
+// Every searched file costs a blob request the first time, so huge repositories are only partly searched.
+export const MAX_SEARCH_FILES = 2_000;
+export const MAX_SEARCH_MATCHES = 1_000;
+// Minified files have very long lines; only their start is sent.
+const MAX_LINE_LENGTH = 500;
+
+/**
+ * The searchable form of a blob, cached by blob SHA so that later searches of any ref reuse it.
+ */
+export interface IndexedBlob {
+    /** The blob size in bytes. */
+    size: number;
+    /** The lines of the blob, without line terminators; null for binary blobs. */
+    lines: string[] | null;
+}
+
+export type SearchIndex = CacheStore<IndexedBlob>;
+
+export interface ContentSearch {
+    /** The pattern to look for, as built by `compileSearchPattern`. */
+    pattern: RE2;
+    /** Decides which files are searched. */
+    pathFilter: (path: string) => boolean;
+    /** How many lines to send before and after each matching line. */
+    contextLines: number;
+}
+
+/**
+ * Builds the regular expression of a search query.
+ * Queries come from users and run on the server, so they are compiled with RE2, which matches in linear time:
+ * a pattern such as `(a+)+$` cannot backtrack for ever. RE2 has no lookarounds or backreferences.
+ * @param {string} query - The text or regular expression to look for.
+ * @param {object} options - Whether the query is a regular expression and whether case matters.
+ * @returns {RE2} A global regular expression.
+ * @throws {SyntaxError} If the query is not a valid regular expression or uses syntax RE2 does not support.
+ */
+export function compileSearchPattern(query: string, { regex, caseSensitive }: { regex: boolean; caseSensitive: boolean }): RE2 {
+    return new RE2(regex ? query : escapeRegExp(query), caseSensitive ? "gu" : "giu");
+}
+
+/**
+ * Splits the text of a blob into lines; a trailing line terminator does not start another line.
+ * @param {string} text - The text.
+ * @returns {string[]} The lines.
+ */
+export function splitLines(text: string): string[] {
+    const lines = text.split(/\r\n|\r|\n/);
+    if (lines.length > 1 && lines[lines.length - 1] === "") {
+        lines.pop();
+    }
+    return lines;
+}
+
+/**
+ * Finds the lines that match a pattern. Empty matches, e.g. of `^`, are ignored.
+ * @param {string[]} lines - The lines to search.
+ * @param {RE2} pattern - A global regular expression, as built by `compileSearchPattern`.
+ * @param {number} contextLines - How many lines to include before and after each matching line.
+ * @param {number} maxMatches - The number of matching lines after which to stop.
+ * @returns {SearchMatch[]} The matching lines, in order, with their context and match offsets.
+ */
+export function searchLines(lines: string[], pattern: RE2, contextLines: number, maxMatches: number): SearchMatch[] {
+    const matches: SearchMatch[] = [];
+    const clip = (line: string) => line.slice(0, MAX_LINE_LENGTH);
+
+    for (let index = 0; index < lines.length && matches.length < maxMatches; index++) {
+        const ranges: [number, number][] = [];
+        pattern.lastIndex = 0;
+        for (let match = pattern.exec(lines[index]); match; match = pattern.exec(lines[index])) {
+            const length = match[0]?.length ?? 0;
+            if (length === 0) {
+                // Step past an empty match, as `matchAll` does, or it would be found again.
+                pattern.lastIndex++;
+            } else if (match.index < MAX_LINE_LENGTH) {
+                ranges.push([match.index, Math.min(match.index + length, MAX_LINE_LENGTH)]);
+            }
+        }
+        if (ranges.length === 0) {
+            continue;
+        }
+        matches.push({
+            line: index + 1,
+            text: clip(lines[index]),
+            ranges,
+            before: lines.slice(Math.max(0, index - contextLines), index).map(clip),
+            after: lines.slice(index + 1, index + 1 + contextLines).map(clip),
+        });
+    }
+    return matches;
+}
+
+/**
+ * Decides whether a streamed file can be searched; LFS objects and symlinks have no text of their own in the repository.
+ * @param {FileEvent} file - The file.
+ * @returns {boolean} Whether the file is worth fetching.
+ */
+function isSearchable(file: FileEvent): boolean {
+    return file.kind !== "symlink" && !file.lfs && file.size <= MAX_SEARCH_FILE_SIZE;
+}
+
+/**
+ * Crawls the tree of a ref and searches the content of its files, yielding the matches file by file.
+ * The crawl's own events are passed through, except for files and submodules. Files are then fetched
+ * with bounded concurrency, or read from the search index if their blob was searched before, and
+ * results are sent in the order the files finish. The search stops once `MAX_SEARCH_MATCHES` lines matched.
+ * @param {GitHubClient} githubClient - The GitHub client to use.
+ * @param {SearchIndex} index - The cache of searchable blobs.
+ * @param {string} owner - The owner of the repository.
+ * @param {string} repo - The repository name.
+ * @param {string} refAndPath - The branch, tag or commit SHA to search, optionally followed by the directory to search.
+ * @param {ContentSearch} search - The pattern, path filter and context size.
+ * @param {CrawlOptions} options - The crawl concurrency and abort signal.
+ * @returns {AsyncGenerator<StreamEvent, void, unknown>} The stream events, ending with `search_complete` or `error`
+ * unless the signal is aborted.
+ */
+export async function* searchRepositoryContent(
+    githubClient: GitHubClient,
+    index: SearchIndex,
+    owner: string,
+    repo: string,
+    refAndPath: string,
+    search: ContentSearch,
+    options: CrawlOptions,
+): AsyncGenerator<StreamEvent, void, unknown> {
+    const { concurrency, signal } = options;
+    const files: FileEvent[] = [];
+    let completed = false;
+
+    for await (const event of crawlRepositoryTree(githubClient, owner, repo, refAndPath, options)) {
+        switch (event.type) {
+            case "file":
+                files.push(event);
+                break;
+            case "error":
+                yield event;
+                return;
+            case "complete":
+                completed = true;
+                break;
+            // Submodules belong to other repositories and are not searched.
+            case "submodule":
+                break;
+            default:
+                yield event;
+        }
+    }
+    if (!completed) {
+        return;
+    }
+
+    const candidates = files.filter(file => search.pathFilter(file.path));
+    const searchable = candidates.filter(isSearchable);
+    const searched = searchable.slice(0, MAX_SEARCH_FILES);
+    let filesSkipped = candidates.length - searched.length;
+    let filesSearched = 0;
+    let filesMatched = 0;
+    let matchCount = 0;
+    let truncated = false;
+
+    if (searchable.length > searched.length) {
+        yield {
+            type: "warning",
+            message: `Only the first ${MAX_SEARCH_FILES} of ${searchable.length} files are searched. Narrow the search with a path filter.`,
+        };
+    }
+    yield { type: "status", message: `Searching ${searched.length} files...` };
+
+    const sideEvents = new EventChannel<StreamEvent>();
+    const rateLimitGate = new RateLimitGate({
+        onPause: (resetAt) => sideEvents.push({
+            type: "rate_limited",
+            message: `GitHub API rate limit exhausted. Pausing until ${new Date(resetAt * 1000).toISOString()}`,
+            reset_at: resetAt,
+        }),
+        onHeartbeat: () => sideEvents.push({ type: "heartbeat" }),
+        onResume: () => sideEvents.push({ type: "status", message: "GitHub API rate limit reset. Resuming..." }),
+    }, { signal });
+
+    const indexBlob = async (file: FileEvent): Promise<IndexedBlob> => {
+        const cached = await index.get(file.sha);
+        if (cached) {
+            return cached;
+        }
+        const blob = await rateLimitGate.run(() => githubClient.getBlob(owner, repo, file.sha, {
+            signal,
+            maxSize: MAX_SEARCH_FILE_SIZE,
+            size: file.size,
+            onRetry: (info: RetryInfo) => sideEvents.push({
+                type: "retry",
+                message: `Request for file ${file.path} failed (${info.reason}). Retrying in ${Math.ceil(info.delayMs / 1000)}s (attempt ${info.attempt} of ${info.maxRetries})`,
+                attempt: info.attempt,
+                max_retries: info.maxRetries,
+                delay_ms: info.delayMs,
+            }),
+        }));
+        const indexed: IndexedBlob = {
+            size: blob.size,
+            lines: blob.content && !blob.binary ? splitLines(blob.content.toString("utf8")) : null,
+        };
+        await index.set(file.sha, indexed);
+        return indexed;
+    };
+
+    const pool = new WorkerPool<FileEvent, IndexedBlob>(indexBlob, {
+        concurrency,
+        getBackoffDelay: (error) => error instanceof GitHubSecondaryRateLimitError ? (error.retryAfterSeconds ?? 60) * 1000 : null,
+        signal,
+    });
+    pool.push(...searched);
+
+    let failedFiles = 0;
+    const poolEvents = pool.run();
+    while (true) {
+        const next = yield* sideEvents.until(poolEvents.next());
+        if (next.done) {
+            break;
+        }
+        const event = next.value;
+        if (event.type === "throttled") {
+            continue;
+        }
+        if (event.type === "rejected") {
+            console.error(`Error searching ${event.task.path}: ${describeGitHubError(event.error).message}`);
+            failedFiles++;
+            filesSkipped++;
+            continue;
+        }
+        if (!event.value.lines) {
+            filesSkipped++;
+            continue;
+        }
+
+        filesSearched++;
+        const matches = searchLines(event.value.lines, search.pattern, search.contextLines, MAX_SEARCH_MATCHES - matchCount);
+        if (matches.length > 0) {
+            filesMatched++;
+            matchCount += matches.length;
+            yield { type: "search_result", path: event.task.path, sha: event.task.sha, matches };
+        }
+        if (matchCount >= MAX_SEARCH_MATCHES) {
+            truncated = true;
+            // Stops dispatching; the few requests still in flight are left to finish on their own.
+            await poolEvents.return();
+            break;
+        }
+    }
+    if (signal.aborted) {
+        return;
+    }
+
+    if (failedFiles > 0) {
+        yield { type: "warning", message: `${failedFiles} files could not be fetched and were not searched` };
+    }
+    yield {
+        type: "search_complete",
+        files_searched: filesSearched,
+        files_matched: filesMatched,
+        matches: matchCount,
+        files_skipped: filesSkipped,
+        truncated,
+    };
+}
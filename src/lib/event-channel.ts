@@ -0,0 +1,58 @@
+/**
+ * A queue of events produced by callbacks, such as retry notifications, that an async generator
+ * can flush while it is waiting on something else.
+ */
+export class EventChannel<T> {
+    private items: T[] = [];
+    private waiters: (() => void)[] = [];
+
+    /**
+     * Queues an event and wakes up anyone waiting for one.
+     * @param {T} item - The event to queue.
+     */
+    push(item: T): void {
+        this.items.push(item);
+        const waiters = this.waiters;
+        this.waiters = [];
+        waiters.forEach(wake => wake());
+    }
+
+    /**
+     * Removes and returns every queued event.
+     * @returns {T[]} The queued events, oldest first.
+     */
+    drain(): T[] {
+        const items = this.items;
+        this.items = [];
+        return items;
+    }
+
+    /**
+     * Resolves once at least one event is queued.
+     * @returns {Promise<void>} A promise that resolves when an event is available.
+     */
+    wait(): Promise<void> {
+        if (this.items.length > 0) {
+            return Promise.resolve();
+        }
+        return new Promise(resolve => this.waiters.push(resolve));
+    }
+
+    /**
+     * Yields the channel's events as they arrive until the given promise settles, then returns its value.
+     * Events queued before the promise settles are always yielded before it returns or throws.
+     * @param {Promise<R>} promise - The promise to wait for.
+     * @returns {AsyncGenerator<T, R, unknown>} The events, followed by the promise's value as the return value.
+     */
+    async *until<R>(promise: Promise<R>): AsyncGenerator<T, R, unknown> {
+        let settled = false;
+        const done = promise.then(() => { settled = true; }, () => { settled = true; });
+
+        while (!settled) {
+            yield* this.drain();
+            await Promise.race([done, this.wait()]);
+        }
+        yield* this.drain();
+        return promise;
+    }
+}
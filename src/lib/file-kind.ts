@@ -0,0 +1,82 @@
+import { isUtf8 } from "buffer";
+
+export type FileKind = "file" | "executable" | "symlink";
+
+export interface LfsPointer {
+    /** The SHA-256 of the object stored in Git LFS. */
+    oid: string;
+    /** The size of the object stored in Git LFS, in bytes. */
+    size: number;
+}
+
+// A spec v1 pointer with the mandatory keys only is 126 bytes plus the digits of the size; extensions add more.
+export const LFS_POINTER_MIN_SIZE = 126;
+export const LFS_POINTER_MAX_SIZE = 200;
+
+const LFS_VERSION_PATTERN = /^version https:\/\/(?:git-lfs|hawser)\.github\.com\/spec\/v1$/;
+const LFS_OID_PATTERN = /^oid sha256:([0-9a-f]{64})$/;
+const LFS_SIZE_PATTERN = /^size (\d+)$/;
+
+/**
+ * Classifies a tree entry by its git file mode.
+ * @param {string} mode - The file mode of the blob, e.g. `100644`.
+ * @returns {FileKind} `symlink` for `120000`, `executable` for `100755`, `file` otherwise.
+ */
+export function getFileKind(mode: string): FileKind {
+    if (mode === "120000") {
+        return "symlink";
+    }
+    return mode === "100755" ? "executable" : "file";
+}
+
+/**
+ * Decides whether a blob is small enough to be a Git LFS pointer, so that its content is worth checking.
+ * @param {FileKind} kind - The kind of the blob.
+ * @param {number} size - The size of the blob in bytes.
+ * @returns {boolean} Whether the blob may be an LFS pointer.
+ */
+export function isLfsPointerCandidate(kind: FileKind, size: number): boolean {
+    return kind !== "symlink" && size >= LFS_POINTER_MIN_SIZE && size <= LFS_POINTER_MAX_SIZE;
+}
+
+/**
+ * Parses the content of a Git LFS pointer file.
+ * @param {string} content - The content of the blob.
+ * @returns {LfsPointer | null} The object the pointer refers to, or null if the content is not a pointer.
+ */
+export function parseLfsPointer(content: string): LfsPointer | null {
+    const lines = content.split("\n").filter(Boolean);
+    if (!LFS_VERSION_PATTERN.test(lines[0] ?? "")) {
+        return null;
+    }
+
+    let oid: string | null = null;
+    let size: number | null = null;
+    for (const line of lines.slice(1)) {
+        const oidMatch = LFS_OID_PATTERN.exec(line);
+        const sizeMatch = LFS_SIZE_PATTERN.exec(line);
+        if (oidMatch) {
+            oid = oidMatch[1];
+        } else if (sizeMatch) {
+            size = Number(sizeMatch[1]);
+        } else if (!/^ext-\d+-\w+ sha256:[0-9a-f]{64}$/.test(line)) {
+            return null;
+        }
+    }
+    return oid !== null && size !== null ? { oid, size } : null;
+}
+
+// Git treats a blob as binary when a NUL byte shows up in its first 8000 bytes.
+const BINARY_SNIFF_LENGTH = 8000;
+
+/**
+ * Decides whether blob content is binary data rather than text.
+ * @param {Uint8Array} content - The bytes of the blob.
+ * @returns {boolean} Whether the content has a NUL byte near its start or is not valid UTF-8.
+ */
+export function isBinaryContent(content: Uint8Array): boolean {
+    if (content.subarray(0, BINARY_SNIFF_LENGTH).includes(0)) {
+        return true;
+    }
+    return !isUtf8(content);
+}
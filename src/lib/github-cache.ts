@@ -0,0 +1,46 @@
+import { env } from "../env";
+import { DiskCache, LruCache, TieredCache } from "./cache";
+import { IndexedBlob, SearchIndex } from "./content-search";
+import { ConditionalCacheEntry, GitHubBlob, GitHubClientOptions, GitHubTreeData } from "./github";
+
+const ETAG_CACHE_MAX_ENTRIES = 1_000;
+
+let sharedCacheOptions: Pick<GitHubClientOptions, "treeCache" | "blobCache" | "etagCache"> | undefined;
+let sharedSearchIndex: SearchIndex | undefined;
+
+/**
+ * Returns the response caches shared by every GitHubClient of this server process.
+ * The tree cache keeps up to `GITHUB_TREE_CACHE_MAX_ITEMS` tree entries in memory and, when
+ * `GITHUB_TREE_CACHE_DIR` is set, also persists listings to that directory. Blobs are only kept in memory,
+ * up to `GITHUB_BLOB_CACHE_MAX_BYTES` of content.
+ * @returns {Pick<GitHubClientOptions, "treeCache" | "blobCache" | "etagCache">} The client options holding the shared caches.
+ */
+export function getSharedCacheOptions(): Pick<GitHubClientOptions, "treeCache" | "blobCache" | "etagCache"> {
+    if (!sharedCacheOptions) {
+        sharedCacheOptions = {
+            treeCache: new TieredCache(
+                new LruCache<GitHubTreeData>({ maxWeight: env.GITHUB_TREE_CACHE_MAX_ITEMS, weigh: tree => tree.tree.length + 1 }),
+                env.GITHUB_TREE_CACHE_DIR ? new DiskCache<GitHubTreeData>(env.GITHUB_TREE_CACHE_DIR) : undefined,
+            ),
+            blobCache: new TieredCache(
+                new LruCache<GitHubBlob>({ maxWeight: env.GITHUB_BLOB_CACHE_MAX_BYTES, weigh: blob => blob.size + 1 }),
+            ),
+            etagCache: new LruCache<ConditionalCacheEntry>({ maxWeight: ETAG_CACHE_MAX_ENTRIES }),
+        };
+    }
+    return sharedCacheOptions;
+}
+
+/**
+ * Returns the content search index shared by every search of this server process.
+ * It keeps the lines of up to `SEARCH_INDEX_MAX_BYTES` of searched blobs in memory, keyed by blob SHA.
+ * @returns {SearchIndex} The shared search index.
+ */
+export function getSharedSearchIndex(): SearchIndex {
+    if (!sharedSearchIndex) {
+        sharedSearchIndex = new TieredCache(
+            new LruCache<IndexedBlob>({ maxWeight: env.SEARCH_INDEX_MAX_BYTES, weigh: blob => blob.size + 1 }),
+        );
+    }
+    return sharedSearchIndex;
+}
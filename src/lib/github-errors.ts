@@ -0,0 +1,200 @@
+/**
+ * Base class for every error caused by a failed GitHub API response.
+ */
+export class GitHubApiError extends Error {
+    /**
+     * Creates an instance of GitHubApiError.
+     * @param {string} message - The error message.
+     * @param {number} status - The HTTP status GitHub responded with.
+     * @param {string} url - The URL of the failed request.
+     */
+    constructor(message: string, readonly status: number, readonly url: string) {
+        super(message);
+        this.name = "GitHubApiError";
+    }
+}
+
+/**
+ * Thrown when GitHub responds with 404, e.g. for a missing repository, branch or tree.
+ */
+export class GitHubNotFoundError extends GitHubApiError {
+    constructor(message: string, status: number, url: string) {
+        super(message, status, url);
+        this.name = "GitHubNotFoundError";
+    }
+}
+
+/**
+ * Thrown when GitHub rejects the access token.
+ */
+export class GitHubUnauthorizedError extends GitHubApiError {
+    constructor(message: string, status: number, url: string) {
+        super(message, status, url);
+        this.name = "GitHubUnauthorizedError";
+    }
+}
+
+/**
+ * Thrown when the access token is valid but not allowed to access the resource.
+ */
+export class GitHubForbiddenError extends GitHubApiError {
+    constructor(message: string, status: number, url: string) {
+        super(message, status, url);
+        this.name = "GitHubForbiddenError";
+    }
+}
+
+/**
+ * Thrown when the primary rate limit of the access token is exhausted.
+ */
+export class GitHubRateLimitError extends GitHubApiError {
+    /**
+     * Creates an instance of GitHubRateLimitError.
+     * @param {string} message - The error message.
+     * @param {number} status - The HTTP status GitHub responded with.
+     * @param {string} url - The URL of the failed request.
+     * @param {number | null} resetAt - When the limit resets, as a Unix epoch in seconds, if known.
+     */
+    constructor(message: string, status: number, url: string, readonly resetAt: number | null) {
+        super(message, status, url);
+        this.name = "GitHubRateLimitError";
+    }
+}
+
+/**
+ * Thrown when GitHub rejects a request because of its secondary (abuse detection) rate limit.
+ */
+export class GitHubSecondaryRateLimitError extends GitHubRateLimitError {
+    /**
+     * Creates an instance of GitHubSecondaryRateLimitError.
+     * @param {string} message - The error message.
+     * @param {number} status - The HTTP status GitHub responded with.
+     * @param {string} url - The URL of the failed request.
+     * @param {number | null} retryAfterSeconds - The value of the `Retry-After` header, if GitHub sent one.
+     */
+    constructor(message: string, status: number, url: string, readonly retryAfterSeconds: number | null) {
+        super(message, status, url, retryAfterSeconds === null ? null : Math.ceil(Date.now() / 1000) + retryAfterSeconds);
+        this.name = "GitHubSecondaryRateLimitError";
+    }
+}
+
+/**
+ * Thrown when GitHub responds with a 5xx status.
+ */
+export class GitHubServerError extends GitHubApiError {
+    constructor(message: string, status: number, url: string) {
+        super(message, status, url);
+        this.name = "GitHubServerError";
+    }
+}
+
+/**
+ * Reads a positive number from a response header.
+ * @param {Response} response - The response to read from.
+ * @param {string} name - The header name.
+ * @returns {number | null} The header value, or null if it is missing or not a positive number.
+ */
+function readNumericHeader(response: Response, name: string): number | null {
+    const value = Number(response.headers.get(name) ?? NaN);
+    return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/**
+ * Builds the typed error matching a failed GitHub response.
+ * @param {Response} response - The failed response.
+ * @param {string} body - The response body.
+ * @param {string} url - The URL of the failed request.
+ * @param {string} context - A short description of the request, used as the message prefix.
+ * @returns {GitHubApiError} The error to throw.
+ */
+export function createGitHubApiError(response: Response, body: string, url: string, context: string): GitHubApiError {
+    const { status, statusText } = response;
+
+    let message = `${context}: ${status} ${statusText}`;
+    try {
+        const githubMessage = (JSON.parse(body) as { message?: unknown }).message;
+        if (typeof githubMessage === "string" && githubMessage) {
+            message = `${message} - ${githubMessage}`;
+        }
+    } catch {
+        // GitHub does not always answer errors with JSON; the status line is enough then.
+    }
+
+    if (status === 403 || status === 429) {
+        const retryAfter = readNumericHeader(response, "retry-after");
+        if (retryAfter !== null || /secondary rate limit/i.test(body)) {
+            return new GitHubSecondaryRateLimitError(message, status, url, retryAfter);
+        }
+        if (response.headers.get("x-ratelimit-remaining") === "0" || status === 429) {
+            return new GitHubRateLimitError(message, status, url, readNumericHeader(response, "x-ratelimit-reset"));
+        }
+    }
+
+    switch (status) {
+        case 401:
+            return new GitHubUnauthorizedError(message, status, url);
+        case 403:
+            return new GitHubForbiddenError(message, status, url);
+        case 404:
+            return new GitHubNotFoundError(message, status, url);
+        default:
+            return status >= 500 ?
+                new GitHubServerError(message, status, url) :
+                new GitHubApiError(message, status, url);
+    }
+}
+
+export interface GitHubErrorDescription {
+    status: number;
+    statusText: string;
+    message: string;
+    resetAt?: number;
+}
+
+/**
+ * Maps an error thrown by the GitHub client to the HTTP status and message our own API should answer with.
+ * @param {unknown} error - The caught error.
+ * @param {string} notFoundMessage - The message to use when GitHub responded with 404.
+ * @returns {GitHubErrorDescription} The status, status text and user-facing message.
+ */
+export function describeGitHubError(
+    error: unknown,
+    notFoundMessage = "The requested resource was not found on GitHub.",
+): GitHubErrorDescription {
+    if (error instanceof GitHubNotFoundError) {
+        return { status: 404, statusText: "NOT_FOUND", message: notFoundMessage };
+    }
+    if (error instanceof GitHubSecondaryRateLimitError) {
+        const wait = error.retryAfterSeconds === null ? "a minute" : `${error.retryAfterSeconds} seconds`;
+        return {
+            status: 429,
+            statusText: "TOO_MANY_REQUESTS",
+            message: `GitHub is throttling requests from this server. Please try again in ${wait}.`,
+            ...(error.resetAt === null ? {} : { resetAt: error.resetAt }),
+        };
+    }
+    if (error instanceof GitHubRateLimitError) {
+        return {
+            status: 429,
+            statusText: "TOO_MANY_REQUESTS",
+            message: error.resetAt === null ?
+                "GitHub API rate limit exceeded." :
+                `GitHub API rate limit exceeded. Please wait until ${new Date(error.resetAt * 1000).toLocaleTimeString()} to try again.`,
+            ...(error.resetAt === null ? {} : { resetAt: error.resetAt }),
+        };
+    }
+    if (error instanceof GitHubUnauthorizedError) {
+        return { status: 502, statusText: "BAD_GATEWAY", message: "GitHub rejected the server's access token." };
+    }
+    if (error instanceof GitHubForbiddenError) {
+        return { status: 403, statusText: "FORBIDDEN", message: "Access to this repository is forbidden." };
+    }
+    if (error instanceof GitHubServerError) {
+        return { status: 502, statusText: "BAD_GATEWAY", message: "GitHub is currently unavailable. Please try again later." };
+    }
+    if (error instanceof GitHubApiError) {
+        return { status: 502, statusText: "BAD_GATEWAY", message: `GitHub API error: ${error.message}` };
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return { status: 500, statusText: "SERVER_ERROR", message: `An unexpected error occurred: ${message}` };
+}
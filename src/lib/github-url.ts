@@ -0,0 +1,142 @@
+export interface GitHubLocation {
+    owner: string;
+    repo: string;
+    /**
+     * The branch, tag or commit from a `/tree/<ref>` URL; the default branch when missing.
+     * Parsed URLs only hold the first segment, since refs may contain slashes; see `GitHubClient.resolveRef`.
+     */
+    ref?: string;
+    /** The directory below `ref`, relative to the repository root, without leading or trailing slashes. */
+    path?: string;
+}
+
+/** The characters of a GitHub account name, as matched in repository URLs. */
+export const GITHUB_OWNER_PATTERN = /^[a-zA-Z0-9\-_]+$/;
+
+/** The characters of a GitHub repository name; `.` and `..` alone would be read as path segments. */
+export const GITHUB_REPO_PATTERN = /^(?!\.\.?$)[a-zA-Z0-9_\-.]+$/;
+
+const GITHUB_URL_PATTERN = /^https?:\/\/github\.com\/([a-zA-Z0-9\-_]+)\/([a-zA-Z0-9_\-.]+?)(?:\.git)?(?:\/tree\/([^?#]+?))?\/?(?:[?#].*)?$/;
+
+/**
+ * Splits a decoded path into its non-empty segments.
+ * @param {string} path - The path.
+ * @returns {string[]} The segments.
+ */
+const splitPath = (path: string): string[] => path.split("/").filter(Boolean);
+
+/**
+ * Splits a slash-separated path into its decoded, non-empty segments.
+ * @param {string} path - The path, possibly percent-encoded.
+ * @returns {string[]} The segments.
+ */
+const splitSegments = (path: string): string[] => splitPath(path).map(segment => decodeURIComponent(segment));
+
+/**
+ * Parses a GitHub repository URL, optionally pointing at a directory of a branch, tag or commit
+ * (`https://github.com/<owner>/<repo>/tree/<ref>/<path>`).
+ * @param {string} url - The URL to parse.
+ * @returns {GitHubLocation | null} The repository and directory, or null if the URL is not a GitHub repository URL.
+ */
+export function parseGitHubUrl(url: string): GitHubLocation | null {
+    const match = GITHUB_URL_PATTERN.exec(url.trim());
+    if (!match) {
+        return null;
+    }
+
+    const [, owner, repo, treePath] = match;
+    if (!GITHUB_REPO_PATTERN.test(repo)) {
+        return null;
+    }
+    let segments: string[];
+    try {
+        segments = treePath ? splitSegments(treePath) : [];
+    } catch {
+        return null;
+    }
+    if (segments.length === 0) {
+        return { owner, repo };
+    }
+    const [ref, ...pathSegments] = segments;
+    return pathSegments.length > 0 ? { owner, repo, ref, path: pathSegments.join("/") } : { owner, repo, ref };
+}
+
+/**
+ * Builds the path segments that follow `<owner>/<repo>` for a location, encoding each one.
+ * @param {GitHubLocation} location - The repository and directory.
+ * @returns {string} The encoded `/tree/<ref>/<path>` suffix, or an empty string for the default branch.
+ */
+const getTreeSuffix = ({ ref, path }: GitHubLocation): string => {
+    if (!ref) {
+        return "";
+    }
+    const segments = [...splitPath(ref), ...(path ? splitPath(path) : [])];
+    return `/tree/${segments.map(segment => encodeURIComponent(segment)).join("/")}`;
+};
+
+/**
+ * Builds the github.com URL of a repository or one of its directories.
+ * @param {GitHubLocation} location - The repository and directory.
+ * @returns {string} The URL.
+ */
+export function getGitHubUrl(location: GitHubLocation): string {
+    return `https://github.com/${location.owner}/${location.repo}${getTreeSuffix(location)}`;
+}
+
+/**
+ * Builds the path of the explorer page for a repository or one of its directories.
+ * @param {GitHubLocation} location - The repository and directory.
+ * @returns {string} The page path, e.g. `/owner/repo/tree/main/packages/foo`.
+ */
+export function getExplorerPath(location: GitHubLocation): string {
+    return `/${location.owner}/${location.repo}${getTreeSuffix(location)}`;
+}
+
+/**
+ * Builds the path of the file viewer page for a file of a branch, tag or commit.
+ * @param {string} owner - The owner of the repository.
+ * @param {string} repo - The repository name.
+ * @param {string} ref - The branch, tag or commit; it may contain slashes.
+ * @param {string} path - The path of the file, relative to the repository root.
+ * @returns {string} The page path, e.g. `/owner/repo/blob/main/src/index.ts`, mirroring GitHub's own file URLs.
+ */
+export function getBlobPath(owner: string, repo: string, ref: string, path: string): string {
+    const segments = [...splitPath(ref), ...splitPath(path)];
+    return `/${owner}/${repo}/blob/${segments.map(segment => encodeURIComponent(segment)).join("/")}`;
+}
+
+export interface CompareRange {
+    /** The branch, tag or commit to compare from. */
+    base: string;
+    /** The branch, tag or commit to compare to. */
+    head: string;
+}
+
+/**
+ * Parses the `<base>...<head>` segments of a compare page path, as GitHub spells its own compare URLs.
+ * Git forbids `..` in ref names, so the separator cannot be part of either ref.
+ * @param {string[]} segments - The decoded path segments after `compare/`; refs may span several.
+ * @returns {CompareRange | null} The compared refs, or null if the range is malformed.
+ */
+export function parseCompareRange(segments: string[]): CompareRange | null {
+    const range = segments.join("/");
+    const separatorIndex = range.indexOf("...");
+    if (separatorIndex < 0) {
+        return null;
+    }
+    const base = splitPath(range.slice(0, separatorIndex)).join("/");
+    const head = splitPath(range.slice(separatorIndex + 3)).join("/");
+    return base && head ? { base, head } : null;
+}
+
+/**
+ * Builds the path of the compare page for two refs of a repository.
+ * @param {string} owner - The owner of the repository.
+ * @param {string} repo - The repository name.
+ * @param {CompareRange} range - The compared refs.
+ * @returns {string} The page path, e.g. `/owner/repo/compare/v1.0...release/2.x`.
+ */
+export function getComparePath(owner: string, repo: string, { base, head }: CompareRange): string {
+    const encodeRef = (ref: string) => splitPath(ref).map(segment => encodeURIComponent(segment)).join("/");
+    return `/${owner}/${repo}/compare/${encodeRef(base)}...${encodeRef(head)}`;
+}
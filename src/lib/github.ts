@@ -1,4 +1,8 @@
 import { z } from "zod";
+import { CacheStore, LruCache } from "./cache";
+import { isBinaryContent } from "./file-kind";
+import { createGitHubApiError, GitHubApiError, GitHubNotFoundError } from "./github-errors";
+import { DEFAULT_RETRY_POLICY, getRetryDelay, RetryInfo, RetryPolicy, sleep } from "./retry";
 
 
 const RepoDataSchema = z.object({
@@ -20,14 +24,47 @@ const TreeDataSchema = z.object({
     tree: z.array(z.object({
         path: z.string(),
         mode: z.string(),
-        type: z.enum(["blob", "tree"]),
+        // Submodules are listed as "commit" entries (mode 160000) pointing at the pinned commit, without a URL.
+        type: z.enum(["blob", "tree", "commit"]),
         sha: z.string(),
         size: z.number().optional(),
-        url: z.string(),
+        url: z.string().optional(),
     })),
     truncated: z.boolean(),
 });
 
+const GitObjectSchema = z.object({
+    sha: z.string(),
+    type: z.string(),
+});
+
+const MatchingRefsSchema = z.array(z.object({
+    ref: z.string(),
+    object: GitObjectSchema,
+}));
+
+const NamedRefListSchema = z.array(z.object({
+    name: z.string(),
+}));
+
+const TagDataSchema = z.object({
+    object: GitObjectSchema,
+});
+
+const CommitDataSchema = z.object({
+    sha: z.string(),
+    tree: z.object({
+        sha: z.string(),
+    }),
+});
+
+const BlobDataSchema = z.object({
+    sha: z.string(),
+    size: z.number(),
+    encoding: z.string(),
+    content: z.string(),
+});
+
 const RateLimitDataSchema = z.object({
     resources: z.object({
         core: z.object({
@@ -36,12 +73,90 @@ const RateLimitDataSchema = z.object({
         }),
     }),
 });
+const DEFAULT_REFS_PER_PAGE = 30;
+
+// Full commit or tree object IDs (SHA-1, or SHA-256 for repositories using it); branch names are never cached.
+const SHA_PATTERN = /^(?:[0-9a-f]{40}|[0-9a-f]{64})$/i;
+
 export interface CoreRateLimitInfo {
   remaining: number;
   reset: number; // Unix epoch in seconds
 }
 
 export type GitHubRateLimitResponse = z.infer<typeof RateLimitDataSchema>;
+export type GitHubTreeData = z.infer<typeof TreeDataSchema>;
+export type GitHubTreeEntry = GitHubTreeData["tree"][number];
+export type GitHubCommitData = z.infer<typeof CommitDataSchema>;
+
+export type RefKind = "branch" | "tag" | "commit";
+
+export interface ResolvedRef {
+  kind: RefKind;
+  /** The branch or tag name, or the full commit SHA. */
+  name: string;
+  /** The SHA of the commit the ref points to; tags are peeled down to their commit. */
+  commitSha: string;
+  /** The rest of the resolved input after the ref, e.g. a directory path; empty if nothing is left. */
+  path: string;
+}
+
+export interface GitHubBlob {
+  sha: string;
+  /** The size of the blob in bytes. */
+  size: number;
+  /** Whether the blob holds binary data rather than UTF-8 text; always false when the content was not fetched. */
+  binary: boolean;
+  /** The decoded bytes of the blob, or null if it is larger than the requested `maxSize`. */
+  content: Buffer | null;
+}
+
+export interface ConditionalCacheEntry {
+  etag: string;
+  data: unknown;
+}
+
+export interface GitHubClientOptions {
+  retry?: Partial<RetryPolicy>;
+  /** Caches tree listings by SHA; trees are immutable, so entries never go stale. */
+  treeCache?: CacheStore<GitHubTreeData>;
+  /** Caches decoded blobs by SHA; blobs are immutable too. */
+  blobCache?: CacheStore<GitHubBlob>;
+  /** Caches ETags and bodies by URL so repeated lookups can be answered by a free 304. */
+  etagCache?: LruCache<ConditionalCacheEntry>;
+}
+
+export interface RequestOptions {
+  /** Cancels the call, including any retry it is waiting on. */
+  signal?: AbortSignal;
+  /** Overrides the client's retry budget for this call. */
+  maxRetries?: number;
+  /** Called before each retry, e.g. to report it to the user. */
+  onRetry?: (info: RetryInfo) => void;
+}
+
+export interface TreeFetchOptions extends RequestOptions {
+  recursive?: boolean;
+}
+
+export interface BlobFetchOptions extends RequestOptions {
+  /** Blobs larger than this many bytes are returned without their content, and are not cached. */
+  maxSize?: number;
+  /** The size of the blob from its tree entry, if known; blobs over `maxSize` are then not fetched at all. */
+  size?: number;
+}
+
+export interface RefListOptions extends RequestOptions {
+  /** The page to fetch, starting at 1. */
+  page?: number;
+  perPage?: number;
+  /** Only lists refs whose names start with this prefix. */
+  query?: string;
+}
+
+export interface RefPage {
+  names: string[];
+  hasNextPage: boolean;
+}
 
 /**
  * A client for interacting with the GitHub API.
@@ -49,12 +164,17 @@ export type GitHubRateLimitResponse = z.infer<typeof RateLimitDataSchema>;
 export class GitHubClient {
     private readonly baseUrl = "https://api.github.com";
     private readonly headers: { Authorization: string };
+    private readonly retryPolicy: RetryPolicy;
+    private readonly treeCache?: CacheStore<GitHubTreeData>;
+    private readonly blobCache?: CacheStore<GitHubBlob>;
+    private readonly etagCache?: LruCache<ConditionalCacheEntry>;
 
     /**
      * Creates an instance of GitHubClient.
+     * @param {GitHubClientOptions} options - Optional settings, such as the retry policy and response caches.
      * @throws {Error} If GITHUB_ACCESS_TOKEN environment variable is not set.
      */
-    constructor() {
+    constructor(options: GitHubClientOptions = {}) {
         const token = process.env.GITHUB_ACCESS_TOKEN;
         if (!token) {
             throw new Error("GITHUB_ACCESS_TOKEN environment variable is not set.");
@@ -62,28 +182,26 @@ export class GitHubClient {
         this.headers = {
             Authorization: `Bearer ${token}`,
         };
+        this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+        this.treeCache = options.treeCache;
+        this.blobCache = options.blobCache;
+        this.etagCache = options.etagCache;
     }
 
     /**
      * Fetches repository data, including the default branch.
      * @param {string} owner - The owner of the repository.
      * @param {string} repo - The name of the repository.
+     * @param {RequestOptions} options - Optional settings, such as an abort signal or the retry budget.
      * @returns {Promise<RepoDataSchema>} A promise that resolves with the repository data.
-     * @throws {Error} If the fetch operation fails.
+     * @throws {GitHubApiError} If the fetch operation fails.
      */
-    async getRepoInfo(owner: string, repo: string) {
+    async getRepoInfo(owner: string, repo: string, options: RequestOptions = {}) {
         if (!owner || !repo) {
             throw new Error("Owner and repo must be provided to fetch repo info.");
         }
-        const url = `${this.baseUrl}/repos/${owner}/${repo}`;
-        const response = await fetch(url, { headers: this.headers });
-
-        if (!response.ok) {
-            console.error("Failed to fetch repo:", response.status, response.statusText, await response.text());
-            throw new Error(`Failed to fetch repo: ${response.statusText}`);
-        }
-
-        const data = await response.json();
+        const url = this.repoUrl(owner, repo);
+        const data = await this.requestConditional(url, "Failed to fetch repo", options);
         return RepoDataSchema.parse(data);
     }
 
@@ -92,70 +210,283 @@ export class GitHubClient {
      * @param {string} owner - The owner of the repository.
      * @param {string} repo - The name of the repository.
      * @param {string} branch - The name of the branch.
+     * @param {RequestOptions} options - Optional settings, such as an abort signal or the retry budget.
      * @returns {Promise<BranchDataSchema>} A promise that resolves with the branch data.
-     * @throws {Error} If the fetch operation fails.
+     * @throws {GitHubApiError} If the fetch operation fails.
      */
-    async getBranch(owner: string, repo: string, branch: string) {
+    async getBranch(owner: string, repo: string, branch: string, options: RequestOptions = {}) {
         if (!owner || !repo) {
             throw new Error("Owner and repo must be provided to fetch branch info.");
         }
-        const url = `${this.baseUrl}/repos/${owner}/${repo}/branches/${branch}`;
-        const response = await fetch(url, { headers: this.headers });
+        const url = this.repoUrl(owner, repo, "branches", branch);
+        const data = await this.requestConditional(url, "Failed to fetch branch", options);
+        return BranchDataSchema.parse(data);
+    }
 
-        if (!response.ok) {
-            console.error("Failed to fetch branch:", response.status, response.statusText, await response.text());
-            throw new Error(`Failed to fetch branch: ${response.statusText}`);
+    /**
+     * Fetches a commit by its SHA.
+     * @param {string} owner - The owner of the repository.
+     * @param {string} repo - The name of the repository.
+     * @param {string} sha - The full SHA of the commit.
+     * @param {RequestOptions} options - Optional settings, such as an abort signal or the retry budget.
+     * @returns {Promise<GitHubCommitData>} A promise that resolves with the commit and its root tree SHA.
+     * @throws {GitHubApiError} If the fetch operation fails.
+     */
+    async getCommit(owner: string, repo: string, sha: string, options: RequestOptions = {}): Promise<GitHubCommitData> {
+        if (!owner || !repo) {
+            throw new Error("Owner and repo must be provided to fetch a commit.");
         }
+        const url = this.repoUrl(owner, repo, "git", "commits", sha);
+        const data = await this.requestConditional(url, "Failed to fetch commit", options);
+        return CommitDataSchema.parse(data);
+    }
 
-        const data = await response.json();
-        return BranchDataSchema.parse(data);
+    /**
+     * Splits a `<ref>/<path>` string, as found in GitHub's `/tree/` URLs, into the ref and the path.
+     * Since branch and tag names may contain slashes, the longest prefix naming an existing branch
+     * or tag wins; a branch wins over a tag of the same name. A leading full commit SHA is accepted as is.
+     * @param {string} owner - The owner of the repository.
+     * @param {string} repo - The name of the repository.
+     * @param {string} refAndPath - The ref, optionally followed by a slash and a path.
+     * @param {RequestOptions} options - Optional settings, such as an abort signal or the retry budget.
+     * @returns {Promise<ResolvedRef>} A promise that resolves with the kind, name and commit of the ref, and the remaining path.
+     * @throws {GitHubNotFoundError} If no branch, tag or commit matches, or a tag does not point to a commit.
+     * @throws {GitHubApiError} If a fetch operation fails.
+     */
+    async resolveRef(owner: string, repo: string, refAndPath: string, options: RequestOptions = {}): Promise<ResolvedRef> {
+        if (!owner || !repo) {
+            throw new Error("Owner and repo must be provided to resolve a ref.");
+        }
+        const segments = refAndPath.split("/").filter(Boolean);
+        const [firstSegment] = segments;
+        if (!firstSegment) {
+            throw new Error("A ref must be provided to resolve it.");
+        }
+
+        if (SHA_PATTERN.test(firstSegment)) {
+            const commit = await this.getCommit(owner, repo, firstSegment, options);
+            return { kind: "commit", name: commit.sha, commitSha: commit.sha, path: segments.slice(1).join("/") };
+        }
+
+        const [tags, branches] = await Promise.all([
+            this.getMatchingRefs(owner, repo, "tags", firstSegment, options),
+            this.getMatchingRefs(owner, repo, "heads", firstSegment, options),
+        ]);
+        const candidates = new Map<string, { kind: RefKind; object: z.infer<typeof GitObjectSchema> }>();
+        tags.forEach(ref => candidates.set(ref.ref.slice("refs/tags/".length), { kind: "tag", object: ref.object }));
+        branches.forEach(ref => candidates.set(ref.ref.slice("refs/heads/".length), { kind: "branch", object: ref.object }));
+
+        for (let length = segments.length; length > 0; length--) {
+            const name = segments.slice(0, length).join("/");
+            const candidate = candidates.get(name);
+            if (!candidate) {
+                continue;
+            }
+            let object = candidate.object;
+            // Annotated tags point to a tag object, which in turn points to the commit.
+            while (object.type === "tag") {
+                object = (await this.getTag(owner, repo, object.sha, options)).object;
+            }
+            if (object.type !== "commit") {
+                throw new GitHubNotFoundError(`Tag '${name}' does not point to a commit`, 404, this.repoUrl(owner, repo, "git", "refs", "tags", name));
+            }
+            return { kind: candidate.kind, name, commitSha: object.sha, path: segments.slice(length).join("/") };
+        }
+
+        throw new GitHubNotFoundError(
+            `No branch, tag or commit matches '${refAndPath}'`,
+            404,
+            this.repoUrl(owner, repo, "git", "matching-refs", "heads", firstSegment),
+        );
+    }
+
+    /**
+     * Lists the branches of a repository, one page at a time.
+     * @param {string} owner - The owner of the repository.
+     * @param {string} repo - The name of the repository.
+     * @param {RefListOptions} options - The page, page size and name prefix, and optional request settings.
+     * @returns {Promise<RefPage>} A promise that resolves with the branch names and whether more pages follow.
+     * @throws {GitHubApiError} If the fetch operation fails.
+     */
+    async listBranches(owner: string, repo: string, options: RefListOptions = {}): Promise<RefPage> {
+        return this.listRefs(owner, repo, "heads", options);
     }
 
     /**
-     * Fetches the tree files for a specific branch recursively.
+     * Lists the tags of a repository, one page at a time.
+     * @param {string} owner - The owner of the repository.
+     * @param {string} repo - The name of the repository.
+     * @param {RefListOptions} options - The page, page size and name prefix, and optional request settings.
+     * @returns {Promise<RefPage>} A promise that resolves with the tag names and whether more pages follow.
+     * @throws {GitHubApiError} If the fetch operation fails.
+     */
+    async listTags(owner: string, repo: string, options: RefListOptions = {}): Promise<RefPage> {
+        return this.listRefs(owner, repo, "tags", options);
+    }
+
+    /**
+     * Fetches the tree files for a specific branch or tree SHA.
+     * When `recursive` is set, GitHub returns every nested entry with its full path in a single
+     * response, but may cut the listing short and report `truncated: true` on very large trees.
+     * Listings requested by SHA are served from the tree cache when possible.
      * @param {string} owner - The owner of the repository.
      * @param {string} repo - The name of the repository.
      * @param {string} branchOrSha - The name of the branch or the SHA of the commit.
+     * @param {TreeFetchOptions} options - Optional settings, such as fetching the tree recursively, an abort signal or the retry budget.
      * @returns {Promise<TreeDataSchema>} A promise that resolves with the tree data.
-     * @throws {Error} If the fetch operation fails.
+     * @throws {GitHubApiError} If the fetch operation fails.
      */
-    async getTreeFiles(owner: string, repo: string, branchOrSha: string) {
+    async getTreeFiles(owner: string, repo: string, branchOrSha: string, options: TreeFetchOptions = {}): Promise<GitHubTreeData> {
         if (!owner || !repo) {
             throw new Error("Owner and repo must be provided to fetch tree files.");
         }
-        const url = `${this.baseUrl}/repos/${owner}/${repo}/git/trees/${branchOrSha}`;
-        const response = await fetch(url, { headers: this.headers });
-
-        if (!response.ok) {
-            console.error("Failed to fetch tree files:", response.status, response.statusText, await response.text());
-            throw new Error(`Failed to fetch tree files: ${response.statusText}`);
+        const query = options.recursive ? "?recursive=1" : "";
+        const cacheKey = SHA_PATTERN.test(branchOrSha) ? `${branchOrSha.toLowerCase()}${options.recursive ? "-recursive" : ""}` : null;
+        if (cacheKey && this.treeCache) {
+            const cachedTree = await this.treeCache.get(cacheKey);
+            if (cachedTree) {
+                return cachedTree;
+            }
         }
 
+        const url = `${this.repoUrl(owner, repo, "git", "trees", branchOrSha)}${query}`;
+        const response = await this.request(url, "Failed to fetch tree files", options);
+
         const data = await response.json();
-        return TreeDataSchema.parse(data);
+        const tree = TreeDataSchema.parse(data);
+        if (cacheKey && this.treeCache) {
+            await this.treeCache.set(cacheKey, tree);
+        }
+        return tree;
+    }
+
+    /**
+     * Finds the SHA of the directory at a path by walking down from a root tree one level at a time.
+     * Every level is fetched by SHA, so repeated lookups are served from the tree cache.
+     * @param {string} owner - The owner of the repository.
+     * @param {string} repo - The name of the repository.
+     * @param {string} rootSha - The SHA of the commit or tree the path is relative to.
+     * @param {string} path - The slash-separated path of the directory.
+     * @param {RequestOptions} options - Optional settings, such as an abort signal or the retry budget.
+     * @returns {Promise<string>} A promise that resolves with the SHA of the directory's tree.
+     * @throws {GitHubNotFoundError} If the path does not exist or is not a directory.
+     * @throws {GitHubApiError} If a fetch operation fails.
+     */
+    async getSubtreeSha(owner: string, repo: string, rootSha: string, path: string, options: RequestOptions = {}): Promise<string> {
+        let sha = rootSha;
+        const walkedSegments: string[] = [];
+        for (const segment of path.split("/").filter(Boolean)) {
+            const { url, tree } = await this.getTreeFiles(owner, repo, sha, options);
+            walkedSegments.push(segment);
+            const entry = tree.find(item => item.path === segment);
+            if (!entry || entry.type !== "tree") {
+                throw new GitHubNotFoundError(`Directory not found: ${walkedSegments.join("/")}`, 404, url);
+            }
+            sha = entry.sha;
+        }
+        return sha;
+    }
+
+    /**
+     * Finds the tree entry of the file at a path, walking down from a root tree like `getSubtreeSha`.
+     * @param {string} owner - The owner of the repository.
+     * @param {string} repo - The name of the repository.
+     * @param {string} rootSha - The SHA of the commit or tree the path is relative to.
+     * @param {string} path - The slash-separated path of the file.
+     * @param {RequestOptions} options - Optional settings, such as an abort signal or the retry budget.
+     * @returns {Promise<GitHubTreeEntry>} A promise that resolves with the entry, which holds the SHA and size of the file's blob.
+     * @throws {GitHubNotFoundError} If the path does not exist or is not a file.
+     * @throws {GitHubApiError} If a fetch operation fails.
+     */
+    async getBlobEntry(owner: string, repo: string, rootSha: string, path: string, options: RequestOptions = {}): Promise<GitHubTreeEntry> {
+        const segments = path.split("/").filter(Boolean);
+        const fileName = segments.pop();
+        if (!fileName) {
+            throw new Error("A file path must be provided to find a blob.");
+        }
+        const treeSha = await this.getSubtreeSha(owner, repo, rootSha, segments.join("/"), options);
+        const { url, tree } = await this.getTreeFiles(owner, repo, treeSha, options);
+        const entry = tree.find(item => item.path === fileName);
+        if (!entry || entry.type !== "blob") {
+            throw new GitHubNotFoundError(`File not found: ${path}`, 404, url);
+        }
+        return entry;
+    }
+
+    /**
+     * Fetches a blob and decodes its base64 content.
+     * Blobs are served from the blob cache when possible; the size limit applies to cached blobs too.
+     * A blob whose size is passed in and over the limit is not downloaded. Without its size, the blob has to be
+     * downloaded to learn it, but is still not cached when over the limit.
+     * @param {string} owner - The owner of the repository.
+     * @param {string} repo - The name of the repository.
+     * @param {string} sha - The SHA of the blob.
+     * @param {BlobFetchOptions} options - Optional settings, such as the size limit, an abort signal or the retry budget.
+     * @returns {Promise<GitHubBlob>} A promise that resolves with the blob, its size and whether it is binary.
+     * @throws {GitHubApiError} If the fetch operation fails.
+     */
+    async getBlob(owner: string, repo: string, sha: string, options: BlobFetchOptions = {}): Promise<GitHubBlob> {
+        if (!owner || !repo) {
+            throw new Error("Owner and repo must be provided to fetch a blob.");
+        }
+        const { maxSize, size } = options;
+        const isTooLarge = (blobSize: number) => maxSize !== undefined && blobSize > maxSize;
+        const cacheKey = sha.toLowerCase();
+        const cached = await this.blobCache?.get(cacheKey);
+        if (cached) {
+            return isTooLarge(cached.size) ? { ...cached, content: null } : cached;
+        }
+        if (size !== undefined && isTooLarge(size)) {
+            return { sha, size, binary: false, content: null };
+        }
+
+        const url = this.repoUrl(owner, repo, "git", "blobs", sha);
+        const response = await this.request(url, "Failed to fetch blob", options);
+        const data = BlobDataSchema.parse(await response.json());
+        if (isTooLarge(data.size)) {
+            return { sha: data.sha, size: data.size, binary: false, content: null };
+        }
+        const content = Buffer.from(data.content, data.encoding === "base64" ? "base64" : "utf8");
+        const blob = { sha: data.sha, size: data.size, binary: isBinaryContent(content), content };
+        await this.blobCache?.set(cacheKey, blob);
+        return blob;
+    }
+
+    /**
+     * Fetches a blob and decodes it as UTF-8 text.
+     * @param {string} owner - The owner of the repository.
+     * @param {string} repo - The name of the repository.
+     * @param {string} sha - The SHA of the blob.
+     * @param {RequestOptions} options - Optional settings, such as an abort signal or the retry budget.
+     * @returns {Promise<string>} A promise that resolves with the content of the blob.
+     * @throws {GitHubApiError} If the fetch operation fails.
+     */
+    async getBlobContent(owner: string, repo: string, sha: string, options: RequestOptions = {}): Promise<string> {
+        const { content } = await this.getBlob(owner, repo, sha, options);
+        return content?.toString("utf8") ?? "";
     }
 
     /**
      * Checks if a repository exists.
      * @param {string} owner - The owner of the repository.
      * @param {string} repo - The name of the repository.
+     * @param {RequestOptions} options - Optional settings, such as an abort signal.
      * @returns {Promise<boolean>} A promise that resolves to a boolean indicating if the repository exists.
-     * @throws {Error} If an unexpected error occurs during the fetch operation.
+     * @throws {GitHubApiError} If an unexpected error occurs during the fetch operation.
      */
-    async checkRepoExists(owner: string, repo: string): Promise<boolean> {
+    async checkRepoExists(owner: string, repo: string, options: RequestOptions = {}): Promise<boolean> {
         if (!owner || !repo) {
             throw new Error("Owner and repo must be provided to check repository existence.");
         }
-        const url = `${this.baseUrl}/repos/${owner}/${repo}`;
-        const response = await fetch(url, { headers: this.headers });
+        const url = this.repoUrl(owner, repo);
+        const response = await fetch(url, { headers: this.headers, signal: options.signal });
 
         if (response.status === 404) {
             return false;
         }
 
         if (!response.ok) {
-            console.error("Failed to check repo existence:", response.status, response.statusText, await response.text());
-            throw new Error(`Failed to check repo existence: ${response.statusText}`);
+            throw await this.toApiError(response, url, "Failed to check repo existence");
         }
 
         return true;
@@ -163,22 +494,179 @@ export class GitHubClient {
 
     /**
      * Fetches the current GitHub API rate limit status.
+     * @param {RequestOptions} options - Optional settings, such as an abort signal or the retry budget.
      * @returns A promise that resolves with the rate limit data.
-     * @throws {Error} If the fetch operation fails.
+     * @throws {GitHubApiError} If the fetch operation fails.
      */
-    async getRateLimit(): Promise<GitHubRateLimitResponse> {
+    async getRateLimit(options: RequestOptions = {}): Promise<GitHubRateLimitResponse> {
         const url = `${this.baseUrl}/rate_limit`;
-        const response = await fetch(url, { headers: this.headers });
+        const data = await this.requestConditional(url, "Failed to fetch rate limit", options);
+        return RateLimitDataSchema.parse(data);
+    }
 
-        if (!response.ok) {
-            let errorDetails = `Failed to fetch rate limit: ${response.status} ${response.statusText}`;
-            const errorData = await response.json();
-            if (errorData?.message) {
-                errorDetails = `${errorDetails} - ${errorData.message}`;
+    /**
+     * Lists one page of branches or tags. The REST API cannot search refs by name, so searches list
+     * every ref sharing the prefix and paginate locally.
+     * @param {string} owner - The owner of the repository.
+     * @param {string} repo - The name of the repository.
+     * @param {"heads" | "tags"} namespace - Whether to list branches or tags.
+     * @param {RefListOptions} options - The page, page size and name prefix, and optional request settings.
+     * @returns {Promise<RefPage>} A promise that resolves with the ref names and whether more pages follow.
+     * @throws {GitHubApiError} If the fetch operation fails.
+     */
+    private async listRefs(owner: string, repo: string, namespace: "heads" | "tags", options: RefListOptions): Promise<RefPage> {
+        if (!owner || !repo) {
+            throw new Error("Owner and repo must be provided to list refs.");
+        }
+        const page = options.page ?? 1;
+        const perPage = options.perPage ?? DEFAULT_REFS_PER_PAGE;
+
+        if (options.query) {
+            const prefix = `refs/${namespace}/`;
+            const names = (await this.getMatchingRefs(owner, repo, namespace, options.query, options)).map(ref => ref.ref.slice(prefix.length));
+            const start = (page - 1) * perPage;
+            return { names: names.slice(start, start + perPage), hasNextPage: names.length > start + perPage };
+        }
+
+        const endpoint = namespace === "heads" ? "branches" : "tags";
+        const url = `${this.repoUrl(owner, repo, endpoint)}?per_page=${perPage}&page=${page}`;
+        const response = await this.request(url, `Failed to fetch ${endpoint}`, options);
+        const names = NamedRefListSchema.parse(await response.json()).map(ref => ref.name);
+        return { names, hasNextPage: /rel="next"/.test(response.headers.get("link") ?? "") };
+    }
+
+    /**
+     * Lists the branches or tags whose names start with a prefix.
+     * @param {string} owner - The owner of the repository.
+     * @param {string} repo - The name of the repository.
+     * @param {"heads" | "tags"} namespace - Whether to list branches or tags.
+     * @param {string} prefix - The name prefix.
+     * @param {RequestOptions} options - The abort signal, retry budget and retry callback of the call.
+     * @returns A promise that resolves with the matching refs, named with their full `refs/...` path.
+     * @throws {GitHubApiError} If the fetch operation fails.
+     */
+    private async getMatchingRefs(owner: string, repo: string, namespace: "heads" | "tags", prefix: string, options: RequestOptions) {
+        const url = this.repoUrl(owner, repo, "git", "matching-refs", namespace, ...prefix.split("/"));
+        const data = await this.requestConditional(url, "Failed to fetch refs", options);
+        return MatchingRefsSchema.parse(data);
+    }
+
+    /**
+     * Fetches an annotated tag object.
+     * @param {string} owner - The owner of the repository.
+     * @param {string} repo - The name of the repository.
+     * @param {string} sha - The SHA of the tag object.
+     * @param {RequestOptions} options - The abort signal, retry budget and retry callback of the call.
+     * @returns A promise that resolves with the tag and the object it points to.
+     * @throws {GitHubApiError} If the fetch operation fails.
+     */
+    private async getTag(owner: string, repo: string, sha: string, options: RequestOptions) {
+        const url = this.repoUrl(owner, repo, "git", "tags", sha);
+        const data = await this.requestConditional(url, "Failed to fetch tag", options);
+        return TagDataSchema.parse(data);
+    }
+
+    /**
+     * Builds the API URL of a repository or one of its endpoints. Every segment is encoded, and dot segments are
+     * refused, so that no argument can point a request made with the server's token at another endpoint.
+     * @param {string} owner - The owner of the repository.
+     * @param {string} repo - The name of the repository.
+     * @param {string[]} segments - The path segments below the repository, e.g. `"git", "trees", sha`.
+     * @returns {string} The URL.
+     * @throws {Error} If a segment is `.` or `..`.
+     */
+    private repoUrl(owner: string, repo: string, ...segments: string[]): string {
+        const path = [owner, repo, ...segments].map(segment => {
+            if (segment === "." || segment === "..") {
+                throw new Error(`'${segment}' is not a valid path segment.`);
             }
-            throw new Error(errorDetails);
+            return encodeURIComponent(segment);
+        });
+        return `${this.baseUrl}/repos/${path.join("/")}`;
+    }
+
+    /**
+     * Performs a GET request against the GitHub API.
+     * Server errors, network failures and rate limit rejections are retried with jittered
+     * exponential backoff, or after the wait GitHub asks for, until the retry budget is spent.
+     * @param {string} url - The URL to fetch.
+     * @param {string} context - A short description of the request, used in error messages.
+     * @param {RequestOptions} options - The abort signal, retry budget and retry callback of the call.
+     * @param {Record<string, string>} extraHeaders - Headers to send on top of the authorization header.
+     * @returns {Promise<Response>} A promise that resolves with the successful (or 304) response.
+     * @throws {GitHubApiError} If GitHub responds with an error status and the request is not retried.
+     */
+    private async request(
+        url: string,
+        context: string,
+        options: RequestOptions = {},
+        extraHeaders: Record<string, string> = {},
+    ): Promise<Response> {
+        const policy = { ...this.retryPolicy, maxRetries: options.maxRetries ?? this.retryPolicy.maxRetries };
+        const headers = { ...this.headers, ...extraHeaders };
+
+        for (let attempt = 1; ; attempt++) {
+            let error: unknown;
+            try {
+                const response = await fetch(url, { headers, signal: options.signal });
+                if (response.ok || response.status === 304) {
+                    return response;
+                }
+                error = await this.toApiError(response, url, context);
+            } catch (e: unknown) {
+                error = e;
+            }
+
+            const delayMs = options.signal?.aborted ? null : getRetryDelay(error, attempt, policy);
+            if (delayMs === null) {
+                throw error;
+            }
+            options.onRetry?.({
+                attempt,
+                maxRetries: policy.maxRetries,
+                delayMs,
+                url,
+                reason: error instanceof Error ? error.message : String(error),
+            });
+            await sleep(delayMs, options.signal);
         }
-        const data = await response.json();
-        return RateLimitDataSchema.parse(data);
+    }
+
+    /**
+     * Performs a GET request that revalidates a previously cached body with `If-None-Match`.
+     * GitHub does not count 304 responses against the rate limit, so unchanged resources are free.
+     * Without an ETag cache this is a plain request.
+     * @param {string} url - The URL to fetch.
+     * @param {string} context - A short description of the request, used in error messages.
+     * @param {RequestOptions} options - The abort signal, retry budget and retry callback of the call.
+     * @returns {Promise<unknown>} A promise that resolves with the parsed JSON body.
+     * @throws {GitHubApiError} If GitHub responds with an error status and the request is not retried.
+     */
+    private async requestConditional(url: string, context: string, options: RequestOptions): Promise<unknown> {
+        const cached = this.etagCache?.get(url);
+        const response = await this.request(url, context, options, cached ? { "If-None-Match": cached.etag } : {});
+        if (response.status === 304 && cached) {
+            return cached.data;
+        }
+
+        const data: unknown = await response.json();
+        const etag = this.etagCache ? response.headers.get("etag") : null;
+        if (etag) {
+            this.etagCache?.set(url, { etag, data });
+        }
+        return data;
+    }
+
+    /**
+     * Logs a failed response and converts it into the matching typed error.
+     * @param {Response} response - The failed response.
+     * @param {string} url - The URL of the failed request.
+     * @param {string} context - A short description of the request, used in error messages.
+     * @returns {Promise<GitHubApiError>} A promise that resolves with the error to throw.
+     */
+    private async toApiError(response: Response, url: string, context: string): Promise<GitHubApiError> {
+        const body = await response.text();
+        console.error(`${context}:`, response.status, response.statusText, body);
+        return createGitHubApiError(response, body, url, context);
     }
 }
\ No newline at end of file
@@ -0,0 +1,76 @@
+export interface SubmoduleRepository {
+    owner: string;
+    repo: string;
+}
+
+const SECTION_PATTERN = /^\s*\[\s*submodule\s+"(.*)"\s*\]\s*$/;
+const KEY_VALUE_PATTERN = /^\s*([A-Za-z][\w-]*)\s*=\s*(.*?)\s*$/;
+const GITHUB_REMOTE_PATTERN = /^(?:(?:https?|git|ssh):\/\/(?:[^@/]+@)?github\.com\/|[^@/]+@github\.com:)([a-zA-Z0-9\-_]+)\/([a-zA-Z0-9_\-.]+?)(?:\.git)?\/?$/;
+
+/**
+ * Reads the path and URL of every submodule declared in a `.gitmodules` file.
+ * Sections without both keys are skipped.
+ * @param {string} content - The content of the `.gitmodules` file.
+ * @returns {Map<string, string>} The submodule URLs, keyed by the path of the submodule in the repository.
+ */
+export function parseGitmodules(content: string): Map<string, string> {
+    const urlsByPath = new Map<string, string>();
+    let section: { path?: string; url?: string } | null = null;
+
+    const flush = () => {
+        if (section?.path && section.url) {
+            urlsByPath.set(section.path.replace(/^\/+|\/+$/g, ""), section.url);
+        }
+    };
+
+    for (const line of content.split(/\r?\n/)) {
+        if (/^\s*(?:[#;].*)?$/.test(line)) {
+            continue;
+        }
+        if (SECTION_PATTERN.test(line)) {
+            flush();
+            section = {};
+            continue;
+        }
+        const match = KEY_VALUE_PATTERN.exec(line);
+        if (!match || !section) {
+            continue;
+        }
+        const [, key, value] = match;
+        const unquoted = value.replace(/^"(.*)"$/, "$1");
+        if (key.toLowerCase() === "path") {
+            section.path = unquoted;
+        } else if (key.toLowerCase() === "url") {
+            section.url = unquoted;
+        }
+    }
+    flush();
+    return urlsByPath;
+}
+
+/**
+ * Finds the GitHub repository a submodule URL points at.
+ * Relative URLs such as `../other.git` are resolved against the repository that declares the submodule, as git does.
+ * @param {string} url - The submodule URL from `.gitmodules`.
+ * @param {string} owner - The owner of the repository that declares the submodule.
+ * @param {string} repo - The name of the repository that declares the submodule.
+ * @returns {SubmoduleRepository | null} The repository, or null if the submodule is not hosted on GitHub.
+ */
+export function resolveSubmoduleRepository(url: string, owner: string, repo: string): SubmoduleRepository | null {
+    if (url.startsWith("./") || url.startsWith("../")) {
+        const segments = [owner, repo];
+        for (const part of url.split("/").filter(Boolean)) {
+            if (part === "..") {
+                segments.pop();
+            } else if (part !== ".") {
+                segments.push(part);
+            }
+        }
+        return segments.length === 2 ?
+            { owner: segments[0], repo: segments[1].replace(/\.git$/, "") } :
+            null;
+    }
+
+    const match = GITHUB_REMOTE_PATTERN.exec(url.trim());
+    return match ? { owner: match[1], repo: match[2] } : null;
+}
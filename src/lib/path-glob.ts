@@ -0,0 +1,204 @@
+import { z } from "zod";
+
+/** The longest glob a request may send. */
+export const MAX_GLOB_LENGTH = 256;
+
+/** The most `**` a glob sent in a request may hold. */
+export const MAX_GLOBSTARS = 8;
+
+/**
+ * Validates a glob sent in a request. Matching is linear in the glob and the path either way; the limits
+ * keep the work of a request, which matches its globs against every crawled or searched path, small.
+ */
+export const globSchema = z.string().max(MAX_GLOB_LENGTH).refine(
+    glob => (glob.match(/\*\*/g) ?? []).length <= MAX_GLOBSTARS,
+    { message: `A glob may hold at most ${MAX_GLOBSTARS} '**'` }
+);
+
+/** A compiled glob. */
+export interface GlobMatcher {
+    /** Whether the glob matches the whole path. */
+    test(path: string): boolean;
+}
+
+/**
+ * Escapes the characters that have a special meaning in regular expressions.
+ * @param {string} text - The literal text.
+ * @returns {string} A regular expression source matching exactly the text.
+ */
+export function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** One piece of a parsed glob. */
+type GlobNode =
+    | { type: "char"; char: string }
+    // `?`: any character but a slash.
+    | { type: "any" }
+    // `*`: any run of characters but slashes.
+    | { type: "star" }
+    // `**` anywhere but before a slash: any run of characters.
+    | { type: "globstar" }
+    // `**/`: any number of directories, including none.
+    | { type: "directories" }
+    | { type: "alternatives"; alternatives: GlobNode[][] };
+
+/**
+ * A state of the matching automaton. `char` states consume one character accepted by `accepts`;
+ * `split` states move on to all of `next` without consuming anything.
+ */
+type GlobState =
+    | { type: "char"; accepts: (char: string) => boolean; next: number }
+    | { type: "split"; next: number[] }
+    | { type: "match" };
+
+/**
+ * Parses glob syntax.
+ * @param {string} glob - The glob, or one alternative of a brace group.
+ * @returns {GlobNode[]} The pieces of the glob.
+ */
+function parseGlob(glob: string): GlobNode[] {
+    const nodes: GlobNode[] = [];
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === "*" && glob[i + 1] === "*") {
+            // `**/` matches any number of directories, including none; a trailing `**` matches everything below.
+            if (glob[i + 2] === "/") {
+                // `**/**/` matches nothing more than `**/` does.
+                if (nodes[nodes.length - 1]?.type !== "directories") {
+                    nodes.push({ type: "directories" });
+                }
+                i += 2;
+            } else {
+                nodes.push({ type: "globstar" });
+                i += 1;
+            }
+        } else if (char === "*") {
+            nodes.push({ type: "star" });
+        } else if (char === "?") {
+            nodes.push({ type: "any" });
+        } else if (char === "{" && glob.indexOf("}", i) > i) {
+            const end = glob.indexOf("}", i);
+            nodes.push({ type: "alternatives", alternatives: glob.slice(i + 1, end).split(",").map(parseGlob) });
+            i = end;
+        } else {
+            nodes.push({ type: "char", char });
+        }
+    }
+    return nodes;
+}
+
+const acceptsAny = () => true;
+const acceptsSegmentChar = (char: string) => char !== "/";
+
+/**
+ * Adds the states of a sequence of glob pieces to the automaton, last piece first.
+ * @param {GlobNode[]} nodes - The pieces.
+ * @param {number} next - The state to continue with once the sequence has matched.
+ * @param {GlobState[]} states - The states of the automaton, which new states are appended to.
+ * @returns {number} The first state of the sequence.
+ */
+function compileNodes(nodes: GlobNode[], next: number, states: GlobState[]): number {
+    const add = (state: GlobState) => states.push(state) - 1;
+    // A loop of a split and a char state; the split is patched once the char state exists.
+    const addLoop = (accepts: (char: string) => boolean, exit: number) => {
+        const split = add({ type: "split", next: [] });
+        (states[split] as { next: number[] }).next = [add({ type: "char", accepts, next: split }), exit];
+        return split;
+    };
+
+    for (let i = nodes.length - 1; i >= 0; i--) {
+        const node = nodes[i];
+        switch (node.type) {
+            case "char":
+                next = add({ type: "char", accepts: char => char === node.char, next });
+                break;
+            case "any":
+                next = add({ type: "char", accepts: acceptsSegmentChar, next });
+                break;
+            case "star":
+                next = addLoop(acceptsSegmentChar, next);
+                break;
+            case "globstar":
+                next = addLoop(acceptsAny, next);
+                break;
+            case "directories":
+                next = add({ type: "split", next: [next, addLoop(acceptsAny, add({ type: "char", accepts: char => char === "/", next }))] });
+                break;
+            case "alternatives":
+                next = add({ type: "split", next: node.alternatives.map(alternative => compileNodes(alternative, next, states)) });
+                break;
+        }
+    }
+    return next;
+}
+
+/**
+ * Compiles a glob matching repository paths.
+ * `**` matches across directories, `*` and `?` stay within one path segment, and `{a,b}` matches either
+ * alternative. As in .gitignore, a pattern without a slash matches a name at any depth, a pattern with one
+ * is anchored at the repository root, and a pattern matching a directory also matches everything below it.
+ * The glob is matched by an automaton that steps through the path once, so no glob can make it backtrack.
+ * @param {string} glob - The glob, e.g. `src/**\/*.ts` or `*.md`.
+ * @returns {GlobMatcher} The compiled glob.
+ */
+export function compileGlob(glob: string): GlobMatcher {
+    const trimmed = glob.trim();
+    const directoryOnly = trimmed.endsWith("/");
+    const pattern = trimmed.replace(/\/+$/, "");
+    const anchored = pattern.includes("/");
+    const below: GlobNode[] = [{ type: "char", char: "/" }, { type: "globstar" }];
+    const nodes: GlobNode[] = [
+        ...(anchored ? [] : [{ type: "directories" } as const]),
+        ...parseGlob(pattern.replace(/^\/+/, "")),
+        // Whatever is below a matching directory; a glob ending with a slash only matches below one.
+        ...(directoryOnly ? below : [{ type: "alternatives", alternatives: [[], below] } satisfies GlobNode]),
+    ];
+    const states: GlobState[] = [{ type: "match" }];
+    const start = compileNodes(nodes, 0, states);
+
+    // Adds a state along with every state its split states lead to.
+    const addState = (set: Set<number>, index: number) => {
+        if (set.has(index)) return;
+        set.add(index);
+        const state = states[index];
+        if (state.type === "split") {
+            state.next.forEach(next => addState(set, next));
+        }
+    };
+
+    return {
+        test(path: string) {
+            let current = new Set<number>();
+            addState(current, start);
+            for (const char of path) {
+                const following = new Set<number>();
+                for (const index of current) {
+                    const state = states[index];
+                    if (state.type === "char" && state.accepts(char)) {
+                        addState(following, state.next);
+                    }
+                }
+                if (following.size === 0) return false;
+                current = following;
+            }
+            return current.has(0);
+        },
+    };
+}
+
+/**
+ * Builds a path filter from a list of globs. Paths must match at least one of the plain globs, if there
+ * are any, and none of the globs prefixed with `!`.
+ * @param {string[]} globs - The globs; blank entries are ignored.
+ * @returns {(path: string) => boolean} The filter, which accepts every path when no globs are given.
+ */
+export function createPathFilter(globs: string[]): (path: string) => boolean {
+    const patterns = globs.map(glob => glob.trim()).filter(Boolean);
+    const includes = patterns.filter(glob => !glob.startsWith("!")).map(compileGlob);
+    const excludes = patterns.filter(glob => glob.startsWith("!")).map(glob => compileGlob(glob.slice(1)));
+
+    return (path: string) =>
+        (includes.length === 0 || includes.some(pattern => pattern.test(path))) &&
+        !excludes.some(pattern => pattern.test(path));
+}
@@ -0,0 +1,93 @@
+import { GitHubRateLimitError, GitHubSecondaryRateLimitError } from "./github-errors";
+import { sleep } from "./retry";
+
+export interface RateLimitGateCallbacks {
+    /** Called once when the gate closes, with the reset time as a Unix epoch in seconds. */
+    onPause: (resetAt: number) => void;
+    /** Called periodically while the gate is closed, e.g. to keep a connection alive. */
+    onHeartbeat: () => void;
+    /** Called once when the gate opens again. */
+    onResume: () => void;
+}
+
+export interface RateLimitGateOptions {
+    /** How often `onHeartbeat` is called while the gate is closed. */
+    heartbeatIntervalMs?: number;
+    /** How long to wait past the reset time before opening the gate. */
+    resetGraceMs?: number;
+    /** Stops the heartbeats and rejects every held call when aborted. */
+    signal?: AbortSignal;
+}
+
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 15_000;
+// GitHub's reset time has one-second resolution; waiting a little longer avoids an immediate second rejection.
+const DEFAULT_RESET_GRACE_MS = 1_000;
+
+/**
+ * Holds every GitHub call of a crawl once the primary rate limit is exhausted, and releases them
+ * all when the limit resets. Calls that fail with an exhausted rate limit are retried after the reset.
+ */
+export class RateLimitGate {
+    private pause: Promise<void> | null = null;
+
+    /**
+     * Creates an instance of RateLimitGate.
+     * @param {RateLimitGateCallbacks} callbacks - Notified when the gate closes, while it is closed, and when it opens.
+     * @param {RateLimitGateOptions} options - Optional timing settings.
+     */
+    constructor(
+        private readonly callbacks: RateLimitGateCallbacks,
+        private readonly options: RateLimitGateOptions = {},
+    ) {}
+
+    /**
+     * Whether calls are currently held until the rate limit resets.
+     */
+    get isPaused(): boolean {
+        return this.pause !== null;
+    }
+
+    /**
+     * Runs a GitHub call, waiting for the rate limit to reset first if the gate is closed.
+     * @param {function} call - The call to run.
+     * @returns {Promise<T>} A promise that resolves with the result of the call.
+     * @throws {unknown} Whatever the call throws, except exhausted rate limit errors with a known reset time,
+     * or the abort reason if the gate's signal is aborted while the call is held.
+     */
+    async run<T>(call: () => Promise<T>): Promise<T> {
+        while (true) {
+            if (this.pause) {
+                await this.pause;
+            }
+            try {
+                return await call();
+            } catch (e: unknown) {
+                if (!(e instanceof GitHubRateLimitError) || e instanceof GitHubSecondaryRateLimitError || e.resetAt === null) {
+                    throw e;
+                }
+                await this.closeUntil(e.resetAt);
+            }
+        }
+    }
+
+    /**
+     * Closes the gate until the given reset time, unless it is already closed.
+     * @param {number} resetAt - The reset time, as a Unix epoch in seconds.
+     * @returns {Promise<void>} A promise that resolves when the gate opens again.
+     */
+    private closeUntil(resetAt: number): Promise<void> {
+        if (!this.pause) {
+            this.callbacks.onPause(resetAt);
+            const heartbeat = setInterval(
+                () => this.callbacks.onHeartbeat(),
+                this.options.heartbeatIntervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS,
+            );
+            const waitMs = Math.max(0, resetAt * 1000 - Date.now()) + (this.options.resetGraceMs ?? DEFAULT_RESET_GRACE_MS);
+            this.pause = sleep(waitMs, this.options.signal).then(() => {
+                this.pause = null;
+                this.callbacks.onResume();
+            }).finally(() => clearInterval(heartbeat));
+        }
+        return this.pause;
+    }
+}
@@ -0,0 +1,87 @@
+import { GitHubRateLimitError, GitHubSecondaryRateLimitError, GitHubServerError } from "./github-errors";
+
+export interface RetryPolicy {
+    /** How many times a single call may be retried. */
+    maxRetries: number;
+    /** The base delay of the exponential backoff, in milliseconds. */
+    baseDelayMs: number;
+    /** The longest the client is willing to wait before one retry; longer waits fail the call instead. */
+    maxDelayMs: number;
+}
+
+export interface RetryInfo {
+    /** The retry about to be made, starting at 1. */
+    attempt: number;
+    maxRetries: number;
+    delayMs: number;
+    url: string;
+    reason: string;
+}
+
+const SECONDARY_RATE_LIMIT_DELAY_MS = 60_000;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxRetries: 3,
+    baseDelayMs: 500,
+    maxDelayMs: 60_000,
+};
+
+/**
+ * Resolves after the given number of milliseconds, or rejects as soon as the signal is aborted.
+ * @param {number} ms - The delay in milliseconds.
+ * @param {AbortSignal} signal - An optional signal that cancels the wait.
+ * @returns {Promise<void>} A promise that resolves once the delay has passed.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+    }
+    const onAbort = () => {
+        clearTimeout(timeout);
+        reject(signal?.reason);
+    };
+    const timeout = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+});
+
+/**
+ * Decides whether a failed GitHub request should be retried, and after how long.
+ * Rate limit errors wait for the time GitHub asks for (`Retry-After` or `X-RateLimit-Reset`);
+ * server and network errors use exponential backoff with full jitter.
+ * @param {unknown} error - The error thrown by the failed attempt.
+ * @param {number} attempt - The retry about to be made, starting at 1.
+ * @param {RetryPolicy} policy - The retry policy.
+ * @returns {number | null} The delay in milliseconds, or null if the call should not be retried.
+ */
+export function getRetryDelay(error: unknown, attempt: number, policy: RetryPolicy): number | null {
+    if (attempt > policy.maxRetries) {
+        return null;
+    }
+
+    let delayMs: number;
+    if (error instanceof GitHubSecondaryRateLimitError) {
+        // GitHub asks for at least a minute, growing exponentially, when it sends no Retry-After.
+        delayMs = error.retryAfterSeconds !== null ?
+            error.retryAfterSeconds * 1000 :
+            SECONDARY_RATE_LIMIT_DELAY_MS * 2 ** (attempt - 1);
+    } else if (error instanceof GitHubRateLimitError) {
+        if (error.resetAt === null) {
+            return null;
+        }
+        delayMs = error.resetAt * 1000 - Date.now();
+        if (delayMs <= 0) {
+            return null;
+        }
+    } else if (error instanceof GitHubServerError || error instanceof TypeError) {
+        // fetch rejects with a TypeError on network failures.
+        delayMs = Math.random() * policy.baseDelayMs * 2 ** (attempt - 1);
+    } else {
+        return null;
+    }
+
+    return delayMs <= policy.maxDelayMs ? Math.round(delayMs) : null;
+}
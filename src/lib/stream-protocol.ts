@@ -0,0 +1,223 @@
+import { z } from "zod";
+
+/**
+ * The version of the NDJSON protocol spoken by `/api/v1/repo/streaming`, `/api/v1/repo/compare` and `/api/v1/repo/search`.
+ * Bump it whenever an event changes in a way an older client cannot read; the routes send it in the
+ * `STREAM_PROTOCOL_VERSION_HEADER` response header.
+ *
+ * - 2: branch events carry a required `kind`, `commit_sha` and `path`.
+ * - 3: `submodule` events.
+ * - 4: file events carry a required `kind`.
+ * - 5: complete events carry a required `excluded_entries`.
+ */
+export const STREAM_PROTOCOL_VERSION = 5;
+
+export const STREAM_PROTOCOL_VERSION_HEADER = "X-Stream-Protocol-Version";
+
+const FileEventSchema = z.object({
+    type: z.literal("file"),
+    path: z.string().min(1),
+    mode: z.string(),
+    sha: z.string(),
+    size: z.number().int().nonnegative(),
+    url: z.string().optional(),
+    // Classified from the git file mode.
+    kind: z.enum(["file", "executable", "symlink"]),
+    // Set for Git LFS pointers; `size` is then the size of the stored object rather than of the pointer.
+    lfs: z.object({
+        oid: z.string(),
+        pointer_size: z.number().int().nonnegative(),
+    }).optional(),
+});
+
+// A git submodule, pinned to a commit of another repository.
+const SubmoduleEventSchema = z.object({
+    type: z.literal("submodule"),
+    path: z.string().min(1),
+    // The pinned commit, in the submodule's repository.
+    sha: z.string(),
+    // The URL from .gitmodules; missing if the file does not declare the submodule.
+    url: z.string().optional(),
+    // The submodule's repository, when it is hosted on GitHub.
+    owner: z.string().optional(),
+    repo: z.string().optional(),
+});
+
+// Describes the resolved ref; kept under its original name for compatibility with older clients.
+const BranchEventSchema = z.object({
+    type: z.literal("branch"),
+    name: z.string(),
+    kind: z.enum(["branch", "tag", "commit"]),
+    commit_sha: z.string(),
+    // The crawled directory, relative to the repository root; empty for the whole repository.
+    path: z.string(),
+    // Only sent when comparing two refs: which side of the comparison was resolved.
+    side: z.enum(["base", "head"]).optional(),
+});
+
+const StatusEventSchema = z.object({
+    type: z.literal("status"),
+    message: z.string(),
+    files_processed: z.number().optional(),
+});
+
+const WarningEventSchema = z.object({
+    type: z.literal("warning"),
+    message: z.string(),
+    files_processed: z.number().optional(),
+});
+
+const ErrorEventSchema = z.object({
+    type: z.literal("error"),
+    message: z.string(),
+});
+
+const RetryEventSchema = z.object({
+    type: z.literal("retry"),
+    message: z.string(),
+    attempt: z.number().int().positive(),
+    max_retries: z.number().int().nonnegative(),
+    delay_ms: z.number().nonnegative(),
+    files_processed: z.number().optional(),
+});
+
+const RateLimitedEventSchema = z.object({
+    type: z.literal("rate_limited"),
+    message: z.string(),
+    // Unix epoch in seconds.
+    reset_at: z.number(),
+    files_processed: z.number().optional(),
+});
+
+const HeartbeatEventSchema = z.object({
+    type: z.literal("heartbeat"),
+});
+
+const ProgressEventSchema = z.object({
+    type: z.literal("progress"),
+    dirs_discovered: z.number().int().nonnegative(),
+    dirs_completed: z.number().int().nonnegative(),
+    dirs_failed: z.number().int().nonnegative(),
+    files_emitted: z.number().int().nonnegative(),
+    bytes_emitted: z.number().nonnegative(),
+});
+
+const CompleteEventSchema = z.object({
+    type: z.literal("complete"),
+    total_files: z.number().int().nonnegative(),
+    total_directories: z.number().int().nonnegative(),
+    // Files, submodules and directories left out by the include, exclude and depth filters of the request.
+    excluded_entries: z.number().int().nonnegative(),
+});
+
+// One changed file between the base and the head of a comparison; unchanged files are not sent.
+const DiffEventSchema = z.object({
+    type: z.literal("diff"),
+    status: z.enum(["added", "removed", "modified", "renamed"]),
+    // The path in the head, or in the base for removed files.
+    path: z.string().min(1),
+    // The path in the base, for renamed files only.
+    previous_path: z.string().min(1).optional(),
+    // 0 for removed files.
+    size: z.number().int().nonnegative(),
+    // 0 for added files.
+    previous_size: z.number().int().nonnegative(),
+});
+
+const DiffCompleteEventSchema = z.object({
+    type: z.literal("diff_complete"),
+    added: z.number().int().nonnegative(),
+    removed: z.number().int().nonnegative(),
+    modified: z.number().int().nonnegative(),
+    renamed: z.number().int().nonnegative(),
+    unchanged: z.number().int().nonnegative(),
+    // The size of the head minus the size of the base, in bytes.
+    size_delta: z.number().int(),
+});
+
+// A line matching a content search, with the lines around it.
+const SearchMatchSchema = z.object({
+    // 1-based.
+    line: z.number().int().positive(),
+    text: z.string(),
+    // The start and end offsets of every match within `text`.
+    ranges: z.array(z.tuple([z.number().int().nonnegative(), z.number().int().nonnegative()])),
+    before: z.array(z.string()),
+    after: z.array(z.string()),
+});
+
+// The matches of a content search in one file, sent as soon as the file has been searched.
+const SearchResultEventSchema = z.object({
+    type: z.literal("search_result"),
+    path: z.string().min(1),
+    sha: z.string(),
+    matches: z.array(SearchMatchSchema).min(1),
+});
+
+const SearchCompleteEventSchema = z.object({
+    type: z.literal("search_complete"),
+    files_searched: z.number().int().nonnegative(),
+    files_matched: z.number().int().nonnegative(),
+    matches: z.number().int().nonnegative(),
+    // Files that passed the path filter but were not searched: binary, too large, LFS objects, symlinks or failed fetches.
+    files_skipped: z.number().int().nonnegative(),
+    // Whether the search stopped early because it found too many matches.
+    truncated: z.boolean(),
+});
+
+export const StreamEventSchema = z.discriminatedUnion("type", [
+    FileEventSchema,
+    SubmoduleEventSchema,
+    BranchEventSchema,
+    StatusEventSchema,
+    WarningEventSchema,
+    ErrorEventSchema,
+    RetryEventSchema,
+    RateLimitedEventSchema,
+    HeartbeatEventSchema,
+    ProgressEventSchema,
+    CompleteEventSchema,
+    DiffEventSchema,
+    DiffCompleteEventSchema,
+    SearchResultEventSchema,
+    SearchCompleteEventSchema,
+]);
+
+export type StreamEvent = z.infer<typeof StreamEventSchema>;
+export type FileEvent = z.infer<typeof FileEventSchema>;
+export type SubmoduleEvent = z.infer<typeof SubmoduleEventSchema>;
+export type BranchEvent = z.infer<typeof BranchEventSchema>;
+export type StatusEvent = z.infer<typeof StatusEventSchema>;
+export type WarningEvent = z.infer<typeof WarningEventSchema>;
+export type ErrorEvent = z.infer<typeof ErrorEventSchema>;
+export type RetryEvent = z.infer<typeof RetryEventSchema>;
+export type RateLimitedEvent = z.infer<typeof RateLimitedEventSchema>;
+export type HeartbeatEvent = z.infer<typeof HeartbeatEventSchema>;
+export type ProgressEvent = z.infer<typeof ProgressEventSchema>;
+export type CompleteEvent = z.infer<typeof CompleteEventSchema>;
+export type DiffEvent = z.infer<typeof DiffEventSchema>;
+export type DiffCompleteEvent = z.infer<typeof DiffCompleteEventSchema>;
+export type SearchMatch = z.infer<typeof SearchMatchSchema>;
+export type SearchResultEvent = z.infer<typeof SearchResultEventSchema>;
+export type SearchCompleteEvent = z.infer<typeof SearchCompleteEventSchema>;
+
+/**
+ * Validates a stream event and serializes it as one NDJSON line.
+ * @param {StreamEvent} event - The event to send.
+ * @returns {string} The JSON encoding of the event, followed by a newline.
+ * @throws {z.ZodError} If the event does not match the protocol.
+ */
+export function serializeStreamEvent(event: StreamEvent): string {
+    return JSON.stringify(StreamEventSchema.parse(event)) + "\n";
+}
+
+/**
+ * Parses and validates one NDJSON line of the stream.
+ * @param {string} line - The line to parse, without its trailing newline.
+ * @returns {StreamEvent} The validated event.
+ * @throws {SyntaxError} If the line is not valid JSON.
+ * @throws {z.ZodError} If the line does not match the protocol.
+ */
+export function parseStreamEvent(line: string): StreamEvent {
+    return StreamEventSchema.parse(JSON.parse(line));
+}
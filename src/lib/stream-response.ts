@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { describeGitHubError } from "./github-errors";
+import { serializeStreamEvent, STREAM_PROTOCOL_VERSION, STREAM_PROTOCOL_VERSION_HEADER, StreamEvent } from "./stream-protocol";
+
+/**
+ * Encodes stream events as NDJSON lines.
+ * @param {AsyncGenerator<StreamEvent, void, unknown>} events - The events to encode.
+ * @returns {AsyncGenerator<Uint8Array, void, unknown>} One UTF-8 encoded line per event.
+ */
+async function* encodeEvents(events: AsyncGenerator<StreamEvent, void, unknown>): AsyncGenerator<Uint8Array, void, unknown> {
+    const encoder = new TextEncoder();
+    // Returning early from the loop, e.g. when the stream is cancelled, also returns the source generator.
+    for await (const event of events) {
+        yield encoder.encode(serializeStreamEvent(event));
+    }
+}
+
+/**
+ * Converts an async iterator to a ReadableStream.
+ * @param {AsyncGenerator<Uint8Array, void, unknown>} iterator - The async iterator to convert.
+ * @param {function} onCancel - Called when the consumer cancels the stream, e.g. because the client disconnected.
+ * @returns {ReadableStream} A ReadableStream.
+ */
+function iteratorToStream(
+    iterator: AsyncGenerator<Uint8Array, void, unknown>,
+    onCancel?: (reason: unknown) => void,
+): ReadableStream {
+    return new ReadableStream({
+        async pull(controller) {
+            const { value, done } = await iterator.next();
+            if (done) {
+                controller.close();
+            } else {
+                controller.enqueue(value);
+            }
+        },
+        async cancel(reason) {
+            onCancel?.(reason);
+            await iterator.return();
+        },
+    });
+}
+
+/**
+ * Streams events to the client as an NDJSON response that speaks the current stream protocol version.
+ * @param {AsyncGenerator<StreamEvent, void, unknown>} events - The events to send.
+ * @param {AbortController} controller - Aborted when the client cancels the stream, so the producer can stop.
+ * @returns {Response} The streaming response.
+ */
+export function streamEventsResponse(events: AsyncGenerator<StreamEvent, void, unknown>, controller: AbortController): Response {
+    const stream = iteratorToStream(encodeEvents(events), (reason) => controller.abort(reason));
+
+    return new Response(stream, {
+        headers: {
+            "Content-Type": "application/x-ndjson; charset=utf-8",
+            "X-Content-Type-Options": "nosniff",
+            [STREAM_PROTOCOL_VERSION_HEADER]: String(STREAM_PROTOCOL_VERSION),
+        },
+    });
+}
+
+/**
+ * Builds the JSON error response for a failed GitHub request.
+ * @param {unknown} error - The error thrown by the GitHub client.
+ * @param {string} context - What the route was trying to do, prefixed to every message except not-found ones.
+ * @param {string} notFoundMessage - The message to use when GitHub responded with 404.
+ * @returns {NextResponse} The error response, with a `Retry-After` header when rate limited.
+ */
+export function githubErrorResponse(error: unknown, context: string, notFoundMessage: string): NextResponse {
+    const { status, statusText, message, resetAt } = describeGitHubError(error, notFoundMessage);
+    const headers: Record<string, string> = {};
+    if (resetAt !== undefined) {
+        headers["Retry-After"] = String(Math.max(0, resetAt - Math.floor(Date.now() / 1000)));
+    }
+    return NextResponse.json(
+        { error: status === 404 ? message : `${context}: ${message}` },
+        { status, statusText, headers },
+    );
+}
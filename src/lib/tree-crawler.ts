@@ -0,0 +1,614 @@
+import { GitHubClient, RequestOptions, ResolvedRef } from "./github";
+import { describeGitHubError, GitHubNotFoundError, GitHubSecondaryRateLimitError } from "./github-errors";
+import { EventChannel } from "./event-channel";
+import { getFileKind, isLfsPointerCandidate, LfsPointer, parseLfsPointer } from "./file-kind";
+import { parseGitmodules, resolveSubmoduleRepository } from "./gitmodules";
+import { compileGlob, createPathFilter } from "./path-glob";
+import { RateLimitGate } from "./rate-limit-gate";
+import { RetryInfo } from "./retry";
+import { FileEvent, ProgressEvent, StreamEvent, SubmoduleEvent } from "./stream-protocol";
+import { WorkerPool } from "./worker-pool";
+
+export interface CrawlOptions {
+    /** How many directories may be fetched at the same time when a truncated listing has to be walked. */
+    concurrency: number;
+    /** Aborted when the client goes away; stops every pending GitHub request. */
+    signal: AbortSignal;
+    /** Globs that listed files and submodules must match, if any are given. */
+    include?: string[];
+    /** Globs of files and directories to leave out; excluded directories are never fetched. */
+    exclude?: string[];
+    /** How many directory levels below the crawled directory to descend into; 0 lists only its own entries. */
+    maxDepth?: number;
+}
+
+// Every candidate costs a blob request, so repositories full of small files are only partly checked for LFS pointers.
+const MAX_LFS_POINTER_CHECKS = 500;
+
+interface GitHubTreeItem {
+    path: string;
+    mode: string;
+    type: string;
+    sha: string;
+    size?: number;
+    url?: string;
+}
+
+interface EntryFilter {
+    /** Whether a directory is left out along with everything below it. */
+    skipsTree(path: string): boolean;
+    /** Whether a file or submodule is left out. */
+    skipsEntry(path: string): boolean;
+}
+
+/**
+ * Joins a directory path and an entry name; an empty directory path stands for the repository root.
+ * @param {string} parentPath - The directory path.
+ * @param {string} name - The entry name or relative path.
+ * @returns {string} The joined path.
+ */
+function joinTreePath(parentPath: string, name: string): string {
+    return parentPath ? `${parentPath}/${name}` : name;
+}
+
+/**
+ * Builds the checks that decide which entries of the crawled tree are left out.
+ * @param {string} basePath - The crawled directory, which depths are counted from; empty for the repository root.
+ * @param {CrawlOptions} options - The include and exclude globs and the maximum depth.
+ * @returns {EntryFilter} The checks, which take paths relative to the repository root.
+ */
+function createEntryFilter(basePath: string, { include = [], exclude = [], maxDepth }: CrawlOptions): EntryFilter {
+    const isIncluded = createPathFilter(include);
+    const excludes = exclude.map(glob => glob.trim()).filter(Boolean).map(compileGlob);
+    const getDepth = (path: string) => (basePath ? path.slice(basePath.length + 1) : path).split("/").length - 1;
+    const isTooDeep = (depth: number) => maxDepth !== undefined && depth > maxDepth;
+
+    return {
+        // The entries of a directory are one level deeper than the directory itself; the trailing slash lets `dist/` match it.
+        skipsTree: (path) => isTooDeep(getDepth(path) + 1) || excludes.some(pattern => pattern.test(`${path}/`)),
+        skipsEntry: (path) => isTooDeep(getDepth(path)) || excludes.some(pattern => pattern.test(path)) || !isIncluded(path),
+    };
+}
+
+/**
+ * Converts a blob entry of a GitHub tree listing into a stream file event.
+ * @param {GitHubTreeItem} item - The blob entry, with its path relative to the repository root.
+ * @param {LfsPointer | null} lfs - The Git LFS object the blob points at, if it is a pointer; its size replaces the blob size.
+ * @returns {FileEvent} The file event.
+ */
+function toFileEvent(item: GitHubTreeItem, lfs: LfsPointer | null = null): FileEvent {
+    const size = item.size ?? 0;
+    const event: FileEvent = { type: "file", path: item.path, mode: item.mode, sha: item.sha, size, url: item.url, kind: getFileKind(item.mode) };
+    return lfs ? { ...event, size: lfs.size, lfs: { oid: lfs.oid, pointer_size: size } } : event;
+}
+
+/**
+ * Converts a submodule entry of a GitHub tree listing into a stream submodule event.
+ * @param {GitHubTreeItem} item - The submodule entry, with its path relative to the repository root.
+ * @param {string | undefined} url - The URL declared for the submodule in `.gitmodules`, if any.
+ * @param {string} owner - The owner of the repository that declares the submodule.
+ * @param {string} repo - The name of the repository that declares the submodule.
+ * @returns {SubmoduleEvent} The submodule event.
+ */
+function toSubmoduleEvent(item: GitHubTreeItem, url: string | undefined, owner: string, repo: string): SubmoduleEvent {
+    const repository = url ? resolveSubmoduleRepository(url, owner, repo) : null;
+    return { type: "submodule", path: item.path, sha: item.sha, url, ...repository };
+}
+
+/**
+ * Reads the submodule URLs declared in the `.gitmodules` file at the root of a commit.
+ * @param {GitHubClient} githubClient - The GitHub client to use.
+ * @param {string} owner - The owner of the repository.
+ * @param {string} repo - The repository name.
+ * @param {string} commitSha - The commit to read the file from.
+ * @param {RequestOptions} options - The abort signal and retry callback of the calls.
+ * @returns {Promise<Map<string, string>>} The submodule URLs keyed by path; empty if the file does not exist.
+ */
+async function getSubmoduleUrls(
+    githubClient: GitHubClient,
+    owner: string,
+    repo: string,
+    commitSha: string,
+    options: RequestOptions,
+): Promise<Map<string, string>> {
+    const { tree } = await githubClient.getTreeFiles(owner, repo, commitSha, options);
+    const gitmodules = tree.find(item => item.path === ".gitmodules" && item.type === "blob");
+    if (!gitmodules) {
+        return new Map();
+    }
+    return parseGitmodules(await githubClient.getBlobContent(owner, repo, gitmodules.sha, options));
+}
+
+/**
+ * Decides how long the crawl should pause after a failed directory request.
+ * GitHub recommends waiting at least a minute when a secondary rate limit response has no `Retry-After`.
+ * @param {unknown} error - The error thrown while fetching a directory.
+ * @returns {number | null} The delay in milliseconds, or null if the error is not a rate limit rejection.
+ */
+function getSecondaryRateLimitDelay(error: unknown): number | null {
+    if (!(error instanceof GitHubSecondaryRateLimitError)) {
+        return null;
+    }
+    return (error.retryAfterSeconds ?? 60) * 1000;
+}
+
+/**
+ * Checks that a recursive listing is in pre-order, i.e. that every entry comes right after its parent
+ * directory or after the entries of an earlier sibling.
+ * @param {GitHubTreeItem[]} tree - The entries of the recursive listing.
+ * @param {string} rootPath - The path of the listed tree, which prefixes every entry; empty for the repository root.
+ * @returns {boolean} Whether the listing is in pre-order.
+ */
+function isPreOrderListing(tree: GitHubTreeItem[], rootPath: string): boolean {
+    const openPaths = [rootPath];
+    for (const item of tree) {
+        const slashIndex = item.path.lastIndexOf("/");
+        const parentPath = slashIndex === -1 ? "" : item.path.slice(0, slashIndex);
+        while (openPaths.length > 0 && openPaths[openPaths.length - 1] !== parentPath) {
+            openPaths.pop();
+        }
+        if (openPaths.length === 0) {
+            return false;
+        }
+        if (item.type === "tree") {
+            openPaths.push(item.path);
+        }
+    }
+    return true;
+}
+
+/**
+ * Finds the directories of a truncated recursive listing whose contents may be incomplete.
+ * GitHub does not document the order of a recursive listing, but lists trees in pre-order in practice, in
+ * which case truncation can only cut short the root and the directories along the path of the last listed
+ * entry, and every other listed directory is complete. A listing that is not in pre-order gives no such
+ * guarantee, so every listed directory is then walked again.
+ * @param {GitHubTreeItem[]} tree - The entries of the truncated recursive listing.
+ * @param {string} rootTreeSha - The SHA of the listed tree.
+ * @param {string} rootPath - The path of the listed tree, which prefixes every entry; empty for the repository root.
+ * @returns {{ openTrees: GitHubTreeItem[], isPreOrder: boolean }} The directories that still have to be walked
+ * one level at a time, and whether the listing was in pre-order.
+ */
+function findOpenTrees(tree: GitHubTreeItem[], rootTreeSha: string, rootPath: string): { openTrees: GitHubTreeItem[], isPreOrder: boolean } {
+    const openTrees: GitHubTreeItem[] = [{ path: rootPath, mode: "040000", type: "tree", sha: rootTreeSha }];
+    if (!isPreOrderListing(tree, rootPath)) {
+        openTrees.push(...tree.filter(item => item.type === "tree"));
+        return { openTrees, isPreOrder: false };
+    }
+
+    const lastItem = tree[tree.length - 1];
+    if (!lastItem) {
+        return { openTrees, isPreOrder: true };
+    }
+
+    const treesByPath = new Map(tree.filter(item => item.type === "tree").map(item => [item.path, item]));
+    const pathParts = lastItem.path.split("/");
+    const openDepth = lastItem.type === "tree" ? pathParts.length : pathParts.length - 1;
+    for (let i = 1; i <= openDepth; i++) {
+        const openTree = treesByPath.get(pathParts.slice(0, i).join("/"));
+        if (openTree) {
+            openTrees.push(openTree);
+        }
+    }
+    return { openTrees, isPreOrder: true };
+}
+
+/**
+ * Crawls the tree of a branch, tag or commit, optionally limited to one directory, and yields every
+ * file along with the status, progress and error events of the stream protocol.
+ * The whole tree is requested in a single recursive call; the per-directory walk is only used for
+ * the subtrees GitHub left out when it truncates that listing, fetching several directories in parallel.
+ * File paths are always relative to the repository root. Directories left out by the filter options are
+ * never fetched, so excluding large vendored folders also saves their API calls.
+ * @param {GitHubClient} githubClient - The GitHub client to use.
+ * @param {string} owner - The owner of the repository.
+ * @param {string} repo - The repository name.
+ * @param {string} refAndPath - The branch, tag or commit SHA to crawl, optionally followed by the directory to crawl.
+ * @param {CrawlOptions} options - The crawl concurrency, abort signal and filters.
+ * @returns {AsyncGenerator<StreamEvent, void, unknown>} The stream events, ending with `complete` or `error`
+ * unless the signal is aborted.
+ */
+export async function* crawlRepositoryTree(
+    githubClient: GitHubClient,
+    owner: string,
+    repo: string,
+    refAndPath: string,
+    options: CrawlOptions,
+): AsyncGenerator<StreamEvent, void, unknown> {
+    const { concurrency, signal } = options;
+    const yieldedBlobPaths = new Set<string>();
+    // Submodules are only sent once the walk is done, together with their URLs from .gitmodules.
+    const submoduleItems = new Map<string, GitHubTreeItem>();
+    // Blobs small enough to be Git LFS pointers are held back until their content has been checked.
+    const lfsCandidates: GitHubTreeItem[] = [];
+    const seenTreePaths = new Set<string>();
+    // Entries left out by the filters; the contents of an excluded directory are not counted, as a walk never sees them.
+    const excludedPaths = new Set<string>();
+    let fileCounter = 0;
+    let bytesCounter = 0;
+    let dirsCompleted = 0;
+    let dirsFailed = 0;
+
+    function countFileEvent(item: GitHubTreeItem, lfs: LfsPointer | null = null): FileEvent {
+        const event = toFileEvent(item, lfs);
+        fileCounter++;
+        bytesCounter += event.size;
+        return event;
+    }
+
+    // The root directory counts too, so the crawl is done once every discovered directory is completed or failed.
+    function progressEvent(): ProgressEvent {
+        return {
+            type: "progress",
+            dirs_discovered: seenTreePaths.size + 1,
+            dirs_completed: dirsCompleted,
+            dirs_failed: dirsFailed,
+            files_emitted: fileCounter,
+            bytes_emitted: bytesCounter
+        };
+    }
+
+    // Retries happen inside GitHubClient calls; their events are queued here and flushed while the call is pending.
+    const sideEvents = new EventChannel<StreamEvent>();
+    function reportRetry(subject: string) {
+        return (info: RetryInfo) => sideEvents.push({
+            type: "retry",
+            message: `Request for ${subject} failed (${info.reason}). Retrying in ${Math.ceil(info.delayMs / 1000)}s (attempt ${info.attempt} of ${info.maxRetries})`,
+            attempt: info.attempt,
+            max_retries: info.maxRetries,
+            delay_ms: info.delayMs,
+            files_processed: fileCounter
+        });
+    }
+
+    // Once the rate limit runs out, every call waits for the reset while heartbeats keep the connection alive.
+    const rateLimitGate = new RateLimitGate({
+        onPause: (resetAt) => sideEvents.push({
+            type: "rate_limited",
+            message: `GitHub API rate limit exhausted. Pausing until ${new Date(resetAt * 1000).toISOString()}`,
+            reset_at: resetAt,
+            files_processed: fileCounter
+        }),
+        onHeartbeat: () => sideEvents.push({ type: "heartbeat" }),
+        onResume: () => sideEvents.push({
+            type: "status",
+            message: "GitHub API rate limit reset. Resuming...",
+            files_processed: fileCounter
+        }),
+    }, { signal });
+
+    try {
+        let resolvedRef: ResolvedRef;
+        try {
+            resolvedRef = yield* sideEvents.until(rateLimitGate.run(
+                () => githubClient.resolveRef(owner, repo, refAndPath, { signal, onRetry: reportRetry(`ref '${refAndPath}'`) }),
+            ));
+            yield {
+                type: "branch",
+                name: resolvedRef.name,
+                kind: resolvedRef.kind,
+                commit_sha: resolvedRef.commitSha,
+                path: resolvedRef.path
+            };
+        } catch (e: unknown) {
+            if (signal.aborted) {
+                return;
+            }
+            const errorMessage = e instanceof GitHubNotFoundError ?
+                `No branch, tag or commit matching '${refAndPath}' found in repository ${owner}/${repo}.` :
+                `Failed to resolve '${refAndPath}': ${describeGitHubError(e).message}`;
+            yield { type: "error", message: errorMessage };
+            return;
+        }
+
+        const { kind: refKind, name: refName, path: basePath } = resolvedRef;
+        const entryFilter = createEntryFilter(basePath, options);
+        let initialTreeSha = resolvedRef.commitSha;
+        if (basePath) {
+            try {
+                initialTreeSha = yield* sideEvents.until(rateLimitGate.run(
+                    () => githubClient.getSubtreeSha(owner, repo, resolvedRef.commitSha, basePath, { signal, onRetry: reportRetry(`directory ${basePath}`) }),
+                ));
+            } catch (e: unknown) {
+                if (signal.aborted) {
+                    return;
+                }
+                const errorMessage = e instanceof GitHubNotFoundError ?
+                    `Directory '${basePath}' not found in ${refKind} '${refName}' of repository ${owner}/${repo}.` :
+                    `Failed to find directory '${basePath}': ${describeGitHubError(e).message}`;
+                yield { type: "error", message: errorMessage };
+                return;
+            }
+        }
+        
+        yield { 
+            type: "status", 
+            message: `Starting to process repository files...`,
+            files_processed: fileCounter
+        };
+        
+        try {
+            const {
+                sha: rootTreeSha,
+                tree: listedTree,
+                truncated,
+            } = yield* sideEvents.until(rateLimitGate.run(() => githubClient.getTreeFiles(owner, repo, initialTreeSha, {
+                recursive: true,
+                signal,
+                onRetry: reportRetry("the repository tree"),
+            })));
+
+            // Paths stay relative to the repository root when only a subdirectory is crawled.
+            const fullTree = listedTree.map(item => ({ ...item, path: joinTreePath(basePath, item.path) }));
+
+            yield { 
+                type: "status", 
+                message: `Found ${fullTree.length} items in the repository tree`,
+                files_processed: fileCounter
+            };
+
+            // Every directory that is not descended into, including the ones below an excluded directory.
+            const skippedTreePaths = new Set<string>();
+            for (const item of fullTree) {
+                const parentPath = item.path.slice(0, Math.max(item.path.lastIndexOf("/"), 0));
+                if (skippedTreePaths.has(parentPath)) {
+                    if (item.type === "tree") {
+                        skippedTreePaths.add(item.path);
+                    }
+                    continue;
+                }
+                if (item.type === "tree" ? entryFilter.skipsTree(item.path) : entryFilter.skipsEntry(item.path)) {
+                    excludedPaths.add(item.path);
+                    if (item.type === "tree") {
+                        skippedTreePaths.add(item.path);
+                    }
+                    continue;
+                }
+
+                if (item.type === "blob") {
+                    yieldedBlobPaths.add(item.path);
+                    if (isLfsPointerCandidate(getFileKind(item.mode), item.size ?? 0)) {
+                        lfsCandidates.push(item);
+                    } else {
+                        yield countFileEvent(item);
+                    }
+                } else if (item.type === "tree") {
+                    seenTreePaths.add(item.path);
+                } else if (item.type === "commit") {
+                    submoduleItems.set(item.path, item);
+                }
+            }
+
+            if (fileCounter > 0) {
+                yield { 
+                    type: "status", 
+                    message: `Processed ${fileCounter} files from the recursive tree listing`,
+                    files_processed: fileCounter
+                };
+            }
+
+            let treeFiles: GitHubTreeItem[] = [];
+            const completeTreePaths = new Set<string>();
+
+            if (truncated) {
+                const { openTrees, isPreOrder } = findOpenTrees(fullTree, rootTreeSha, basePath);
+                treeFiles = openTrees.filter(item => !skippedTreePaths.has(item.path));
+                const openTreePaths = new Set(treeFiles.map(item => item.path));
+                for (const treePath of seenTreePaths) {
+                    if (!openTreePaths.has(treePath)) {
+                        completeTreePaths.add(treePath);
+                    }
+                }
+
+                yield {
+                    type: "warning",
+                    message: isPreOrder
+                        ? `Tree listing was truncated by GitHub. Walking the ${treeFiles.length} directories it may have cut short, assuming it lists directories depth-first`
+                        : `Tree listing was truncated by GitHub and is not listed depth-first. Walking all ${treeFiles.length} directories again`,
+                    files_processed: fileCounter
+                };
+            }
+            dirsCompleted = truncated ? completeTreePaths.size : seenTreePaths.size + 1;
+            yield progressEvent();
+            
+            const queuedTreePaths = new Set(treeFiles.map(item => item.path));
+            const pool = new WorkerPool<GitHubTreeItem, GitHubTreeItem[]>(
+                async (treeItem) => (await rateLimitGate.run(() => githubClient.getTreeFiles(owner, repo, treeItem.sha, {
+                    signal,
+                    onRetry: reportRetry(`directory ${treeItem.path || "/"}`),
+                }))).tree,
+                { concurrency, getBackoffDelay: getSecondaryRateLimitDelay, signal },
+            );
+            pool.push(...treeFiles);
+
+            const poolEvents = pool.run();
+            while (true) {
+                const next = yield* sideEvents.until(poolEvents.next());
+                if (next.done) {
+                    break;
+                }
+                const event = next.value;
+                const treeItem = event.task;
+                const displayPath = treeItem.path || "/";
+
+                if (event.type === "throttled") {
+                    yield { 
+                        type: "status", 
+                        message: `GitHub asked us to slow down while processing ${displayPath}. Retrying in ${Math.ceil(event.delayMs / 1000)}s with ${event.concurrency} parallel requests`,
+                        files_processed: fileCounter
+                    };
+                    continue;
+                }
+
+                if (event.type === "rejected") {
+                    const errorMessage = event.error instanceof Error ? event.error.message : String(event.error);
+                    console.error(`Error processing tree ${displayPath}: ${errorMessage}`);
+                    dirsFailed++;
+                    
+                    yield { 
+                        type: "warning", 
+                        message: `Skipped directory ${displayPath} due to error: ${errorMessage}`,
+                        files_processed: fileCounter
+                    };
+                    yield progressEvent();
+                    continue;
+                }
+
+                let filesDirectoryCounter = 0;
+                const newTrees: GitHubTreeItem[] = [];
+
+                for (const item of event.value) {
+                    const fullPath: string = joinTreePath(treeItem.path, item.path);
+                    const itemWithFullPath: GitHubTreeItem = { ...item, path: fullPath };
+
+                    if (item.type === "tree" ? entryFilter.skipsTree(fullPath) : entryFilter.skipsEntry(fullPath)) {
+                        excludedPaths.add(fullPath);
+                        continue;
+                    }
+                    if (item.type === "blob") {
+                        if (!yieldedBlobPaths.has(fullPath)) {
+                            yieldedBlobPaths.add(fullPath);
+                            if (isLfsPointerCandidate(getFileKind(item.mode), item.size ?? 0)) {
+                                lfsCandidates.push(itemWithFullPath);
+                            } else {
+                                yield countFileEvent(itemWithFullPath);
+                            }
+                            filesDirectoryCounter++;
+                        }
+                    } else if (item.type === "tree") {
+                        seenTreePaths.add(fullPath);
+                        if (!queuedTreePaths.has(fullPath) && !completeTreePaths.has(fullPath)) {
+                            queuedTreePaths.add(fullPath);
+                            newTrees.push(itemWithFullPath);
+                        }
+                    } else if (item.type === "commit") {
+                        submoduleItems.set(fullPath, itemWithFullPath);
+                    }
+                }
+                pool.push(...newTrees);
+                dirsCompleted++;
+                
+                yield { 
+                    type: "status", 
+                    message: `Completed directory ${displayPath}: Found ${filesDirectoryCounter} files (total: ${fileCounter})`,
+                    files_processed: fileCounter
+                };
+                
+                if (newTrees.length > 0) {
+                    yield { 
+                        type: "status", 
+                        message: `Found ${newTrees.length} more directories to process`,
+                        files_processed: fileCounter
+                    };
+                }
+                yield progressEvent();
+            }
+
+            if (lfsCandidates.length > 0) {
+                const checkedCandidates = lfsCandidates.slice(0, MAX_LFS_POINTER_CHECKS);
+                const uncheckedCandidates = lfsCandidates.slice(MAX_LFS_POINTER_CHECKS);
+                yield {
+                    type: "status",
+                    message: `Checking ${checkedCandidates.length} small files for Git LFS pointers...`,
+                    files_processed: fileCounter
+                };
+
+                const lfsPool = new WorkerPool<GitHubTreeItem, string>(
+                    (item) => rateLimitGate.run(() => githubClient.getBlobContent(owner, repo, item.sha, {
+                        signal,
+                        onRetry: reportRetry(`file ${item.path}`),
+                    })),
+                    { concurrency, getBackoffDelay: getSecondaryRateLimitDelay, signal },
+                );
+                lfsPool.push(...checkedCandidates);
+
+                let failedChecks = 0;
+                const lfsEvents = lfsPool.run();
+                while (true) {
+                    const next = yield* sideEvents.until(lfsEvents.next());
+                    if (next.done) {
+                        break;
+                    }
+                    const event = next.value;
+                    if (event.type === "throttled") {
+                        continue;
+                    }
+                    if (event.type === "rejected") {
+                        failedChecks++;
+                    }
+                    yield countFileEvent(event.task, event.type === "fulfilled" ? parseLfsPointer(event.value) : null);
+                }
+                if (signal.aborted) {
+                    return;
+                }
+                for (const item of uncheckedCandidates) {
+                    yield countFileEvent(item);
+                }
+
+                if (failedChecks > 0 || uncheckedCandidates.length > 0) {
+                    yield {
+                        type: "warning",
+                        message: `${failedChecks + uncheckedCandidates.length} files were not checked for Git LFS pointers and are listed with their pointer size`,
+                        files_processed: fileCounter
+                    };
+                }
+                yield progressEvent();
+            }
+
+            if (submoduleItems.size > 0) {
+                let submoduleUrls = new Map<string, string>();
+                try {
+                    submoduleUrls = yield* sideEvents.until(rateLimitGate.run(() => getSubmoduleUrls(
+                        githubClient, owner, repo, resolvedRef.commitSha, { signal, onRetry: reportRetry(".gitmodules") },
+                    )));
+                } catch (e: unknown) {
+                    if (signal.aborted) {
+                        return;
+                    }
+                    yield {
+                        type: "warning",
+                        message: `Could not read .gitmodules, submodules are listed without their repositories: ${describeGitHubError(e).message}`,
+                        files_processed: fileCounter
+                    };
+                }
+                for (const item of submoduleItems.values()) {
+                    yield toSubmoduleEvent(item, submoduleUrls.get(item.path), owner, repo);
+                }
+            }
+        } catch (error: unknown) {
+            if (signal.aborted) {
+                return;
+            }
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.error("Error fetching repository structure:", errorMessage);
+            yield {
+                type: "error",
+                message: `Error fetching repository structure: ${errorMessage}`
+            };
+        }
+        
+        // The client is gone, so there is nobody left to tell.
+        if (signal.aborted) {
+            return;
+        }
+
+        console.log(`Completed processing. Found ${fileCounter} files across ${seenTreePaths.size} directories.`);
+        yield {
+            type: "complete",
+            total_files: fileCounter,
+            total_directories: seenTreePaths.size,
+            excluded_entries: excludedPaths.size
+        };
+    } catch (error: unknown) {
+        if (signal.aborted) {
+            return;
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error("Critical error in crawlRepositoryTree:", errorMessage);
+        yield {
+            type: "error",
+            message: `Critical error during stream generation: ${errorMessage}`
+        };
+    }
+}
+
@@ -0,0 +1,185 @@
+import { GitHubClient } from "./github";
+import { DiffCompleteEvent, DiffEvent, FileEvent, StreamEvent } from "./stream-protocol";
+import { crawlRepositoryTree, CrawlOptions } from "./tree-crawler";
+
+export interface TreeDiff {
+    /** The changed files, ordered by path. */
+    entries: DiffEvent[];
+    /** How many files have the same path and content on both sides. */
+    unchanged: number;
+}
+
+/**
+ * Returns the last segment of a path.
+ * @param {string} path - The path.
+ * @returns {string} The file name.
+ */
+function getFileName(path: string): string {
+    return path.slice(path.lastIndexOf("/") + 1);
+}
+
+/**
+ * Compares the files of two trees.
+ * Files are matched by path first; a file removed from one path and added at another with the same
+ * blob SHA is reported as renamed. Renames that also changed the content show up as a removal and an addition.
+ * @param {FileEvent[]} baseFiles - The files of the base tree.
+ * @param {FileEvent[]} headFiles - The files of the head tree.
+ * @returns {TreeDiff} The changed files and the number of unchanged ones.
+ */
+export function diffTrees(baseFiles: FileEvent[], headFiles: FileEvent[]): TreeDiff {
+    const baseByPath = new Map(baseFiles.map(file => [file.path, file]));
+    const headPaths = new Set(headFiles.map(file => file.path));
+    const entries: DiffEvent[] = [];
+    const added: FileEvent[] = [];
+    let unchanged = 0;
+
+    for (const file of headFiles) {
+        const baseFile = baseByPath.get(file.path);
+        if (!baseFile) {
+            added.push(file);
+        } else if (baseFile.sha === file.sha) {
+            unchanged++;
+        } else {
+            entries.push({ type: "diff", status: "modified", path: file.path, size: file.size, previous_size: baseFile.size });
+        }
+    }
+
+    const removedBySha = new Map<string, FileEvent[]>();
+    for (const file of baseFiles) {
+        if (!headPaths.has(file.path)) {
+            const removed = removedBySha.get(file.sha) ?? [];
+            removed.push(file);
+            removedBySha.set(file.sha, removed);
+        }
+    }
+
+    for (const file of [...added].sort((a, b) => a.path.localeCompare(b.path))) {
+        const candidates = removedBySha.get(file.sha) ?? [];
+        // When the same content moved more than once, pair files that kept their name first.
+        const matchIndex = Math.max(candidates.findIndex(candidate => getFileName(candidate.path) === getFileName(file.path)), 0);
+        const previous = candidates.splice(matchIndex, 1)[0];
+        if (previous) {
+            entries.push({
+                type: "diff",
+                status: "renamed",
+                path: file.path,
+                previous_path: previous.path,
+                size: file.size,
+                previous_size: previous.size,
+            });
+        } else {
+            entries.push({ type: "diff", status: "added", path: file.path, size: file.size, previous_size: 0 });
+        }
+    }
+
+    for (const file of [...removedBySha.values()].flat()) {
+        entries.push({ type: "diff", status: "removed", path: file.path, size: 0, previous_size: file.size });
+    }
+
+    entries.sort((a, b) => a.path.localeCompare(b.path));
+    return { entries, unchanged };
+}
+
+/**
+ * Totals the changes of a tree diff.
+ * @param {TreeDiff} diff - The tree diff.
+ * @returns {DiffCompleteEvent} The number of files per change and the net size change.
+ */
+export function summarizeTreeDiff({ entries, unchanged }: TreeDiff): DiffCompleteEvent {
+    const summary: DiffCompleteEvent = {
+        type: "diff_complete",
+        added: 0,
+        removed: 0,
+        modified: 0,
+        renamed: 0,
+        unchanged,
+        size_delta: 0,
+    };
+    for (const entry of entries) {
+        summary[entry.status]++;
+        summary.size_delta += entry.size - entry.previous_size;
+    }
+    return summary;
+}
+
+/**
+ * Crawls the trees of two refs one after the other and yields the changes between them.
+ * Status, progress, retry and rate limit events of both crawls are passed through, and each resolved
+ * ref is announced with a `branch` event that names its side. The diff is only sent once both
+ * crawls completed; any crawl error ends the comparison, and so does a directory that could not be listed
+ * on either side, as its files would otherwise show up as removed or added.
+ * @param {GitHubClient} githubClient - The GitHub client to use.
+ * @param {string} owner - The owner of the repository.
+ * @param {string} repo - The repository name.
+ * @param {string} base - The branch, tag or commit SHA to compare from.
+ * @param {string} head - The branch, tag or commit SHA to compare to.
+ * @param {CrawlOptions} options - The crawl concurrency and abort signal.
+ * @returns {AsyncGenerator<StreamEvent, void, unknown>} The stream events, ending with `diff_complete` or `error`
+ * unless the signal is aborted.
+ */
+export async function* compareRepositoryTrees(
+    githubClient: GitHubClient,
+    owner: string,
+    repo: string,
+    base: string,
+    head: string,
+    options: CrawlOptions,
+): AsyncGenerator<StreamEvent, void, unknown> {
+    const filesBySide: Record<"base" | "head", FileEvent[]> = { base: [], head: [] };
+
+    for (const [side, ref] of [["base", base], ["head", head]] as const) {
+        let completed = false;
+        let dirsFailed = 0;
+        for await (const event of crawlRepositoryTree(githubClient, owner, repo, ref, options)) {
+            switch (event.type) {
+                case "file":
+                    filesBySide[side].push(event);
+                    break;
+                case "branch":
+                    // The crawler would read anything after a ref as a folder; only whole trees are compared.
+                    if (event.path) {
+                        yield { type: "error", message: `No branch, tag or commit matching '${ref}' found in repository ${owner}/${repo}.` };
+                        return;
+                    }
+                    yield { ...event, side };
+                    break;
+                case "error":
+                    yield event;
+                    return;
+                case "complete":
+                    completed = true;
+                    break;
+                // Only files are compared; a moved submodule pointer is not a change to this repository's files.
+                case "submodule":
+                    break;
+                case "progress":
+                    dirsFailed = event.dirs_failed;
+                    yield event;
+                    break;
+                default:
+                    yield event;
+            }
+        }
+        if (!completed) {
+            return;
+        }
+        if (dirsFailed > 0) {
+            yield {
+                type: "error",
+                message: `Could not list ${dirsFailed} ${dirsFailed === 1 ? "directory" : "directories"} of '${ref}', so the comparison would be incomplete.`,
+            };
+            return;
+        }
+    }
+
+    yield {
+        type: "status",
+        message: `Comparing ${filesBySide.base.length} files of '${base}' with ${filesBySide.head.length} files of '${head}'...`,
+    };
+
+    const diff = diffTrees(filesBySide.base, filesBySide.head);
+    for (const entry of diff.entries) {
+        yield entry;
+    }
+    yield summarizeTreeDiff(diff);
+}
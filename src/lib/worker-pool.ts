@@ -0,0 +1,169 @@
+import { sleep } from "./retry";
+
+export type WorkerPoolEvent<T, R> =
+    | { type: "fulfilled"; task: T; value: R }
+    | { type: "rejected"; task: T; error: unknown }
+    | { type: "throttled"; task: T; error: unknown; delayMs: number; concurrency: number };
+
+export interface WorkerPoolOptions {
+    /** The maximum number of tasks running at the same time. */
+    concurrency: number;
+    /**
+     * Decides whether a failed task was rejected because the upstream asked us to slow down.
+     * Returns how long to pause before dispatching again, or null for ordinary failures.
+     */
+    getBackoffDelay?: (error: unknown) => number | null;
+    /** How many times a single task may be re-queued after being throttled. */
+    maxThrottleRetries?: number;
+    /** Stops dispatching and ends the run when aborted; tasks still in flight are abandoned. */
+    signal?: AbortSignal;
+}
+
+interface SettledTask<T, R> {
+    id: number;
+    task: T;
+    ok: boolean;
+    value?: R;
+    error?: unknown;
+}
+
+const DEFAULT_MAX_THROTTLE_RETRIES = 3;
+
+/**
+ * Runs tasks with bounded concurrency and yields their results in completion order.
+ * Tasks can be pushed while the results are being consumed, which makes the pool suitable for
+ * crawls where each result discovers more work. When a task is throttled the pool halves its
+ * concurrency, pauses dispatching and re-queues the task; it grows back by one slot after a
+ * full round of successful tasks.
+ */
+export class WorkerPool<T, R> {
+    private readonly queue: T[] = [];
+    private readonly inFlight = new Map<number, Promise<SettledTask<T, R>>>();
+    private readonly throttleCounts = new Map<T, number>();
+    private readonly maxConcurrency: number;
+    private readonly maxThrottleRetries: number;
+    private concurrency: number;
+    private successStreak = 0;
+    private resumeAt = 0;
+    private nextId = 0;
+
+    /**
+     * Creates an instance of WorkerPool.
+     * @param {function} worker - The function that processes a single task.
+     * @param {WorkerPoolOptions} options - The pool settings.
+     * @throws {Error} If the concurrency is not a positive integer.
+     */
+    constructor(
+        private readonly worker: (task: T) => Promise<R>,
+        private readonly options: WorkerPoolOptions,
+    ) {
+        if (!Number.isInteger(options.concurrency) || options.concurrency < 1) {
+            throw new Error("Worker pool concurrency must be a positive integer.");
+        }
+        this.maxConcurrency = options.concurrency;
+        this.concurrency = options.concurrency;
+        this.maxThrottleRetries = options.maxThrottleRetries ?? DEFAULT_MAX_THROTTLE_RETRIES;
+    }
+
+    /**
+     * The number of tasks currently allowed to run at the same time.
+     */
+    get currentConcurrency(): number {
+        return this.concurrency;
+    }
+
+    /**
+     * Adds tasks to the end of the queue.
+     * @param {T[]} tasks - The tasks to add.
+     */
+    push(...tasks: T[]): void {
+        this.queue.push(...tasks);
+    }
+
+    /**
+     * Runs queued tasks until the queue is empty and nothing is in flight, or the signal is aborted.
+     * @returns {AsyncGenerator<WorkerPoolEvent<T, R>, void, unknown>} The task results, in completion order.
+     */
+    async *run(): AsyncGenerator<WorkerPoolEvent<T, R>, void, unknown> {
+        while (this.queue.length > 0 || this.inFlight.size > 0) {
+            if (this.options.signal?.aborted) {
+                return;
+            }
+            this.dispatch();
+
+            const waiters: Promise<SettledTask<T, R> | null>[] = [...this.inFlight.values()];
+            const pauseLeft = this.resumeAt - Date.now();
+            if (this.queue.length > 0 && pauseLeft > 0) {
+                waiters.push(sleep(pauseLeft, this.options.signal).then(() => null, () => null));
+            }
+
+            const settled = await Promise.race(waiters);
+            if (!settled || this.options.signal?.aborted) {
+                continue;
+            }
+            this.inFlight.delete(settled.id);
+
+            if (settled.ok) {
+                this.recordSuccess();
+                yield { type: "fulfilled", task: settled.task, value: settled.value as R };
+                continue;
+            }
+
+            const delayMs = this.options.getBackoffDelay?.(settled.error) ?? null;
+            const throttleCount = this.throttleCounts.get(settled.task) ?? 0;
+            if (delayMs !== null && throttleCount < this.maxThrottleRetries) {
+                this.throttleCounts.set(settled.task, throttleCount + 1);
+                this.throttle(delayMs);
+                this.queue.unshift(settled.task);
+                yield {
+                    type: "throttled",
+                    task: settled.task,
+                    error: settled.error,
+                    delayMs,
+                    concurrency: this.concurrency,
+                };
+                continue;
+            }
+
+            yield { type: "rejected", task: settled.task, error: settled.error };
+        }
+    }
+
+    /**
+     * Starts queued tasks until the concurrency limit is reached, unless dispatching is paused.
+     */
+    private dispatch(): void {
+        if (Date.now() < this.resumeAt) {
+            return;
+        }
+        while (this.inFlight.size < this.concurrency && this.queue.length > 0) {
+            const task = this.queue.shift() as T;
+            const id = this.nextId++;
+            this.inFlight.set(id, this.worker(task).then(
+                (value): SettledTask<T, R> => ({ id, task, ok: true, value }),
+                (error: unknown): SettledTask<T, R> => ({ id, task, ok: false, error }),
+            ));
+        }
+    }
+
+    /**
+     * Halves the concurrency and pauses dispatching for the given delay.
+     * @param {number} delayMs - How long to pause, in milliseconds.
+     */
+    private throttle(delayMs: number): void {
+        this.concurrency = Math.max(1, Math.floor(this.concurrency / 2));
+        this.successStreak = 0;
+        this.resumeAt = Math.max(this.resumeAt, Date.now() + delayMs);
+    }
+
+    /**
+     * Grows the concurrency by one slot after a full round of successful tasks.
+     */
+    private recordSuccess(): void {
+        this.successStreak++;
+        if (this.successStreak >= this.concurrency && this.concurrency < this.maxConcurrency) {
+            this.concurrency++;
+            this.successStreak = 0;
+        }
+    }
+}